@@ -0,0 +1,228 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, InternalServerErrorException, NotFoundException } from '@nestjs/common';
+import { AdminController } from './admin.controller';
+import { UsersService } from '../users/users.service';
+import { BooksService } from '../books/books.service';
+import { BookTaxonomyService } from '../books/book-taxonomy.service';
+import { PublishingBansService } from '../publishing-bans/publishing-bans.service';
+import { Role } from '../users/role.enum';
+import { User } from '../users/user.entity';
+
+describe('AdminController', () => {
+    let adminController: AdminController;
+    let usersService: Partial<UsersService>;
+    let booksService: Partial<BooksService>;
+    let publishingBansService: Partial<PublishingBansService>;
+    let bookTaxonomyService: Partial<BookTaxonomyService>;
+
+    const mockRequest = (user = { id: 1, role: Role.Admin }) => ({
+        user,
+        originalUrl: '/admin/users',
+        protocol: 'http',
+        get: () => 'localhost:3000',
+    });
+
+    beforeEach(async () => {
+        usersService = {
+            findAll: jest.fn(),
+            setRole: jest.fn(),
+            setSuspended: jest.fn(),
+        };
+        booksService = {
+            moderateUnpublish: jest.fn(),
+        };
+        publishingBansService = {
+            findActive: jest.fn(),
+            ban: jest.fn(),
+            lift: jest.fn(),
+            findAttempts: jest.fn(),
+        };
+        bookTaxonomyService = {
+            createGenre: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [AdminController],
+            providers: [
+                { provide: UsersService, useValue: usersService },
+                { provide: BooksService, useValue: booksService },
+                { provide: PublishingBansService, useValue: publishingBansService },
+                { provide: BookTaxonomyService, useValue: bookTaxonomyService },
+            ],
+        }).compile();
+
+        adminController = module.get<AdminController>(AdminController);
+    });
+
+    describe('listUsers', () => {
+        it('should return a page of users without passwords', async () => {
+            jest.spyOn(usersService, 'findAll').mockResolvedValue({
+                data: [{ id: 2, username: 'chewie', role: Role.Author } as any],
+                meta: { total: 1, limit: 20, page: 1, totalPages: 1 },
+            });
+            const res = { setHeader: jest.fn() };
+
+            const result = await adminController.listUsers({}, mockRequest(), res);
+
+            expect(result.data).toEqual([{ id: 2, username: 'chewie', role: Role.Author }]);
+            expect(result.links.first).toBe('http://localhost:3000/admin/users?page=1');
+            expect(res.setHeader).toHaveBeenCalledWith('Link', expect.stringContaining('rel="first"'));
+        });
+
+        it('should show admins the email address and moderation fields', async () => {
+            const suspendedAt = new Date('2025-01-01T00:00:00Z');
+            const user = Object.assign(new User(), {
+                id: 2,
+                username: 'chewie',
+                password: 'hash',
+                email: 'chewie@kashyyyk.example',
+                role: Role.Author,
+                suspendedAt,
+                suspensionReason: 'Spam',
+            });
+            jest.spyOn(usersService, 'findAll').mockResolvedValue({
+                data: [user],
+                meta: { total: 1, limit: 20, page: 1, totalPages: 1 },
+            });
+
+            const result = await adminController.listUsers({}, mockRequest(), { setHeader: jest.fn() });
+
+            expect(result.data).toEqual([
+                {
+                    id: 2,
+                    username: 'chewie',
+                    email: 'chewie@kashyyyk.example',
+                    role: Role.Author,
+                    suspendedAt,
+                    suspensionReason: 'Spam',
+                },
+            ]);
+        });
+
+        it('should throw InternalServerErrorException on unexpected error', async () => {
+            jest.spyOn(usersService, 'findAll').mockRejectedValue(new Error('Unexpected error'));
+
+            await expect(adminController.listUsers({}, mockRequest(), { setHeader: jest.fn() })).rejects.toThrow(
+                InternalServerErrorException,
+            );
+        });
+    });
+
+    describe('updateRole', () => {
+        it('should change the role of a user', async () => {
+            jest.spyOn(usersService, 'setRole').mockResolvedValue({ id: 2, role: Role.Moderator } as any);
+
+            const result = await adminController.updateRole(2, { role: Role.Moderator });
+
+            expect(usersService.setRole).toHaveBeenCalledWith(2, Role.Moderator);
+            expect(result).toEqual({ id: 2, role: Role.Moderator });
+        });
+
+        it('should rethrow NotFoundException', async () => {
+            jest.spyOn(usersService, 'setRole').mockRejectedValue(new NotFoundException());
+
+            await expect(adminController.updateRole(99, { role: Role.Reader })).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('suspendUser', () => {
+        it('should suspend a user with a reason', async () => {
+            jest.spyOn(usersService, 'setSuspended').mockResolvedValue({ id: 2 } as any);
+
+            await adminController.suspendUser(mockRequest(), 2, { reason: 'Sith propaganda' });
+
+            expect(usersService.setSuspended).toHaveBeenCalledWith(2, true, 'Sith propaganda');
+        });
+
+        it('should not let admins suspend themselves', async () => {
+            await expect(adminController.suspendUser(mockRequest(), 1, {})).rejects.toThrow(BadRequestException);
+            expect(usersService.setSuspended).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('unsuspendUser', () => {
+        it('should reinstate a user', async () => {
+            jest.spyOn(usersService, 'setSuspended').mockResolvedValue({ id: 2 } as any);
+
+            await adminController.unsuspendUser(2);
+
+            expect(usersService.setSuspended).toHaveBeenCalledWith(2, false);
+        });
+    });
+
+    describe('unpublishBook', () => {
+        it('should unpublish any book', async () => {
+            jest.spyOn(booksService, 'moderateUnpublish').mockResolvedValue({ id: 5, isPublished: false } as any);
+
+            const result = await adminController.unpublishBook(5);
+
+            expect(booksService.moderateUnpublish).toHaveBeenCalledWith(5);
+            expect(result).toEqual({ id: 5, isPublished: false });
+        });
+
+        it('should rethrow NotFoundException', async () => {
+            jest.spyOn(booksService, 'moderateUnpublish').mockRejectedValue(new NotFoundException());
+
+            await expect(adminController.unpublishBook(5)).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('createGenre', () => {
+        it('should add the genre', async () => {
+            jest.spyOn(bookTaxonomyService, 'createGenre').mockResolvedValue({ id: 7, slug: 'droid-romance', name: 'Droid Romance' });
+
+            const result = await adminController.createGenre({ name: 'Droid Romance' });
+
+            expect(bookTaxonomyService.createGenre).toHaveBeenCalledWith('Droid Romance');
+            expect(result).toEqual({ id: 7, slug: 'droid-romance', name: 'Droid Romance' });
+        });
+
+        it('should rethrow ConflictException', async () => {
+            jest.spyOn(bookTaxonomyService, 'createGenre').mockRejectedValue(new ConflictException());
+
+            await expect(adminController.createGenre({ name: 'Jedi Lore' })).rejects.toThrow(ConflictException);
+        });
+    });
+
+    describe('banPublisher', () => {
+        it('should ban a name on behalf of the admin', async () => {
+            jest.spyOn(publishingBansService, 'ban').mockResolvedValue({ id: 2, name: 'Boba Fett' } as any);
+            const req = mockRequest();
+
+            const result = await adminController.banPublisher(req, { name: 'Boba Fett', reason: 'Bounty hunter' });
+
+            expect(publishingBansService.ban).toHaveBeenCalledWith('Boba Fett', 'Bounty hunter', req.user);
+            expect(result).toEqual({ id: 2, name: 'Boba Fett' });
+        });
+
+        it('should rethrow ConflictException', async () => {
+            jest.spyOn(publishingBansService, 'ban').mockRejectedValue(new ConflictException());
+
+            await expect(adminController.banPublisher(mockRequest(), { name: 'Darth Vader' })).rejects.toThrow(
+                ConflictException,
+            );
+        });
+    });
+
+    describe('liftBan', () => {
+        it('should rethrow NotFoundException', async () => {
+            jest.spyOn(publishingBansService, 'lift').mockRejectedValue(new NotFoundException());
+
+            await expect(adminController.liftBan(9)).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('listBlockedAttempts', () => {
+        it('should return a page of blocked attempts', async () => {
+            jest.spyOn(publishingBansService, 'findAttempts').mockResolvedValue({
+                data: [{ id: 1, username: 'Darth Vader', action: 'create' } as any],
+                meta: { total: 1, limit: 20, page: 1, totalPages: 1 },
+            });
+
+            const result = await adminController.listBlockedAttempts({ userId: 5 }, mockRequest(), { setHeader: jest.fn() });
+
+            expect(publishingBansService.findAttempts).toHaveBeenCalledWith({ userId: 5 });
+            expect(result.data).toEqual([{ id: 1, username: 'Darth Vader', action: 'create' }]);
+        });
+    });
+});
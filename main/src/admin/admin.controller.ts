@@ -0,0 +1,278 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Patch,
+    Delete,
+    Param,
+    Body,
+    Query,
+    Req,
+    Res,
+    ParseIntPipe,
+    BadRequestException,
+    InternalServerErrorException,
+    HttpException,
+} from '@nestjs/common';
+import { instanceToPlain } from 'class-transformer';
+import { UsersService } from '../users/users.service';
+import { USER_ADMIN_GROUPS } from '../users/user.entity';
+import { BooksService } from '../books/books.service';
+import { BookTaxonomyService } from '../books/book-taxonomy.service';
+import { PublishingBansService } from '../publishing-bans/publishing-bans.service';
+import { Role } from '../users/role.enum';
+import { Roles } from '../auth/roles.decorator';
+import { XmlRoot } from '../common/xml';
+import { buildPaginationLinks, formatLinkHeader } from '../common/pagination';
+import { UserListQueryDto } from '../users/user-list-query.dto';
+import { BlockedAttemptsQueryDto } from '../publishing-bans/blocked-attempts-query.dto';
+import { UpdateRoleDto } from './update-role.dto';
+import { SuspendUserDto } from './suspend-user.dto';
+import { BanPublisherDto } from './ban-publisher.dto';
+import { CreateGenreDto } from './create-genre.dto';
+
+@Controller('admin')
+@Roles(Role.Admin)
+export class AdminController {
+    constructor(
+        private readonly usersService: UsersService,
+        private readonly booksService: BooksService,
+        private readonly publishingBansService: PublishingBansService,
+        private readonly bookTaxonomyService: BookTaxonomyService,
+    ) { }
+
+    /**
+     * Lists all user accounts
+     *
+     * @param query - Pagination, sorting and an optional `role` filter
+     * @param req - The request object, used to build pagination links
+     * @param res - The response object, used to set the `Link` header
+     * @returns A page of users
+     * @throws BadRequestException if a query parameter is invalid
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Get('users')
+    @XmlRoot('users', 'user')
+    async listUsers(@Query() query: UserListQueryDto, @Req() req, @Res({ passthrough: true }) res) {
+        try {
+            const page = await this.usersService.findAll(query);
+            const links = buildPaginationLinks(req, page.meta);
+            const linkHeader = formatLinkHeader(links);
+
+            if (linkHeader) {
+                res.setHeader('Link', linkHeader);
+            }
+
+            return instanceToPlain({ ...page, links }, { groups: USER_ADMIN_GROUPS });
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while fetching users', { cause: error });
+        }
+    }
+
+    /**
+     * Changes the role of a user
+     *
+     * @param id - The ID of the user
+     * @param body - The new role
+     * @returns The updated user
+     * @throws BadRequestException if the role is invalid
+     * @throws NotFoundException if the user does not exist
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Patch('users/:id/role')
+    @XmlRoot('user')
+    async updateRole(@Param('id', ParseIntPipe) id: number, @Body() body: UpdateRoleDto) {
+        try {
+            return instanceToPlain(await this.usersService.setRole(id, body?.role), { groups: USER_ADMIN_GROUPS });
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while changing the user role', { cause: error });
+        }
+    }
+
+    /**
+     * Suspends a user account
+     *
+     * @param id - The ID of the user
+     * @param body - An optional suspension reason
+     * @returns The suspended user
+     * @throws BadRequestException if an admin tries to suspend themselves
+     * @throws NotFoundException if the user does not exist
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Post('users/:id/suspend')
+    @XmlRoot('user')
+    async suspendUser(@Req() req, @Param('id', ParseIntPipe) id: number, @Body() body: SuspendUserDto) {
+        try {
+            if (req.user?.id === id) {
+                throw new BadRequestException('You cannot suspend your own account');
+            }
+
+            return instanceToPlain(await this.usersService.setSuspended(id, true, body?.reason), { groups: USER_ADMIN_GROUPS });
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while suspending the user', { cause: error });
+        }
+    }
+
+    /**
+     * Reinstates a suspended user account
+     *
+     * @param id - The ID of the user
+     * @returns The reinstated user
+     * @throws NotFoundException if the user does not exist
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Post('users/:id/unsuspend')
+    @XmlRoot('user')
+    async unsuspendUser(@Param('id', ParseIntPipe) id: number) {
+        try {
+            return instanceToPlain(await this.usersService.setSuspended(id, false), { groups: USER_ADMIN_GROUPS });
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while reinstating the user', { cause: error });
+        }
+    }
+
+    /**
+     * Unpublishes any book, regardless of its author
+     *
+     * @param id - The ID of the book
+     * @returns The unpublished book
+     * @throws NotFoundException if the book does not exist
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Post('books/:id/unpublish')
+    @Roles(Role.Moderator)
+    @XmlRoot('book')
+    async unpublishBook(@Param('id', ParseIntPipe) id: number) {
+        try {
+            return instanceToPlain(await this.booksService.moderateUnpublish(id));
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while unpublishing the book', { cause: error });
+        }
+    }
+
+    /**
+     * Adds a genre authors can file their books under
+     *
+     * @param body - The name of the genre
+     * @returns The created genre
+     * @throws BadRequestException if the name is invalid
+     * @throws ConflictException if a genre with the same slug exists
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Post('genres')
+    @XmlRoot('genre')
+    async createGenre(@Body() body: CreateGenreDto) {
+        try {
+            return instanceToPlain(await this.bookTaxonomyService.createGenre(body?.name));
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while creating the genre', { cause: error });
+        }
+    }
+
+    /**
+     * Lists the publishing bans currently in force
+     *
+     * @returns The active bans
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Get('banned-publishers')
+    @XmlRoot('bannedPublishers', 'bannedPublisher')
+    async listBannedPublishers() {
+        return instanceToPlain(await this.publishingBansService.findActive());
+    }
+
+    /**
+     * Bans a username or author pseudonym from creating, updating and republishing books
+     *
+     * @param req - The request object containing the admin
+     * @param body - The name to ban and an optional reason
+     * @returns The created ban
+     * @throws BadRequestException if the name is invalid
+     * @throws ConflictException if the name is already banned
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Post('banned-publishers')
+    @XmlRoot('bannedPublisher')
+    async banPublisher(@Req() req, @Body() body: BanPublisherDto) {
+        try {
+            return instanceToPlain(await this.publishingBansService.ban(body?.name, body?.reason, req.user));
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while banning the publisher', { cause: error });
+        }
+    }
+
+    /**
+     * Lifts a publishing ban
+     *
+     * @param id - The ID of the ban
+     * @returns The lifted ban
+     * @throws NotFoundException if no active ban has this ID
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Delete('banned-publishers/:id')
+    @XmlRoot('bannedPublisher')
+    async liftBan(@Param('id', ParseIntPipe) id: number) {
+        try {
+            return instanceToPlain(await this.publishingBansService.lift(id));
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while lifting the ban', { cause: error });
+        }
+    }
+
+    /**
+     * Lists publishing attempts blocked by a ban
+     *
+     * @param query - Pagination, sorting and an optional `userId` filter
+     * @param req - The request object, used to build pagination links
+     * @param res - The response object, used to set the `Link` header
+     * @returns A page of blocked attempts, newest first
+     * @throws BadRequestException if a query parameter is invalid
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Get('banned-publishers/attempts')
+    @XmlRoot('attempts', 'attempt')
+    async listBlockedAttempts(@Query() query: BlockedAttemptsQueryDto, @Req() req, @Res({ passthrough: true }) res) {
+        try {
+            const page = await this.publishingBansService.findAttempts(query);
+            const links = buildPaginationLinks(req, page.meta);
+            const linkHeader = formatLinkHeader(links);
+
+            if (linkHeader) {
+                res.setHeader('Link', linkHeader);
+            }
+
+            return instanceToPlain({ ...page, links });
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while fetching blocked attempts', {
+                cause: error,
+            });
+        }
+    }
+}
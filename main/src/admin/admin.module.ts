@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { UsersModule } from '../users/users.module';
+import { BooksModule } from '../books/books.module';
+import { PublishingBansModule } from '../publishing-bans/publishing-bans.module';
+import { AdminController } from './admin.controller';
+
+@Module({
+  imports: [UsersModule, BooksModule, PublishingBansModule],
+  controllers: [AdminController],
+})
+export class AdminModule {}
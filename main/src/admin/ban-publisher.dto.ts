@@ -0,0 +1,24 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+/**
+ * DTO for banning a publisher
+ */
+export class BanPublisherDto {
+    /**
+     * Username or author pseudonym to ban; matched ignoring case, accents, spaces and punctuation
+     * @example "Darth Vader"
+     */
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+
+    /**
+     * Why the publisher is banned; shown to them when publishing is refused
+     * @example "Darth Vader is not allowed to publish Wookie books."
+     */
+    @IsString()
+    @MaxLength(500)
+    @IsOptional()
+    reason?: string;
+}
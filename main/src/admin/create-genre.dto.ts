@@ -0,0 +1,15 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * DTO for adding a genre
+ */
+export class CreateGenreDto {
+    /**
+     * Display name of the genre; its slug is derived from it
+     * @example "Kashyyyk Adventures"
+     */
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(100)
+    name: string;
+}
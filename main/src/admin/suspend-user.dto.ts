@@ -0,0 +1,15 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+/**
+ * DTO for suspending a user
+ */
+export class SuspendUserDto {
+    /**
+     * Why the account is suspended
+     * @example "Publishing Sith propaganda"
+     */
+    @IsString()
+    @MaxLength(500)
+    @IsOptional()
+    reason?: string;
+}
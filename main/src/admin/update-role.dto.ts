@@ -0,0 +1,14 @@
+import { IsEnum } from 'class-validator';
+import { Role } from '../users/role.enum';
+
+/**
+ * DTO for changing a user's role
+ */
+export class UpdateRoleDto {
+    /**
+     * The new role of the user
+     * @example "moderator"
+     */
+    @IsEnum(Role)
+    role: Role;
+}
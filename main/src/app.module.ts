@@ -1,30 +1,70 @@
-import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { MiddlewareConsumer, Module, NestModule, ValidationPipe } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
 import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
 import { BooksModule } from './books/books.module';
-import { JwtStrategy } from './auth/jwt.strategy';
-import { APP_GUARD } from '@nestjs/core';
+import { AdminModule } from './admin/admin.module';
+import { OrdersModule } from './orders/orders.module';
+import { PaymentsModule } from './payments/payments.module';
+import { DonationsModule } from './donations/donations.module';
+import { ReviewsModule } from './reviews/reviews.module';
+import { ManuscriptsModule } from './manuscripts/manuscripts.module';
+import { JwtAuthGuard } from './auth/jwt-auth.guard';
+import { RolesGuard } from './auth/roles.guard';
+import { APP_FILTER, APP_GUARD, APP_INTERCEPTOR, APP_PIPE } from '@nestjs/core';
+import { XmlBodyMiddleware, XmlInterceptor } from './common/xml';
+import { HttpExceptionFilter, RequestIdMiddleware } from './common/errors';
+import { VALIDATION_PIPE_OPTIONS } from './common/validation';
+import { PendingMigrationsError, assertNoPendingMigrations, createDataSourceOptions } from './database';
+import { AppConfigModule, AppConfigService } from './config';
 
 @Module({
   providers: [
     {
       provide: APP_GUARD,
-      useClass: JwtStrategy,
+      useClass: JwtAuthGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: RolesGuard,
+    },
+    {
+      provide: APP_INTERCEPTOR,
+      useClass: XmlInterceptor,
+    },
+    {
+      provide: APP_PIPE,
+      useValue: new ValidationPipe(VALIDATION_PIPE_OPTIONS),
+    },
+    {
+      provide: APP_FILTER,
+      useClass: HttpExceptionFilter,
     },
   ],
   imports: [
-    ConfigModule.forRoot({ isGlobal: true }),
-    TypeOrmModule.forRoot({
-      type: 'sqlite',
-      database: 'database.sqlite',
-      entities: [__dirname + '/**/*.entity{.ts,.js}'],
-      synchronize: true,
+    AppConfigModule,
+    TypeOrmModule.forRootAsync({
+      inject: [AppConfigService],
+      useFactory: (config: AppConfigService) => ({
+        ...createDataSourceOptions(config.database),
+        toRetry: (error) => !(error instanceof PendingMigrationsError),
+      }),
+      dataSourceFactory: async (options) => assertNoPendingMigrations(await new DataSource(options).initialize()),
     }),
     AuthModule,
     UsersModule,
     BooksModule,
+    AdminModule,
+    OrdersModule,
+    PaymentsModule,
+    DonationsModule,
+    ReviewsModule,
+    ManuscriptsModule,
   ],
 })
-export class AppModule {}
\ No newline at end of file
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(RequestIdMiddleware, XmlBodyMiddleware).forRoutes('*');
+  }
+}
@@ -1,7 +1,13 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
-import { UnauthorizedException, InternalServerErrorException } from '@nestjs/common';
+import {
+    UnauthorizedException,
+    InternalServerErrorException,
+    BadRequestException,
+    ConflictException,
+    GoneException,
+} from '@nestjs/common';
 
 describe('AuthController', () => {
     let authController: AuthController;
@@ -11,6 +17,10 @@ describe('AuthController', () => {
         authService = {
             validateUser: jest.fn(),
             login: jest.fn(),
+            register: jest.fn(),
+            refresh: jest.fn(),
+            logout: jest.fn(),
+            restoreAccount: jest.fn(),
         };
 
         const module: TestingModule = await Test.createTestingModule({
@@ -29,7 +39,7 @@ describe('AuthController', () => {
     describe('login', () => {
         it('should return an access token for valid credentials', async () => {
             const mockUser = { id: 1, username: 'testuser' };
-            const mockToken = { access_token: 'test.jwt.token' };
+            const mockToken = { access_token: 'test.jwt.token', refresh_token: 'test-refresh-token' };
 
             jest.spyOn(authService, 'validateUser').mockResolvedValue(mockUser);
             jest.spyOn(authService, 'login').mockResolvedValue(mockToken);
@@ -60,4 +70,101 @@ describe('AuthController', () => {
             expect(authService.validateUser).toHaveBeenCalledWith('testuser', 'password123');
         });
     });
+
+    describe('restore', () => {
+        it('should restore the account and return new tokens', async () => {
+            const mockToken = { access_token: 'test.jwt.token', refresh_token: 'test-refresh-token' };
+            jest.spyOn(authService, 'restoreAccount').mockResolvedValue(mockToken);
+
+            const result = await authController.restore({ username: 'testuser', password: 'password123' });
+
+            expect(authService.restoreAccount).toHaveBeenCalledWith('testuser', 'password123');
+            expect(result).toEqual(mockToken);
+        });
+
+        it('should throw BadRequestException if credentials are missing', async () => {
+            await expect(authController.restore({ username: 'testuser' } as any)).rejects.toThrow(BadRequestException);
+            expect(authService.restoreAccount).not.toHaveBeenCalled();
+        });
+
+        it('should rethrow GoneException once the account can no longer be restored', async () => {
+            jest.spyOn(authService, 'restoreAccount').mockRejectedValue(new GoneException());
+
+            await expect(authController.restore({ username: 'testuser', password: 'password123' })).rejects.toThrow(
+                GoneException,
+            );
+        });
+    });
+
+    describe('register', () => {
+        const body = { username: 'lohgarra', password: 'kashyyyk42', authorPseudonym: 'Lohgarra' };
+
+        it('should register the user and return an access token', async () => {
+            const mockToken = { access_token: 'test.jwt.token', refresh_token: 'test-refresh-token' };
+            jest.spyOn(authService, 'register').mockResolvedValue(mockToken);
+
+            const result = await authController.register(body);
+
+            expect(authService.register).toHaveBeenCalledWith(body);
+            expect(result).toEqual(mockToken);
+        });
+
+        it('should throw BadRequestException if the pseudonym is missing', async () => {
+            await expect(
+                authController.register({ username: 'lohgarra', password: 'kashyyyk42' } as any),
+            ).rejects.toThrow(BadRequestException);
+            expect(authService.register).not.toHaveBeenCalled();
+        });
+
+        it('should rethrow ConflictException for duplicate usernames', async () => {
+            jest.spyOn(authService, 'register').mockRejectedValue(new ConflictException('Username is already taken'));
+
+            await expect(authController.register(body)).rejects.toThrow(ConflictException);
+        });
+
+        it('should throw InternalServerErrorException for unexpected errors', async () => {
+            jest.spyOn(authService, 'register').mockRejectedValue(new Error('Unexpected error'));
+
+            await expect(authController.register(body)).rejects.toThrow(InternalServerErrorException);
+        });
+    });
+
+    describe('refresh', () => {
+        it('should return a rotated token pair', async () => {
+            const tokens = { access_token: 'new.jwt.token', refresh_token: 'new-refresh' };
+            jest.spyOn(authService, 'refresh').mockResolvedValue(tokens);
+
+            const result = await authController.refresh({ refresh_token: 'old-refresh' });
+
+            expect(authService.refresh).toHaveBeenCalledWith('old-refresh');
+            expect(result).toEqual(tokens);
+        });
+
+        it('should throw BadRequestException if the refresh token is missing', async () => {
+            await expect(authController.refresh({} as any)).rejects.toThrow(BadRequestException);
+        });
+
+        it('should rethrow UnauthorizedException for rejected tokens', async () => {
+            jest.spyOn(authService, 'refresh').mockRejectedValue(new UnauthorizedException());
+
+            await expect(authController.refresh({ refresh_token: 'reused' })).rejects.toThrow(UnauthorizedException);
+        });
+    });
+
+    describe('logout', () => {
+        it('should revoke the session', async () => {
+            jest.spyOn(authService, 'logout').mockResolvedValue({ message: 'Logged out successfully' });
+
+            const result = await authController.logout({ refresh_token: 'refresh' });
+
+            expect(authService.logout).toHaveBeenCalledWith('refresh');
+            expect(result).toEqual({ message: 'Logged out successfully' });
+        });
+
+        it('should throw InternalServerErrorException for unexpected errors', async () => {
+            jest.spyOn(authService, 'logout').mockRejectedValue(new Error('Unexpected error'));
+
+            await expect(authController.logout({ refresh_token: 'refresh' })).rejects.toThrow(InternalServerErrorException);
+        });
+    });
 });
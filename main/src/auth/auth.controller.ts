@@ -2,24 +2,25 @@ import {
     Controller,
     Post,
     Body,
-    UnauthorizedException,
+    HttpCode,
+    HttpStatus,
     BadRequestException,
     InternalServerErrorException,
+    HttpException,
 } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
 import { AuthService } from './auth.service';
-import { IsString, IsNotEmpty } from 'class-validator';
-
-class LoginDto {
-    @IsString()
-    @IsNotEmpty()
-    username: string;
-
-    @IsString()
-    @IsNotEmpty()
-    password: string;
-}
+import { XmlRoot } from '../common/xml';
+import { ApiErrorResponses } from '../common/openapi';
+import { Public } from './public.decorator';
+import { InvalidCredentialsException } from '../common/errors';
+import { LoginDto } from './login.dto';
+import { RegisterDto } from './register.dto';
+import { RefreshTokenDto } from './refresh-token.dto';
 
 @Controller('auth')
+@ApiTags('auth')
+@Public()
 export class AuthController {
     constructor(private readonly authService: AuthService) { }
 
@@ -32,21 +33,151 @@ export class AuthController {
      * @throws {InternalServerErrorException} If an unexpected error occurs
      */
     @Post('login')
+    @ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.UNAUTHORIZED, HttpStatus.INTERNAL_SERVER_ERROR)
+    @XmlRoot('token')
     async login(@Body() body: LoginDto) {
         try {
             const user = await this.authService.validateUser(body.username, body.password);
 
             if (!user) {
-                throw new UnauthorizedException('Invalid username or password');
+                throw new InvalidCredentialsException();
             }
 
             return this.authService.login(user);
         } catch (error) {
-            if (error instanceof UnauthorizedException || error instanceof BadRequestException) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException('An unexpected error occurred', { cause: error });
+        }
+    }
+
+    /**
+     * Restores an account deleted within the grace period and returns a JWT token
+     * 
+     * @param body - LoginDto object containing the username and password of the deleted account
+     * @returns A JWT token for the restored user
+     * @throws {BadRequestException} If the username or password is missing
+     * @throws {UnauthorizedException} If the username or password is invalid
+     * @throws {ConflictException} If the account is not deleted
+     * @throws {GoneException} If the grace period has ended
+     * @throws {InternalServerErrorException} If an unexpected error occurs
+     */
+    @Post('restore')
+    @ApiErrorResponses(
+        HttpStatus.BAD_REQUEST,
+        HttpStatus.UNAUTHORIZED,
+        HttpStatus.CONFLICT,
+        HttpStatus.GONE,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+    )
+    @HttpCode(HttpStatus.OK)
+    @XmlRoot('token')
+    async restore(@Body() body: LoginDto) {
+        try {
+            if (!body?.username || !body?.password) {
+                throw new BadRequestException('Username and password are required');
+            }
+
+            return await this.authService.restoreAccount(body.username, body.password);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException('An unexpected error occurred', { cause: error });
+        }
+    }
+
+    /**
+     * Registers a new author and returns a JWT token
+     * 
+     * @param body - RegisterDto object containing username, password, author pseudonym and optional email address
+     * @returns A JWT token for the newly created user
+     * @throws {BadRequestException} If a field is missing, the password does not satisfy the policy or the email address is invalid
+     * @throws {ConflictException} If the username is already taken
+     * @throws {InternalServerErrorException} If an unexpected error occurs
+     */
+    @Post('register')
+    @ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.CONFLICT, HttpStatus.INTERNAL_SERVER_ERROR)
+    @XmlRoot('token')
+    async register(@Body() body: RegisterDto) {
+        try {
+            if (!body?.username || !body?.password || !body?.authorPseudonym) {
+                throw new BadRequestException('Username, password and author pseudonym are required');
+            }
+
+            return await this.authService.register({
+                username: body.username,
+                password: body.password,
+                authorPseudonym: body.authorPseudonym,
+                email: body.email,
+            });
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException('An unexpected error occurred', { cause: error });
+        }
+    }
+
+    /**
+     * Exchanges a refresh token for a new access token and refresh token
+     * 
+     * @param body - RefreshTokenDto object containing the refresh token
+     * @returns A new JWT token and a rotated refresh token
+     * @throws {BadRequestException} If the refresh token is missing
+     * @throws {UnauthorizedException} If the refresh token is invalid, expired or reused
+     * @throws {InternalServerErrorException} If an unexpected error occurs
+     */
+    @Post('refresh')
+    @ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.UNAUTHORIZED, HttpStatus.INTERNAL_SERVER_ERROR)
+    @HttpCode(HttpStatus.OK)
+    @XmlRoot('token')
+    async refresh(@Body() body: RefreshTokenDto) {
+        try {
+            if (!body?.refresh_token) {
+                throw new BadRequestException('Refresh token is required');
+            }
+
+            return await this.authService.refresh(body.refresh_token);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException('An unexpected error occurred', { cause: error });
+        }
+    }
+
+    /**
+     * Logs out by revoking every refresh token of the session
+     * 
+     * @param body - RefreshTokenDto object containing the refresh token
+     * @returns A success message
+     * @throws {BadRequestException} If the refresh token is missing
+     * @throws {UnauthorizedException} If the refresh token is invalid
+     * @throws {InternalServerErrorException} If an unexpected error occurs
+     */
+    @Post('logout')
+    @ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.UNAUTHORIZED, HttpStatus.INTERNAL_SERVER_ERROR)
+    @HttpCode(HttpStatus.OK)
+    @XmlRoot('response')
+    async logout(@Body() body: RefreshTokenDto) {
+        try {
+            if (!body?.refresh_token) {
+                throw new BadRequestException('Refresh token is required');
+            }
+
+            return await this.authService.logout(body.refresh_token);
+        } catch (error) {
+            if (error instanceof HttpException) {
                 throw error;
             }
 
-            throw new InternalServerErrorException('An unexpected error occurred');
+            throw new InternalServerErrorException('An unexpected error occurred', { cause: error });
         }
     }
 }
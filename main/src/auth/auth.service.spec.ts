@@ -1,16 +1,58 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { AuthService } from './auth.service';
+import { AuthService, LOGIN_LOCKOUT_MS, MAX_FAILED_LOGINS, PASSWORD_RESET_TTL_MS } from './auth.service';
 import { UsersService } from '../users/users.service';
 import { JwtService } from '@nestjs/jwt';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { IsNull } from 'typeorm';
+import { createHash } from 'crypto';
+import { RefreshToken } from './refresh-token.entity';
+import { PasswordResetToken } from './password-reset-token.entity';
+import { MailSender } from '../mail';
+import { AccountDeletionService } from '../users/account-deletion.service';
+import { Role } from '../users/role.enum';
 import * as bcrypt from 'bcrypt';
-import { UnauthorizedException, InternalServerErrorException } from '@nestjs/common';
+import {
+    UnauthorizedException,
+    InternalServerErrorException,
+    BadRequestException,
+    ConflictException,
+    GoneException,
+} from '@nestjs/common';
 
 describe('AuthService', () => {
     let authService: AuthService;
     let usersService: Partial<UsersService>;
     let jwtService: Partial<JwtService>;
+    let refreshTokensRepository: Record<string, jest.Mock>;
+    let resetTokensRepository: Record<string, jest.Mock>;
+    let mailSender: { send: jest.Mock };
+    let accountDeletionService: { restore: jest.Mock };
+    let updateQuery: Record<string, jest.Mock>;
 
     beforeEach(async () => {
+        updateQuery = {
+            update: jest.fn().mockReturnThis(),
+            set: jest.fn().mockReturnThis(),
+            where: jest.fn().mockReturnThis(),
+            execute: jest.fn().mockResolvedValue({ affected: 2 }),
+        };
+        refreshTokensRepository = {
+            create: jest.fn((token) => token),
+            save: jest.fn((token) => Promise.resolve(token)),
+            findOne: jest.fn(),
+            update: jest.fn().mockResolvedValue({ affected: 1 }),
+            createQueryBuilder: jest.fn(() => updateQuery),
+        };
+        resetTokensRepository = {
+            create: jest.fn((token) => token),
+            save: jest.fn((token) => Promise.resolve(token)),
+            findOne: jest.fn(),
+            update: jest.fn().mockResolvedValue({ affected: 1 }),
+            createQueryBuilder: jest.fn(() => updateQuery),
+        };
+        mailSender = { send: jest.fn() };
+        accountDeletionService = { restore: jest.fn() };
+
         const module: TestingModule = await Test.createTestingModule({
             providers: [
                 AuthService,
@@ -18,6 +60,10 @@ describe('AuthService', () => {
                     provide: UsersService,
                     useValue: {
                         findByUsername: jest.fn(),
+                        findById: jest.fn(),
+                        create: jest.fn(),
+                        update: jest.fn(),
+                        setPassword: jest.fn(),
                     },
                 },
                 {
@@ -26,6 +72,22 @@ describe('AuthService', () => {
                         sign: jest.fn(),
                     },
                 },
+                {
+                    provide: getRepositoryToken(RefreshToken),
+                    useValue: refreshTokensRepository,
+                },
+                {
+                    provide: getRepositoryToken(PasswordResetToken),
+                    useValue: resetTokensRepository,
+                },
+                {
+                    provide: MailSender,
+                    useValue: mailSender,
+                },
+                {
+                    provide: AccountDeletionService,
+                    useValue: accountDeletionService,
+                },
             ],
         }).compile();
 
@@ -44,6 +106,15 @@ describe('AuthService', () => {
                 password: hashedPassword,
                 authorPseudonym: 'Test Pseudonym',
                 books: [],
+                role: Role.Author,
+                suspendedAt: null,
+                suspensionReason: null,
+                email: null,
+                passwordChangedAt: null,
+                failedLoginAttempts: 0,
+                lockedUntil: null,
+                deletedAt: null,
+                anonymizedAt: null,
             });
 
             const result = await authService.validateUser('testuser', 'password123');
@@ -54,6 +125,15 @@ describe('AuthService', () => {
                 username: 'testuser',
                 authorPseudonym: 'Test Pseudonym',
                 books: [],
+                role: Role.Author,
+                suspendedAt: null,
+                suspensionReason: null,
+                email: null,
+                passwordChangedAt: null,
+                failedLoginAttempts: 0,
+                lockedUntil: null,
+                deletedAt: null,
+                anonymizedAt: null,
             });
         });
 
@@ -75,6 +155,15 @@ describe('AuthService', () => {
                 password: hashedPassword,
                 authorPseudonym: 'Test Pseudonym',
                 books: [],
+                role: Role.Author,
+                suspendedAt: null,
+                suspensionReason: null,
+                email: null,
+                passwordChangedAt: null,
+                failedLoginAttempts: 0,
+                lockedUntil: null,
+                deletedAt: null,
+                anonymizedAt: null,
             });
 
             await expect(authService.validateUser('testuser', 'wrongpassword')).rejects.toThrow(
@@ -83,6 +172,65 @@ describe('AuthService', () => {
             expect(usersService.findByUsername).toHaveBeenCalledWith('testuser');
         });
 
+        it('should count wrong passwords and lock the account after MAX_FAILED_LOGINS', async () => {
+            const password = await bcrypt.hash('password123', 10);
+            jest.spyOn(usersService, 'findByUsername').mockResolvedValue({ id: 1, password, failedLoginAttempts: 3 } as any);
+
+            await expect(authService.validateUser('testuser', 'wrong')).rejects.toThrow(UnauthorizedException);
+            expect(usersService.update).toHaveBeenCalledWith(1, { failedLoginAttempts: 4 });
+
+            jest.spyOn(usersService, 'findByUsername').mockResolvedValue({
+                id: 1,
+                password,
+                failedLoginAttempts: MAX_FAILED_LOGINS - 1,
+            } as any);
+            const before = Date.now();
+
+            await expect(authService.validateUser('testuser', 'wrong')).rejects.toThrow(UnauthorizedException);
+            const [, changes] = (usersService.update as jest.Mock).mock.calls[1];
+            expect(changes.failedLoginAttempts).toBe(0);
+            expect(changes.lockedUntil.getTime()).toBeGreaterThanOrEqual(before + LOGIN_LOCKOUT_MS);
+        });
+
+        it('should refuse locked accounts even with the right password', async () => {
+            const password = await bcrypt.hash('password123', 10);
+            jest.spyOn(usersService, 'findByUsername').mockResolvedValue({
+                id: 1,
+                password,
+                lockedUntil: new Date(Date.now() + 60_000),
+            } as any);
+
+            await expect(authService.validateUser('testuser', 'password123')).rejects.toThrow(/locked/);
+            expect(usersService.update).not.toHaveBeenCalled();
+        });
+
+        it('should clear the failed logins after a successful login', async () => {
+            const password = await bcrypt.hash('password123', 10);
+            jest.spyOn(usersService, 'findByUsername').mockResolvedValue({
+                id: 1,
+                password,
+                failedLoginAttempts: 2,
+                lockedUntil: new Date(Date.now() - 1000),
+            } as any);
+
+            await authService.validateUser('testuser', 'password123');
+
+            expect(usersService.update).toHaveBeenCalledWith(1, { failedLoginAttempts: 0, lockedUntil: null });
+        });
+
+        it('should throw UnauthorizedException if the account is suspended', async () => {
+            const hashedPassword = await bcrypt.hash('password123', 10);
+
+            jest.spyOn(usersService, 'findByUsername').mockResolvedValue({
+                id: 1,
+                username: 'testuser',
+                password: hashedPassword,
+                suspendedAt: new Date(),
+            } as any);
+
+            await expect(authService.validateUser('testuser', 'password123')).rejects.toThrow('Account is suspended');
+        });
+
         it('should throw InternalServerErrorException for unexpected errors', async () => {
             jest.spyOn(usersService, 'findByUsername').mockRejectedValue(new Error('Unexpected error'));
 
@@ -93,6 +241,88 @@ describe('AuthService', () => {
         });
     });
 
+    describe('restoreAccount', () => {
+        let user: any;
+
+        beforeEach(async () => {
+            user = {
+                id: 1,
+                username: 'chewie',
+                role: Role.Author,
+                password: await bcrypt.hash('kashyyyk42', 10),
+                deletedAt: new Date(),
+            };
+            jest.spyOn(usersService, 'findByUsername').mockResolvedValue(user);
+        });
+
+        it('should refuse to log in to deleted accounts', async () => {
+            await expect(authService.validateUser('chewie', 'kashyyyk42')).rejects.toThrow(/POST \/auth\/restore/);
+        });
+
+        it('should restore the account and start a session', async () => {
+            jest.spyOn(jwtService, 'sign').mockReturnValue('test.jwt.token');
+
+            const result = await authService.restoreAccount('chewie', 'kashyyyk42');
+
+            expect(accountDeletionService.restore).toHaveBeenCalledWith(1);
+            expect(result).toEqual({ access_token: 'test.jwt.token', refresh_token: expect.any(String) });
+        });
+
+        it('should check the password before restoring', async () => {
+            await expect(authService.restoreAccount('chewie', 'wrong')).rejects.toThrow(UnauthorizedException);
+            expect(accountDeletionService.restore).not.toHaveBeenCalled();
+        });
+
+        it('should throw ConflictException for accounts that are not deleted', async () => {
+            user.deletedAt = null;
+
+            await expect(authService.restoreAccount('chewie', 'kashyyyk42')).rejects.toThrow(ConflictException);
+        });
+
+        it('should rethrow GoneException once the grace period has ended', async () => {
+            accountDeletionService.restore.mockRejectedValue(new GoneException());
+
+            await expect(authService.restoreAccount('chewie', 'kashyyyk42')).rejects.toThrow(GoneException);
+        });
+    });
+
+    describe('register', () => {
+        const registration = { username: 'lohgarra', password: 'kashyyyk42', authorPseudonym: 'Lohgarra' };
+
+        it('should create the user with the given pseudonym and return an access token', async () => {
+            jest.spyOn(usersService, 'create').mockResolvedValue({ id: 7, username: 'lohgarra', role: Role.Author } as any);
+            jest.spyOn(jwtService, 'sign').mockReturnValue('test.jwt.token');
+
+            const result = await authService.register(registration);
+
+            expect(usersService.create).toHaveBeenCalledWith({ ...registration, email: null, role: Role.Author });
+            expect(jwtService.sign).toHaveBeenCalledWith({ username: 'lohgarra', sub: 7, role: Role.Author });
+            expect(result).toEqual({ access_token: 'test.jwt.token', refresh_token: expect.any(String) });
+        });
+
+        it('should throw BadRequestException listing password policy violations', async () => {
+            await expect(
+                authService.register({ ...registration, password: 'short' }),
+            ).rejects.toThrow(BadRequestException);
+            await expect(
+                authService.register({ ...registration, password: 'lohgarra' }),
+            ).rejects.toThrow(BadRequestException);
+            expect(usersService.create).not.toHaveBeenCalled();
+        });
+
+        it('should rethrow ConflictException for duplicate usernames', async () => {
+            jest.spyOn(usersService, 'create').mockRejectedValue(new ConflictException('Username is already taken'));
+
+            await expect(authService.register(registration)).rejects.toThrow(ConflictException);
+        });
+
+        it('should throw InternalServerErrorException for unexpected errors', async () => {
+            jest.spyOn(usersService, 'create').mockRejectedValue(new Error('Unexpected error'));
+
+            await expect(authService.register(registration)).rejects.toThrow(InternalServerErrorException);
+        });
+    });
+
     describe('login', () => {
         it('should return an access token for a valid user', async () => {
             jest.spyOn(jwtService, 'sign').mockReturnValue('test.jwt.token');
@@ -104,7 +334,7 @@ describe('AuthService', () => {
                 username: 'testuser',
                 sub: 1,
             });
-            expect(result).toEqual({ access_token: 'test.jwt.token' });
+            expect(result).toEqual({ access_token: 'test.jwt.token', refresh_token: expect.any(String) });
         });
 
         it('should throw InternalServerErrorException for unexpected errors during token generation', async () => {
@@ -121,4 +351,245 @@ describe('AuthService', () => {
             });
         });
     });
+
+    describe('login refresh token', () => {
+        it('should persist only a hash of the issued refresh token', async () => {
+            jest.spyOn(jwtService, 'sign').mockReturnValue('test.jwt.token');
+
+            const result = await authService.login({ id: 1, username: 'testuser' });
+
+            const saved = refreshTokensRepository.save.mock.calls[0][0];
+            expect(saved.tokenHash).toBe(createHash('sha256').update(result.refresh_token).digest('hex'));
+            expect(saved.tokenHash).not.toBe(result.refresh_token);
+            expect(saved.user).toEqual({ id: 1 });
+            expect(saved.familyId).toEqual(expect.any(String));
+            expect(saved.expiresAt.getTime()).toBeGreaterThan(Date.now());
+        });
+    });
+
+    describe('refresh', () => {
+        const storedToken = (overrides: Partial<RefreshToken> = {}) =>
+            ({
+                id: 1,
+                tokenHash: 'hash',
+                familyId: 'family-1',
+                user: { id: 1, username: 'testuser' },
+                expiresAt: new Date(Date.now() + 60000),
+                usedAt: null,
+                revokedAt: null,
+                ...overrides,
+            }) as RefreshToken;
+
+        it('should rotate the refresh token within the same family', async () => {
+            const stored = storedToken();
+            refreshTokensRepository.findOne.mockResolvedValue(stored);
+            jest.spyOn(jwtService, 'sign').mockReturnValue('new.jwt.token');
+
+            const result = await authService.refresh('old-refresh-token');
+
+            expect(refreshTokensRepository.findOne).toHaveBeenCalledWith({
+                where: { tokenHash: createHash('sha256').update('old-refresh-token').digest('hex') },
+                relations: ['user'],
+            });
+            expect(refreshTokensRepository.update).toHaveBeenCalledWith(
+                { id: stored.id, usedAt: IsNull(), revokedAt: IsNull() },
+                { usedAt: expect.any(Date) },
+            );
+            expect(refreshTokensRepository.save).toHaveBeenCalledWith(expect.objectContaining({ familyId: 'family-1', user: { id: 1 } }));
+            expect(result).toEqual({ access_token: 'new.jwt.token', refresh_token: expect.any(String) });
+            expect(result.refresh_token).not.toBe('old-refresh-token');
+        });
+
+        it('should revoke the whole family when a used token is presented again', async () => {
+            refreshTokensRepository.findOne.mockResolvedValue(storedToken({ usedAt: new Date() }));
+
+            await expect(authService.refresh('reused-token')).rejects.toThrow(UnauthorizedException);
+            expect(updateQuery.set).toHaveBeenCalledWith({ revokedAt: expect.any(Date) });
+            expect(updateQuery.where).toHaveBeenCalledWith(expect.any(String), { familyId: 'family-1' });
+            expect(jwtService.sign).not.toHaveBeenCalled();
+        });
+
+        it('should treat a token used by a concurrent refresh as reused', async () => {
+            refreshTokensRepository.findOne.mockResolvedValue(storedToken());
+            refreshTokensRepository.update.mockResolvedValue({ affected: 0 });
+
+            await expect(authService.refresh('raced-token')).rejects.toThrow(UnauthorizedException);
+            expect(updateQuery.where).toHaveBeenCalledWith(expect.any(String), { familyId: 'family-1' });
+            expect(jwtService.sign).not.toHaveBeenCalled();
+        });
+
+        it('should reject expired tokens', async () => {
+            refreshTokensRepository.findOne.mockResolvedValue(storedToken({ expiresAt: new Date(Date.now() - 1000) }));
+
+            await expect(authService.refresh('expired-token')).rejects.toThrow(UnauthorizedException);
+            expect(jwtService.sign).not.toHaveBeenCalled();
+        });
+
+        it('should reject unknown tokens', async () => {
+            refreshTokensRepository.findOne.mockResolvedValue(null);
+
+            await expect(authService.refresh('unknown-token')).rejects.toThrow(UnauthorizedException);
+        });
+
+        it('should reject tokens of suspended users', async () => {
+            refreshTokensRepository.findOne.mockResolvedValue(
+                storedToken({ user: { id: 1, username: 'testuser', suspendedAt: new Date() } as any }),
+            );
+
+            await expect(authService.refresh('token')).rejects.toThrow('Account is suspended');
+            expect(jwtService.sign).not.toHaveBeenCalled();
+        });
+
+        it('should embed the current role in the new access token', async () => {
+            refreshTokensRepository.findOne.mockResolvedValue(
+                storedToken({ user: { id: 1, username: 'testuser', role: Role.Moderator } as any }),
+            );
+
+            await authService.refresh('token');
+
+            expect(jwtService.sign).toHaveBeenCalledWith({ username: 'testuser', sub: 1, role: Role.Moderator });
+        });
+
+        it('should throw InternalServerErrorException for unexpected errors', async () => {
+            refreshTokensRepository.findOne.mockRejectedValue(new Error('Unexpected error'));
+
+            await expect(authService.refresh('token')).rejects.toThrow(InternalServerErrorException);
+        });
+    });
+
+    describe('logout', () => {
+        it('should revoke the token family', async () => {
+            refreshTokensRepository.findOne.mockResolvedValue({ id: 1, familyId: 'family-1' });
+
+            const result = await authService.logout('refresh-token');
+
+            expect(updateQuery.where).toHaveBeenCalledWith(expect.any(String), { familyId: 'family-1' });
+            expect(result).toEqual({ message: 'Logged out successfully' });
+        });
+
+        it('should throw UnauthorizedException for unknown tokens', async () => {
+            refreshTokensRepository.findOne.mockResolvedValue(null);
+
+            await expect(authService.logout('unknown-token')).rejects.toThrow(UnauthorizedException);
+        });
+    });
+
+    describe('changePassword', () => {
+        let user: any;
+
+        beforeEach(async () => {
+            user = { id: 1, username: 'chewie', role: Role.Author, password: await bcrypt.hash('kashyyyk42', 10) };
+            jest.spyOn(usersService, 'findById').mockResolvedValue(user);
+        });
+
+        it('should set the new password, end all sessions and start a new one', async () => {
+            jest.spyOn(jwtService, 'sign').mockReturnValue('test.jwt.token');
+
+            const result = await authService.changePassword(1, 'kashyyyk42', 'wroshyr-tree-7');
+
+            expect(usersService.setPassword).toHaveBeenCalledWith(1, 'wroshyr-tree-7');
+            expect(updateQuery.where).toHaveBeenCalledWith('userId = :userId AND revokedAt IS NULL', { userId: 1 });
+            expect(result).toEqual({ access_token: 'test.jwt.token', refresh_token: expect.any(String) });
+        });
+
+        it('should reject a wrong current password and count it as a failed login', async () => {
+            await expect(authService.changePassword(1, 'wrong', 'wroshyr-tree-7')).rejects.toThrow(UnauthorizedException);
+            expect(usersService.update).toHaveBeenCalledWith(1, { failedLoginAttempts: 1 });
+            expect(usersService.setPassword).not.toHaveBeenCalled();
+        });
+
+        it('should reject new passwords violating the policy or equal to the current one', async () => {
+            await expect(authService.changePassword(1, 'kashyyyk42', 'short')).rejects.toThrow(BadRequestException);
+            await expect(authService.changePassword(1, 'kashyyyk42', 'kashyyyk42')).rejects.toMatchObject({
+                response: { message: ['New password must differ from the current password'] },
+            });
+            expect(usersService.setPassword).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('requestPasswordReset', () => {
+        it('should mail a token and store only its hash', async () => {
+            jest.spyOn(usersService, 'findByUsername').mockResolvedValue({
+                id: 1,
+                username: 'chewie',
+                email: 'chewie@kashyyyk.example',
+            } as any);
+            const before = Date.now();
+
+            const result = await authService.requestPasswordReset('chewie');
+
+            const [{ to, text }] = mailSender.send.mock.calls[0];
+            const token = text.split('\n')[4];
+            const [stored] = resetTokensRepository.save.mock.calls[0];
+            expect(to).toBe('chewie@kashyyyk.example');
+            expect(stored.tokenHash).toBe(createHash('sha256').update(token).digest('hex'));
+            expect(stored.expiresAt.getTime()).toBeGreaterThanOrEqual(before + PASSWORD_RESET_TTL_MS);
+            expect(updateQuery.where).toHaveBeenCalledWith('userId = :userId AND usedAt IS NULL', { userId: 1 });
+            expect(result.message).toMatch(/If the account/);
+        });
+
+        it('should answer the same without sending anything for unknown users or users without email', async () => {
+            jest.spyOn(usersService, 'findByUsername').mockResolvedValueOnce(null);
+            const unknown = await authService.requestPasswordReset('nobody');
+
+            jest.spyOn(usersService, 'findByUsername').mockResolvedValueOnce({ id: 1, email: null } as any);
+            const withoutEmail = await authService.requestPasswordReset('chewie');
+
+            expect(unknown).toEqual(withoutEmail);
+            expect(mailSender.send).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('resetPassword', () => {
+        const stored = () => ({
+            id: 1,
+            user: { id: 1, username: 'chewie' },
+            expiresAt: new Date(Date.now() + 60_000),
+            usedAt: null,
+        });
+
+        it('should set the new password, use up the token and end all sessions', async () => {
+            const token = stored();
+            resetTokensRepository.findOne.mockResolvedValue(token);
+
+            const result = await authService.resetPassword('reset-token', 'wroshyr-tree-7');
+
+            expect(resetTokensRepository.findOne).toHaveBeenCalledWith({
+                where: { tokenHash: createHash('sha256').update('reset-token').digest('hex') },
+                relations: ['user'],
+            });
+            expect(resetTokensRepository.update).toHaveBeenCalledWith({ id: 1, usedAt: IsNull() }, { usedAt: expect.any(Date) });
+            expect(usersService.setPassword).toHaveBeenCalledWith(1, 'wroshyr-tree-7');
+            expect(updateQuery.where).toHaveBeenCalledWith('userId = :userId AND revokedAt IS NULL', { userId: 1 });
+            expect(result).toEqual({ message: 'Password has been reset' });
+        });
+
+        it('should reject unknown, used and expired tokens', async () => {
+            resetTokensRepository.findOne.mockResolvedValueOnce(null);
+            await expect(authService.resetPassword('unknown', 'wroshyr-tree-7')).rejects.toThrow(BadRequestException);
+
+            resetTokensRepository.findOne.mockResolvedValueOnce({ ...stored(), usedAt: new Date() });
+            await expect(authService.resetPassword('used', 'wroshyr-tree-7')).rejects.toThrow(BadRequestException);
+
+            resetTokensRepository.findOne.mockResolvedValueOnce({ ...stored(), expiresAt: new Date(Date.now() - 1000) });
+            await expect(authService.resetPassword('expired', 'wroshyr-tree-7')).rejects.toThrow(BadRequestException);
+
+            expect(usersService.setPassword).not.toHaveBeenCalled();
+        });
+
+        it('should reject a token used by a concurrent reset', async () => {
+            resetTokensRepository.findOne.mockResolvedValue(stored());
+            resetTokensRepository.update.mockResolvedValue({ affected: 0 });
+
+            await expect(authService.resetPassword('reset-token', 'wroshyr-tree-7')).rejects.toThrow(BadRequestException);
+            expect(usersService.setPassword).not.toHaveBeenCalled();
+        });
+
+        it('should enforce the password policy', async () => {
+            resetTokensRepository.findOne.mockResolvedValue(stored());
+
+            await expect(authService.resetPassword('reset-token', 'chewie')).rejects.toThrow(BadRequestException);
+            expect(usersService.setPassword).not.toHaveBeenCalled();
+        });
+    });
 });
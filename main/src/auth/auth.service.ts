@@ -1,63 +1,519 @@
-import { Injectable, UnauthorizedException, InternalServerErrorException } from '@nestjs/common';
+import {
+    Injectable,
+    UnauthorizedException,
+    InternalServerErrorException,
+    BadRequestException,
+    ConflictException,
+    NotFoundException,
+    HttpException,
+} from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
 import * as bcrypt from 'bcrypt';
+import { createHash, randomBytes, randomUUID } from 'crypto';
 import { UsersService } from '../users/users.service';
+import { AccountDeletionService } from '../users/account-deletion.service';
+import { User } from '../users/user.entity';
+import { Role } from '../users/role.enum';
+import { MailSender } from '../mail';
+import {
+    AccountLockedException,
+    AccountSuspendedException,
+    InvalidCredentialsException,
+    ValidationFailedException,
+} from '../common/errors';
+import { validatePasswordPolicy } from './password-policy';
+import { RefreshToken } from './refresh-token.entity';
+import { PasswordResetToken } from './password-reset-token.entity';
+
+/**
+ * Lifetime of a refresh token before the user has to log in again.
+ */
+export const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Wrong passwords in a row after which an account is temporarily locked.
+ */
+export const MAX_FAILED_LOGINS = 5;
+
+/**
+ * How long a locked account refuses logins.
+ */
+export const LOGIN_LOCKOUT_MS = 15 * 60 * 1000;
+
+/**
+ * Lifetime of a password reset token.
+ */
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
 
 @Injectable()
 export class AuthService {
     constructor(
         private readonly usersService: UsersService,
         private readonly jwtService: JwtService,
+
+        @InjectRepository(RefreshToken)
+        private readonly refreshTokensRepository: Repository<RefreshToken>,
+
+        @InjectRepository(PasswordResetToken)
+        private readonly resetTokensRepository: Repository<PasswordResetToken>,
+
+        private readonly mailSender: MailSender,
+
+        private readonly accountDeletionService: AccountDeletionService,
     ) { }
 
     /**
-     * Validates a user by username and password
+     * Validates a user by username and password.
+     * After `MAX_FAILED_LOGINS` wrong passwords in a row the account is locked for `LOGIN_LOCKOUT_MS`.
      * 
      * @param username - The username of the user
      * @param pass - The password of the user
      * @returns A user object without the password field or null if invalid
-     * @throws {UnauthorizedException} If the username or password is invalid
+     * @throws {UnauthorizedException} If the username or password is invalid, or the account is locked, suspended or deleted
      * @throws {InternalServerErrorException} For unexpected errors
      */
     async validateUser(username: string, pass: string): Promise<any> {
         try {
-            const user = await this.usersService.findByUsername(username);
+            const user = await this.verifyCredentials(username, pass);
 
-            if (!user) {
-                throw new UnauthorizedException('Invalid username or password');
+            if (user.deletedAt) {
+                throw new UnauthorizedException(
+                    'This account is scheduled for deletion; restore it through POST /auth/restore',
+                );
+            }
+
+            const { password, ...result } = user;
+            return result;
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
             }
+            throw new InternalServerErrorException('An error occurred while validating the user', { cause: error });
+        }
+    }
 
-            const isPasswordValid = await bcrypt.compare(pass, user.password);
+    /**
+     * Restores an account deleted less than `ACCOUNT_DELETION_GRACE_MS` ago and signs the user in.
+     * Books unpublished by the deletion stay unpublished.
+     * 
+     * @param username - The username of the deleted account
+     * @param pass - The password of the deleted account
+     * @returns An access token and a refresh token
+     * @throws {UnauthorizedException} If the username or password is invalid, or the account is locked or suspended
+     * @throws {ConflictException} If the account is not deleted
+     * @throws {GoneException} If the grace period has ended
+     * @throws {InternalServerErrorException} For unexpected errors
+     */
+    async restoreAccount(username: string, pass: string) {
+        try {
+            const user = await this.verifyCredentials(username, pass);
 
-            if (!isPasswordValid) {
-                throw new UnauthorizedException('Invalid username or password');
+            if (!user.deletedAt) {
+                throw new ConflictException('Account is not deleted');
             }
 
-            const { password, ...result } = user;
-            return result;
+            await this.accountDeletionService.restore(user.id);
+
+            return await this.issueTokens(user, randomUUID());
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while restoring the account', { cause: error });
+        }
+    }
+
+    /**
+     * Registers a new author and signs them in
+     * 
+     * @param registration - The username, password, author pseudonym and optional email address of the new account
+     * @returns An access token for the created user
+     * @throws {BadRequestException} If the password does not satisfy the policy or the email address is invalid
+     * @throws {ConflictException} If the username is already taken
+     * @throws {InternalServerErrorException} For unexpected errors
+     */
+    async register(registration: { username: string; password: string; authorPseudonym: string; email?: string }) {
+        try {
+            const violations = validatePasswordPolicy(registration.password, registration.username);
+
+            if (violations.length) {
+                throw this.passwordViolations('password', violations);
+            }
+
+            const user = await this.usersService.create({
+                username: registration.username,
+                password: registration.password,
+                authorPseudonym: registration.authorPseudonym,
+                email: registration.email ?? null,
+                role: Role.Author,
+            });
+
+            return await this.login(user);
         } catch (error) {
-            if (error instanceof UnauthorizedException) {
+            if (error instanceof HttpException) {
                 throw error;
             }
-            throw new InternalServerErrorException('An error occurred while validating the user');
+            throw new InternalServerErrorException('An error occurred while registering the user', { cause: error });
         }
     }
 
     /**
-     * Generates a JWT for an authenticated user
+     * Generates a JWT and starts a new refresh token family for an authenticated user
      * 
      * @param user - The user object
-     * @returns An access token
+     * @returns An access token and a refresh token
      * @throws {InternalServerErrorException} For unexpected errors
      */
     async login(user: any) {
         try {
-            const payload = { username: user.username, sub: user.id };
-            return {
-                access_token: this.jwtService.sign(payload),
-            };
+            return await this.issueTokens(user, randomUUID());
+        } catch (error) {
+            throw new InternalServerErrorException('An error occurred while generating the access token', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Exchanges a refresh token for a new token pair, rotating the refresh token.
+     *
+     * Presenting a token that was already rotated or revoked is treated as theft:
+     * every token in its family is revoked and the client has to log in again.
+     * 
+     * @param token - The refresh token issued by `login` or a previous refresh
+     * @returns A new access token and refresh token
+     * @throws {UnauthorizedException} If the token is unknown, expired, revoked or reused
+     * @throws {InternalServerErrorException} For unexpected errors
+     */
+    async refresh(token: string) {
+        try {
+            const stored = await this.findRefreshToken(token);
+
+            if (!stored) {
+                throw new UnauthorizedException('Invalid refresh token');
+            }
+
+            if (stored.usedAt || stored.revokedAt) {
+                await this.revokeFamily(stored.familyId);
+                throw new UnauthorizedException('Refresh token has already been used');
+            }
+
+            if (stored.expiresAt.getTime() <= Date.now()) {
+                throw new UnauthorizedException('Refresh token has expired');
+            }
+
+            if (stored.user?.suspendedAt) {
+                throw new AccountSuspendedException();
+            }
+
+            if (stored.user?.deletedAt) {
+                throw new UnauthorizedException('Account has been deleted');
+            }
+
+            // Only one of concurrent refreshes with the same token can mark it used; the others count as reuse
+            const { affected } = await this.refreshTokensRepository.update(
+                { id: stored.id, usedAt: IsNull(), revokedAt: IsNull() },
+                { usedAt: new Date() },
+            );
+
+            if (!affected) {
+                await this.revokeFamily(stored.familyId);
+                throw new UnauthorizedException('Refresh token has already been used');
+            }
+
+            return await this.issueTokens(stored.user, stored.familyId);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while refreshing the access token', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Revokes the token family the given refresh token belongs to
+     * 
+     * @param token - A refresh token of the session to end
+     * @returns A success message
+     * @throws {UnauthorizedException} If the token is unknown
+     * @throws {InternalServerErrorException} For unexpected errors
+     */
+    async logout(token: string): Promise<{ message: string }> {
+        try {
+            const stored = await this.findRefreshToken(token);
+
+            if (!stored) {
+                throw new UnauthorizedException('Invalid refresh token');
+            }
+
+            await this.revokeFamily(stored.familyId);
+            return { message: 'Logged out successfully' };
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while logging out', { cause: error });
+        }
+    }
+
+    /**
+     * Changes the password of a signed-in user after checking the current one.
+     * Every session of the user ends, and a new one is started for the caller.
+     * Wrong current passwords count towards the login lockout.
+     * 
+     * @param userId - The ID of the authenticated user
+     * @param currentPassword - The password the user has now
+     * @param newPassword - The password to set
+     * @returns A new access token and refresh token
+     * @throws {BadRequestException} If the new password does not satisfy the policy or equals the current one
+     * @throws {UnauthorizedException} If the current password is wrong or the account is locked
+     * @throws {InternalServerErrorException} For unexpected errors
+     */
+    async changePassword(userId: number, currentPassword: string, newPassword: string) {
+        try {
+            const user = await this.usersService.findById(userId);
+
+            this.assertNotLocked(user);
+
+            if (!(await bcrypt.compare(currentPassword ?? '', user.password))) {
+                await this.recordFailedLogin(user);
+                throw new InvalidCredentialsException('Current password is incorrect');
+            }
+
+            const violations = validatePasswordPolicy(newPassword, user.username);
+
+            if (!violations.length && (await bcrypt.compare(newPassword, user.password))) {
+                violations.push('New password must differ from the current password');
+            }
+
+            if (violations.length) {
+                throw this.passwordViolations('newPassword', violations);
+            }
+
+            await this.usersService.setPassword(user.id, newPassword);
+            await this.revokeAllSessions(user.id);
+
+            return await this.issueTokens(user, randomUUID());
+        } catch (error) {
+            if (error instanceof NotFoundException) {
+                throw new UnauthorizedException('User no longer exists');
+            }
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while changing the password', { cause: error });
+        }
+    }
+
+    /**
+     * Mails a single-use password reset token to the account's email address.
+     * The answer is the same whether or not the account exists, so it cannot be
+     * used to discover usernames; requesting a new token invalidates older ones.
+     * 
+     * @param username - The username of the account
+     * @returns A message that does not reveal whether a token was sent
+     * @throws {InternalServerErrorException} For unexpected errors
+     */
+    async requestPasswordReset(username: string): Promise<{ message: string }> {
+        try {
+            const user = username ? await this.usersService.findByUsername(username) : null;
+
+            if (user?.email && !user.suspendedAt && !user.deletedAt) {
+                const token = randomBytes(32).toString('base64url');
+
+                await this.resetTokensRepository
+                    .createQueryBuilder()
+                    .update(PasswordResetToken)
+                    .set({ usedAt: new Date() })
+                    .where('userId = :userId AND usedAt IS NULL', { userId: user.id })
+                    .execute();
+                await this.resetTokensRepository.save(
+                    this.resetTokensRepository.create({
+                        tokenHash: this.hashToken(token),
+                        user: { id: user.id } as User,
+                        expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+                    }),
+                );
+                await this.mailSender.send({
+                    to: user.email,
+                    subject: 'Reset your Wookie Books password',
+                    text: [
+                        `Someone asked to reset the password of the Wookie Books account "${user.username}".`,
+                        '',
+                        `To choose a new password, send this token to POST /auth/password/reset within ${PASSWORD_RESET_TTL_MS / 60000} minutes:`,
+                        '',
+                        token,
+                        '',
+                        'If you did not ask for this, ignore this email; your password stays unchanged.',
+                    ].join('\n'),
+                });
+            }
+
+            return { message: 'If the account has an email address, a password reset token has been sent to it' };
         } catch (error) {
-            throw new InternalServerErrorException('An error occurred while generating the access token');
+            throw new InternalServerErrorException('An error occurred while requesting a password reset', {
+                cause: error,
+            });
         }
     }
+
+    /**
+     * Sets a new password with a token from `requestPasswordReset`, lifts any
+     * login lockout and ends every session of the user.
+     * 
+     * @param token - The reset token from the email
+     * @param newPassword - The password to set
+     * @returns A success message
+     * @throws {BadRequestException} If the token is unknown, used or expired, or the password does not satisfy the policy
+     * @throws {InternalServerErrorException} For unexpected errors
+     */
+    async resetPassword(token: string, newPassword: string): Promise<{ message: string }> {
+        try {
+            const stored = token
+                ? await this.resetTokensRepository.findOne({
+                      where: { tokenHash: this.hashToken(token) },
+                      relations: ['user'],
+                  })
+                : null;
+
+            if (!stored?.user || stored.usedAt || stored.expiresAt.getTime() <= Date.now()) {
+                throw new BadRequestException('Invalid or expired password reset token');
+            }
+
+            const violations = validatePasswordPolicy(newPassword, stored.user.username);
+
+            if (violations.length) {
+                throw this.passwordViolations('newPassword', violations);
+            }
+
+            const { affected } = await this.resetTokensRepository.update(
+                { id: stored.id, usedAt: IsNull() },
+                { usedAt: new Date() },
+            );
+
+            if (!affected) {
+                throw new BadRequestException('Invalid or expired password reset token');
+            }
+
+            await this.usersService.setPassword(stored.user.id, newPassword);
+            await this.revokeAllSessions(stored.user.id);
+
+            return { message: 'Password has been reset' };
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while resetting the password', { cause: error });
+        }
+    }
+
+    private async issueTokens(user: Pick<User, 'id' | 'username' | 'role'>, familyId: string) {
+        const payload = { username: user.username, sub: user.id, role: user.role };
+        const access_token = this.jwtService.sign(payload);
+        const refresh_token = randomBytes(48).toString('base64url');
+
+        await this.refreshTokensRepository.save(
+            this.refreshTokensRepository.create({
+                tokenHash: this.hashToken(refresh_token),
+                familyId,
+                user: { id: user.id } as User,
+                expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+            }),
+        );
+
+        return { access_token, refresh_token };
+    }
+
+    private findRefreshToken(token: string): Promise<RefreshToken | null> {
+        if (!token) {
+            return Promise.resolve(null);
+        }
+
+        return this.refreshTokensRepository.findOne({
+            where: { tokenHash: this.hashToken(token) },
+            relations: ['user'],
+        });
+    }
+
+    private async revokeFamily(familyId: string) {
+        await this.refreshTokensRepository
+            .createQueryBuilder()
+            .update(RefreshToken)
+            .set({ revokedAt: new Date() })
+            .where('familyId = :familyId AND revokedAt IS NULL', { familyId })
+            .execute();
+    }
+
+    /**
+     * Revokes every refresh token of a user, e.g. after a password change.
+     */
+    private async revokeAllSessions(userId: number) {
+        await this.refreshTokensRepository
+            .createQueryBuilder()
+            .update(RefreshToken)
+            .set({ revokedAt: new Date() })
+            .where('userId = :userId AND revokedAt IS NULL', { userId })
+            .execute();
+    }
+
+    /**
+     * Checks a username and password, counting wrong passwords towards the login lockout.
+     */
+    private async verifyCredentials(username: string, pass: string): Promise<User> {
+        const user = await this.usersService.findByUsername(username);
+
+        if (!user) {
+            throw new InvalidCredentialsException();
+        }
+
+        this.assertNotLocked(user);
+        const isPasswordValid = await bcrypt.compare(pass, user.password);
+
+        if (!isPasswordValid) {
+            await this.recordFailedLogin(user);
+            throw new InvalidCredentialsException();
+        }
+
+        if (user.suspendedAt) {
+            throw new AccountSuspendedException();
+        }
+
+        if (user.failedLoginAttempts || user.lockedUntil) {
+            await this.usersService.update(user.id, { failedLoginAttempts: 0, lockedUntil: null });
+        }
+
+        return user;
+    }
+
+    private assertNotLocked(user: Pick<User, 'lockedUntil'>) {
+        if (user.lockedUntil && user.lockedUntil.getTime() > Date.now()) {
+            throw new AccountLockedException(user.lockedUntil);
+        }
+    }
+
+    /**
+     * Counts a wrong password, locking the account once `MAX_FAILED_LOGINS` is reached.
+     */
+    private async recordFailedLogin(user: Pick<User, 'id' | 'failedLoginAttempts'>) {
+        const attempts = (user.failedLoginAttempts ?? 0) + 1;
+
+        await this.usersService.update(
+            user.id,
+            attempts >= MAX_FAILED_LOGINS
+                ? { failedLoginAttempts: 0, lockedUntil: new Date(Date.now() + LOGIN_LOCKOUT_MS) }
+                : { failedLoginAttempts: attempts },
+        );
+    }
+
+    private passwordViolations(field: string, violations: string[]): ValidationFailedException {
+        return new ValidationFailedException(violations.map((message) => ({ field, message })));
+    }
+
+    private hashToken(token: string): string {
+        return createHash('sha256').update(token).digest('hex');
+    }
 }
@@ -0,0 +1,21 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+/**
+ * DTO for changing the password of the authenticated user
+ */
+export class ChangePasswordDto {
+    /**
+     * The password the user has now
+     */
+    @IsString()
+    @IsNotEmpty()
+    currentPassword: string;
+
+    /**
+     * The new password, at least 8 characters with a letter and a digit
+     * @example "wroshyr-tree-7"
+     */
+    @IsString()
+    @IsNotEmpty()
+    newPassword: string;
+}
@@ -0,0 +1,14 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+/**
+ * DTO for requesting a password reset email
+ */
+export class ForgotPasswordDto {
+    /**
+     * The username of the account
+     * @example "lohgarra"
+     */
+    @IsString()
+    @IsNotEmpty()
+    username: string;
+}
@@ -0,0 +1,55 @@
+import { ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { JwtAuthGuard } from './jwt-auth.guard';
+
+describe('JwtAuthGuard', () => {
+    let guard: JwtAuthGuard;
+    let reflector: Reflector;
+    const createContext = (headers: Record<string, string> = {}) =>
+        ({
+            getHandler: () => undefined,
+            getClass: () => undefined,
+            switchToHttp: () => ({ getRequest: () => ({ headers }) }),
+        }) as unknown as ExecutionContext;
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    beforeEach(() => {
+        reflector = new Reflector();
+        guard = new JwtAuthGuard(reflector);
+    });
+
+    it('should allow routes marked as public without a token', async () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(true);
+        const passportCheck = jest.spyOn(Object.getPrototypeOf(JwtAuthGuard.prototype), 'canActivate');
+
+        await expect(guard.canActivate(createContext())).resolves.toBe(true);
+        expect(passportCheck).not.toHaveBeenCalled();
+    });
+
+    it('should authenticate an optional token on public routes without rejecting', async () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(true);
+        const context = createContext({ authorization: 'Bearer token' });
+        const passportCheck = jest
+            .spyOn(Object.getPrototypeOf(JwtAuthGuard.prototype), 'canActivate')
+            .mockResolvedValue(true);
+
+        await expect(guard.canActivate(context)).resolves.toBe(true);
+        expect(passportCheck).toHaveBeenCalledWith(context);
+        expect(guard.handleRequest(null, false, undefined, context)).toBeNull();
+    });
+
+    it('should defer to the JWT strategy for protected routes', async () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(undefined);
+        const context = createContext();
+        const passportCheck = jest
+            .spyOn(Object.getPrototypeOf(JwtAuthGuard.prototype), 'canActivate')
+            .mockResolvedValue(true);
+
+        await expect(guard.canActivate(context)).resolves.toBe(true);
+        expect(passportCheck).toHaveBeenCalledWith(context);
+        expect(() => guard.handleRequest(null, false, undefined, context)).toThrow();
+    });
+});
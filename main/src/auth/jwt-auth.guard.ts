@@ -0,0 +1,45 @@
+import { ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { AuthGuard } from '@nestjs/passport';
+import { IS_PUBLIC_KEY } from './public.decorator';
+
+/**
+ * Global guard requiring a valid bearer token unless the route is marked `@Public()`.
+ *
+ * Public routes still authenticate a bearer token when one is sent, so
+ * handlers can tailor results to the caller, but never reject the request.
+ */
+@Injectable()
+export class JwtAuthGuard extends AuthGuard('jwt') {
+    constructor(private readonly reflector: Reflector) {
+        super();
+    }
+
+    async canActivate(context: ExecutionContext): Promise<boolean> {
+        if (!this.isPublic(context)) {
+            return (await super.canActivate(context)) as boolean;
+        }
+
+        const request = context.switchToHttp().getRequest();
+        if (request?.headers?.authorization) {
+            await super.canActivate(context);
+        }
+
+        return true;
+    }
+
+    handleRequest(error: any, user: any, info: any, context: ExecutionContext) {
+        if (this.isPublic(context)) {
+            return user || null;
+        }
+
+        return super.handleRequest(error, user, info, context);
+    }
+
+    private isPublic(context: ExecutionContext): boolean {
+        return !!this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+    }
+}
@@ -1,8 +1,11 @@
 import { Injectable, NestMiddleware, UnauthorizedException } from '@nestjs/common';
 import * as jwt from 'jsonwebtoken';
+import { AppConfigService } from '../config';
 
 @Injectable()
 export class JwtMiddleware implements NestMiddleware {
+    constructor(private readonly config: AppConfigService) { }
+
     use(req: any, res: any, next: () => void) {
         const authHeader = req.headers.authorization;
         if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -11,7 +14,7 @@ export class JwtMiddleware implements NestMiddleware {
 
         const token = authHeader.split(' ')[1];
         try {
-            const decoded = jwt.verify(token, process.env.JWT_SECRET || 'secret');
+            const decoded = jwt.verify(token, this.config.jwt.secret);
             req.user = { id: decoded.sub };
             next();
         } catch (err) {
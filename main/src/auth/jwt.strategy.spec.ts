@@ -0,0 +1,51 @@
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { UsersService } from '../users/users.service';
+import { Role } from '../users/role.enum';
+import { AppConfigService } from '../config';
+import { JwtStrategy } from './jwt.strategy';
+
+describe('JwtStrategy', () => {
+    let strategy: JwtStrategy;
+    let usersService: Partial<UsersService>;
+
+    beforeEach(() => {
+        usersService = { findById: jest.fn() };
+        strategy = new JwtStrategy(usersService as UsersService, { jwt: { secret: 'secret' } } as AppConfigService);
+    });
+
+    it('should return the user with its current role', async () => {
+        jest.spyOn(usersService, 'findById').mockResolvedValue({ id: 1, username: 'testuser', role: Role.Moderator } as any);
+
+        const result = await strategy.validate({ sub: 1, username: 'testuser', role: Role.Author });
+
+        expect(usersService.findById).toHaveBeenCalledWith(1);
+        expect(result).toEqual({ id: 1, username: 'testuser', role: Role.Moderator });
+    });
+
+    it('should reject suspended users', async () => {
+        jest.spyOn(usersService, 'findById').mockResolvedValue({ id: 1, suspendedAt: new Date() } as any);
+
+        await expect(strategy.validate({ sub: 1 })).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject tokens of deleted users', async () => {
+        jest.spyOn(usersService, 'findById').mockRejectedValue(new NotFoundException());
+
+        await expect(strategy.validate({ sub: 1 })).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject accounts scheduled for deletion', async () => {
+        jest.spyOn(usersService, 'findById').mockResolvedValue({ id: 1, deletedAt: new Date() } as any);
+
+        await expect(strategy.validate({ sub: 1 })).rejects.toThrow('Account has been deleted');
+    });
+
+    it('should reject tokens issued before the last password change', async () => {
+        const passwordChangedAt = new Date('2026-01-01T12:00:00Z');
+        const changedAtSeconds = passwordChangedAt.getTime() / 1000;
+        jest.spyOn(usersService, 'findById').mockResolvedValue({ id: 1, username: 'testuser', passwordChangedAt } as any);
+
+        await expect(strategy.validate({ sub: 1, iat: changedAtSeconds - 1 })).rejects.toThrow(UnauthorizedException);
+        await expect(strategy.validate({ sub: 1, iat: changedAtSeconds })).resolves.toMatchObject({ id: 1 });
+    });
+});
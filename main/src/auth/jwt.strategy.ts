@@ -1,20 +1,48 @@
-
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
+import { UsersService } from '../users/users.service';
+import { AccountSuspendedException } from '../common/errors';
+import { AppConfigService } from '../config';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor() {
+  constructor(
+    private readonly usersService: UsersService,
+    config: AppConfigService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: process.env.JWT_SECRET || 'secret',
+      secretOrKey: config.jwt.secret,
     });
 
   }
 
+  /**
+   * Resolves the token subject, rejecting deleted and suspended accounts and
+   * tokens issued before the last password change.
+   * The role is read from the database so role changes apply immediately.
+   */
   async validate(payload: any) {
-    return { id: payload.sub, username: payload.username };
+    const user = await this.usersService.findById(payload.sub).catch(() => null);
+
+    if (!user) {
+      throw new UnauthorizedException('User no longer exists');
+    }
+
+    if (user.suspendedAt) {
+      throw new AccountSuspendedException();
+    }
+
+    if (user.deletedAt) {
+      throw new UnauthorizedException('Account has been deleted');
+    }
+
+    if (user.passwordChangedAt && payload.iat < Math.floor(user.passwordChangedAt.getTime() / 1000)) {
+      throw new UnauthorizedException('Token was issued before the password was changed');
+    }
+
+    return { id: user.id, username: user.username, role: user.role };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,14 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+/**
+ * DTO for logging in and restoring a deleted account
+ */
+export class LoginDto {
+    @IsString()
+    @IsNotEmpty()
+    username: string;
+
+    @IsString()
+    @IsNotEmpty()
+    password: string;
+}
@@ -0,0 +1,33 @@
+/**
+ * Minimum number of characters accepted for a password.
+ */
+export const PASSWORD_MIN_LENGTH = 8;
+
+/**
+ * Checks a password against the signup policy.
+ *
+ * @param password - The candidate password
+ * @param username - The username it will belong to
+ * @returns A list of policy violations, empty when the password is acceptable
+ */
+export function validatePasswordPolicy(password: string, username?: string): string[] {
+    const violations: string[] = [];
+
+    if (!password || password.length < PASSWORD_MIN_LENGTH) {
+        violations.push(`Password must be at least ${PASSWORD_MIN_LENGTH} characters long`);
+    }
+
+    if (!/[A-Za-z]/.test(password ?? '')) {
+        violations.push('Password must contain at least one letter');
+    }
+
+    if (!/\d/.test(password ?? '')) {
+        violations.push('Password must contain at least one digit');
+    }
+
+    if (password && username && password.toLowerCase() === username.toLowerCase()) {
+        violations.push('Password must not match the username');
+    }
+
+    return violations;
+}
@@ -0,0 +1,26 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, CreateDateColumn, Index } from 'typeorm';
+import { User } from '../users/user.entity';
+
+@Entity()
+export class PasswordResetToken {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    /** SHA-256 digest of the token mailed to the user */
+    @Index({ unique: true })
+    @Column()
+    tokenHash: string;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    user: User;
+
+    @Column()
+    expiresAt: Date;
+
+    /** Set once the token has reset the password or been superseded by a newer one */
+    @Column({ type: 'datetime', nullable: true })
+    usedAt: Date | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
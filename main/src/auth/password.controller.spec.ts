@@ -0,0 +1,94 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, InternalServerErrorException, UnauthorizedException } from '@nestjs/common';
+import { PasswordController } from './password.controller';
+import { AuthService } from './auth.service';
+
+describe('PasswordController', () => {
+    let passwordController: PasswordController;
+    let authService: Partial<AuthService>;
+
+    beforeEach(async () => {
+        authService = {
+            changePassword: jest.fn(),
+            requestPasswordReset: jest.fn(),
+            resetPassword: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [PasswordController],
+            providers: [
+                {
+                    provide: AuthService,
+                    useValue: authService,
+                },
+            ],
+        }).compile();
+
+        passwordController = module.get<PasswordController>(PasswordController);
+    });
+
+    describe('changePassword', () => {
+        it('should change the password and return new tokens', async () => {
+            const tokens = { access_token: 'test.jwt.token', refresh_token: 'test-refresh-token' };
+            jest.spyOn(authService, 'changePassword').mockResolvedValue(tokens);
+
+            const result = await passwordController.changePassword(
+                { user: { id: 1 } },
+                { currentPassword: 'kashyyyk42', newPassword: 'wroshyr-tree-7' },
+            );
+
+            expect(authService.changePassword).toHaveBeenCalledWith(1, 'kashyyyk42', 'wroshyr-tree-7');
+            expect(result).toEqual(tokens);
+        });
+
+        it('should throw BadRequestException if a password is missing', async () => {
+            await expect(
+                passwordController.changePassword({ user: { id: 1 } }, { currentPassword: 'kashyyyk42' } as any),
+            ).rejects.toThrow(BadRequestException);
+            expect(authService.changePassword).not.toHaveBeenCalled();
+        });
+
+        it('should rethrow UnauthorizedException for a wrong current password', async () => {
+            jest.spyOn(authService, 'changePassword').mockRejectedValue(new UnauthorizedException());
+
+            await expect(
+                passwordController.changePassword({ user: { id: 1 } }, { currentPassword: 'x', newPassword: 'y' }),
+            ).rejects.toThrow(UnauthorizedException);
+        });
+    });
+
+    describe('forgotPassword', () => {
+        it('should request a reset token', async () => {
+            jest.spyOn(authService, 'requestPasswordReset').mockResolvedValue({ message: 'sent' });
+
+            await expect(passwordController.forgotPassword({ username: 'chewie' })).resolves.toEqual({ message: 'sent' });
+            expect(authService.requestPasswordReset).toHaveBeenCalledWith('chewie');
+        });
+
+        it('should throw InternalServerErrorException on unexpected error', async () => {
+            jest.spyOn(authService, 'requestPasswordReset').mockRejectedValue(new Error('Unexpected error'));
+
+            await expect(passwordController.forgotPassword({ username: 'chewie' })).rejects.toThrow(
+                InternalServerErrorException,
+            );
+        });
+    });
+
+    describe('resetPassword', () => {
+        it('should reset the password with the token', async () => {
+            jest.spyOn(authService, 'resetPassword').mockResolvedValue({ message: 'Password has been reset' });
+
+            await passwordController.resetPassword({ token: 'reset-token', newPassword: 'wroshyr-tree-7' });
+
+            expect(authService.resetPassword).toHaveBeenCalledWith('reset-token', 'wroshyr-tree-7');
+        });
+
+        it('should rethrow BadRequestException for invalid tokens', async () => {
+            jest.spyOn(authService, 'resetPassword').mockRejectedValue(new BadRequestException());
+
+            await expect(
+                passwordController.resetPassword({ token: 'expired', newPassword: 'wroshyr-tree-7' }),
+            ).rejects.toThrow(BadRequestException);
+        });
+    });
+});
@@ -0,0 +1,113 @@
+import {
+    Controller,
+    Post,
+    Body,
+    Req,
+    HttpCode,
+    HttpStatus,
+    BadRequestException,
+    InternalServerErrorException,
+    HttpException,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { AuthService } from './auth.service';
+import { XmlRoot } from '../common/xml';
+import { ApiErrorResponses } from '../common/openapi';
+import { Public } from './public.decorator';
+import { ChangePasswordDto } from './change-password.dto';
+import { ForgotPasswordDto } from './forgot-password.dto';
+import { ResetPasswordDto } from './reset-password.dto';
+
+@Controller()
+@ApiTags('auth')
+@XmlRoot('response')
+export class PasswordController {
+    constructor(private readonly authService: AuthService) { }
+
+    /**
+     * Changes the authenticated user's password. Every existing session ends,
+     * so the response carries a new token pair for the caller.
+     *
+     * @param req - The request object containing the authenticated user
+     * @param body - ChangePasswordDto object containing the current and new password
+     * @returns A new JWT token and refresh token
+     * @throws {BadRequestException} If a field is missing or the new password does not satisfy the policy
+     * @throws {UnauthorizedException} If the current password is wrong or the account is locked
+     * @throws {InternalServerErrorException} If an unexpected error occurs
+     */
+    @Post('users/me/password')
+    @ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.UNAUTHORIZED, HttpStatus.INTERNAL_SERVER_ERROR)
+    @HttpCode(HttpStatus.OK)
+    @XmlRoot('token')
+    async changePassword(@Req() req, @Body() body: ChangePasswordDto) {
+        try {
+            if (!body?.currentPassword || !body?.newPassword) {
+                throw new BadRequestException('Current and new password are required');
+            }
+
+            return await this.authService.changePassword(req.user.id, body.currentPassword, body.newPassword);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException('An unexpected error occurred', { cause: error });
+        }
+    }
+
+    /**
+     * Mails a password reset token to the account's email address, if it has one
+     *
+     * @param body - ForgotPasswordDto object containing the username
+     * @returns A message that does not reveal whether the account exists
+     * @throws {BadRequestException} If the username is missing
+     * @throws {InternalServerErrorException} If an unexpected error occurs
+     */
+    @Public()
+    @Post('auth/password/forgot')
+    @ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.INTERNAL_SERVER_ERROR)
+    @HttpCode(HttpStatus.ACCEPTED)
+    async forgotPassword(@Body() body: ForgotPasswordDto) {
+        try {
+            if (!body?.username) {
+                throw new BadRequestException('Username is required');
+            }
+
+            return await this.authService.requestPasswordReset(body.username);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException('An unexpected error occurred', { cause: error });
+        }
+    }
+
+    /**
+     * Sets a new password with a token from a password reset email
+     *
+     * @param body - ResetPasswordDto object containing the token and the new password
+     * @returns A success message
+     * @throws {BadRequestException} If a field is missing, the token is invalid or expired, or the password does not satisfy the policy
+     * @throws {InternalServerErrorException} If an unexpected error occurs
+     */
+    @Public()
+    @Post('auth/password/reset')
+    @ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.INTERNAL_SERVER_ERROR)
+    @HttpCode(HttpStatus.OK)
+    async resetPassword(@Body() body: ResetPasswordDto) {
+        try {
+            if (!body?.token || !body?.newPassword) {
+                throw new BadRequestException('Token and new password are required');
+            }
+
+            return await this.authService.resetPassword(body.token, body.newPassword);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException('An unexpected error occurred', { cause: error });
+        }
+    }
+}
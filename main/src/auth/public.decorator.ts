@@ -0,0 +1,9 @@
+import { SetMetadata, applyDecorators } from '@nestjs/common';
+import { ApiPublic } from '../common/openapi';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+
+/**
+ * Marks a route or controller as accessible without a JWT.
+ */
+export const Public = () => applyDecorators(SetMetadata(IS_PUBLIC_KEY, true), ApiPublic());
@@ -0,0 +1,13 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+/**
+ * DTO for refreshing or revoking a session
+ */
+export class RefreshTokenDto {
+    /**
+     * The refresh token returned by login, register or a previous refresh
+     */
+    @IsString()
+    @IsNotEmpty()
+    refresh_token: string;
+}
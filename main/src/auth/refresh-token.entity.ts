@@ -0,0 +1,35 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, CreateDateColumn, Index } from 'typeorm';
+import { User } from '../users/user.entity';
+
+@Entity()
+export class RefreshToken {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    /** SHA-256 digest of the opaque token handed to the client */
+    @Index({ unique: true })
+    @Column()
+    tokenHash: string;
+
+    /** Shared by every token rotated from the same login */
+    @Index()
+    @Column()
+    familyId: string;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    user: User;
+
+    @Column()
+    expiresAt: Date;
+
+    /** Set once the token has been exchanged for a new one */
+    @Column({ type: 'datetime', nullable: true })
+    usedAt: Date | null;
+
+    /** Set when the token family is invalidated by logout or reuse detection */
+    @Column({ type: 'datetime', nullable: true })
+    revokedAt: Date | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
@@ -0,0 +1,38 @@
+import { IsString, IsNotEmpty, IsOptional } from 'class-validator';
+
+/**
+ * DTO for signing up as an author
+ */
+export class RegisterDto {
+    /**
+     * The username used to log in
+     * @example "lohgarra"
+     */
+    @IsString()
+    @IsNotEmpty()
+    username: string;
+
+    /**
+     * The password, at least 8 characters with a letter and a digit
+     * @example "kashyyyk42"
+     */
+    @IsString()
+    @IsNotEmpty()
+    password: string;
+
+    /**
+     * The name the author publishes under
+     * @example "Lohgarra of Kashyyyk"
+     */
+    @IsString()
+    @IsNotEmpty()
+    authorPseudonym: string;
+
+    /**
+     * Where password reset tokens are sent; without it the password cannot be reset
+     * @example "lohgarra@kashyyyk.example"
+     */
+    @IsString()
+    @IsOptional()
+    email?: string;
+}
@@ -0,0 +1,21 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+/**
+ * DTO for setting a new password with a reset token
+ */
+export class ResetPasswordDto {
+    /**
+     * The token from the password reset email
+     */
+    @IsString()
+    @IsNotEmpty()
+    token: string;
+
+    /**
+     * The new password, at least 8 characters with a letter and a digit
+     * @example "wroshyr-tree-7"
+     */
+    @IsString()
+    @IsNotEmpty()
+    newPassword: string;
+}
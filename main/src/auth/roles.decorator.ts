@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { Role } from '../users/role.enum';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * Restricts a route or controller to users holding one of the given roles.
+ *
+ * @param roles - The roles allowed to access the route
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
@@ -0,0 +1,46 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '../users/role.enum';
+import { RolesGuard } from './roles.guard';
+
+describe('RolesGuard', () => {
+    let guard: RolesGuard;
+    let reflector: Reflector;
+
+    const createContext = (user?: any) =>
+        ({
+            getHandler: () => undefined,
+            getClass: () => undefined,
+            switchToHttp: () => ({ getRequest: () => ({ user }) }),
+        }) as unknown as ExecutionContext;
+
+    beforeEach(() => {
+        reflector = new Reflector();
+        guard = new RolesGuard(reflector);
+    });
+
+    it('should allow routes without role requirements', () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(undefined);
+
+        expect(guard.canActivate(createContext())).toBe(true);
+    });
+
+    it('should allow users holding a required role', () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue([Role.Moderator]);
+
+        expect(guard.canActivate(createContext({ id: 1, role: Role.Moderator }))).toBe(true);
+    });
+
+    it('should always allow admins', () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue([Role.Author]);
+
+        expect(guard.canActivate(createContext({ id: 1, role: Role.Admin }))).toBe(true);
+    });
+
+    it('should forbid users without a required role', () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue([Role.Author]);
+
+        expect(() => guard.canActivate(createContext({ id: 1, role: Role.Reader }))).toThrow(ForbiddenException);
+        expect(() => guard.canActivate(createContext())).toThrow(ForbiddenException);
+    });
+});
@@ -0,0 +1,31 @@
+import { CanActivate, ExecutionContext, ForbiddenException, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '../users/role.enum';
+import { ROLES_KEY } from './roles.decorator';
+
+/**
+ * Global guard enforcing `@Roles()` after `JwtAuthGuard` has authenticated the request.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+    constructor(private readonly reflector: Reflector) { }
+
+    canActivate(context: ExecutionContext): boolean {
+        const roles = this.reflector.getAllAndOverride<Role[]>(ROLES_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+
+        if (!roles?.length) {
+            return true;
+        }
+
+        const { user } = context.switchToHttp().getRequest();
+
+        if (user?.role === Role.Admin || roles.includes(user?.role)) {
+            return true;
+        }
+
+        throw new ForbiddenException('You do not have permission to perform this action');
+    }
+}
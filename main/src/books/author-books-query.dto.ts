@@ -0,0 +1,13 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from '../common/pagination';
+import { BookStatus } from './book-lifecycle';
+
+/**
+ * Query parameters for listing the authenticated author's own books
+ */
+export class AuthorBooksQueryDto extends PaginationQueryDto {
+    /** Only books in this lifecycle state */
+    @IsEnum(BookStatus)
+    @IsOptional()
+    status?: BookStatus;
+}
@@ -0,0 +1,66 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, InternalServerErrorException } from '@nestjs/common';
+import { AuthorBooksController } from './author-books.controller';
+import { BooksService } from './books.service';
+import { BookStatus } from './book-lifecycle';
+
+describe('AuthorBooksController', () => {
+    let authorBooksController: AuthorBooksController;
+    let booksService: Partial<BooksService>;
+
+    const mockRequest = () => ({
+        user: { id: 7 },
+        originalUrl: '/users/me/books?limit=1',
+        protocol: 'http',
+        get: () => 'localhost:3000',
+    });
+
+    const summary = { total: 2, draft: 1, published: 1, unpublished: 0, archived: 0 };
+
+    beforeEach(async () => {
+        booksService = {
+            findByAuthor: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [AuthorBooksController],
+            providers: [{ provide: BooksService, useValue: booksService }],
+        }).compile();
+
+        authorBooksController = module.get<AuthorBooksController>(AuthorBooksController);
+    });
+
+    describe('findMine', () => {
+        it('should return the authenticated author\'s books with links and a summary', async () => {
+            jest.spyOn(booksService, 'findByAuthor').mockResolvedValue({
+                data: [{ id: 1, title: 'Draft', status: BookStatus.Draft } as any],
+                meta: { total: 2, limit: 1, page: 1, totalPages: 2 },
+                summary,
+            });
+            const res = { setHeader: jest.fn() };
+
+            const result = await authorBooksController.findMine({ limit: 1 }, mockRequest(), res);
+
+            expect(booksService.findByAuthor).toHaveBeenCalledWith(7, { limit: 1 });
+            expect(result.summary).toEqual(summary);
+            expect(result.links.next).toContain('page=2');
+            expect(res.setHeader).toHaveBeenCalledWith('Link', expect.stringContaining('rel="next"'));
+        });
+
+        it('should rethrow BadRequestException', async () => {
+            jest.spyOn(booksService, 'findByAuthor').mockRejectedValue(new BadRequestException());
+
+            await expect(
+                authorBooksController.findMine({ status: 'lost' } as any, mockRequest(), { setHeader: jest.fn() }),
+            ).rejects.toThrow(BadRequestException);
+        });
+
+        it('should wrap unexpected errors', async () => {
+            jest.spyOn(booksService, 'findByAuthor').mockRejectedValue(new Error('boom'));
+
+            await expect(
+                authorBooksController.findMine({}, mockRequest(), { setHeader: jest.fn() }),
+            ).rejects.toThrow(InternalServerErrorException);
+        });
+    });
+});
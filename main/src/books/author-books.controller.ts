@@ -0,0 +1,55 @@
+import {
+    Controller,
+    Get,
+    Query,
+    Req,
+    Res,
+    InternalServerErrorException,
+    HttpException,
+    HttpStatus,
+} from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { instanceToPlain } from 'class-transformer';
+import { BooksService } from './books.service';
+import { AuthorBooksQueryDto } from './author-books-query.dto';
+import { XmlRoot } from '../common/xml';
+import { ApiErrorResponses } from '../common/openapi';
+import { buildPaginationLinks, formatLinkHeader } from '../common/pagination';
+
+@Controller('users/me/books')
+@ApiTags('books')
+@XmlRoot('books', 'book')
+export class AuthorBooksController {
+    constructor(private readonly booksService: BooksService) { }
+
+    /**
+     * Lists the authenticated author's own books, including drafts, unpublished and archived ones
+     *
+     * @param query - Pagination, sorting and an optional `status` filter
+     * @param req - The request object containing the authenticated user, also used to build pagination links
+     * @param res - The response object, used to set the `Link` header
+     * @returns A page of books with a `summary` of how many books are in each state
+     * @throws BadRequestException if a query parameter is invalid
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Get()
+    @ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.UNAUTHORIZED, HttpStatus.INTERNAL_SERVER_ERROR)
+    async findMine(@Query() query: AuthorBooksQueryDto, @Req() req, @Res({ passthrough: true }) res) {
+        try {
+            const catalogue = await this.booksService.findByAuthor(req.user.id, query);
+            const links = buildPaginationLinks(req, catalogue.meta);
+            const linkHeader = formatLinkHeader(links);
+
+            if (linkHeader) {
+                res.setHeader('Link', linkHeader);
+            }
+
+            return instanceToPlain({ ...catalogue, links });
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while fetching your books', { cause: error });
+        }
+    }
+}
@@ -0,0 +1,201 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+    BadRequestException,
+    ForbiddenException,
+    NotFoundException,
+    PayloadTooLargeException,
+} from '@nestjs/common';
+import * as sharp from 'sharp';
+import { DataSource } from 'typeorm';
+import { Asset, FileStorage } from '../storage';
+import { PublishingBansService } from '../publishing-bans/publishing-bans.service';
+import { Book } from './book.entity';
+import { BookCoversService, COVER_MAX_BYTES } from './book-covers.service';
+
+describe('BookCoversService', () => {
+    let service: BookCoversService;
+    let booksRepository: any;
+    let assetsRepository: any;
+    let manager: { create: jest.Mock; save: jest.Mock };
+    let storage: { put: jest.Mock; get: jest.Mock; delete: jest.Mock };
+    let publishingBansService: { assertMayPublish: jest.Mock };
+
+    const author = { id: 1, username: 'chewie', authorPseudonym: 'Chewbacca' };
+
+    const png = (width: number, height: number) =>
+        sharp({ create: { width, height, channels: 3, background: '#8b5a2b' } }).png().toBuffer();
+
+    const upload = (buffer: Buffer) => ({ buffer, size: buffer.length }) as Express.Multer.File;
+
+    beforeEach(async () => {
+        booksRepository = {
+            findOne: jest.fn(),
+            save: jest.fn(async (book) => book),
+        };
+        assetsRepository = { remove: jest.fn() };
+        manager = {
+            create: jest.fn((_entity, asset) => asset),
+            save: jest.fn(async (entity) => ('storageKey' in entity ? { id: 10, ...entity } : entity)),
+        };
+        storage = {
+            put: jest.fn(),
+            get: jest.fn(),
+            delete: jest.fn().mockResolvedValue(undefined),
+        };
+        publishingBansService = { assertMayPublish: jest.fn() };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                BookCoversService,
+                { provide: getRepositoryToken(Book), useValue: booksRepository },
+                { provide: getRepositoryToken(Asset), useValue: assetsRepository },
+                { provide: FileStorage, useValue: storage },
+                { provide: PublishingBansService, useValue: publishingBansService },
+                { provide: DataSource, useValue: { transaction: jest.fn((work) => work(manager)) } },
+            ],
+        }).compile();
+
+        service = module.get<BookCoversService>(BookCoversService);
+    });
+
+    describe('upload', () => {
+        it('should store the image with its thumbnails and reference it from the book', async () => {
+            const image = await png(800, 1200);
+            booksRepository.findOne.mockResolvedValue({ id: 3, author, cover: null });
+
+            const result = await service.upload(author as any, 3, upload(image));
+
+            const keys = storage.put.mock.calls.map(([key]) => key.split('/').pop());
+            expect(keys).toEqual(['original', 'small', 'medium', 'large']);
+            expect(storage.put.mock.calls[0][2]).toBe('image/png');
+
+            const small = await sharp(storage.put.mock.calls[1][1]).metadata();
+            expect(small).toMatchObject({ format: 'webp', width: 160, height: 240 });
+
+            expect(manager.create).toHaveBeenCalledWith(
+                Asset,
+                expect.objectContaining({ contentType: 'image/png', size: image.length, width: 800, height: 1200 }),
+            );
+            expect(result.coverId).toBe(10);
+            expect(publishingBansService.assertMayPublish).toHaveBeenCalledWith(author, 'update', 3);
+        });
+
+        it('should remove the replaced cover', async () => {
+            const previous = { id: 4, storageKey: 'covers/old' };
+            booksRepository.findOne.mockResolvedValue({ id: 3, author, cover: previous, coverId: 4 });
+
+            await service.upload(author as any, 3, upload(await png(100, 150)));
+
+            expect(assetsRepository.remove).toHaveBeenCalledWith(previous);
+            expect(storage.delete).toHaveBeenCalledWith('covers/old/original');
+            expect(storage.delete).toHaveBeenCalledWith('covers/old/large');
+        });
+
+        it('should reject files that are not supported images', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author });
+
+            await expect(service.upload(author as any, 3, upload(Buffer.from('%PDF-1.4')))).rejects.toThrow(
+                BadRequestException,
+            );
+            expect(storage.put).not.toHaveBeenCalled();
+        });
+
+        it('should reject missing and oversized files', async () => {
+            await expect(service.upload(author as any, 3, undefined)).rejects.toThrow(BadRequestException);
+            await expect(
+                service.upload(author as any, 3, { buffer: Buffer.from('x'), size: COVER_MAX_BYTES + 1 } as any),
+            ).rejects.toThrow(PayloadTooLargeException);
+        });
+
+        it('should only let the author change the cover', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author: { id: 2 } });
+
+            await expect(service.upload(author as any, 3, upload(await png(10, 10)))).rejects.toThrow(
+                ForbiddenException,
+            );
+        });
+
+        it('should refuse banned authors', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author });
+            publishingBansService.assertMayPublish.mockRejectedValue(new ForbiddenException());
+
+            await expect(service.upload(author as any, 3, upload(await png(10, 10)))).rejects.toThrow(
+                ForbiddenException,
+            );
+        });
+
+        it('should clean up stored files when saving fails', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author });
+            manager.save.mockRejectedValue(new Error('disk full'));
+
+            await expect(service.upload(author as any, 3, upload(await png(10, 10)))).rejects.toThrow(
+                'An error occurred while uploading the cover image',
+            );
+
+            const stored = storage.put.mock.calls.map(([key]) => key);
+            expect(storage.delete.mock.calls.map(([key]) => key)).toEqual(stored);
+        });
+
+        it('should save the asset and the book in one transaction', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author, cover: null });
+            manager.save.mockImplementation(async (entity) => {
+                if (!('storageKey' in entity)) {
+                    throw new Error('database is locked');
+                }
+                return { id: 10, ...entity };
+            });
+
+            await expect(service.upload(author as any, 3, upload(await png(10, 10)))).rejects.toThrow(
+                'An error occurred while uploading the cover image',
+            );
+            expect(manager.save).toHaveBeenCalledTimes(2);
+            expect(booksRepository.save).not.toHaveBeenCalled();
+            expect(storage.delete).toHaveBeenCalled();
+        });
+    });
+
+    describe('findCover', () => {
+        const cover = { storageKey: 'covers/abc', contentType: 'image/jpeg', checksum: 'f00d' };
+
+        it('should describe the original image', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, cover });
+
+            expect(await service.findCover(3)).toEqual({
+                storageKey: 'covers/abc/original',
+                contentType: 'image/jpeg',
+                etag: '"f00d"',
+            });
+        });
+
+        it('should describe a thumbnail', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, cover });
+
+            expect(await service.findCover(3, 'medium')).toEqual({
+                storageKey: 'covers/abc/medium',
+                contentType: 'image/webp',
+                etag: '"f00d-medium"',
+            });
+        });
+
+        it('should reject unknown sizes', async () => {
+            await expect(service.findCover(3, 'huge')).rejects.toThrow(BadRequestException);
+        });
+
+        it('should throw NotFoundException if the book has no cover', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, cover: null });
+
+            await expect(service.findCover(3)).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('read', () => {
+        it('should throw NotFoundException if the file is missing from storage', async () => {
+            storage.get.mockResolvedValue(null);
+
+            await expect(
+                service.read({ storageKey: 'covers/abc/original', contentType: 'image/png', etag: '"x"' }),
+            ).rejects.toThrow(NotFoundException);
+        });
+    });
+});
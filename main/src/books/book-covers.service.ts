@@ -0,0 +1,231 @@
+import {
+    Injectable,
+    Logger,
+    BadRequestException,
+    NotFoundException,
+    PayloadTooLargeException,
+    InternalServerErrorException,
+    HttpException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, Repository } from 'typeorm';
+import { createHash, randomUUID } from 'crypto';
+import * as sharp from 'sharp';
+import { User } from '../users/user.entity';
+import { Asset, FileStorage } from '../storage';
+import { PublishingBansService } from '../publishing-bans/publishing-bans.service';
+import { BOOK_COVER_SIZES, Book, BookCoverSize } from './book.entity';
+import { BookNotFoundException, NotResourceOwnerException } from '../common/errors';
+
+/**
+ * Largest accepted cover upload in bytes.
+ */
+export const COVER_MAX_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Accepted cover formats, keyed by the format sharp detects in the file.
+ */
+export const COVER_CONTENT_TYPES: Record<string, string> = {
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    webp: 'image/webp',
+};
+
+const THUMBNAIL_CONTENT_TYPE = 'image/webp';
+
+/**
+ * A stored cover image or thumbnail, ready to be served.
+ */
+export interface BookCoverFile {
+    storageKey: string;
+    contentType: string;
+    etag: string;
+}
+
+@Injectable()
+export class BookCoversService {
+    private readonly logger = new Logger(BookCoversService.name);
+
+    constructor(
+        @InjectRepository(Book)
+        private readonly booksRepository: Repository<Book>,
+
+        @InjectRepository(Asset)
+        private readonly assetsRepository: Repository<Asset>,
+
+        private readonly storage: FileStorage,
+
+        private readonly publishingBansService: PublishingBansService,
+
+        private readonly dataSource: DataSource,
+    ) { }
+
+    /**
+     * Validates an uploaded image, stores it with its thumbnails and makes it the cover of a book.
+     * @param user - The user uploading the cover.
+     * @param id - ID of the book.
+     * @param file - The uploaded file.
+     * @returns The updated book or throws an exception if the file is invalid, or the user is not authorized or banned.
+     */
+    async upload(user: User, id: number, file: Express.Multer.File | undefined): Promise<Book> {
+        let storageKey: string | undefined;
+
+        try {
+            if (!file?.buffer?.length) {
+                throw new BadRequestException('A cover image file is required');
+            }
+
+            if (file.size > COVER_MAX_BYTES) {
+                throw new PayloadTooLargeException(`Cover images may not be larger than ${COVER_MAX_BYTES} bytes`);
+            }
+
+            const book = await this.booksRepository.findOne({ where: { id }, relations: ['author', 'cover'] });
+
+            if (!book) {
+                throw new BookNotFoundException();
+            }
+
+            if (!book.author || book.author.id !== user.id) {
+                throw new NotResourceOwnerException('You are not authorized to update this book');
+            }
+
+            await this.publishingBansService.assertMayPublish(book.author, 'update', book.id);
+
+            const metadata = await this.readImageMetadata(file.buffer);
+            storageKey = `covers/${randomUUID()}`;
+
+            await this.storage.put(`${storageKey}/original`, file.buffer, COVER_CONTENT_TYPES[metadata.format]);
+
+            for (const [size, width] of Object.entries(BOOK_COVER_SIZES)) {
+                const thumbnail = await sharp(file.buffer)
+                    .rotate()
+                    .resize({ width, withoutEnlargement: true })
+                    .webp()
+                    .toBuffer();
+                await this.storage.put(`${storageKey}/${size}`, thumbnail, THUMBNAIL_CONTENT_TYPE);
+            }
+
+            const previous = book.cover;
+            const saved = await this.dataSource.transaction(async (manager) => {
+                const asset = await manager.save(
+                    manager.create(Asset, {
+                        storageKey,
+                        contentType: COVER_CONTENT_TYPES[metadata.format],
+                        size: file.buffer.length,
+                        checksum: createHash('sha256').update(file.buffer).digest('hex'),
+                        width: metadata.width ?? null,
+                        height: metadata.height ?? null,
+                    }),
+                );
+
+                book.cover = asset;
+                book.coverId = asset.id;
+                return manager.save(book);
+            });
+
+            if (previous) {
+                await this.removeAsset(previous);
+            }
+
+            return saved;
+        } catch (error) {
+            if (storageKey) {
+                await this.deleteFiles(storageKey);
+            }
+
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while uploading the cover image', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Finds the cover image of a book, or one of its thumbnails.
+     * @param id - ID of the book.
+     * @param size - `original` or a key of `BOOK_COVER_SIZES`.
+     * @returns Where the file is stored and its ETag, or throws an exception if the size is unknown or there is no cover.
+     */
+    async findCover(id: number, size: string = 'original'): Promise<BookCoverFile> {
+        try {
+            if (size !== 'original' && !(size in BOOK_COVER_SIZES)) {
+                throw new BadRequestException(
+                    `size must be one of: original, ${Object.keys(BOOK_COVER_SIZES).join(', ')}`,
+                );
+            }
+
+            const book = await this.booksRepository.findOne({ where: { id }, relations: ['cover'] });
+
+            if (!book) {
+                throw new BookNotFoundException();
+            }
+
+            if (!book.cover) {
+                throw new NotFoundException('Book has no cover image');
+            }
+
+            const original = size === 'original';
+
+            return {
+                storageKey: `${book.cover.storageKey}/${size as BookCoverSize}`,
+                contentType: original ? book.cover.contentType : THUMBNAIL_CONTENT_TYPE,
+                etag: original ? `"${book.cover.checksum}"` : `"${book.cover.checksum}-${size}"`,
+            };
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while fetching the cover image', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Reads a cover image or thumbnail from storage.
+     * @param cover - The file returned by `findCover`.
+     * @returns The file contents or throws an exception if the file is missing.
+     */
+    async read(cover: BookCoverFile): Promise<Buffer> {
+        const data = await this.storage.get(cover.storageKey);
+
+        if (!data) {
+            throw new NotFoundException('Cover image file not found');
+        }
+
+        return data;
+    }
+
+    /**
+     * Checks that a buffer holds an image in one of the accepted formats.
+     */
+    private async readImageMetadata(buffer: Buffer): Promise<sharp.Metadata> {
+        const metadata = await sharp(buffer).metadata().catch(() => null);
+
+        if (!metadata?.format || !COVER_CONTENT_TYPES[metadata.format]) {
+            throw new BadRequestException('Cover image must be a JPEG, PNG or WebP image');
+        }
+
+        return metadata;
+    }
+
+    /**
+     * Deletes a replaced cover. Failures are logged rather than thrown, as the new cover is already saved.
+     */
+    private async removeAsset(asset: Asset): Promise<void> {
+        try {
+            await this.assetsRepository.remove(asset);
+            await this.deleteFiles(asset.storageKey);
+        } catch (error) {
+            this.logger.warn(`Could not remove replaced cover ${asset.storageKey}: ${error?.message}`);
+        }
+    }
+
+    private async deleteFiles(storageKey: string): Promise<void> {
+        for (const size of ['original', ...Object.keys(BOOK_COVER_SIZES)]) {
+            await this.storage.delete(`${storageKey}/${size}`).catch(() => undefined);
+        }
+    }
+}
@@ -0,0 +1,17 @@
+import { Money } from '../common/money';
+import { PRICE_FACET_BOUNDARIES, priceFacetRanges } from './book-facets';
+
+describe('priceFacetRanges', () => {
+    it('should split prices into inclusive buckets in minor units of the currency', () => {
+        const ranges = priceFacetRanges('EUR');
+
+        expect(ranges).toHaveLength(PRICE_FACET_BOUNDARIES.length + 1);
+        expect(ranges[0]).toEqual({ min: Money.of(0, 'EUR'), max: Money.of(499, 'EUR') });
+        expect(ranges[1]).toEqual({ min: Money.of(500, 'EUR'), max: Money.of(999, 'EUR') });
+        expect(ranges[ranges.length - 1]).toEqual({ min: Money.of(5000, 'EUR'), max: null });
+    });
+
+    it('should follow the decimals of the currency', () => {
+        expect(priceFacetRanges('JPY')[1]).toEqual({ min: Money.of(5, 'JPY'), max: Money.of(9, 'JPY') });
+    });
+});
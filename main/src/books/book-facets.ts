@@ -0,0 +1,129 @@
+import { SelectQueryBuilder } from 'typeorm';
+import { Money, currencyDigits } from '../common/money';
+import { Book } from './book.entity';
+
+/**
+ * Lower bounds, in major units, of the price buckets after the first one starting at 0.
+ */
+export const PRICE_FACET_BOUNDARIES = [5, 10, 20, 50];
+
+/**
+ * Minimum average ratings counted by the rating facet, as in "4 stars & up".
+ */
+export const RATING_FACET_MINIMUMS = [4, 3, 2, 1];
+
+/**
+ * Number of most used tags returned in the tag facet.
+ */
+export const TAG_FACET_LIMIT = 20;
+
+export interface GenreFacet {
+    slug: string;
+    name: string;
+    count: number;
+}
+
+export interface TagFacet {
+    name: string;
+    count: number;
+}
+
+/**
+ * Books priced from `min` to `max` inclusive; the last bucket has no `max`.
+ */
+export interface PriceFacet {
+    min: Money;
+    max: Money | null;
+    count: number;
+}
+
+/**
+ * Books with an average rating of at least `minRating`.
+ */
+export interface RatingFacet {
+    minRating: number;
+    count: number;
+}
+
+/**
+ * How the books matching a search spread over genres, tags, prices and ratings.
+ */
+export interface BookFacets {
+    genres: GenreFacet[];
+    tags: TagFacet[];
+    price: PriceFacet[];
+    rating: RatingFacet[];
+}
+
+/**
+ * The price buckets of a currency, with inclusive bounds so they can be used as
+ * `minPrice`/`maxPrice` filters as they are.
+ *
+ * @param currency - ISO 4217 code of the prices
+ * @returns The buckets from 0 upwards
+ */
+export function priceFacetRanges(currency: string): Pick<PriceFacet, 'min' | 'max'>[] {
+    const scale = 10 ** currencyDigits(currency);
+    const starts = [0, ...PRICE_FACET_BOUNDARIES.map((boundary) => boundary * scale)];
+
+    return starts.map((start, index) => ({
+        min: Money.of(start, currency),
+        max: index + 1 < starts.length ? Money.of(starts[index + 1] - 1, currency) : null,
+    }));
+}
+
+/**
+ * Counts the books matched by a query per genre, tag, price bucket and minimum rating.
+ *
+ * @param queryBuilder - The filtered book query, aliased `book`, before sorting and pagination; it is not modified
+ * @param currency - Currency of the price buckets; books priced in other currencies are left out of them
+ * @returns The facet counts; genres and tags without books are left out
+ */
+export async function countBookFacets(queryBuilder: SelectQueryBuilder<Book>, currency: string): Promise<BookFacets> {
+    const ranges = priceFacetRanges(currency);
+
+    const genres = await queryBuilder
+        .clone()
+        .innerJoin('book.genres', 'facetGenre')
+        .select('facetGenre.slug', 'slug')
+        .addSelect('facetGenre.name', 'name')
+        .addSelect('COUNT(DISTINCT book.id)', 'count')
+        .groupBy('facetGenre.id')
+        .orderBy('count', 'DESC')
+        .addOrderBy('facetGenre.name', 'ASC')
+        .getRawMany();
+
+    const tags = await queryBuilder
+        .clone()
+        .innerJoin('book.tags', 'facetTag')
+        .select('facetTag.name', 'name')
+        .addSelect('COUNT(DISTINCT book.id)', 'count')
+        .groupBy('facetTag.id')
+        .orderBy('count', 'DESC')
+        .addOrderBy('facetTag.name', 'ASC')
+        .limit(TAG_FACET_LIMIT)
+        .getRawMany();
+
+    const counts = queryBuilder.clone().select('COUNT(*)', 'total').setParameter('facetCurrency', currency);
+    ranges.forEach(({ min, max }, index) => {
+        const upper = max ? ` AND book.priceMinor <= ${max.minorUnits}` : '';
+        counts.addSelect(
+            `SUM(CASE WHEN book.currency = :facetCurrency AND book.priceMinor >= ${min.minorUnits}${upper} THEN 1 ELSE 0 END)`,
+            `price_${index}`,
+        );
+    });
+    for (const minRating of RATING_FACET_MINIMUMS) {
+        counts.addSelect(
+            `SUM(CASE WHEN book.reviewCount > 0 AND book.ratingSum >= ${minRating} * book.reviewCount THEN 1 ELSE 0 END)`,
+            `rating_${minRating}`,
+        );
+    }
+    const raw = (await counts.getRawOne()) ?? {};
+
+    return {
+        genres: genres.map((row) => ({ slug: row.slug, name: row.name, count: Number(row.count) })),
+        tags: tags.map((row) => ({ name: row.name, count: Number(row.count) })),
+        price: ranges.map((range, index) => ({ ...range, count: Number(raw[`price_${index}`] ?? 0) })),
+        rating: RATING_FACET_MINIMUMS.map((minRating) => ({ minRating, count: Number(raw[`rating_${minRating}`] ?? 0) })),
+    };
+}
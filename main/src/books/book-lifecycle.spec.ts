@@ -0,0 +1,44 @@
+import { ConflictException } from '@nestjs/common';
+import { BookLifecycle, BookStatus, applyBookTransition } from './book-lifecycle';
+
+describe('applyBookTransition', () => {
+    const book = (status: BookStatus): BookLifecycle => ({
+        status,
+        publishedAt: null,
+        unpublishedAt: null,
+        archivedAt: null,
+    });
+    const now = new Date('2025-02-01T12:00:00Z');
+
+    it('should publish drafts and stamp the time', () => {
+        expect(applyBookTransition(book(BookStatus.Draft), 'publish', now)).toEqual({
+            ...book(BookStatus.Published),
+            publishedAt: now,
+        });
+    });
+
+    it('should republish unpublished books', () => {
+        expect(applyBookTransition(book(BookStatus.Unpublished), 'publish', now).status).toBe(BookStatus.Published);
+    });
+
+    it('should unpublish, archive and restore', () => {
+        const changed = applyBookTransition(book(BookStatus.Published), 'unpublish', now);
+        expect(changed).toMatchObject({ status: BookStatus.Unpublished, unpublishedAt: now });
+
+        applyBookTransition(changed, 'archive', now);
+        expect(changed).toMatchObject({ status: BookStatus.Archived, archivedAt: now });
+
+        applyBookTransition(changed, 'restore', now);
+        expect(changed.status).toBe(BookStatus.Unpublished);
+    });
+
+    it.each([
+        [BookStatus.Published, 'publish'],
+        [BookStatus.Draft, 'unpublish'],
+        [BookStatus.Archived, 'publish'],
+        [BookStatus.Archived, 'archive'],
+        [BookStatus.Draft, 'restore'],
+    ] as const)('should not allow a %s book to %s', (status, transition) => {
+        expect(() => applyBookTransition(book(status), transition)).toThrow(ConflictException);
+    });
+});
@@ -0,0 +1,64 @@
+import { InvalidBookTransitionException } from '../common/errors';
+
+/**
+ * Lifecycle states of a book. Only published books are visible to readers;
+ * authors see their own books in every state.
+ */
+export enum BookStatus {
+    Draft = 'draft',
+    Published = 'published',
+    Unpublished = 'unpublished',
+    Archived = 'archived',
+}
+
+export type BookTransition = 'publish' | 'unpublish' | 'archive' | 'restore';
+
+/**
+ * The states each transition may start from and the state it leads to.
+ */
+export const BOOK_TRANSITIONS: Record<BookTransition, { from: BookStatus[]; to: BookStatus }> = {
+    publish: { from: [BookStatus.Draft, BookStatus.Unpublished], to: BookStatus.Published },
+    unpublish: { from: [BookStatus.Published], to: BookStatus.Unpublished },
+    archive: { from: [BookStatus.Draft, BookStatus.Published, BookStatus.Unpublished], to: BookStatus.Archived },
+    restore: { from: [BookStatus.Archived], to: BookStatus.Unpublished },
+};
+
+/**
+ * Timestamp column recording when a book last entered each state; drafts use `createdAt`.
+ */
+const TRANSITION_TIMESTAMPS: Partial<Record<BookStatus, 'publishedAt' | 'unpublishedAt' | 'archivedAt'>> = {
+    [BookStatus.Published]: 'publishedAt',
+    [BookStatus.Unpublished]: 'unpublishedAt',
+    [BookStatus.Archived]: 'archivedAt',
+};
+
+/**
+ * The lifecycle fields of a book.
+ */
+export interface BookLifecycle {
+    status: BookStatus;
+    publishedAt: Date | null;
+    unpublishedAt: Date | null;
+    archivedAt: Date | null;
+}
+
+/**
+ * Moves a book to the state a transition leads to and stamps the time.
+ *
+ * @param book - The book to change
+ * @param transition - The requested transition
+ * @param now - Time of the transition
+ * @returns The same book, for chaining
+ * @throws InvalidBookTransitionException if the transition is not allowed from the book's current state
+ */
+export function applyBookTransition<T extends BookLifecycle>(book: T, transition: BookTransition, now = new Date()): T {
+    const { from, to } = BOOK_TRANSITIONS[transition];
+
+    if (!from.includes(book.status)) {
+        throw new InvalidBookTransitionException(`Cannot ${transition} a book that is ${book.status}`);
+    }
+
+    book.status = to;
+    book[TRANSITION_TIMESTAMPS[to]] = now;
+    return book;
+}
@@ -0,0 +1,54 @@
+import { ArgumentMetadata, BadRequestException, ValidationPipe } from '@nestjs/common';
+import { Money } from '../common/money';
+import { BookSearchQueryDto } from './book-search-query.dto';
+
+describe('BookSearchQueryDto', () => {
+    const pipe = new ValidationPipe({ transform: true });
+    const metadata: ArgumentMetadata = { type: 'query', metatype: BookSearchQueryDto };
+
+    it('should coerce query strings into typed values', async () => {
+        const result: BookSearchQueryDto = await pipe.transform(
+            { minPrice: '9.5', minRating: '3.5', authorId: '3', isPublished: 'false', createdAfter: '2025-01-01', page: '2' },
+            metadata,
+        );
+
+        expect(result.minPrice).toEqual(Money.of(950, 'EUR'));
+        expect(result.minRating).toBe(3.5);
+        expect(result.authorId).toBe(3);
+        expect(result.isPublished).toBe(false);
+        expect(result.createdAfter).toEqual(new Date('2025-01-01'));
+        expect(result.page).toBe(2);
+    });
+
+    it('should read price bounds in the requested currency', async () => {
+        const result: BookSearchQueryDto = await pipe.transform({ maxPrice: '2500', currency: 'JPY' }, metadata);
+
+        expect(result.maxPrice).toEqual(Money.of(2500, 'JPY'));
+    });
+
+    it('should read comma separated and repeated genres and tags as lists', async () => {
+        const result: BookSearchQueryDto = await pipe.transform(
+            { genre: 'jedi-lore, smuggler-tales', tag: ['space opera', 'wookiee,'] },
+            metadata,
+        );
+
+        expect(result.genre).toEqual(['jedi-lore', 'smuggler-tales']);
+        expect(result.tag).toEqual(['space opera', 'wookiee']);
+    });
+
+    it.each([
+        { minPrice: 'cheap' },
+        { maxPrice: '-1' },
+        { minPrice: '1.999' },
+        { currency: 'euro' },
+        { isPublished: 'maybe' },
+        { authorId: '1.5' },
+        { createdBefore: 'yesterday' },
+        { limit: '500' },
+        { minRating: '0' },
+        { minRating: 'good' },
+        { tag: { nested: 'x' } },
+    ])('should reject %p with a 400', async (query) => {
+        await expect(pipe.transform(query, metadata)).rejects.toThrow(BadRequestException);
+    });
+});
@@ -0,0 +1,157 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+    ArrayMaxSize,
+    IsBoolean,
+    IsDate,
+    IsEnum,
+    IsISO4217CurrencyCode,
+    IsInstance,
+    IsInt,
+    IsNotEmpty,
+    IsNumber,
+    IsOptional,
+    IsString,
+    Max,
+    MaxLength,
+    Min,
+} from 'class-validator';
+import { MAX_PAGE_LIMIT } from '../common/pagination';
+import { Money, toMoney } from '../common/money';
+import { toBoolean } from '../common/validation';
+import { BookStatus } from './book-lifecycle';
+
+/**
+ * Reads a comma separated (or repeated) query parameter as a list of non-empty values.
+ */
+const toList = ({ value }: { value: any }) => {
+    const values = Array.isArray(value) ? value : [value];
+    if (values.some((item) => typeof item !== 'string')) {
+        return value;
+    }
+    return values.flatMap((item: string) => item.split(',')).map((item) => item.trim()).filter(Boolean);
+};
+
+/**
+ * Query parameters accepted by `GET /books`.
+ */
+export class BookSearchQueryDto {
+    /**
+     * Full-text search over title, description and author pseudonym.
+     * Supports `"phrase queries"` and `prefix*` terms; results default to relevance order.
+     */
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(200)
+    @IsOptional()
+    q?: string;
+
+    /** Case-insensitive substring of the title */
+    @IsString()
+    @IsOptional()
+    title?: string;
+
+    /** Case-insensitive substring of the author's pseudonym */
+    @IsString()
+    @IsOptional()
+    authorPseudonym?: string;
+
+    /** Only books written by this user */
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    authorId?: number;
+
+    /** `true`/`false` (or `1`/`0`); anonymous callers only ever see published books */
+    @Transform(toBoolean)
+    @IsBoolean()
+    @IsOptional()
+    isPublished?: boolean;
+
+    /**
+     * Only books in this lifecycle state. Other users' books are only ever published,
+     * so e.g. `status=draft` lists your own drafts. Archived books are hidden unless requested.
+     */
+    @IsEnum(BookStatus)
+    @IsOptional()
+    status?: BookStatus;
+
+    /** Only books priced in this ISO 4217 currency; price bounds default to it */
+    @IsISO4217CurrencyCode()
+    @IsOptional()
+    currency?: string;
+
+    /** Inclusive lower price bound, e.g. `4.99`; in `currency`, or EUR. Only books in that currency match */
+    @ApiPropertyOptional({ type: String })
+    @Transform(toMoney())
+    @IsInstance(Money)
+    @IsOptional()
+    minPrice?: Money;
+
+    /** Inclusive upper price bound, e.g. `19.99`; in `currency`, or EUR */
+    @ApiPropertyOptional({ type: String })
+    @Transform(toMoney())
+    @IsInstance(Money)
+    @IsOptional()
+    maxPrice?: Money;
+
+    /** Only reviewed books with an average rating of at least this, from 1 to 5 */
+    @Type(() => Number)
+    @IsNumber()
+    @Min(1)
+    @Max(5)
+    @IsOptional()
+    minRating?: number;
+
+    /** Only books filed under any of these genre slugs, e.g. `kashyyyk-adventures,holonet-thrillers` */
+    @Transform(toList)
+    @IsString({ each: true })
+    @ArrayMaxSize(20)
+    @IsOptional()
+    genre?: string[];
+
+    /** Only books carrying all of these tags, e.g. `space opera,wookiee` */
+    @Transform(toList)
+    @IsString({ each: true })
+    @ArrayMaxSize(10)
+    @IsOptional()
+    tag?: string[];
+
+    /** Only books created at or after this ISO 8601 timestamp */
+    @Type(() => Date)
+    @IsDate()
+    @IsOptional()
+    createdAfter?: Date;
+
+    /** Only books created at or before this ISO 8601 timestamp */
+    @Type(() => Date)
+    @IsDate()
+    @IsOptional()
+    createdBefore?: Date;
+
+    /** Sort expression, e.g. `price,-title`; `relevance` is available together with `q` */
+    @IsString()
+    @IsOptional()
+    sort?: string;
+
+    /** 1-based page number for offset pagination */
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    page?: number;
+
+    /** Page size */
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(MAX_PAGE_LIMIT)
+    @IsOptional()
+    limit?: number;
+
+    /** Opaque cursor from a previous page's metadata */
+    @IsString()
+    @IsOptional()
+    cursor?: string;
+}
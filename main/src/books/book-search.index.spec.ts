@@ -0,0 +1,23 @@
+import { BadRequestException } from '@nestjs/common';
+import { toFtsQuery } from './book-search.index';
+
+describe('book-search.index', () => {
+    describe('toFtsQuery', () => {
+        it('should quote plain terms', () => {
+            expect(toFtsQuery('wookie adventures')).toBe('"wookie" "adventures"');
+        });
+
+        it('should keep phrases and prefix terms', () => {
+            expect(toFtsQuery('"epic tale" kashy*')).toBe('"epic tale" "kashy"*');
+        });
+
+        it('should neutralise FTS5 operators and column filters', () => {
+            expect(toFtsQuery('title:vader OR NEAR(x)')).toBe('"title" "vader" "OR" "NEAR" "x"');
+            expect(toFtsQuery('"unbalanced quote')).toBe('"unbalanced" "quote"');
+        });
+
+        it('should throw BadRequestException when nothing is searchable', () => {
+            expect(() => toFtsQuery('*** ""')).toThrow(BadRequestException);
+        });
+    });
+});
@@ -0,0 +1,71 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Name of the FTS5 table indexing book titles, descriptions and author pseudonyms.
+ * Its `rowid` is the id of the indexed book. The table and the triggers keeping
+ * it in sync with `book` and `user` are created by a migration.
+ */
+export const BOOK_FTS_TABLE = 'book_fts';
+
+/**
+ * Relevance of a match; bm25 is negated so higher means more relevant.
+ * Titles weigh most, then pseudonyms, then descriptions.
+ */
+export const BOOK_FTS_RELEVANCE = `-bm25(${BOOK_FTS_TABLE}, 10.0, 2.0, 5.0)`;
+
+const HIGHLIGHT_OPEN = '<mark>';
+const HIGHLIGHT_CLOSE = '</mark>';
+
+/**
+ * Select expressions for the highlighted fields of a match, keyed by field name.
+ */
+export const BOOK_FTS_HIGHLIGHTS: Record<string, string> = {
+    title: `highlight(${BOOK_FTS_TABLE}, 0, '${HIGHLIGHT_OPEN}', '${HIGHLIGHT_CLOSE}')`,
+    description: `snippet(${BOOK_FTS_TABLE}, 1, '${HIGHLIGHT_OPEN}', '${HIGHLIGHT_CLOSE}', '…', 16)`,
+    authorPseudonym: `highlight(${BOOK_FTS_TABLE}, 2, '${HIGHLIGHT_OPEN}', '${HIGHLIGHT_CLOSE}')`,
+};
+
+/**
+ * Converts a user supplied search string into a safe FTS5 query.
+ *
+ * Double-quoted segments become phrase queries, a trailing `*` on a term makes
+ * it a prefix query, and all parts must match. FTS5 operators and column
+ * filters in the input are treated as plain text.
+ *
+ * @param input - The raw `q` parameter, e.g. `"epic tale" wook*`
+ * @returns An FTS5 MATCH expression, e.g. `"epic tale" "wook"*`
+ * @throws BadRequestException if the input contains no searchable terms
+ */
+export function toFtsQuery(input: string): string {
+    const parts: string[] = [];
+    const pattern = /"([^"]*)"|(\S+)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(input ?? '')) !== null) {
+        if (match[1] !== undefined) {
+            const phrase = tokenize(match[1]).join(' ');
+            if (phrase) {
+                parts.push(`"${phrase}"`);
+            }
+            continue;
+        }
+
+        const prefix = match[2].endsWith('*');
+        for (const term of tokenize(match[2])) {
+            parts.push(`"${term}"`);
+        }
+        if (prefix && parts.length && !parts[parts.length - 1].endsWith('*')) {
+            parts[parts.length - 1] += '*';
+        }
+    }
+
+    if (!parts.length) {
+        throw new BadRequestException('Search query must contain at least one letter or digit');
+    }
+
+    return parts.join(' ');
+}
+
+function tokenize(text: string): string[] {
+    return text.match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { In } from 'typeorm';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Genre } from './genre.entity';
+import { Tag } from './tag.entity';
+import { BookTaxonomyService, DEFAULT_GENRES, normalizeTag, slugifyGenre } from './book-taxonomy.service';
+
+describe('slugifyGenre', () => {
+    it('should produce lowercase dash separated slugs without accents', () => {
+        expect(slugifyGenre('Kashyyyk Adventures')).toBe('kashyyyk-adventures');
+        expect(slugifyGenre('  Holonet  Thrillers! ')).toBe('holonet-thrillers');
+        expect(slugifyGenre('Épopée Wookiee')).toBe('epopee-wookiee');
+        expect(slugifyGenre('!!!')).toBe('');
+    });
+});
+
+describe('normalizeTag', () => {
+    it('should trim, lowercase and collapse whitespace', () => {
+        expect(normalizeTag('  Space   Opera ')).toBe('space opera');
+        expect(normalizeTag('WOOKIEE')).toBe('wookiee');
+        expect(normalizeTag('   ')).toBe('');
+    });
+});
+
+describe('BookTaxonomyService', () => {
+    let service: BookTaxonomyService;
+    let genresRepository: any;
+    let tagsRepository: any;
+    let insertQuery: any;
+
+    beforeEach(async () => {
+        genresRepository = {
+            count: jest.fn().mockResolvedValue(0),
+            find: jest.fn().mockResolvedValue([]),
+            exists: jest.fn().mockResolvedValue(false),
+            create: jest.fn((genre) => genre),
+            save: jest.fn(async (genre) => genre),
+        };
+        insertQuery = {
+            insert: jest.fn().mockReturnThis(),
+            into: jest.fn().mockReturnThis(),
+            values: jest.fn().mockReturnThis(),
+            orIgnore: jest.fn().mockReturnThis(),
+            execute: jest.fn(),
+        };
+        tagsRepository = {
+            createQueryBuilder: jest.fn(() => insertQuery),
+            find: jest.fn(async ({ where }) => where.name.value.map((name: string, index: number) => ({ id: index + 1, name }))),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                BookTaxonomyService,
+                { provide: getRepositoryToken(Genre), useValue: genresRepository },
+                { provide: getRepositoryToken(Tag), useValue: tagsRepository },
+            ],
+        }).compile();
+
+        service = module.get<BookTaxonomyService>(BookTaxonomyService);
+    });
+
+    describe('onModuleInit', () => {
+        it('should seed the default genres on an empty database only', async () => {
+            await service.onModuleInit();
+            expect(genresRepository.save).toHaveBeenCalledWith(
+                DEFAULT_GENRES.map((name) => ({ name, slug: slugifyGenre(name) })),
+            );
+
+            genresRepository.save.mockClear();
+            genresRepository.count.mockResolvedValue(3);
+            await service.onModuleInit();
+            expect(genresRepository.save).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('createGenre', () => {
+        it('should derive the slug from the name', async () => {
+            await expect(service.createGenre(' Droid Romance ')).resolves.toEqual({ name: 'Droid Romance', slug: 'droid-romance' });
+        });
+
+        it('should refuse duplicate slugs and names without letters', async () => {
+            genresRepository.exists.mockResolvedValue(true);
+
+            await expect(service.createGenre('Jedi lore')).rejects.toThrow(ConflictException);
+            await expect(service.createGenre('???')).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('resolveGenres', () => {
+        it('should look up the genres by slug', async () => {
+            const jediLore = { id: 1, slug: 'jedi-lore', name: 'Jedi Lore' };
+            genresRepository.find.mockResolvedValue([jediLore]);
+
+            await expect(service.resolveGenres(['Jedi-Lore', 'jedi-lore'])).resolves.toEqual([jediLore]);
+            expect(genresRepository.find).toHaveBeenCalledWith({ where: { slug: In(['jedi-lore']) } });
+        });
+
+        it('should name unknown genres in the error', async () => {
+            await expect(service.resolveGenres(['sith-poetry'])).rejects.toThrow('Unknown genre(s): sith-poetry');
+        });
+
+        it.each([['jedi-lore'], [[1]], [['a', 'b', 'c', 'd']]])('should reject %p with a 400', async (slugs) => {
+            await expect(service.resolveGenres(slugs)).rejects.toThrow(BadRequestException);
+        });
+
+        it('should clear the genres for an empty list without querying', async () => {
+            await expect(service.resolveGenres([])).resolves.toEqual([]);
+            expect(genresRepository.find).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('resolveTags', () => {
+        it('should create missing tags and return them normalized', async () => {
+            const tags = await service.resolveTags(['Space Opera', 'space  opera', 'Wookiee']);
+
+            expect(insertQuery.values).toHaveBeenCalledWith([{ name: 'space opera' }, { name: 'wookiee' }]);
+            expect(insertQuery.orIgnore).toHaveBeenCalled();
+            expect(tags).toEqual([
+                { id: 1, name: 'space opera' },
+                { id: 2, name: 'wookiee' },
+            ]);
+        });
+
+        it.each([['wookiee'], [['  ']], [['x'.repeat(31)]], [Array.from({ length: 11 }, (_, index) => `tag ${index}`)]])(
+            'should reject %p with a 400',
+            async (names) => {
+                await expect(service.resolveTags(names)).rejects.toThrow(BadRequestException);
+                expect(insertQuery.execute).not.toHaveBeenCalled();
+            },
+        );
+    });
+});
@@ -0,0 +1,204 @@
+import {
+    Injectable,
+    Logger,
+    OnModuleInit,
+    BadRequestException,
+    ConflictException,
+    InternalServerErrorException,
+    HttpException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, QueryFailedError, Repository } from 'typeorm';
+import { Genre } from './genre.entity';
+import { Tag } from './tag.entity';
+
+/**
+ * Genres created on an empty database.
+ */
+export const DEFAULT_GENRES = [
+    'Kashyyyk Adventures',
+    'Holonet Thrillers',
+    'Smuggler Tales',
+    'Jedi Lore',
+    'Galactic History',
+    'Wookiee Poetry',
+];
+
+/**
+ * Most genres a book can be filed under.
+ */
+export const MAX_BOOK_GENRES = 3;
+
+/**
+ * Most tags a book can carry.
+ */
+export const MAX_BOOK_TAGS = 10;
+
+/**
+ * Longest accepted tag, after normalization.
+ */
+export const TAG_MAX_LENGTH = 30;
+
+/**
+ * Turns a genre name into its slug: lowercase letters and digits separated by dashes,
+ * without accents, so `Kashyyyk Adventures` becomes `kashyyyk-adventures`.
+ *
+ * @param name - The genre name
+ * @returns The slug, empty if the name has no letters or digits
+ */
+export function slugifyGenre(name: string | null | undefined): string {
+    return (name ?? '')
+        .normalize('NFKD')
+        .replace(/\p{M}/gu, '')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, '-')
+        .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Normalizes a free-form tag: trimmed, lowercase and with single spaces, so
+ * ` Space  Opera` and `space opera` are the same tag.
+ *
+ * @param tag - The tag as sent by the author
+ * @returns The normalized tag, empty if it is blank
+ */
+export function normalizeTag(tag: string): string {
+    return tag.normalize('NFKC').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+@Injectable()
+export class BookTaxonomyService implements OnModuleInit {
+    private readonly logger = new Logger(BookTaxonomyService.name);
+
+    constructor(
+        @InjectRepository(Genre)
+        private readonly genresRepository: Repository<Genre>,
+
+        @InjectRepository(Tag)
+        private readonly tagsRepository: Repository<Tag>,
+    ) { }
+
+    /**
+     * Seeds the default genres on a fresh database.
+     */
+    async onModuleInit(): Promise<void> {
+        if (await this.genresRepository.count() > 0) {
+            return;
+        }
+
+        await this.genresRepository.save(
+            DEFAULT_GENRES.map((name) => this.genresRepository.create({ name, slug: slugifyGenre(name) })),
+        );
+        this.logger.log(`Seeded ${DEFAULT_GENRES.length} default genre(s)`);
+    }
+
+    /**
+     * Lists all genres.
+     *
+     * @returns The genres, by name
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    async findGenres(): Promise<Genre[]> {
+        try {
+            return await this.genresRepository.find({ order: { name: 'ASC' } });
+        } catch (error) {
+            throw new InternalServerErrorException('An error occurred while fetching genres', { cause: error });
+        }
+    }
+
+    /**
+     * Adds a genre.
+     *
+     * @param name - The genre name; its slug is derived from it
+     * @returns The created genre
+     * @throws BadRequestException if the name has no letters or digits
+     * @throws ConflictException if a genre with the same slug exists
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    async createGenre(name: string): Promise<Genre> {
+        try {
+            const slug = typeof name === 'string' ? slugifyGenre(name) : '';
+
+            if (!slug) {
+                throw new BadRequestException('name must contain letters or digits');
+            }
+
+            if (await this.genresRepository.exists({ where: { slug } })) {
+                throw new ConflictException(`Genre "${slug}" already exists`);
+            }
+
+            return await this.genresRepository.save(this.genresRepository.create({ name: name.trim(), slug }));
+        } catch (error) {
+            if (error instanceof QueryFailedError && /UNIQUE constraint failed/i.test(error.message)) {
+                throw new ConflictException(`Genre "${slugifyGenre(name)}" already exists`);
+            }
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while creating the genre', { cause: error });
+        }
+    }
+
+    /**
+     * Looks up the genres an author files a book under.
+     *
+     * @param slugs - Genre slugs; duplicates are ignored
+     * @returns The genres
+     * @throws BadRequestException if the list is invalid, too long or names unknown genres
+     */
+    async resolveGenres(slugs: unknown): Promise<Genre[]> {
+        if (!Array.isArray(slugs) || slugs.some((slug) => typeof slug !== 'string')) {
+            throw new BadRequestException('genres must be a list of genre slugs');
+        }
+
+        const unique = [...new Set(slugs.map((slug: string) => slug.trim().toLowerCase()))];
+        if (unique.length > MAX_BOOK_GENRES) {
+            throw new BadRequestException(`A book can have at most ${MAX_BOOK_GENRES} genres`);
+        }
+        if (unique.length === 0) {
+            return [];
+        }
+
+        const genres = await this.genresRepository.find({ where: { slug: In(unique) } });
+        const unknown = unique.filter((slug) => !genres.some((genre) => genre.slug === slug));
+        if (unknown.length > 0) {
+            throw new BadRequestException(`Unknown genre(s): ${unknown.join(', ')}`);
+        }
+
+        return genres;
+    }
+
+    /**
+     * Looks up the tags an author puts on a book, creating the ones nobody used before.
+     *
+     * @param names - Free-form tags; normalized with `normalizeTag`, duplicates are ignored
+     * @returns The tags
+     * @throws BadRequestException if the list is invalid, too long or contains blank or overlong tags
+     */
+    async resolveTags(names: unknown): Promise<Tag[]> {
+        if (!Array.isArray(names) || names.some((name) => typeof name !== 'string')) {
+            throw new BadRequestException('tags must be a list of strings');
+        }
+
+        const unique = [...new Set(names.map(normalizeTag))];
+        if (unique.some((name) => !name || name.length > TAG_MAX_LENGTH)) {
+            throw new BadRequestException(`tags must be between 1 and ${TAG_MAX_LENGTH} characters`);
+        }
+        if (unique.length > MAX_BOOK_TAGS) {
+            throw new BadRequestException(`A book can have at most ${MAX_BOOK_TAGS} tags`);
+        }
+        if (unique.length === 0) {
+            return [];
+        }
+
+        await this.tagsRepository
+            .createQueryBuilder()
+            .insert()
+            .into(Tag)
+            .values(unique.map((name) => ({ name })))
+            .orIgnore()
+            .execute();
+
+        return this.tagsRepository.find({ where: { name: In(unique) } });
+    }
+}
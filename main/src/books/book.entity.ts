@@ -1,6 +1,48 @@
 
-import { Entity, Column, PrimaryGeneratedColumn, ManyToOne } from 'typeorm';
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, ManyToMany, CreateDateColumn, JoinColumn, JoinTable } from 'typeorm';
+import { Exclude, Expose, Transform } from 'class-transformer';
 import { User } from '../users/user.entity';
+import { Asset } from '../storage/asset.entity';
+import { BookStatus } from './book-lifecycle';
+import { DEFAULT_CURRENCY, Money } from '../common/money';
+import { Genre } from './genre.entity';
+import { Tag } from './tag.entity';
+
+/**
+ * Relevance and highlighted fields of a full-text search match.
+ */
+export interface BookSearchMatch {
+    relevance: number;
+    highlights: {
+        title: string;
+        description: string;
+        authorPseudonym: string | null;
+    };
+}
+
+/**
+ * Copies sold and revenue of a book over all paid orders.
+ */
+export interface BookSales {
+    copies: number;
+    revenue: Money;
+}
+
+/**
+ * Widths in pixels of the thumbnails generated for every cover image.
+ */
+export const BOOK_COVER_SIZES = {
+    small: 160,
+    medium: 320,
+    large: 640,
+} as const;
+
+export type BookCoverSize = keyof typeof BOOK_COVER_SIZES | 'original';
+
+/**
+ * URLs of a cover image and its thumbnails.
+ */
+export type BookCoverLinks = Record<BookCoverSize, string>;
 
 @Entity()
 export class Book {
@@ -13,15 +55,109 @@ export class Book {
     @Column()
     description: string;
 
-    @Column()
-    coverImage: string;
+    /** Uploaded cover image, managed through `POST /books/:id/cover` */
+    @ManyToOne(() => Asset, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'coverId' })
+    @Exclude()
+    cover?: Asset | null;
+
+    @Column({ type: 'integer', nullable: true })
+    @Exclude()
+    coverId: number | null;
 
-    @Column('decimal')
-    price: number;
+    /** Price in minor units of `currency`; read and written through `price` */
+    @Column({ type: 'integer', default: 0 })
+    @Exclude()
+    priceMinor: number;
 
-    @Column({ default: true })
-    isPublished: boolean;
+    /** ISO 4217 code of the price */
+    @Column({ length: 3, default: DEFAULT_CURRENCY })
+    @Exclude()
+    currency: string;
 
-    @ManyToOne(() => User, (user) => user.books)
+    /** Changed through the transitions in `BOOK_TRANSITIONS` only */
+    @Column({ type: 'varchar', default: BookStatus.Published })
+    status: BookStatus;
+
+    /** When the book was last published */
+    @Column({ type: 'datetime', nullable: true })
+    publishedAt: Date | null;
+
+    @Column({ type: 'datetime', nullable: true })
+    unpublishedAt: Date | null;
+
+    @Column({ type: 'datetime', nullable: true })
+    archivedAt: Date | null;
+
+    /** Authors are never removed, only anonymized, so their books stay available to buyers */
+    @ManyToOne(() => User, (user) => user.books, { onDelete: 'RESTRICT' })
     author: User;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    /** Genres the author filed the book under; loaded on demand */
+    @ManyToMany(() => Genre)
+    @JoinTable({ name: 'book_genres', joinColumn: { name: 'bookId' }, inverseJoinColumn: { name: 'genreId' } })
+    genres?: Genre[];
+
+    /** Free-form tags, returned as their names; loaded on demand */
+    @ManyToMany(() => Tag)
+    @JoinTable({ name: 'book_tags', joinColumn: { name: 'bookId' }, inverseJoinColumn: { name: 'tagId' } })
+    @Transform(({ value }) => value?.map((tag: Tag) => tag.name), { toPlainOnly: true })
+    tags?: Tag[];
+
+    /** Number of reviews; kept up to date by `ReviewsService` */
+    @Column({ type: 'integer', default: 0 })
+    reviewCount: number;
+
+    /** Sum of all review ratings, so the average stays exact */
+    @Column({ type: 'integer', default: 0 })
+    @Exclude()
+    ratingSum: number;
+
+    /** Populated on results of a full-text search; not persisted */
+    search?: BookSearchMatch;
+
+    /** Populated on the author's own catalogue; not persisted */
+    sales?: BookSales;
+
+    @Expose()
+    get price(): Money {
+        return Money.of(this.priceMinor ?? 0, this.currency ?? DEFAULT_CURRENCY);
+    }
+
+    set price(price: Money) {
+        this.priceMinor = price.minorUnits;
+        this.currency = price.currency;
+    }
+
+    /** Average review rating from 1 to 5, rounded to two decimals; `null` until the book is reviewed */
+    @Expose()
+    get averageRating(): number | null {
+        return this.reviewCount ? Math.round((this.ratingSum / this.reviewCount) * 100) / 100 : null;
+    }
+
+    /** Kept for clients predating `status` */
+    @Expose()
+    get isPublished(): boolean {
+        return this.status === BookStatus.Published;
+    }
+
+    /** Where to fetch the cover image and its thumbnails, `null` until one is uploaded */
+    @Expose()
+    get coverImage(): BookCoverLinks | null {
+        if (!this.coverId) {
+            return null;
+        }
+
+        const url = `/books/${this.id}/cover`;
+        const links = { original: url } as BookCoverLinks;
+
+        for (const size of Object.keys(BOOK_COVER_SIZES)) {
+            links[size] = `${url}?size=${size}`;
+        }
+
+        return links;
+    }
 }
\ No newline at end of file
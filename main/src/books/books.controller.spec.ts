@@ -1,16 +1,33 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { BooksController } from './books.controller';
 import { BooksService } from './books.service';
+import { BookCoversService } from './book-covers.service';
 import {
     BadRequestException,
     NotFoundException,
-    UnauthorizedException,
     InternalServerErrorException,
+    ForbiddenException,
+    ConflictException,
 } from '@nestjs/common';
+import { Role } from '../users/role.enum';
+import { User } from '../users/user.entity';
+import { Book } from './book.entity';
+import { BookStatus } from './book-lifecycle';
+import { Money } from '../common/money';
+import { NotResourceOwnerException } from '../common/errors';
 
 describe('BooksController', () => {
     let booksController: BooksController;
     let booksService: Partial<BooksService>;
+    let bookCoversService: Partial<BookCoversService>;
+
+    const facets = { genres: [], tags: [], price: [], rating: [] };
+
+    const mockRequest = (originalUrl: string) => ({
+        originalUrl,
+        protocol: 'http',
+        get: () => 'localhost:3000',
+    });
 
     beforeEach(async () => {
         booksService = {
@@ -19,6 +36,12 @@ describe('BooksController', () => {
             create: jest.fn(),
             update: jest.fn(),
             remove: jest.fn(),
+            transition: jest.fn(),
+        };
+        bookCoversService = {
+            upload: jest.fn(),
+            findCover: jest.fn(),
+            read: jest.fn(),
         };
 
         const module: TestingModule = await Test.createTestingModule({
@@ -28,6 +51,10 @@ describe('BooksController', () => {
                     provide: BooksService,
                     useValue: booksService,
                 },
+                {
+                    provide: BookCoversService,
+                    useValue: bookCoversService,
+                },
             ],
         }).compile();
 
@@ -41,31 +68,97 @@ describe('BooksController', () => {
                     id: 1,
                     title: 'Test Book',
                     description: 'A test description',
-                    coverImage: 'http://example.com/image.jpg',
-                    price: 19.99,
+                    coverId: null,
+                    coverImage: null,
+                    priceMinor: 1999,
+                    currency: 'EUR',
+                    price: Money.of(1999, 'EUR'),
+                    reviewCount: 0,
+                    ratingSum: 0,
+                    averageRating: null,
                     isPublished: true,
+                    status: BookStatus.Published,
+                    publishedAt: null,
+                    unpublishedAt: null,
+                    archivedAt: null,
+                    createdAt: new Date('2025-01-19T00:00:00Z'),
                     author: {
                         id: 1,
                         username: 'testuser',
                         authorPseudonym: 'Test Pseudonym',
                         password: "",
-                        books: []
+                        books: [],
+                        role: Role.Author,
+                        suspendedAt: null,
+                        suspensionReason: null,
+                        email: null,
+                        passwordChangedAt: null,
+                        failedLoginAttempts: 0,
+                        lockedUntil: null,
+                        deletedAt: null,
+                        anonymizedAt: null
                     },
                 },
             ];
-            jest.spyOn(booksService, 'findAllWithFilters').mockResolvedValue(mockBooks);
+            const meta = { total: 41, limit: 20, page: 1, totalPages: 3 };
+            jest.spyOn(booksService, 'findAllWithFilters').mockResolvedValue({ data: mockBooks, meta, facets });
 
             const query = { title: 'Test' };
-            const result = await booksController.findAll(query);
+            const res = { setHeader: jest.fn() };
+            const result = await booksController.findAll(query, mockRequest('/books?title=Test'), res);
+
+            expect(booksService.findAllWithFilters).toHaveBeenCalledWith(query, undefined);
+            expect(result.data).toEqual([{ ...mockBooks[0], price: { amount: '19.99', currency: 'EUR' } }]);
+            expect(result.meta).toEqual(meta);
+            expect(result.facets).toEqual(facets);
+            expect(result.links).toEqual({
+                self: 'http://localhost:3000/books?title=Test',
+                first: 'http://localhost:3000/books?title=Test&page=1',
+                prev: null,
+                next: 'http://localhost:3000/books?title=Test&page=2',
+                last: 'http://localhost:3000/books?title=Test&page=3',
+            });
+            expect(res.setHeader).toHaveBeenCalledWith(
+                'Link',
+                '<http://localhost:3000/books?title=Test&page=1>; rel="first", ' +
+                    '<http://localhost:3000/books?title=Test&page=2>; rel="next", ' +
+                    '<http://localhost:3000/books?title=Test&page=3>; rel="last"',
+            );
+        });
+
+        it('should pass the optional authenticated user to the service', async () => {
+            jest.spyOn(booksService, 'findAllWithFilters').mockResolvedValue({ data: [], meta: { total: 0, limit: 20, page: 1, totalPages: 0 }, facets });
 
-            expect(booksService.findAllWithFilters).toHaveBeenCalledWith(query);
-            expect(result).toEqual(mockBooks);
+            await booksController.findAll({}, { ...mockRequest('/books'), user: { id: 3 } }, { setHeader: jest.fn() });
+
+            expect(booksService.findAllWithFilters).toHaveBeenCalledWith({}, { id: 3 });
+        });
+
+        it('should link to neighbouring cursors', async () => {
+            const meta = { total: 41, limit: 20, nextCursor: 'next123', prevCursor: 'prev123' };
+            jest.spyOn(booksService, 'findAllWithFilters').mockResolvedValue({ data: [], meta, facets });
+
+            const result = await booksController.findAll({ cursor: 'abc' }, mockRequest('/books?cursor=abc'), { setHeader: jest.fn() });
+
+            expect(result.links.next).toBe('http://localhost:3000/books?cursor=next123');
+            expect(result.links.prev).toBe('http://localhost:3000/books?cursor=prev123');
+            expect(result.links.first).toBe('http://localhost:3000/books');
+        });
+
+        it('should rethrow BadRequestException for invalid paging parameters', async () => {
+            jest.spyOn(booksService, 'findAllWithFilters').mockRejectedValue(new BadRequestException('Invalid cursor'));
+
+            await expect(
+                booksController.findAll({ cursor: 'x' }, mockRequest('/books?cursor=x'), { setHeader: jest.fn() }),
+            ).rejects.toThrow(BadRequestException);
         });
 
         it('should throw an InternalServerErrorException on service error', async () => {
             jest.spyOn(booksService, 'findAllWithFilters').mockRejectedValue(new Error('Unexpected error'));
 
-            await expect(booksController.findAll({ title: 'Test' })).rejects.toThrow(InternalServerErrorException);
+            await expect(
+                booksController.findAll({ title: 'Test' }, mockRequest('/books?title=Test'), { setHeader: jest.fn() }),
+            ).rejects.toThrow(InternalServerErrorException);
         });
     });
 
@@ -75,33 +168,70 @@ describe('BooksController', () => {
                 id: 1,
                 title: 'Test Book',
                 description: 'A test description',
-                coverImage: 'http://example.com/image.jpg',
-                price: 19.99,
+                coverId: null,
+                coverImage: null,
+                priceMinor: 1999,
+                currency: 'EUR',
+                price: Money.of(1999, 'EUR'),
+                reviewCount: 0,
+                ratingSum: 0,
+                averageRating: null,
                 isPublished: true,
+                status: BookStatus.Published,
+                publishedAt: null,
+                unpublishedAt: null,
+                archivedAt: null,
+                createdAt: new Date('2025-01-19T00:00:00Z'),
                 author: {
                     id: 1,
                     username: 'testuser',
                     authorPseudonym: 'Test Pseudonym',
                     password: "",
-                    books: []
+                    books: [],
+                    role: Role.Author,
+                    suspendedAt: null,
+                    suspensionReason: null,
+                    email: null,
+                    passwordChangedAt: null,
+                    failedLoginAttempts: 0,
+                    lockedUntil: null,
+                    deletedAt: null,
+                    anonymizedAt: null
                 },
             };
             jest.spyOn(booksService, 'findOne').mockResolvedValue(mockBook);
 
-            const result = await booksController.findOne(1);
+            const result = await booksController.findOne(1, { user: { id: 1 } });
 
-            expect(booksService.findOne).toHaveBeenCalledWith(1);
-            expect(result).toEqual(mockBook);
+            expect(booksService.findOne).toHaveBeenCalledWith(1, { id: 1 });
+            expect(result).toEqual({ ...mockBook, price: { amount: '19.99', currency: 'EUR' } });
         });
 
-        it('should throw BadRequestException for invalid ID', async () => {
-            await expect(booksController.findOne(null)).rejects.toThrow(BadRequestException);
+        it('should expose only the public profile of the author', async () => {
+            const author = Object.assign(new User(), {
+                id: 1,
+                username: 'chewie',
+                authorPseudonym: 'Chewbacca',
+                password: 'hash',
+                email: 'chewie@kashyyyk.example',
+                role: Role.Author,
+                suspendedAt: new Date('2025-01-01T00:00:00Z'),
+                suspensionReason: 'Spam',
+                deletedAt: null,
+                anonymizedAt: null,
+            });
+            const book = Object.assign(new Book(), { id: 1, title: 'Life Debt', priceMinor: 1999, currency: 'EUR', author });
+            jest.spyOn(booksService, 'findOne').mockResolvedValue(book);
+
+            const result = await booksController.findOne(1, {});
+
+            expect(result.author).toEqual({ id: 1, username: 'chewie', authorPseudonym: 'Chewbacca' });
         });
 
         it('should throw NotFoundException if the book is not found', async () => {
             jest.spyOn(booksService, 'findOne').mockResolvedValue(null);
 
-            await expect(booksController.findOne(1)).rejects.toThrow(NotFoundException);
+            await expect(booksController.findOne(1, {})).rejects.toThrow(NotFoundException);
         });
     });
 
@@ -112,37 +242,67 @@ describe('BooksController', () => {
                 id: 1,
                 title: 'New Book',
                 description: 'A test description',
-                coverImage: 'http://example.com/image.jpg',
-                price: 19.99,
+                coverId: null,
+                coverImage: null,
+                priceMinor: 1999,
+                currency: 'EUR',
+                price: Money.of(1999, 'EUR'),
+                reviewCount: 0,
+                ratingSum: 0,
+                averageRating: null,
                 isPublished: true,
+                status: BookStatus.Published,
+                publishedAt: null,
+                unpublishedAt: null,
+                archivedAt: null,
+                createdAt: new Date('2025-01-19T00:00:00Z'),
                 author: {
                     id: 1,
                     username: 'testuser',
                     authorPseudonym: 'Test Pseudonym',
                     password: "",
-                    books: []
+                    books: [],
+                    role: Role.Author,
+                    suspendedAt: null,
+                    suspensionReason: null,
+                    email: null,
+                    passwordChangedAt: null,
+                    failedLoginAttempts: 0,
+                    lockedUntil: null,
+                    deletedAt: null,
+                    anonymizedAt: null
                 },
             };
 
             jest.spyOn(booksService, 'create').mockResolvedValue(mockBook);
 
-            const createBookDto = { title: 'New Book', description: 'Test Description', price: 19.99 };
+            const createBookDto = { title: 'New Book', description: 'Test Description', price: Money.parse('19.99') };
             const result = await booksController.create({ user: mockUser } as any, createBookDto);
 
             expect(booksService.create).toHaveBeenCalledWith(mockUser, createBookDto);
-            expect(result).toEqual(mockBook);
+            expect(result).toEqual({ ...mockBook, price: { amount: '19.99', currency: 'EUR' } });
         });
 
         it('should throw InternalServerErrorException on service error', async () => {
             jest.spyOn(booksService, 'create').mockRejectedValue(new Error('Unexpected error'));
 
             const mockUser = { id: 1, username: 'testuser' };
-            const createBookDto = { title: 'New Book', description: 'Test Description', price: 19.99 };
+            const createBookDto = { title: 'New Book', description: 'Test Description', price: Money.parse('19.99') };
 
             await expect(booksController.create({ user: mockUser } as any, createBookDto)).rejects.toThrow(
                 InternalServerErrorException,
             );
         });
+
+        it('should rethrow the ban ForbiddenException with its structured body', async () => {
+            const banned = new ForbiddenException({ statusCode: 403, code: 'PUBLISHER_BANNED', reason: 'Sith' });
+            jest.spyOn(booksService, 'create').mockRejectedValue(banned);
+
+            const mockUser = { id: 1, username: 'Darth Vader' };
+            const createBookDto = { title: 'New Book', description: 'Test Description', price: Money.parse('19.99') };
+
+            await expect(booksController.create({ user: mockUser } as any, createBookDto)).rejects.toBe(banned);
+        });
     });
 
     describe('update', () => {
@@ -152,15 +312,35 @@ describe('BooksController', () => {
                 id: 1,
                 title: 'Updated Book',
                 description: 'An updated description',
-                coverImage: 'http://example.com/image.jpg',
-                price: 19.99,
+                coverId: null,
+                coverImage: null,
+                priceMinor: 1999,
+                currency: 'EUR',
+                price: Money.of(1999, 'EUR'),
+                reviewCount: 0,
+                ratingSum: 0,
+                averageRating: null,
                 isPublished: true,
+                status: BookStatus.Published,
+                publishedAt: null,
+                unpublishedAt: null,
+                archivedAt: null,
+                createdAt: new Date('2025-01-19T00:00:00Z'),
                 author: {
                     id: 1,
                     username: 'testuser',
                     authorPseudonym: 'Test Pseudonym',
                     password: "",
-                    books: []
+                    books: [],
+                    role: Role.Author,
+                    suspendedAt: null,
+                    suspensionReason: null,
+                    email: null,
+                    passwordChangedAt: null,
+                    failedLoginAttempts: 0,
+                    lockedUntil: null,
+                    deletedAt: null,
+                    anonymizedAt: null
                 },
             };
 
@@ -170,7 +350,7 @@ describe('BooksController', () => {
             const result = await booksController.update({ user: mockUser } as any, 1, updateBookDto);
 
             expect(booksService.update).toHaveBeenCalledWith(mockUser, 1, updateBookDto);
-            expect(result).toEqual(mockUpdatedBook);
+            expect(result).toEqual({ ...mockUpdatedBook, price: { amount: '19.99', currency: 'EUR' } });
         });
 
         it('should throw NotFoundException if the book is not found', async () => {
@@ -192,15 +372,35 @@ describe('BooksController', () => {
                 id: 1,
                 title: 'Unpublished Book',
                 description: 'A test description',
-                coverImage: 'http://example.com/image.jpg',
-                price: 19.99,
+                coverId: null,
+                coverImage: null,
+                priceMinor: 1999,
+                currency: 'EUR',
+                price: Money.of(1999, 'EUR'),
+                reviewCount: 0,
+                ratingSum: 0,
+                averageRating: null,
                 isPublished: false,
+                status: BookStatus.Unpublished,
+                publishedAt: null,
+                unpublishedAt: null,
+                archivedAt: null,
+                createdAt: new Date('2025-01-19T00:00:00Z'),
                 author: {
                     id: 1,
                     username: 'testuser',
                     authorPseudonym: 'Test Pseudonym',
                     password: "",
-                    books: []
+                    books: [],
+                    role: Role.Author,
+                    suspendedAt: null,
+                    suspensionReason: null,
+                    email: null,
+                    passwordChangedAt: null,
+                    failedLoginAttempts: 0,
+                    lockedUntil: null,
+                    deletedAt: null,
+                    anonymizedAt: null
                 },
             };
 
@@ -209,15 +409,133 @@ describe('BooksController', () => {
             const result = await booksController.remove({ user: mockUser } as any, 1);
 
             expect(booksService.remove).toHaveBeenCalledWith(mockUser, 1);
-            expect(result).toEqual(mockUnpublishedBook);
+            expect(result).toEqual({ ...mockUnpublishedBook, price: { amount: '19.99', currency: 'EUR' } });
         });
 
-        it('should throw InternalServerErrorException if not authorized', async () => {
-            jest.spyOn(booksService, 'remove').mockRejectedValue(new InternalServerErrorException());
+        it('should rethrow ForbiddenException for books of other authors', async () => {
+            jest.spyOn(booksService, 'remove').mockRejectedValue(new NotResourceOwnerException());
 
             const mockUser = { id: 2, username: 'unauthorizeduser' };
 
-            await expect(booksController.remove({ user: mockUser } as any, 1)).rejects.toThrow(InternalServerErrorException);
+            await expect(booksController.remove({ user: mockUser } as any, 1)).rejects.toThrow(ForbiddenException);
+        });
+
+        it('should throw InternalServerErrorException on unexpected error', async () => {
+            jest.spyOn(booksService, 'remove').mockRejectedValue(new Error('Unexpected error'));
+
+            await expect(booksController.remove({ user: { id: 1 } } as any, 1)).rejects.toThrow(InternalServerErrorException);
+        });
+    });
+
+    describe('lifecycle transitions', () => {
+        const mockUser = { id: 1, username: 'testuser' };
+
+        it('should publish a book', async () => {
+            jest.spyOn(booksService, 'transition').mockResolvedValue({ id: 1, status: BookStatus.Published } as any);
+
+            const result = await booksController.publish({ user: mockUser }, 1);
+
+            expect(booksService.transition).toHaveBeenCalledWith(mockUser, 1, 'publish');
+            expect(result).toEqual({ id: 1, status: BookStatus.Published });
+        });
+
+        it('should map archive and restore to their transitions', async () => {
+            jest.spyOn(booksService, 'transition').mockResolvedValue({ id: 1 } as any);
+
+            await booksController.archive({ user: mockUser }, 1);
+            await booksController.restore({ user: mockUser }, 1);
+            await booksController.unpublish({ user: mockUser }, 1);
+
+            expect(booksService.transition).toHaveBeenNthCalledWith(1, mockUser, 1, 'archive');
+            expect(booksService.transition).toHaveBeenNthCalledWith(2, mockUser, 1, 'restore');
+            expect(booksService.transition).toHaveBeenNthCalledWith(3, mockUser, 1, 'unpublish');
+        });
+
+        it('should rethrow ConflictException for disallowed transitions', async () => {
+            jest.spyOn(booksService, 'transition').mockRejectedValue(new ConflictException());
+
+            await expect(booksController.publish({ user: mockUser }, 1)).rejects.toThrow(ConflictException);
+        });
+
+        it('should throw InternalServerErrorException on unexpected error', async () => {
+            jest.spyOn(booksService, 'transition').mockRejectedValue(new Error('Unexpected error'));
+
+            await expect(booksController.archive({ user: mockUser }, 1)).rejects.toThrow(InternalServerErrorException);
+        });
+    });
+
+    describe('uploadCover', () => {
+        it('should store the cover of the book', async () => {
+            const mockUser = { id: 1, username: 'testuser' };
+            const file = { buffer: Buffer.from('image'), size: 5 } as Express.Multer.File;
+            jest.spyOn(bookCoversService, 'upload').mockResolvedValue({ id: 1, title: 'Test Book' } as any);
+
+            const result = await booksController.uploadCover({ user: mockUser }, 1, file);
+
+            expect(bookCoversService.upload).toHaveBeenCalledWith(mockUser, 1, file);
+            expect(result).toEqual({ id: 1, title: 'Test Book' });
+        });
+
+        it('should rethrow BadRequestException for invalid files', async () => {
+            jest.spyOn(bookCoversService, 'upload').mockRejectedValue(new BadRequestException());
+
+            await expect(booksController.uploadCover({ user: { id: 1 } }, 1, undefined)).rejects.toThrow(
+                BadRequestException,
+            );
+        });
+
+        it('should throw InternalServerErrorException on unexpected error', async () => {
+            jest.spyOn(bookCoversService, 'upload').mockRejectedValue(new Error('Unexpected error'));
+
+            await expect(booksController.uploadCover({ user: { id: 1 } }, 1, undefined)).rejects.toThrow(
+                InternalServerErrorException,
+            );
+        });
+    });
+
+    describe('getCover', () => {
+        const cover = { storageKey: 'covers/abc/small', contentType: 'image/webp', etag: '"abc-small"' };
+        const mockResponse = () => {
+            const res: any = {};
+            res.set = jest.fn().mockReturnValue(res);
+            res.status = jest.fn().mockReturnValue(res);
+            res.type = jest.fn().mockReturnValue(res);
+            res.end = jest.fn();
+            res.send = jest.fn();
+            return res;
+        };
+
+        it('should send the image with its ETag', async () => {
+            const data = Buffer.from('image');
+            jest.spyOn(bookCoversService, 'findCover').mockResolvedValue(cover);
+            jest.spyOn(bookCoversService, 'read').mockResolvedValue(data);
+            const res = mockResponse();
+
+            await booksController.getCover(1, 'small', { fresh: false }, res);
+
+            expect(bookCoversService.findCover).toHaveBeenCalledWith(1, 'small');
+            expect(res.set).toHaveBeenCalledWith({ ETag: '"abc-small"', 'Cache-Control': 'public, no-cache' });
+            expect(res.type).toHaveBeenCalledWith('image/webp');
+            expect(res.send).toHaveBeenCalledWith(data);
+        });
+
+        it('should answer 304 without reading the file when the ETag matches', async () => {
+            jest.spyOn(bookCoversService, 'findCover').mockResolvedValue(cover);
+            const res = mockResponse();
+
+            await booksController.getCover(1, undefined, { fresh: true }, res);
+
+            expect(bookCoversService.findCover).toHaveBeenCalledWith(1, 'original');
+            expect(res.status).toHaveBeenCalledWith(304);
+            expect(bookCoversService.read).not.toHaveBeenCalled();
+        });
+
+        it('should rethrow NotFoundException if the book has no cover', async () => {
+            jest.spyOn(bookCoversService, 'findCover').mockRejectedValue(new NotFoundException());
+
+            await expect(booksController.getCover(1, 'small', { fresh: false }, mockResponse())).rejects.toThrow(
+                NotFoundException,
+            );
         });
     });
 });
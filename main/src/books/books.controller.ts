@@ -7,113 +7,110 @@ import {
     Param,
     Body,
     Query,
-    UseGuards,
     Req,
+    Res,
+    UploadedFile,
+    UseInterceptors,
+    ParseIntPipe,
+    HttpCode,
+    HttpStatus,
     BadRequestException,
     NotFoundException,
     InternalServerErrorException,
+    HttpException,
 } from '@nestjs/common';
+import { ApiBody, ApiConsumes, ApiTags } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
 import { BooksService } from './books.service';
-import { JwtStrategy } from '../auth/jwt.strategy';
+import { BookCoversService, COVER_MAX_BYTES } from './book-covers.service';
+import { BookSearchQueryDto } from './book-search-query.dto';
+import { CreateBookDto } from './create-book.dto';
+import { UpdateBookDto } from './update-book.dto';
+import { BookTransition } from './book-lifecycle';
+import { Public } from '../auth/public.decorator';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '../users/role.enum';
+import { buildPaginationLinks, formatLinkHeader } from '../common/pagination';
 import { instanceToPlain } from 'class-transformer';
-import { IsString, IsNumber, IsNotEmpty, IsOptional } from 'class-validator';
-
-// DTO for book creation
-class CreateBookDto {
-    /** Title of the book */
-    @IsString()
-    @IsNotEmpty()
-    title: string;
-
-    /** Description of the book */
-    @IsString()
-    @IsOptional()
-    description?: string;
-
-    /** Price of the book */
-    @IsNumber()
-    @IsNotEmpty()
-    price: number;
-
-    /** URL for the book's cover image */
-    @IsString()
-    @IsOptional()
-    coverImage?: string;
-}
-
-// DTO for book update
-class UpdateBookDto {
-    /** Updated title of the book */
-    @IsString()
-    @IsOptional()
-    title?: string;
-
-    /** Updated description of the book */
-    @IsString()
-    @IsOptional()
-    description?: string;
-
-    /** Updated price of the book */
-    @IsNumber()
-    @IsOptional()
-    price?: number;
-
-    /** Updated URL for the book's cover image */
-    @IsString()
-    @IsOptional()
-    coverImage?: string;
-}
+import { XmlRoot } from '../common/xml';
+import { ApiErrorResponses } from '../common/openapi';
+import { BookNotFoundException } from '../common/errors';
 
 @Controller('books')
+@ApiTags('books')
+@XmlRoot('book')
 export class BooksController {
-    constructor(private readonly booksService: BooksService) { }
+    constructor(
+        private readonly booksService: BooksService,
+        private readonly bookCoversService: BookCoversService,
+    ) { }
 
     /**
-     * Retrieves all books based on the provided query filters.
+     * Retrieves one page of books based on the provided query filters.
      *
-     * @param query - Query parameters for filtering books (e.g., title, author, etc.)
-     * @returns A list of books that match the filters
+     * @param query - Query parameters for filtering, sorting (`sort`) and paging (`page`, `limit`, `cursor`)
+     * @param req - The request object, carrying the optional authenticated user and used to build pagination links
+     * @param res - The response object, used to set the `Link` header
+     * @returns A page of books with total count, navigation links and facet counts by genre, tag, price and rating
+     * @throws BadRequestException if a filter, sort or pagination parameter is invalid
      * @throws InternalServerErrorException if an unexpected error occurs
      */
+    @Public()
     @Get()
-    async findAll(@Query() query: any) {
+    @ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.INTERNAL_SERVER_ERROR)
+    @XmlRoot('books', 'book')
+    async findAll(
+        @Query() query: BookSearchQueryDto,
+        @Req() req,
+        @Res({ passthrough: true }) res,
+    ) {
         try {
-            const books = await this.booksService.findAllWithFilters(query);
-            return instanceToPlain(books);
+            const page = await this.booksService.findAllWithFilters(query, req.user);
+            const links = buildPaginationLinks(req, page.meta);
+            const linkHeader = formatLinkHeader(links);
+
+            if (linkHeader) {
+                res.setHeader('Link', linkHeader);
+            }
+
+            return instanceToPlain({ ...page, links });
         } catch (error) {
-            throw new InternalServerErrorException('An error occurred while fetching books');
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while fetching books', { cause: error });
         }
     }
 
     /**
-     * Retrieves a single book by its ID.
+     * Retrieves a single book by its ID. Books that are not published are only
+     * returned to their author, moderators and admins.
      *
      * @param id - The ID of the book to retrieve
+     * @param req - The request object, carrying the optional authenticated user
      * @returns The requested book
      * @throws BadRequestException if the ID is invalid
      * @throws NotFoundException if the book is not found
      * @throws InternalServerErrorException if an unexpected error occurs
      */
+    @Public()
     @Get(':id')
-    async findOne(@Param('id') id: number) {
+    @ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.NOT_FOUND, HttpStatus.INTERNAL_SERVER_ERROR)
+    async findOne(@Param('id', ParseIntPipe) id: number, @Req() req) {
         try {
-            if (!id) {
-                throw new BadRequestException('Invalid book ID');
-            }
-
-            const book = await this.booksService.findOne(id);
+            const book = await this.booksService.findOne(id, req.user);
 
             if (!book) {
-                throw new NotFoundException('Book not found');
+                throw new BookNotFoundException();
             }
 
             return instanceToPlain(book);
         } catch (error) {
-            if (error instanceof BadRequestException || error instanceof NotFoundException) {
+            if (error instanceof HttpException) {
                 throw error;
             }
 
-            throw new InternalServerErrorException('An error occurred while fetching the book');
+            throw new InternalServerErrorException('An error occurred while fetching the book', { cause: error });
         }
     }
 
@@ -124,10 +121,17 @@ export class BooksController {
      * @param createBookDto - Data for the new book
      * @returns The created book
      * @throws BadRequestException if the input data or user is invalid
+     * @throws ForbiddenException if the author is banned from publishing
      * @throws InternalServerErrorException if an unexpected error occurs
      */
-    @UseGuards(JwtStrategy)
     @Post()
+    @ApiErrorResponses(
+        HttpStatus.BAD_REQUEST,
+        HttpStatus.UNAUTHORIZED,
+        HttpStatus.FORBIDDEN,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+    )
+    @Roles(Role.Author)
     async create(@Req() req, @Body() createBookDto: CreateBookDto) {
         try {
             if (!req.user) {
@@ -137,7 +141,10 @@ export class BooksController {
             const book = await this.booksService.create(req.user, createBookDto);
             return instanceToPlain(book);
         } catch (error) {
-            throw new InternalServerErrorException('An error occurred while creating the book');
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while creating the book', { cause: error });
         }
     }
 
@@ -150,20 +157,26 @@ export class BooksController {
      * @returns The updated book
      * @throws BadRequestException if the ID or input data is invalid
      * @throws NotFoundException if the book is not found
+     * @throws ForbiddenException if the author is banned from publishing
+     * @throws ConflictException if `isPublished` asks for a transition the book's state does not allow
      * @throws InternalServerErrorException if an unexpected error occurs
      */
-    @UseGuards(JwtStrategy)
     @Patch(':id')
+    @ApiErrorResponses(
+        HttpStatus.BAD_REQUEST,
+        HttpStatus.UNAUTHORIZED,
+        HttpStatus.FORBIDDEN,
+        HttpStatus.NOT_FOUND,
+        HttpStatus.CONFLICT,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+    )
+    @Roles(Role.Author)
     async update(
         @Req() req,
-        @Param('id') id: number,
+        @Param('id', ParseIntPipe) id: number,
         @Body() updateBookDto: UpdateBookDto,
     ) {
         try {
-            if (!id) {
-                throw new BadRequestException('Invalid book ID');
-            }
-
             if (!req.user) {
                 throw new BadRequestException('Invalid user');
             }
@@ -171,37 +184,43 @@ export class BooksController {
             const updatedBook = await this.booksService.update(req.user, id, updateBookDto);
 
             if (!updatedBook) {
-                throw new NotFoundException('Book not found');
+                throw new BookNotFoundException();
             }
 
             return instanceToPlain(updatedBook);
         } catch (error) {
-            if (error instanceof BadRequestException || error instanceof NotFoundException) {
+            if (error instanceof HttpException) {
                 throw error;
             }
 
-            throw new InternalServerErrorException('An error occurred while updating the book');
+            throw new InternalServerErrorException('An error occurred while updating the book', { cause: error });
         }
     }
 
     /**
      * Marks a book as unpublished by its ID for the authenticated user.
+     * Same as `POST /books/:id/unpublish`.
      *
      * @param req - The request object containing the authenticated user
      * @param id - The ID of the book to unpublish
      * @returns The unpublished book
      * @throws BadRequestException if the ID or input data is invalid
-     * @throws NotFoundException if the book is not found or already unpublished
+     * @throws NotFoundException if the book is not found
+     * @throws ConflictException if the book is not published
      * @throws InternalServerErrorException if an unexpected error occurs
      */
-    @UseGuards(JwtStrategy)
     @Delete(':id')
-    async remove(@Req() req, @Param('id') id: number) {
+    @ApiErrorResponses(
+        HttpStatus.BAD_REQUEST,
+        HttpStatus.UNAUTHORIZED,
+        HttpStatus.FORBIDDEN,
+        HttpStatus.NOT_FOUND,
+        HttpStatus.CONFLICT,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+    )
+    @Roles(Role.Author)
+    async remove(@Req() req, @Param('id', ParseIntPipe) id: number) {
         try {
-            if (!id) {
-                throw new BadRequestException('Invalid book ID');
-            }
-
             if (!req.user) {
                 throw new BadRequestException('Invalid user');
             }
@@ -214,11 +233,209 @@ export class BooksController {
 
             return instanceToPlain(book);
         } catch (error) {
-            if (error instanceof BadRequestException || error instanceof NotFoundException) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException('An error occurred while removing the book', { cause: error });
+        }
+    }
+
+    /**
+     * Publishes a draft or republishes an unpublished book.
+     *
+     * @param req - The request object containing the authenticated user
+     * @param id - The ID of the book
+     * @returns The published book
+     * @throws ConflictException if the book cannot be published from its current state
+     * @throws ForbiddenException if the author is banned from publishing
+     */
+    @Post(':id/publish')
+    @ApiErrorResponses(
+        HttpStatus.BAD_REQUEST,
+        HttpStatus.UNAUTHORIZED,
+        HttpStatus.FORBIDDEN,
+        HttpStatus.NOT_FOUND,
+        HttpStatus.CONFLICT,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+    )
+    @Roles(Role.Author)
+    @HttpCode(HttpStatus.OK)
+    async publish(@Req() req, @Param('id', ParseIntPipe) id: number) {
+        return this.transition(req, id, 'publish');
+    }
+
+    /**
+     * Takes a published book off the shelves; it can be published again later.
+     *
+     * @param req - The request object containing the authenticated user
+     * @param id - The ID of the book
+     * @returns The unpublished book
+     * @throws ConflictException if the book is not published
+     */
+    @Post(':id/unpublish')
+    @ApiErrorResponses(
+        HttpStatus.BAD_REQUEST,
+        HttpStatus.UNAUTHORIZED,
+        HttpStatus.FORBIDDEN,
+        HttpStatus.NOT_FOUND,
+        HttpStatus.CONFLICT,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+    )
+    @Roles(Role.Author)
+    @HttpCode(HttpStatus.OK)
+    async unpublish(@Req() req, @Param('id', ParseIntPipe) id: number) {
+        return this.transition(req, id, 'unpublish');
+    }
+
+    /**
+     * Archives a book, hiding it from the author's default listings as well.
+     *
+     * @param req - The request object containing the authenticated user
+     * @param id - The ID of the book
+     * @returns The archived book
+     * @throws ConflictException if the book is already archived
+     */
+    @Post(':id/archive')
+    @ApiErrorResponses(
+        HttpStatus.BAD_REQUEST,
+        HttpStatus.UNAUTHORIZED,
+        HttpStatus.FORBIDDEN,
+        HttpStatus.NOT_FOUND,
+        HttpStatus.CONFLICT,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+    )
+    @Roles(Role.Author)
+    @HttpCode(HttpStatus.OK)
+    async archive(@Req() req, @Param('id', ParseIntPipe) id: number) {
+        return this.transition(req, id, 'archive');
+    }
+
+    /**
+     * Brings an archived book back as unpublished.
+     *
+     * @param req - The request object containing the authenticated user
+     * @param id - The ID of the book
+     * @returns The restored book
+     * @throws ConflictException if the book is not archived
+     */
+    @Post(':id/restore')
+    @ApiErrorResponses(
+        HttpStatus.BAD_REQUEST,
+        HttpStatus.UNAUTHORIZED,
+        HttpStatus.FORBIDDEN,
+        HttpStatus.NOT_FOUND,
+        HttpStatus.CONFLICT,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+    )
+    @Roles(Role.Author)
+    @HttpCode(HttpStatus.OK)
+    async restore(@Req() req, @Param('id', ParseIntPipe) id: number) {
+        return this.transition(req, id, 'restore');
+    }
+
+    /**
+     * Uploads the cover image of a book, replacing the previous one.
+     * Send the image as the `file` field of a multipart form; thumbnails are generated automatically.
+     *
+     * @param req - The request object containing the authenticated user
+     * @param id - The ID of the book
+     * @param file - The uploaded JPEG, PNG or WebP image
+     * @returns The updated book with its cover links
+     * @throws BadRequestException if the file is missing or not a supported image
+     * @throws PayloadTooLargeException if the file is larger than `COVER_MAX_BYTES`
+     * @throws NotFoundException if the book is not found
+     * @throws ForbiddenException if the user does not own the book
+     * @throws ForbiddenException if the author is banned from publishing
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Post(':id/cover')
+    @ApiErrorResponses(
+        HttpStatus.BAD_REQUEST,
+        HttpStatus.UNAUTHORIZED,
+        HttpStatus.FORBIDDEN,
+        HttpStatus.NOT_FOUND,
+        HttpStatus.PAYLOAD_TOO_LARGE,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+    )
+    @Roles(Role.Author)
+    @UseInterceptors(FileInterceptor('file', { limits: { fileSize: COVER_MAX_BYTES, files: 1 } }))
+    @ApiConsumes('multipart/form-data')
+    @ApiBody({
+        schema: { type: 'object', properties: { file: { type: 'string', format: 'binary' } }, required: ['file'] },
+    })
+    async uploadCover(@Req() req, @Param('id', ParseIntPipe) id: number, @UploadedFile() file: Express.Multer.File) {
+        try {
+            const book = await this.bookCoversService.upload(req.user, id, file);
+            return instanceToPlain(book);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException('An error occurred while uploading the cover image', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Serves the cover image of a book or one of its thumbnails.
+     * Responses carry an ETag, and `If-None-Match` requests for an unchanged image get `304 Not Modified`.
+     *
+     * @param id - The ID of the book
+     * @param size - `original` (default), `small`, `medium` or `large`
+     * @param req - The request object, used to evaluate `If-None-Match`
+     * @param res - The response object the image is written to
+     * @throws BadRequestException if the size is unknown
+     * @throws NotFoundException if the book or its cover is not found
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Public()
+    @Get(':id/cover')
+    @ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.NOT_FOUND, HttpStatus.INTERNAL_SERVER_ERROR)
+    async getCover(@Param('id', ParseIntPipe) id: number, @Query('size') size: string, @Req() req, @Res() res) {
+        try {
+            const cover = await this.bookCoversService.findCover(id, size || 'original');
+
+            res.set({ ETag: cover.etag, 'Cache-Control': 'public, no-cache' });
+
+            if (req.fresh) {
+                return res.status(304).end();
+            }
+
+            const data = await this.bookCoversService.read(cover);
+            res.type(cover.contentType).send(data);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+
+            throw new InternalServerErrorException('An error occurred while fetching the cover image', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Applies a lifecycle transition on behalf of the authenticated author.
+     *
+     * @throws NotFoundException if the book is not found
+     * @throws ForbiddenException if the user does not own the book
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    private async transition(req, id: number, transition: BookTransition) {
+        try {
+            const book = await this.booksService.transition(req.user, id, transition);
+            return instanceToPlain(book);
+        } catch (error) {
+            if (error instanceof HttpException) {
                 throw error;
             }
 
-            throw new InternalServerErrorException('An error occurred while removing the book');
+            throw new InternalServerErrorException(`An error occurred while trying to ${transition} the book`, {
+                cause: error,
+            });
         }
     }
 }
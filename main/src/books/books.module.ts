@@ -3,20 +3,31 @@ import { MiddlewareConsumer, Module, NestModule, RequestMethod } from '@nestjs/c
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { JwtMiddleware } from '../auth/jwt.middleware';
 import { UsersModule } from '../users/users.module';
+import { PublishingBansModule } from '../publishing-bans/publishing-bans.module';
+import { StorageModule } from '../storage';
 import { Book } from './book.entity';
+import { Genre } from './genre.entity';
+import { Tag } from './tag.entity';
 import { BooksController } from './books.controller';
+import { AuthorBooksController } from './author-books.controller';
 import { BooksService } from './books.service';
+import { BookCoversService } from './book-covers.service';
+import { BookTaxonomyService } from './book-taxonomy.service';
+import { GenresController } from './genres.controller';
 
 @Module({
-  imports: [TypeOrmModule.forFeature([Book]), UsersModule],
-  providers: [BooksService],
-  controllers: [BooksController],
+  imports: [TypeOrmModule.forFeature([Book, Genre, Tag]), UsersModule, PublishingBansModule, StorageModule],
+  providers: [BooksService, BookCoversService, BookTaxonomyService],
+  controllers: [BooksController, AuthorBooksController, GenresController],
+  exports: [BooksService, BookTaxonomyService],
 })
 export class BooksModule implements NestModule {
   configure(consumer: MiddlewareConsumer) {
     consumer.apply(JwtMiddleware).exclude(
       { path: 'books', method: RequestMethod.GET },
       { path: 'books/:id', method: RequestMethod.GET },
+      { path: 'books/:id/cover', method: RequestMethod.GET },
+      { path: 'books/:id/reviews', method: RequestMethod.GET },
     ).forRoutes('books');
   }
 }
\ No newline at end of file
@@ -4,14 +4,27 @@ import { Repository } from 'typeorm';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import { Book } from './book.entity';
 import { User } from '../users/user.entity';
-import { NotFoundException, UnauthorizedException, InternalServerErrorException, ForbiddenException } from '@nestjs/common';
+import { PublishingBansService } from '../publishing-bans/publishing-bans.service';
+import { BookTaxonomyService } from './book-taxonomy.service';
+import { BookStatus } from './book-lifecycle';
+import { Money } from '../common/money';
+import { Role } from '../users/role.enum';
+import { NotFoundException, ForbiddenException, BadRequestException, ConflictException } from '@nestjs/common';
 
 describe('BooksService', () => {
     let booksService: BooksService;
     let booksRepository: Repository<Book>;
     let usersRepository: Repository<User>;
+    let publishingBansService: { assertMayPublish: jest.Mock };
+    let bookTaxonomyService: { resolveGenres: jest.Mock; resolveTags: jest.Mock };
 
     beforeEach(async () => {
+        publishingBansService = { assertMayPublish: jest.fn().mockResolvedValue(undefined) };
+        bookTaxonomyService = {
+            resolveGenres: jest.fn(async (slugs: string[]) => slugs.map((slug, index) => ({ id: index + 1, slug, name: slug }))),
+            resolveTags: jest.fn(async (names: string[]) => names.map((name, index) => ({ id: index + 1, name }))),
+        };
+
         const module: TestingModule = await Test.createTestingModule({
             providers: [
                 BooksService,
@@ -23,42 +36,64 @@ describe('BooksService', () => {
                     provide: getRepositoryToken(User),
                     useClass: Repository,
                 },
+                {
+                    provide: PublishingBansService,
+                    useValue: publishingBansService,
+                },
+                {
+                    provide: BookTaxonomyService,
+                    useValue: bookTaxonomyService,
+                },
             ],
         }).compile();
 
         booksService = module.get<BooksService>(BooksService);
         booksRepository = module.get<Repository<Book>>(getRepositoryToken(Book));
         usersRepository = module.get<Repository<User>>(getRepositoryToken(User));
+        jest.spyOn(booksRepository, 'find').mockResolvedValue([]);
     });
 
-    describe('findAll', () => {
-        it('should return all published books when no search is provided', async () => {
-            const mockBooks = [{ id: 1, title: 'Test Book', isPublished: true }];
-            jest.spyOn(booksRepository, 'find').mockResolvedValue(mockBooks as Book[]);
-
-            const result = await booksService.findAll();
-            expect(booksRepository.find).toHaveBeenCalledWith({
-                where: { isPublished: true },
-                relations: ['author'],
-            });
-            expect(result).toEqual(mockBooks);
+    describe('findAllWithFilters', () => {
+        const createFacetQueryMock = () => ({
+            innerJoin: jest.fn().mockReturnThis(),
+            select: jest.fn().mockReturnThis(),
+            addSelect: jest.fn().mockReturnThis(),
+            groupBy: jest.fn().mockReturnThis(),
+            orderBy: jest.fn().mockReturnThis(),
+            addOrderBy: jest.fn().mockReturnThis(),
+            limit: jest.fn().mockReturnThis(),
+            setParameter: jest.fn().mockReturnThis(),
+            getRawMany: jest.fn().mockResolvedValue([]),
+            getRawOne: jest.fn().mockResolvedValue({}),
         });
 
-        it('should throw an InternalServerErrorException if an error occurs', async () => {
-            jest.spyOn(booksRepository, 'find').mockRejectedValue(new InternalServerErrorException('Unexpected Error'));
-
-            await expect(booksService.findAll()).rejects.toThrow(InternalServerErrorException);
+        const createQueryBuilderMock = (books: any[], total = books.length) => ({
+            clone: jest.fn(createFacetQueryMock),
+            leftJoinAndSelect: jest.fn().mockReturnThis(),
+            andWhere: jest.fn().mockReturnThis(),
+            orderBy: jest.fn().mockReturnThis(),
+            addOrderBy: jest.fn().mockReturnThis(),
+            innerJoin: jest.fn().mockReturnThis(),
+            addSelect: jest.fn().mockReturnThis(),
+            offset: jest.fn().mockReturnThis(),
+            limit: jest.fn().mockReturnThis(),
+            getCount: jest.fn().mockResolvedValue(total),
+            getMany: jest.fn().mockResolvedValue(books),
+            getRawAndEntities: jest.fn().mockResolvedValue({
+                entities: books,
+                raw: books.map((book) => ({
+                    book_id: book.id,
+                    search_relevance: 2.5,
+                    search_title: '<mark>Wookie</mark> Tales',
+                    search_description: 'An <mark>epic</mark> tale',
+                    search_authorPseudonym: 'Lohgarra',
+                })),
+            }),
         });
-    });
 
-    describe('findAllWithFilters', () => {
         it('should return books based on filters', async () => {
             const mockBooks = [{ id: 1, title: 'Filtered Book' }];
-            const queryBuilderMock = {
-                leftJoinAndSelect: jest.fn().mockReturnThis(),
-                andWhere: jest.fn().mockReturnThis(),
-                getMany: jest.fn().mockResolvedValue(mockBooks),
-            };
+            const queryBuilderMock = createQueryBuilderMock(mockBooks);
 
             jest.spyOn(booksRepository, 'createQueryBuilder').mockReturnValue(queryBuilderMock as any);
 
@@ -67,22 +102,295 @@ describe('BooksService', () => {
 
             expect(booksRepository.createQueryBuilder).toHaveBeenCalledWith('book');
             expect(queryBuilderMock.leftJoinAndSelect).toHaveBeenCalledWith('book.author', 'author');
-            expect(queryBuilderMock.andWhere).toHaveBeenCalledTimes(2);
+            expect(queryBuilderMock.andWhere).toHaveBeenCalledTimes(4);
+            expect(queryBuilderMock.andWhere).toHaveBeenCalledWith('book.status = :published', { published: BookStatus.Published });
+            expect(queryBuilderMock.andWhere).toHaveBeenCalledWith('book.status != :archived', { archived: BookStatus.Archived });
             expect(queryBuilderMock.getMany).toHaveBeenCalled();
-            expect(result).toEqual(mockBooks);
+            expect(result.data).toEqual(mockBooks);
+        });
+
+        it('should apply open-ended price ranges and the remaining filters', async () => {
+            const queryBuilderMock = createQueryBuilderMock([]);
+            jest.spyOn(booksRepository, 'createQueryBuilder').mockReturnValue(queryBuilderMock as any);
+
+            await booksService.findAllWithFilters({
+                minPrice: Money.parse('10'),
+                authorId: 4,
+                isPublished: true,
+                createdAfter: new Date('2025-01-01T00:00:00Z'),
+            });
+
+            expect(queryBuilderMock.andWhere).toHaveBeenCalledWith('book.currency = :currency', { currency: 'EUR' });
+            expect(queryBuilderMock.andWhere).toHaveBeenCalledWith('book.priceMinor >= :minPrice', { minPrice: 1000 });
+            expect(queryBuilderMock.andWhere).not.toHaveBeenCalledWith('book.priceMinor <= :maxPrice', expect.anything());
+            expect(queryBuilderMock.andWhere).toHaveBeenCalledWith('author.id = :authorId', { authorId: 4 });
+            expect(queryBuilderMock.andWhere).toHaveBeenCalledWith('book.status = :publishedFilter', {
+                publishedFilter: BookStatus.Published,
+            });
+            expect(queryBuilderMock.andWhere).toHaveBeenCalledWith('book.createdAt >= :createdAfter', {
+                createdAfter: '2025-01-01 00:00:00.000',
+            });
+        });
+
+        it('should let authenticated callers see their own unpublished books', async () => {
+            const queryBuilderMock = createQueryBuilderMock([]);
+            jest.spyOn(booksRepository, 'createQueryBuilder').mockReturnValue(queryBuilderMock as any);
+
+            await booksService.findAllWithFilters({ isPublished: false }, { id: 7 });
+
+            expect(queryBuilderMock.andWhere).not.toHaveBeenCalledWith('book.status = :published', expect.anything());
+            expect(queryBuilderMock.andWhere).toHaveBeenCalledWith('book.status != :publishedFilter', {
+                publishedFilter: BookStatus.Published,
+            });
+        });
+
+        it('should filter by lifecycle state, including archived books', async () => {
+            const queryBuilderMock = createQueryBuilderMock([]);
+            jest.spyOn(booksRepository, 'createQueryBuilder').mockReturnValue(queryBuilderMock as any);
+
+            await booksService.findAllWithFilters({ status: BookStatus.Archived }, { id: 7 });
+
+            expect(queryBuilderMock.andWhere).toHaveBeenCalledWith('book.status = :status', { status: BookStatus.Archived });
+            expect(queryBuilderMock.andWhere).not.toHaveBeenCalledWith('book.status != :archived', expect.anything());
+        });
+
+        it('should filter by minimum average rating and sort by rating', async () => {
+            const queryBuilderMock = createQueryBuilderMock([]);
+            jest.spyOn(booksRepository, 'createQueryBuilder').mockReturnValue(queryBuilderMock as any);
+
+            await booksService.findAllWithFilters({ minRating: 4, sort: '-rating' });
+
+            expect(queryBuilderMock.andWhere).toHaveBeenCalledWith('book.reviewCount > 0');
+            expect(queryBuilderMock.andWhere).toHaveBeenCalledWith('book.ratingSum >= :minRating * book.reviewCount', {
+                minRating: 4,
+            });
+            expect(queryBuilderMock.orderBy).toHaveBeenCalledWith(
+                'CAST(book.ratingSum AS REAL) / MAX(book.reviewCount, 1)',
+                'DESC',
+            );
+        });
+
+        it('should filter by any of the genres and all of the tags', async () => {
+            const queryBuilderMock = createQueryBuilderMock([]);
+            jest.spyOn(booksRepository, 'createQueryBuilder').mockReturnValue(queryBuilderMock as any);
+
+            await booksService.findAllWithFilters({ genre: ['jedi-lore', 'smuggler-tales'], tag: ['Space  Opera', 'space opera', 'wookiee'] });
+
+            expect(queryBuilderMock.andWhere).toHaveBeenCalledWith(expect.stringContaining('genre.slug IN (:...genres)'), {
+                genres: ['jedi-lore', 'smuggler-tales'],
+            });
+            expect(queryBuilderMock.andWhere).toHaveBeenCalledWith(expect.stringContaining('= :tagCount'), {
+                tags: ['space opera', 'wookiee'],
+                tagCount: 2,
+            });
+        });
+
+        it('should count facets over all matching books', async () => {
+            const queryBuilderMock = createQueryBuilderMock([{ id: 1 }], 1);
+            const genreQuery = createFacetQueryMock();
+            const tagQuery = createFacetQueryMock();
+            const countQuery = createFacetQueryMock();
+            genreQuery.getRawMany.mockResolvedValue([{ slug: 'jedi-lore', name: 'Jedi Lore', count: 1 }]);
+            tagQuery.getRawMany.mockResolvedValue([{ name: 'wookiee', count: '1' }]);
+            countQuery.getRawOne.mockResolvedValue({ price_1: 1, rating_4: 1, rating_3: '1' });
+            queryBuilderMock.clone
+                .mockReturnValueOnce(genreQuery)
+                .mockReturnValueOnce(tagQuery)
+                .mockReturnValueOnce(countQuery);
+            jest.spyOn(booksRepository, 'createQueryBuilder').mockReturnValue(queryBuilderMock as any);
+
+            const result = await booksService.findAllWithFilters({ currency: 'JPY' });
+
+            expect(genreQuery.innerJoin).toHaveBeenCalledWith('book.genres', 'facetGenre');
+            expect(tagQuery.innerJoin).toHaveBeenCalledWith('book.tags', 'facetTag');
+            expect(countQuery.setParameter).toHaveBeenCalledWith('facetCurrency', 'JPY');
+            expect(result.facets.genres).toEqual([{ slug: 'jedi-lore', name: 'Jedi Lore', count: 1 }]);
+            expect(result.facets.tags).toEqual([{ name: 'wookiee', count: 1 }]);
+            expect(result.facets.price[1]).toEqual({ min: Money.of(5, 'JPY'), max: Money.of(9, 'JPY'), count: 1 });
+            expect(result.facets.price[0].count).toBe(0);
+            expect(result.facets.rating).toEqual([
+                { minRating: 4, count: 1 },
+                { minRating: 3, count: 1 },
+                { minRating: 2, count: 0 },
+                { minRating: 1, count: 0 },
+            ]);
+        });
+
+        it('should throw BadRequestException if minPrice exceeds maxPrice', async () => {
+            jest.spyOn(booksRepository, 'createQueryBuilder').mockReturnValue(createQueryBuilderMock([]) as any);
+
+            await expect(
+                booksService.findAllWithFilters({ minPrice: Money.parse('30'), maxPrice: Money.parse('10') }),
+            ).rejects.toThrow(BadRequestException);
+        });
+
+        it('should reject price bounds in different currencies', async () => {
+            jest.spyOn(booksRepository, 'createQueryBuilder').mockReturnValue(createQueryBuilderMock([]) as any);
+
+            await expect(
+                booksService.findAllWithFilters({ minPrice: Money.parse('1', 'EUR'), maxPrice: Money.parse('1000', 'JPY') }),
+            ).rejects.toThrow(BadRequestException);
+        });
+
+        it('should apply page, limit and multi-key sorting', async () => {
+            const queryBuilderMock = createQueryBuilderMock([{ id: 3 }], 45);
+            jest.spyOn(booksRepository, 'createQueryBuilder').mockReturnValue(queryBuilderMock as any);
+
+            const result = await booksService.findAllWithFilters({ page: 2, limit: 20, sort: 'price,-title' });
+
+            expect(queryBuilderMock.orderBy).toHaveBeenCalledWith('book.priceMinor', 'ASC');
+            expect(queryBuilderMock.addOrderBy).toHaveBeenCalledWith('book.title', 'DESC');
+            expect(queryBuilderMock.addOrderBy).toHaveBeenCalledWith('book.id', 'ASC');
+            expect(queryBuilderMock.offset).toHaveBeenCalledWith(20);
+            expect(queryBuilderMock.limit).toHaveBeenCalledWith(20);
+            expect(result.meta).toEqual({
+                total: 45,
+                limit: 20,
+                page: 2,
+                totalPages: 3,
+                nextCursor: expect.any(String),
+                prevCursor: expect.any(String),
+            });
+        });
+
+        it('should return a next cursor when more books follow', async () => {
+            const queryBuilderMock = createQueryBuilderMock([{ id: 1 }, { id: 2 }, { id: 3 }], 10);
+            jest.spyOn(booksRepository, 'createQueryBuilder').mockReturnValue(queryBuilderMock as any);
+
+            const first = await booksService.findAllWithFilters({ limit: 2, sort: 'id' });
+            expect(first.meta.page).toBe(1);
+
+            const cursor = Buffer.from(JSON.stringify({ s: 'id', d: 'next', v: [0] })).toString('base64url');
+            const result = await booksService.findAllWithFilters({ limit: 2, sort: 'id', cursor });
+
+            expect(queryBuilderMock.limit).toHaveBeenLastCalledWith(3);
+            expect(result.data).toEqual([
+                { id: 1, genres: [], tags: [] },
+                { id: 2, genres: [], tags: [] },
+            ]);
+            expect(result.meta.nextCursor).toEqual(expect.any(String));
+            expect(result.meta.prevCursor).toEqual(expect.any(String));
+        });
+
+        it('should rank full-text matches by relevance and attach highlights', async () => {
+            const queryBuilderMock = createQueryBuilderMock([{ id: 1, title: 'Wookie Tales' }]);
+            jest.spyOn(booksRepository, 'createQueryBuilder').mockReturnValue(queryBuilderMock as any);
+
+            const result = await booksService.findAllWithFilters({ q: 'wook* "epic tale"' });
+
+            expect(queryBuilderMock.innerJoin).toHaveBeenCalledWith('book_fts', 'book_fts', 'book_fts.rowid = book.id');
+            expect(queryBuilderMock.andWhere).toHaveBeenCalledWith('book_fts MATCH :match', { match: '"wook"* "epic tale"' });
+            expect(queryBuilderMock.orderBy).toHaveBeenCalledWith(expect.stringContaining('bm25(book_fts'), 'DESC');
+            expect(result.data[0].search).toEqual({
+                relevance: 2.5,
+                highlights: {
+                    title: '<mark>Wookie</mark> Tales',
+                    description: 'An <mark>epic</mark> tale',
+                    authorPseudonym: 'Lohgarra',
+                },
+            });
+        });
+
+        it('should only allow sorting by relevance when searching', async () => {
+            jest.spyOn(booksRepository, 'createQueryBuilder').mockReturnValue(createQueryBuilderMock([]) as any);
+
+            await expect(booksService.findAllWithFilters({ sort: '-relevance' })).rejects.toThrow(BadRequestException);
+        });
+
+        it('should throw BadRequestException for non-whitelisted sort fields', async () => {
+            jest.spyOn(booksRepository, 'createQueryBuilder').mockReturnValue(createQueryBuilderMock([]) as any);
+
+            await expect(booksService.findAllWithFilters({ sort: 'password' })).rejects.toThrow(BadRequestException);
+        });
+
+        it('should throw BadRequestException for malformed cursors', async () => {
+            jest.spyOn(booksRepository, 'createQueryBuilder').mockReturnValue(createQueryBuilderMock([]) as any);
+
+            await expect(booksService.findAllWithFilters({ cursor: 'not-a-cursor' })).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('findByAuthor', () => {
+        const createQueryBuilderMock = (books: any[], statuses: any[] = []) => ({
+            select: jest.fn().mockReturnThis(),
+            addSelect: jest.fn().mockReturnThis(),
+            where: jest.fn().mockReturnThis(),
+            andWhere: jest.fn().mockReturnThis(),
+            setParameter: jest.fn().mockReturnThis(),
+            groupBy: jest.fn().mockReturnThis(),
+            orderBy: jest.fn().mockReturnThis(),
+            addOrderBy: jest.fn().mockReturnThis(),
+            offset: jest.fn().mockReturnThis(),
+            limit: jest.fn().mockReturnThis(),
+            getCount: jest.fn().mockResolvedValue(books.length),
+            getRawAndEntities: jest.fn().mockResolvedValue({
+                entities: books,
+                raw: books.map(() => ({ sales_copies: 3, sales_revenue: 5997 })),
+            }),
+            getRawMany: jest.fn().mockResolvedValue(statuses),
+        });
+
+        it('should return the author\'s books in every state with their sales and a status summary', async () => {
+            const pageQuery = createQueryBuilderMock([{ id: 1 }, { id: 2 }]);
+            const summaryQuery = createQueryBuilderMock([], [
+                { status: BookStatus.Draft, count: 1 },
+                { status: BookStatus.Published, count: '2' },
+            ]);
+            jest.spyOn(booksRepository, 'createQueryBuilder')
+                .mockReturnValueOnce(pageQuery as any)
+                .mockReturnValueOnce(summaryQuery as any);
+            const genres = [{ id: 1, slug: 'jedi-lore', name: 'Jedi Lore' }];
+            const tags = [{ id: 4, name: 'wookiee' }];
+            jest.spyOn(booksRepository, 'find').mockResolvedValue([{ id: 1, genres, tags } as Book]);
+
+            const result = await booksService.findByAuthor(7, {});
+
+            expect(pageQuery.where).toHaveBeenCalledWith('book.authorId = :authorId', { authorId: 7 });
+            expect(pageQuery.andWhere).not.toHaveBeenCalled();
+            expect(pageQuery.setParameter).toHaveBeenCalledWith('paid', 'paid');
+            expect(result.data).toEqual([
+                { id: 1, sales: { copies: 3, revenue: Money.of(5997, 'EUR') }, genres, tags },
+                { id: 2, sales: { copies: 3, revenue: Money.of(5997, 'EUR') }, genres: [], tags: [] },
+            ]);
+            expect(result.summary).toEqual({ total: 3, draft: 1, published: 2, unpublished: 0, archived: 0 });
+        });
+
+        it('should filter by status', async () => {
+            const pageQuery = createQueryBuilderMock([]);
+            jest.spyOn(booksRepository, 'createQueryBuilder')
+                .mockReturnValueOnce(pageQuery as any)
+                .mockReturnValueOnce(createQueryBuilderMock([]) as any);
+
+            await booksService.findByAuthor(7, { status: BookStatus.Draft });
+
+            expect(pageQuery.andWhere).toHaveBeenCalledWith('book.status = :status', { status: BookStatus.Draft });
+        });
+
+        it('should throw BadRequestException for unknown statuses', async () => {
+            await expect(booksService.findByAuthor(7, { status: 'lost' } as any)).rejects.toThrow(BadRequestException);
         });
     });
 
     describe('findOne', () => {
         it('should return a book by ID', async () => {
-            const mockBook = { id: 1, title: 'Test Book' };
+            const mockBook = { id: 1, title: 'Test Book', status: BookStatus.Published };
             jest.spyOn(booksRepository, 'findOne').mockResolvedValue(mockBook as Book);
 
             const result = await booksService.findOne(1);
-            expect(booksRepository.findOne).toHaveBeenCalledWith({ where: { id: 1 }, relations: ['author'] });
+            expect(booksRepository.findOne).toHaveBeenCalledWith({ where: { id: 1 }, relations: ['author', 'genres', 'tags'] });
             expect(result).toEqual(mockBook);
         });
 
+        it('should only show drafts to their author and reviewers', async () => {
+            const mockBook = { id: 1, title: 'Test Book', status: BookStatus.Draft, author: { id: 3 } };
+            jest.spyOn(booksRepository, 'findOne').mockResolvedValue(mockBook as Book);
+
+            await expect(booksService.findOne(1)).rejects.toThrow(NotFoundException);
+            await expect(booksService.findOne(1, { id: 4, role: Role.Author })).rejects.toThrow(NotFoundException);
+            await expect(booksService.findOne(1, { id: 3, role: Role.Author })).resolves.toEqual(mockBook);
+            await expect(booksService.findOne(1, { id: 4, role: Role.Moderator })).resolves.toEqual(mockBook);
+        });
+
         it('should throw NotFoundException if the book is not found', async () => {
             jest.spyOn(booksRepository, 'findOne').mockResolvedValue(null);
 
@@ -101,12 +409,90 @@ describe('BooksService', () => {
             jest.spyOn(booksRepository, 'save').mockResolvedValue(mockBook as Book);
 
             const result = await booksService.create(mockUser as User, mockBookData);
-            expect(usersRepository.findOne).toHaveBeenCalledWith({ where: { id: 1 }, select: ['id', 'username'] });
-            expect(booksRepository.create).toHaveBeenCalledWith({ ...mockBookData, author: mockUser });
+            expect(usersRepository.findOne).toHaveBeenCalledWith({
+                where: { id: 1 },
+                select: ['id', 'username', 'authorPseudonym'],
+            });
+            expect(publishingBansService.assertMayPublish).toHaveBeenCalledWith(mockUser, 'create');
+            expect(booksRepository.create).toHaveBeenCalledWith({
+                ...mockBookData,
+                status: BookStatus.Published,
+                publishedAt: expect.any(Date),
+                author: mockUser,
+            });
             expect(booksRepository.save).toHaveBeenCalledWith(mockBook);
             expect(result).toEqual(mockBook);
         });
 
+        it('should create drafts when asked to', async () => {
+            const mockUser = { id: 1, username: 'testuser' };
+            jest.spyOn(usersRepository, 'findOne').mockResolvedValue(mockUser as User);
+            jest.spyOn(booksRepository, 'create').mockImplementation((book) => book as Book);
+            jest.spyOn(booksRepository, 'save').mockImplementation(async (book) => book as Book);
+
+            const result = await booksService.create(mockUser as User, { title: 'Draft', status: BookStatus.Draft });
+
+            expect(result).toMatchObject({ title: 'Draft', status: BookStatus.Draft, publishedAt: null });
+        });
+
+        it('should store the price in minor units of its currency', async () => {
+            const mockUser = { id: 1, username: 'testuser' };
+            jest.spyOn(usersRepository, 'findOne').mockResolvedValue(mockUser as User);
+            jest.spyOn(booksRepository, 'create').mockImplementation((book) => Object.assign(new Book(), book));
+            jest.spyOn(booksRepository, 'save').mockImplementation(async (book) => book as Book);
+
+            const euros = await booksService.create(mockUser as User, { title: 'Wookie Tales', price: '19.99' });
+            const yen = await booksService.create(mockUser as User, { title: 'Wookie Tales', price: 2500, currency: 'JPY' });
+
+            expect(euros).toMatchObject({ priceMinor: 1999, currency: 'EUR' });
+            expect(yen).toMatchObject({ priceMinor: 2500, currency: 'JPY' });
+        });
+
+        it('should file the book under its genres and tags', async () => {
+            const mockUser = { id: 1, username: 'testuser' };
+            jest.spyOn(usersRepository, 'findOne').mockResolvedValue(mockUser as User);
+            jest.spyOn(booksRepository, 'create').mockImplementation((book) => book as Book);
+            jest.spyOn(booksRepository, 'save').mockImplementation(async (book) => book as Book);
+
+            const result = await booksService.create(mockUser as User, {
+                title: 'Wookie Tales',
+                genres: ['kashyyyk-adventures'],
+                tags: ['Space Opera'],
+            });
+
+            expect(bookTaxonomyService.resolveGenres).toHaveBeenCalledWith(['kashyyyk-adventures']);
+            expect(bookTaxonomyService.resolveTags).toHaveBeenCalledWith(['Space Opera']);
+            expect(result.genres).toEqual([{ id: 1, slug: 'kashyyyk-adventures', name: 'kashyyyk-adventures' }]);
+            expect(result.tags).toEqual([{ id: 1, name: 'Space Opera' }]);
+        });
+
+        it('should pass on BadRequestException for unknown genres', async () => {
+            jest.spyOn(usersRepository, 'findOne').mockResolvedValue({ id: 1 } as User);
+            jest.spyOn(booksRepository, 'create').mockImplementation((book) => book as Book);
+            bookTaxonomyService.resolveGenres.mockRejectedValue(new BadRequestException('Unknown genre(s): sith-poetry'));
+
+            await expect(
+                booksService.create({ id: 1 } as User, { title: 'Dark', genres: ['sith-poetry'] }),
+            ).rejects.toThrow(BadRequestException);
+        });
+
+        it('should throw BadRequestException for invalid prices', async () => {
+            jest.spyOn(usersRepository, 'findOne').mockResolvedValue({ id: 1 } as User);
+            jest.spyOn(booksRepository, 'create').mockImplementation((book) => book as Book);
+
+            await expect(booksService.create({ id: 1 } as User, { title: 'Cheap', price: '0.001' })).rejects.toThrow(
+                BadRequestException,
+            );
+        });
+
+        it('should throw BadRequestException when creating archived books', async () => {
+            jest.spyOn(usersRepository, 'findOne').mockResolvedValue({ id: 1 } as User);
+
+            await expect(
+                booksService.create({ id: 1 } as User, { title: 'Old', status: BookStatus.Archived }),
+            ).rejects.toThrow(BadRequestException);
+        });
+
         it('should throw NotFoundException if the user is not found', async () => {
             jest.spyOn(usersRepository, 'findOne').mockResolvedValue(null);
 
@@ -116,14 +502,16 @@ describe('BooksService', () => {
             await expect(booksService.create(mockUser as User, mockBookData)).rejects.toThrow(NotFoundException);
         });
 
-        it('should throw ForbiddenException if the user is Darth Vader', async () => {
+        it('should throw ForbiddenException if the author is banned from publishing', async () => {
             const mockUser = { id: 1, username: 'Darth Vader' } as User;
             const mockBookData = { title: 'The Dark Side', description: 'A story of the dark side' };
 
             jest.spyOn(usersRepository, 'findOne').mockResolvedValue(mockUser);
+            jest.spyOn(booksRepository, 'save');
+            publishingBansService.assertMayPublish.mockRejectedValue(new ForbiddenException());
 
             await expect(booksService.create(mockUser, mockBookData)).rejects.toThrow(ForbiddenException);
-            expect(usersRepository.findOne).toHaveBeenCalledWith({ where: { id: 1 }, select: ['id', 'username'] });
+            expect(booksRepository.save).not.toHaveBeenCalled();
         });
     });
 
@@ -137,42 +525,185 @@ describe('BooksService', () => {
             jest.spyOn(booksRepository, 'save').mockResolvedValue(mockUpdatedBook as Book);
 
             const result = await booksService.update(mockUser as User, 1, { title: 'New Title' });
-            expect(booksRepository.findOne).toHaveBeenCalledWith({ where: { id: 1 }, relations: ['author'] });
+            expect(booksRepository.findOne).toHaveBeenCalledWith({ where: { id: 1 }, relations: ['author', 'genres', 'tags'] });
             expect(booksRepository.save).toHaveBeenCalledWith(mockUpdatedBook);
+            expect(bookTaxonomyService.resolveGenres).not.toHaveBeenCalled();
+            expect(bookTaxonomyService.resolveTags).not.toHaveBeenCalled();
             expect(result).toEqual(mockUpdatedBook);
         });
 
-        it('should throw UnauthorizedException if the user is not authorized', async () => {
+        it('should replace the genres and tags when given', async () => {
+            const mockUser = { id: 1, username: 'testuser' };
+            const mockBook = { id: 1, title: 'Old Title', author: mockUser, genres: [], tags: [{ id: 9, name: 'old' }] };
+
+            jest.spyOn(booksRepository, 'findOne').mockResolvedValue(mockBook as Book);
+            jest.spyOn(booksRepository, 'save').mockImplementation(async (book) => book as Book);
+
+            const result = await booksService.update(mockUser as User, 1, { genres: ['jedi-lore'], tags: [] });
+
+            expect(bookTaxonomyService.resolveGenres).toHaveBeenCalledWith(['jedi-lore']);
+            expect(result.genres).toEqual([{ id: 1, slug: 'jedi-lore', name: 'jedi-lore' }]);
+            expect(result.tags).toEqual([]);
+        });
+
+        it('should throw ForbiddenException if the user is not authorized', async () => {
             const mockUser = { id: 2, username: 'unauthorizeduser' };
             const mockBook = { id: 1, title: 'Old Title', author: { id: 1 } };
 
             jest.spyOn(booksRepository, 'findOne').mockResolvedValue(mockBook as Book);
 
-            await expect(booksService.update(mockUser as User, 1, { title: 'New Title' })).rejects.toThrow(UnauthorizedException);
+            await expect(booksService.update(mockUser as User, 1, { title: 'New Title' })).rejects.toThrow(ForbiddenException);
+        });
+
+        it('should read a bare price in the book\'s currency', async () => {
+            const mockUser = { id: 1, username: 'testuser' };
+            const mockBook = Object.assign(new Book(), { id: 1, priceMinor: 2500, currency: 'JPY', author: mockUser });
+
+            jest.spyOn(booksRepository, 'findOne').mockResolvedValue(mockBook);
+            jest.spyOn(booksRepository, 'save').mockImplementation(async (book) => book as Book);
+
+            const result = await booksService.update(mockUser as User, 1, { price: '3000' });
+
+            expect(result).toMatchObject({ priceMinor: 3000, currency: 'JPY' });
+        });
+
+        it('should require a price when changing the currency', async () => {
+            const mockUser = { id: 1, username: 'testuser' };
+            const mockBook = Object.assign(new Book(), { id: 1, priceMinor: 1999, currency: 'EUR', author: mockUser });
+
+            jest.spyOn(booksRepository, 'findOne').mockResolvedValue(mockBook);
+
+            await expect(booksService.update(mockUser as User, 1, { currency: 'USD' })).rejects.toThrow(BadRequestException);
+        });
+
+        it('should ignore fields that cannot be edited', async () => {
+            const mockUser = { id: 1, username: 'testuser' };
+            const mockBook = { id: 1, title: 'Old Title', coverId: 4, author: mockUser };
+
+            jest.spyOn(booksRepository, 'findOne').mockResolvedValue(mockBook as Book);
+            jest.spyOn(booksRepository, 'save').mockImplementation(async (book) => book as Book);
+
+            const result = await booksService.update(mockUser as User, 1, { title: 'New Title', coverId: 9, id: 5 } as any);
+
+            expect(result).toEqual({ id: 1, title: 'New Title', coverId: 4, author: mockUser });
+        });
+
+        it('should check the ban list as a republish when publishing an unpublished book', async () => {
+            const mockUser = { id: 1, username: 'testuser' };
+            const mockBook = { id: 1, title: 'Old Title', status: BookStatus.Unpublished, author: mockUser };
+
+            jest.spyOn(booksRepository, 'findOne').mockResolvedValue(mockBook as Book);
+            jest.spyOn(booksRepository, 'save').mockImplementation(async (book) => book as Book);
+
+            const result = await booksService.update(mockUser as User, 1, { isPublished: true });
+
+            expect(publishingBansService.assertMayPublish).toHaveBeenCalledWith(mockUser, 'republish', 1);
+            expect(result.status).toBe(BookStatus.Published);
+            expect(result.publishedAt).toBeInstanceOf(Date);
+        });
+
+        it('should throw ForbiddenException if the author is banned from publishing', async () => {
+            const mockUser = { id: 1, username: 'Darth Vader' };
+            const mockBook = { id: 1, title: 'Old Title', status: BookStatus.Published, author: mockUser };
+
+            jest.spyOn(booksRepository, 'findOne').mockResolvedValue(mockBook as Book);
+            jest.spyOn(booksRepository, 'save');
+            publishingBansService.assertMayPublish.mockRejectedValue(new ForbiddenException());
+
+            await expect(booksService.update(mockUser as User, 1, { title: 'New Title' })).rejects.toThrow(ForbiddenException);
+            expect(publishingBansService.assertMayPublish).toHaveBeenCalledWith(mockUser, 'update', 1);
+            expect(booksRepository.save).not.toHaveBeenCalled();
         });
     });
 
     describe('remove', () => {
         it('should mark a book as unpublished', async () => {
             const mockUser = { id: 1, username: 'testuser' };
-            const mockBook = { id: 1, title: 'Test Book', isPublished: true, author: mockUser };
+            const mockBook = { id: 1, title: 'Test Book', status: BookStatus.Published, author: mockUser };
 
-            jest.spyOn(booksRepository, 'findOne').mockResolvedValue(mockBook as Book);
-            jest.spyOn(booksRepository, 'save').mockResolvedValue({ ...mockBook, isPublished: false } as Book);
+            jest.spyOn(booksRepository, 'findOne').mockResolvedValue({ ...mockBook } as Book);
+            jest.spyOn(booksRepository, 'save').mockImplementation(async (book) => book as Book);
 
             const result = await booksService.remove(mockUser as User, 1);
             expect(booksRepository.findOne).toHaveBeenCalledWith({ where: { id: 1 }, relations: ['author'] });
-            expect(booksRepository.save).toHaveBeenCalledWith({ ...mockBook, isPublished: false });
-            expect(result).toEqual({ ...mockBook, isPublished: false });
+            expect(result).toEqual({ ...mockBook, status: BookStatus.Unpublished, unpublishedAt: expect.any(Date) });
+        });
+
+        it('should throw ConflictException if the book is not published', async () => {
+            const mockUser = { id: 1, username: 'testuser' };
+            const mockBook = { id: 1, title: 'Test Book', status: BookStatus.Draft, author: mockUser };
+
+            jest.spyOn(booksRepository, 'findOne').mockResolvedValue(mockBook as Book);
+
+            await expect(booksService.remove(mockUser as User, 1)).rejects.toThrow(ConflictException);
         });
 
-        it('should throw UnauthorizedException if the user is not authorized', async () => {
+        it('should throw ForbiddenException if the user is not authorized', async () => {
             const mockUser = { id: 2, username: 'unauthorizeduser' };
             const mockBook = { id: 1, title: 'Test Book', author: { id: 1 } };
 
             jest.spyOn(booksRepository, 'findOne').mockResolvedValue(mockBook as Book);
 
-            await expect(booksService.remove(mockUser as User, 1)).rejects.toThrow(UnauthorizedException);
+            await expect(booksService.remove(mockUser as User, 1)).rejects.toThrow(ForbiddenException);
+        });
+    });
+
+    describe('transition', () => {
+        const mockUser = { id: 1, username: 'testuser' };
+
+        it('should publish a draft after checking the ban list', async () => {
+            jest.spyOn(booksRepository, 'findOne').mockResolvedValue({ id: 1, status: BookStatus.Draft, author: mockUser } as Book);
+            jest.spyOn(booksRepository, 'save').mockImplementation(async (book) => book as Book);
+
+            const result = await booksService.transition(mockUser as User, 1, 'publish');
+
+            expect(publishingBansService.assertMayPublish).toHaveBeenCalledWith(mockUser, 'publish', 1);
+            expect(result.status).toBe(BookStatus.Published);
+            expect(result.publishedAt).toBeInstanceOf(Date);
+        });
+
+        it('should archive without checking the ban list', async () => {
+            jest.spyOn(booksRepository, 'findOne').mockResolvedValue({ id: 1, status: BookStatus.Published, author: mockUser } as Book);
+            jest.spyOn(booksRepository, 'save').mockImplementation(async (book) => book as Book);
+
+            const result = await booksService.transition(mockUser as User, 1, 'archive');
+
+            expect(publishingBansService.assertMayPublish).not.toHaveBeenCalled();
+            expect(result.status).toBe(BookStatus.Archived);
+            expect(result.archivedAt).toBeInstanceOf(Date);
+        });
+
+        it('should throw ConflictException for transitions the state does not allow', async () => {
+            jest.spyOn(booksRepository, 'findOne').mockResolvedValue({ id: 1, status: BookStatus.Archived, author: mockUser } as Book);
+            jest.spyOn(booksRepository, 'save');
+
+            await expect(booksService.transition(mockUser as User, 1, 'publish')).rejects.toThrow(ConflictException);
+            expect(booksRepository.save).not.toHaveBeenCalled();
+        });
+
+        it('should throw ForbiddenException for books of other authors', async () => {
+            jest.spyOn(booksRepository, 'findOne').mockResolvedValue({ id: 1, status: BookStatus.Draft, author: { id: 2 } } as Book);
+
+            await expect(booksService.transition(mockUser as User, 1, 'publish')).rejects.toThrow(ForbiddenException);
+        });
+    });
+
+    describe('moderateUnpublish', () => {
+        it('should unpublish a book regardless of its author', async () => {
+            const mockBook = { id: 1, title: 'Sith Propaganda', status: BookStatus.Published, author: { id: 9 } };
+
+            jest.spyOn(booksRepository, 'findOne').mockResolvedValue(mockBook as Book);
+            jest.spyOn(booksRepository, 'save').mockImplementation(async (book) => book as Book);
+
+            const result = await booksService.moderateUnpublish(1);
+
+            expect(result.status).toBe(BookStatus.Unpublished);
+        });
+
+        it('should throw NotFoundException if the book is not found', async () => {
+            jest.spyOn(booksRepository, 'findOne').mockResolvedValue(null);
+
+            await expect(booksService.moderateUnpublish(1)).rejects.toThrow(NotFoundException);
         });
     });
 });
@@ -1,8 +1,115 @@
-import { Injectable, BadRequestException, NotFoundException, UnauthorizedException, InternalServerErrorException, ForbiddenException } from '@nestjs/common';
+import {
+    Injectable,
+    BadRequestException,
+    NotFoundException,
+    InternalServerErrorException,
+    HttpException,
+} from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Brackets, In, Repository } from 'typeorm';
+import { DateUtils } from 'typeorm/util/DateUtils';
 import { User } from '../users/user.entity';
 import { Book } from './book.entity';
+import { BookSearchQueryDto } from './book-search-query.dto';
+import { AuthorBooksQueryDto } from './author-books-query.dto';
+import { Paginated, SortColumn, SortKey, paginate, parsePagination, parseSort } from '../common/pagination';
+import { BOOK_FTS_HIGHLIGHTS, BOOK_FTS_RELEVANCE, BOOK_FTS_TABLE, toFtsQuery } from './book-search.index';
+import { PublishingBansService } from '../publishing-bans/publishing-bans.service';
+import { Role } from '../users/role.enum';
+import { BookStatus, BookTransition, applyBookTransition } from './book-lifecycle';
+import { OrderStatus } from '../orders/order-status.enum';
+import { DEFAULT_CURRENCY, Money, MoneyInput } from '../common/money';
+import { BookTaxonomyService, normalizeTag } from './book-taxonomy.service';
+import { BookFacets, countBookFacets } from './book-facets';
+import { BookNotFoundException, NotResourceOwnerException } from '../common/errors';
+
+/**
+ * Book columns that may be used in the `sort` query parameter. `rating` is the
+ * average review rating, with unreviewed books sorting as 0.
+ */
+export const BOOK_SORT_COLUMNS: Record<string, SortColumn> = {
+    id: 'book.id',
+    title: 'book.title',
+    price: { column: 'book.priceMinor', value: (book: Book) => book.priceMinor },
+    rating: {
+        column: 'CAST(book.ratingSum AS REAL) / MAX(book.reviewCount, 1)',
+        value: (book: Book) => book.ratingSum / Math.max(book.reviewCount, 1),
+    },
+    reviews: 'book.reviewCount',
+};
+
+/**
+ * Book fields authors set through `create` and `update`; covers and the lifecycle have their own endpoints.
+ * The price is parsed separately.
+ */
+const BOOK_EDITABLE_FIELDS = ['title', 'description'] as const;
+
+/**
+ * Book data sent by authors. A bare `price` is in `currency`, or the book's current currency.
+ * `genres` are genre slugs and `tags` free-form; either replaces the book's current list.
+ */
+export type BookInput = Partial<Pick<Book, 'title' | 'description' | 'status' | 'isPublished'>> & {
+    price?: MoneyInput;
+    currency?: string;
+    genres?: string[];
+    tags?: string[];
+};
+
+/**
+ * Relations returned with a single book.
+ */
+const BOOK_DETAIL_RELATIONS = ['author', 'genres', 'tags'];
+
+/**
+ * Roles that may see books in every state, not only their own.
+ */
+const BOOK_REVIEWER_ROLES = [Role.Moderator, Role.Admin];
+
+const BOOK_SORT_TIE_BREAKER: SortKey = { field: 'id', column: 'book.id', direction: 'ASC' };
+
+/**
+ * Order items of a book in paid orders, for the sales figures of the author's catalogue.
+ */
+const BOOK_SALES_SOURCE =
+    'FROM order_item sold INNER JOIN "order" paid ON paid.id = sold.orderId AND paid.status = :paid WHERE sold.bookId = book.id';
+
+/**
+ * Revenue is reported in the book's current currency; sales made before a currency change are left out.
+ */
+const BOOK_REVENUE_SOURCE = `${BOOK_SALES_SOURCE} AND sold.currency = book.currency`;
+
+/**
+ * Matches books filed under any of the `:genres` slugs.
+ */
+const BOOK_GENRE_FILTER =
+    'EXISTS (SELECT 1 FROM book_genres filed INNER JOIN genre ON genre.id = filed.genreId WHERE filed.bookId = book.id AND genre.slug IN (:...genres))';
+
+/**
+ * Counts how many of the `:tags` a book carries; books with all of them are kept.
+ */
+const BOOK_TAG_FILTER =
+    '(SELECT COUNT(*) FROM book_tags tagged INNER JOIN tag ON tag.id = tagged.tagId WHERE tagged.bookId = book.id AND tag.name IN (:...tags)) = :tagCount';
+
+const BOOK_RELEVANCE_COLUMN = { column: BOOK_FTS_RELEVANCE, value: (book: Book) => book.search?.relevance };
+
+/**
+ * Number of books an author has in each lifecycle state.
+ */
+export type BookStatusSummary = Record<BookStatus, number> & { total: number };
+
+/**
+ * One page of an author's own books, with counts over all of them.
+ */
+export interface AuthorCatalogue extends Paginated<Book> {
+    summary: BookStatusSummary;
+}
+
+/**
+ * One page of books found by `GET /books`, with facet counts over all matching books.
+ */
+export interface BookCatalogPage extends Paginated<Book> {
+    facets: BookFacets;
+}
 
 @Injectable()
 export class BooksService {
@@ -12,40 +119,82 @@ export class BooksService {
 
         @InjectRepository(User)
         private readonly usersRepository: Repository<User>,
+
+        private readonly publishingBansService: PublishingBansService,
+
+        private readonly bookTaxonomyService: BookTaxonomyService,
     ) { }
 
     /**
-     * Finds all books optionally filtered by a search term.
-     * @param search - Optional search term to filter books by title or description.
-     * @returns List of books.
+     * Finds one page of books with advanced filtering options.
+     *
+     * Pages are addressed either by `page`/`limit` or by an opaque `cursor`
+     * returned in a previous page's metadata, and ordered by `sort`
+     * (e.g. `price,-title`). A `q` full-text query restricts results to
+     * matching books, ordered by relevance unless sorted otherwise, and adds
+     * a `search` object with the relevance and highlighted fields to each
+     * book. Anonymous callers only see published books;
+     * authenticated callers additionally see their own drafts and
+     * unpublished books, and their archived books when filtering by `status`.
+     * Facet counts by genre, tag, price and rating are computed over all
+     * matching books, not only the current page.
+     * @param query - Query object containing filters, sorting and pagination.
+     * @param viewer - The authenticated user, if any.
+     * @returns The page of books matching the filters, with their genres and tags, pagination metadata and facets.
+     * @throws BadRequestException if the filters, sort or pagination are invalid.
      */
-    async findAll(search?: string): Promise<Book[]> {
+    async findAllWithFilters(query: BookSearchQueryDto, viewer?: Pick<User, 'id'> | null): Promise<BookCatalogPage> {
         try {
-            if (search) {
-                return this.booksRepository.find({
-                    where: [
-                        { title: search },
-                        { description: search },
-                    ],
-                    relations: ['author'],
-                });
+            const priceCurrency = this.priceFilterCurrency(query);
+
+            if (query.minPrice !== undefined && query.maxPrice !== undefined && query.minPrice.minorUnits > query.maxPrice.minorUnits) {
+                throw new BadRequestException('minPrice must not be greater than maxPrice');
             }
-            return this.booksRepository.find({ where: { isPublished: true }, relations: ['author'] });
-        } catch (error) {
-            throw new InternalServerErrorException('An error occurred while fetching books');
-        }
-    }
 
-    /**
-     * Finds books with advanced filtering options.
-     * @param query - Query object containing filters.
-     * @returns List of books matching the filters.
-     */
-    async findAllWithFilters(query: any): Promise<Book[]> {
-        try {
+            if (query.createdAfter && query.createdBefore && query.createdAfter > query.createdBefore) {
+                throw new BadRequestException('createdAfter must not be later than createdBefore');
+            }
+
+            const searching = query.q !== undefined;
+            const sort = searching
+                ? parseSort(
+                    query.sort,
+                    { ...BOOK_SORT_COLUMNS, relevance: BOOK_RELEVANCE_COLUMN },
+                    [{ field: 'relevance', direction: 'DESC', ...BOOK_RELEVANCE_COLUMN }],
+                    BOOK_SORT_TIE_BREAKER,
+                )
+                : parseSort(query.sort, BOOK_SORT_COLUMNS, [BOOK_SORT_TIE_BREAKER], BOOK_SORT_TIE_BREAKER);
+            const pagination = parsePagination(query, sort);
+
             const queryBuilder = this.booksRepository.createQueryBuilder('book');
             queryBuilder.leftJoinAndSelect('book.author', 'author');
 
+            if (searching) {
+                queryBuilder.innerJoin(BOOK_FTS_TABLE, BOOK_FTS_TABLE, `${BOOK_FTS_TABLE}.rowid = book.id`);
+                queryBuilder.andWhere(`${BOOK_FTS_TABLE} MATCH :match`, { match: toFtsQuery(query.q) });
+                queryBuilder.addSelect(BOOK_FTS_RELEVANCE, 'search_relevance');
+                for (const [field, expression] of Object.entries(BOOK_FTS_HIGHLIGHTS)) {
+                    queryBuilder.addSelect(expression, `search_${field}`);
+                }
+            }
+
+            if (viewer?.id) {
+                queryBuilder.andWhere(
+                    new Brackets((visible) => {
+                        visible.where('book.status = :published', { published: BookStatus.Published });
+                        visible.orWhere('author.id = :viewerId', { viewerId: viewer.id });
+                    }),
+                );
+            } else {
+                queryBuilder.andWhere('book.status = :published', { published: BookStatus.Published });
+            }
+
+            if (query.status !== undefined) {
+                queryBuilder.andWhere('book.status = :status', { status: query.status });
+            } else {
+                queryBuilder.andWhere('book.status != :archived', { archived: BookStatus.Archived });
+            }
+
             if (query.title) {
                 queryBuilder.andWhere('book.title LIKE :title', { title: `%${query.title}%` });
             }
@@ -57,101 +206,242 @@ export class BooksService {
                 });
             }
 
+            if (query.authorId !== undefined) {
+                queryBuilder.andWhere('author.id = :authorId', { authorId: query.authorId });
+            }
+
             if (query.isPublished !== undefined) {
-                queryBuilder.andWhere('book.isPublished = :isPublished', { isPublished: query.isPublished === 'true' });
+                queryBuilder.andWhere(`book.status ${query.isPublished ? '=' : '!='} :publishedFilter`, {
+                    publishedFilter: BookStatus.Published,
+                });
             }
 
-            if (query.minPrice && query.maxPrice) {
-                queryBuilder.andWhere('book.price BETWEEN :minPrice AND :maxPrice', {
-                    minPrice: parseFloat(query.minPrice),
-                    maxPrice: parseFloat(query.maxPrice),
+            if (priceCurrency) {
+                queryBuilder.andWhere('book.currency = :currency', { currency: priceCurrency });
+            }
+
+            if (query.minPrice !== undefined) {
+                queryBuilder.andWhere('book.priceMinor >= :minPrice', { minPrice: query.minPrice.minorUnits });
+            }
+
+            if (query.maxPrice !== undefined) {
+                queryBuilder.andWhere('book.priceMinor <= :maxPrice', { maxPrice: query.maxPrice.minorUnits });
+            }
+
+            if (query.minRating !== undefined) {
+                queryBuilder.andWhere('book.reviewCount > 0');
+                queryBuilder.andWhere('book.ratingSum >= :minRating * book.reviewCount', { minRating: query.minRating });
+            }
+
+            if (query.genre?.length) {
+                queryBuilder.andWhere(BOOK_GENRE_FILTER, { genres: query.genre });
+            }
+
+            if (query.tag?.length) {
+                const tags = [...new Set(query.tag.map(normalizeTag))];
+                queryBuilder.andWhere(BOOK_TAG_FILTER, { tags, tagCount: tags.length });
+            }
+
+            if (query.createdAfter) {
+                queryBuilder.andWhere('book.createdAt >= :createdAfter', {
+                    createdAfter: DateUtils.mixedDateToUtcDatetimeString(query.createdAfter),
+                });
+            }
+
+            if (query.createdBefore) {
+                queryBuilder.andWhere('book.createdAt <= :createdBefore', {
+                    createdBefore: DateUtils.mixedDateToUtcDatetimeString(query.createdBefore),
+                });
+            }
+
+            const facets = await countBookFacets(queryBuilder, priceCurrency ?? DEFAULT_CURRENCY);
+
+            const page = !searching
+                ? await paginate(queryBuilder, sort, pagination)
+                : await paginate(queryBuilder, sort, pagination, (book, raw) => {
+                    book.search = {
+                        relevance: raw.search_relevance,
+                        highlights: {
+                            title: raw.search_title,
+                            description: raw.search_description,
+                            authorPseudonym: raw.search_authorPseudonym,
+                        },
+                    };
                 });
+
+            await this.loadTaxonomy(page.data);
+            return { ...page, facets };
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while applying filters to books', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Finds one page of the books written by an author, in every lifecycle
+     * state, with the sales of each book and the number of books per state.
+     * @param authorId - ID of the author.
+     * @param query - Pagination (`page`, `limit`, `cursor`), `sort` over `id`/`title`/`price`, and optional `status` filter.
+     * @returns The page of books, each with its `sales`, genres and tags, with pagination metadata and the status summary.
+     * @throws BadRequestException if the status, sort or pagination are invalid.
+     */
+    async findByAuthor(authorId: number, query: AuthorBooksQueryDto = {}): Promise<AuthorCatalogue> {
+        try {
+            if (query.status !== undefined && !Object.values(BookStatus).includes(query.status)) {
+                throw new BadRequestException(`status must be one of: ${Object.values(BookStatus).join(', ')}`);
+            }
+
+            const sort = parseSort(query.sort, BOOK_SORT_COLUMNS, [BOOK_SORT_TIE_BREAKER], BOOK_SORT_TIE_BREAKER);
+            const pagination = parsePagination(query, sort);
+
+            const queryBuilder = this.booksRepository
+                .createQueryBuilder('book')
+                .addSelect(`(SELECT COALESCE(SUM(sold.quantity), 0) ${BOOK_SALES_SOURCE})`, 'sales_copies')
+                .addSelect(`(SELECT COALESCE(SUM(sold.unitPriceMinor * sold.quantity), 0) ${BOOK_REVENUE_SOURCE})`, 'sales_revenue')
+                .where('book.authorId = :authorId', { authorId })
+                .setParameter('paid', OrderStatus.Paid);
+
+            if (query.status !== undefined) {
+                queryBuilder.andWhere('book.status = :status', { status: query.status });
             }
 
-            return queryBuilder.getMany();
+            const page = await paginate(queryBuilder, sort, pagination, (book, raw) => {
+                book.sales = {
+                    copies: Number(raw.sales_copies ?? 0),
+                    revenue: Money.of(Number(raw.sales_revenue ?? 0), book.currency),
+                };
+            });
+            await this.loadTaxonomy(page.data);
+            return { ...page, summary: await this.summarizeStatuses(authorId) };
         } catch (error) {
-            throw new InternalServerErrorException('An error occurred while applying filters to books');
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while fetching your books', { cause: error });
         }
     }
 
     /**
-     * Finds a single book by its ID.
+     * Finds a single book by its ID. Books that are not published are only
+     * found by their author, moderators and admins.
      * @param id - ID of the book.
+     * @param viewer - The authenticated user, if any.
      * @returns The requested book or throws an exception if not found.
      */
-    async findOne(id: number): Promise<Book | undefined> {
+    async findOne(id: number, viewer?: Pick<User, 'id' | 'role'> | null): Promise<Book | undefined> {
         try {
             if (!id) {
                 throw new BadRequestException('Invalid book ID');
             }
 
-            const book = await this.booksRepository.findOne({ where: { id }, relations: ['author'] });
+            const book = await this.booksRepository.findOne({ where: { id }, relations: BOOK_DETAIL_RELATIONS });
 
-            if (!book) {
-                throw new NotFoundException('Book not found');
+            if (!book || !this.isVisibleTo(book, viewer)) {
+                throw new BookNotFoundException();
             }
 
             return book;
         } catch (error) {
-            if (error instanceof BadRequestException || error instanceof NotFoundException) {
+            if (error instanceof HttpException) {
                 throw error;
             }
-            throw new InternalServerErrorException('An error occurred while fetching the book');
+            throw new InternalServerErrorException('An error occurred while fetching the book', { cause: error });
         }
     }
 
     /**
-     * Creates a new book for the given user.
+     * Creates a new book for the given user. Books are published right away
+     * unless `status` is `draft` (or `isPublished` is `false`).
      * @param user - The user creating the book.
-     * @param bookData - Partial book data.
-     * @returns The created book.
+     * @param bookData - Partial book data; `price` defaults to `currency`, or EUR.
+     * @returns The created book or throws an exception if the price, genres or tags are invalid or the author is banned from publishing.
      */
-    async create(user: User, bookData: Partial<Book>): Promise<Book> {
+    async create(user: User, bookData: BookInput): Promise<Book> {
         try {
-            const author = await this.usersRepository.findOne({ where: { id: user.id }, select: ['id', 'username'] });
+            const author = await this.usersRepository.findOne({
+                where: { id: user.id },
+                select: ['id', 'username', 'authorPseudonym'],
+            });
             if (!author) {
                 throw new NotFoundException('Author not found');
             }
-            if (author.username === 'Darth Vader') {
-                throw new ForbiddenException('Darth Vader is not allowed to publish Wookie books.');
+            await this.publishingBansService.assertMayPublish(author, 'create');
+
+            const draft = bookData.status === BookStatus.Draft || (bookData.status === undefined && bookData.isPublished === false);
+            if (!draft && bookData.status !== undefined && bookData.status !== BookStatus.Published) {
+                throw new BadRequestException('New books must be draft or published');
             }
 
-            const book = this.booksRepository.create({ ...bookData, author: author });
-            return this.booksRepository.save(book);
+            const book = this.booksRepository.create({
+                ...this.pickEditableFields(bookData),
+                status: draft ? BookStatus.Draft : BookStatus.Published,
+                publishedAt: draft ? null : new Date(),
+                author: author,
+            });
+            book.price = Money.parse(bookData.price ?? 0, bookData.currency ?? DEFAULT_CURRENCY, 'price');
+            book.genres = await this.bookTaxonomyService.resolveGenres(bookData.genres ?? []);
+            book.tags = await this.bookTaxonomyService.resolveTags(bookData.tags ?? []);
+            return await this.booksRepository.save(book);
         } catch (error) {
-            if (error instanceof NotFoundException || error instanceof ForbiddenException) {
+            if (error instanceof HttpException) {
                 throw error;
             }
-            throw new InternalServerErrorException('An error occurred while creating the book');
+            throw new InternalServerErrorException('An error occurred while creating the book', { cause: error });
         }
     }
 
     /**
-     * Updates a book for the given user.
+     * Updates a book for the given user. An `isPublished` flag that differs
+     * from the current state is applied as a publish or unpublish transition.
      * @param user - The user updating the book.
      * @param id - ID of the book to update.
-     * @param bookData - Partial data to update the book.
-     * @returns The updated book or throws an exception if not authorized or not found.
+     * @param bookData - Partial data to update the book; a bare `price` keeps the book's currency unless `currency` is given.
+     * @returns The updated book or throws an exception if the price, genres or tags are invalid, not authorized, banned from publishing or not found.
      */
-    async update(user: User, id: number, bookData: Partial<Book>): Promise<Book> {
+    async update(user: User, id: number, bookData: BookInput): Promise<Book> {
         try {
-            const book = await this.booksRepository.findOne({ where: { id }, relations: ['author'] });
+            const book = await this.booksRepository.findOne({ where: { id }, relations: BOOK_DETAIL_RELATIONS });
 
             if (!book) {
-                throw new NotFoundException('Book not found');
+                throw new BookNotFoundException();
             }
 
             if (!book?.author || book?.author?.id !== user.id) {
-                throw new UnauthorizedException('You are not authorized to update this book');
+                throw new NotResourceOwnerException('You are not authorized to update this book');
             }
 
-            Object.assign(book, bookData);
-            return this.booksRepository.save(book);
+            const transition = this.publicationTransition(book, bookData.isPublished);
+            await this.publishingBansService.assertMayPublish(
+                book.author,
+                transition === 'publish' ? this.publishAction(book) : 'update',
+                book.id,
+            );
+
+            Object.assign(book, this.pickEditableFields(bookData));
+            if (bookData.price !== undefined) {
+                book.price = Money.parse(bookData.price, bookData.currency ?? book.currency, 'price');
+            } else if (bookData.currency !== undefined && bookData.currency !== book.currency) {
+                throw new BadRequestException('price is required when changing the currency');
+            }
+            if (bookData.genres !== undefined) {
+                book.genres = await this.bookTaxonomyService.resolveGenres(bookData.genres);
+            }
+            if (bookData.tags !== undefined) {
+                book.tags = await this.bookTaxonomyService.resolveTags(bookData.tags);
+            }
+            if (transition) {
+                applyBookTransition(book, transition);
+            }
+            return await this.booksRepository.save(book);
         } catch (error) {
-            if (error instanceof NotFoundException || error instanceof UnauthorizedException) {
+            if (error instanceof HttpException) {
                 throw error;
             }
-            throw new InternalServerErrorException('An error occurred while updating the book');
+            throw new InternalServerErrorException('An error occurred while updating the book', { cause: error });
         }
     }
 
@@ -166,20 +456,179 @@ export class BooksService {
             const book = await this.booksRepository.findOne({ where: { id }, relations: ['author'] });
 
             if (!book) {
-                throw new NotFoundException('Book not found');
+                throw new BookNotFoundException();
             }
 
             if (!book?.author || book?.author?.id !== user.id) {
-                throw new UnauthorizedException('You are not authorized to unpublish this book');
+                throw new NotResourceOwnerException('You are not authorized to unpublish this book');
+            }
+
+            applyBookTransition(book, 'unpublish');
+            return await this.booksRepository.save(book);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while unpublishing the book', { cause: error });
+        }
+    }
+
+    /**
+     * Moves a book of the given user through its lifecycle. Publishing checks
+     * the publishing ban list first.
+     * @param user - The author of the book.
+     * @param id - ID of the book.
+     * @param transition - `publish`, `unpublish`, `archive` or `restore`.
+     * @returns The updated book or throws an exception if not found, not authorized, banned or not allowed from the current state.
+     */
+    async transition(user: User, id: number, transition: BookTransition): Promise<Book> {
+        try {
+            const book = await this.booksRepository.findOne({ where: { id }, relations: ['author'] });
+
+            if (!book) {
+                throw new BookNotFoundException();
+            }
+
+            if (!book.author || book.author.id !== user.id) {
+                throw new NotResourceOwnerException(`You are not authorized to ${transition} this book`);
+            }
+
+            if (transition === 'publish') {
+                await this.publishingBansService.assertMayPublish(book.author, this.publishAction(book), book.id);
+            }
+
+            applyBookTransition(book, transition);
+            return await this.booksRepository.save(book);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException(`An error occurred while trying to ${transition} the book`, {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Marks any book as unpublished on behalf of a moderator, regardless of its author.
+     * @param id - ID of the book to unpublish.
+     * @returns The updated book or throws an exception if not found.
+     */
+    async moderateUnpublish(id: number): Promise<Book> {
+        try {
+            const book = await this.booksRepository.findOne({ where: { id }, relations: ['author'] });
+
+            if (!book) {
+                throw new BookNotFoundException();
             }
 
-            book.isPublished = false;
-            return this.booksRepository.save(book);
+            applyBookTransition(book, 'unpublish');
+            return await this.booksRepository.save(book);
         } catch (error) {
-            if (error instanceof NotFoundException || error instanceof UnauthorizedException) {
+            if (error instanceof HttpException) {
                 throw error;
             }
-            throw new InternalServerErrorException('An error occurred while unpublishing the book');
+            throw new InternalServerErrorException('An error occurred while unpublishing the book', { cause: error });
+        }
+    }
+
+    /**
+     * Counts the books of an author per lifecycle state.
+     */
+    private async summarizeStatuses(authorId: number): Promise<BookStatusSummary> {
+        const rows: { status: BookStatus; count: string | number }[] = await this.booksRepository
+            .createQueryBuilder('book')
+            .select('book.status', 'status')
+            .addSelect('COUNT(*)', 'count')
+            .where('book.authorId = :authorId', { authorId })
+            .groupBy('book.status')
+            .getRawMany();
+
+        const summary = { total: 0 } as BookStatusSummary;
+        for (const status of Object.values(BookStatus)) {
+            summary[status] = 0;
+        }
+        for (const row of rows) {
+            summary[row.status] = Number(row.count);
+            summary.total += Number(row.count);
+        }
+
+        return summary;
+    }
+
+    /**
+     * The currency books must be priced in to match the price filters: the `currency`
+     * parameter, or else the currency of `minPrice`/`maxPrice`.
+     */
+    private priceFilterCurrency(query: BookSearchQueryDto): string | undefined {
+        const currencies = new Set([query.currency, query.minPrice?.currency, query.maxPrice?.currency].filter(Boolean));
+
+        if (currencies.size > 1) {
+            throw new BadRequestException('minPrice, maxPrice and currency must use the same currency');
+        }
+
+        return [...currencies][0];
+    }
+
+    /**
+     * Whether a book may be shown to a user: published books to everyone, others to their author and reviewers.
+     */
+    private isVisibleTo(book: Book, viewer?: Pick<User, 'id' | 'role'> | null): boolean {
+        return book.status === BookStatus.Published
+            || (!!viewer && (book.author?.id === viewer.id || BOOK_REVIEWER_ROLES.includes(viewer.role)));
+    }
+
+    /**
+     * Loads the genres and tags of a page of books, which cannot be joined into the paginated query.
+     */
+    private async loadTaxonomy(books: Book[]): Promise<void> {
+        if (books.length === 0) {
+            return;
+        }
+
+        const loaded = await this.booksRepository.find({
+            where: { id: In(books.map((book) => book.id)) },
+            relations: ['genres', 'tags'],
+        });
+        const byId = new Map(loaded.map((book) => [book.id, book]));
+
+        for (const book of books) {
+            book.genres = byId.get(book.id)?.genres ?? [];
+            book.tags = byId.get(book.id)?.tags ?? [];
+        }
+    }
+
+    /**
+     * Maps the legacy `isPublished` flag of an update to a lifecycle transition, if it changes anything.
+     */
+    private publicationTransition(book: Book, isPublished?: boolean): BookTransition | null {
+        if (isPublished === undefined || isPublished === (book.status === BookStatus.Published)) {
+            return null;
+        }
+        return isPublished ? 'publish' : 'unpublish';
+    }
+
+    /**
+     * How the ban list records publishing a book: a first publication or a republication.
+     */
+    private publishAction(book: Book): 'publish' | 'republish' {
+        return book.status === BookStatus.Draft ? 'publish' : 'republish';
+    }
+
+    /**
+     * Copies the fields authors may set, ignoring read-only and unknown ones.
+     * @param bookData - Book data sent by the client.
+     * @returns The editable fields that were provided.
+     */
+    private pickEditableFields(bookData: BookInput): Partial<Book> {
+        const fields: Partial<Book> = {};
+
+        for (const field of BOOK_EDITABLE_FIELDS) {
+            if (bookData?.[field] !== undefined) {
+                (fields as any)[field] = bookData[field];
+            }
         }
+
+        return fields;
     }
 }
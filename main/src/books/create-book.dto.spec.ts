@@ -0,0 +1,47 @@
+import { ArgumentMetadata, BadRequestException, ValidationPipe } from '@nestjs/common';
+import { Money } from '../common/money';
+import { VALIDATION_PIPE_OPTIONS } from '../common/validation';
+import { BOOK_TITLE_MAX_LENGTH, CreateBookDto } from './create-book.dto';
+
+describe('CreateBookDto', () => {
+    const pipe = new ValidationPipe(VALIDATION_PIPE_OPTIONS);
+    const metadata: ArgumentMetadata = { type: 'body', metatype: CreateBookDto };
+
+    it('should read the price in the given currency', async () => {
+        const result: CreateBookDto = await pipe.transform(
+            { title: 'Wookie Adventures', price: '12.50', currency: 'USD', status: 'draft', genres: ['jedi-lore'] },
+            metadata,
+        );
+
+        expect(result).toBeInstanceOf(CreateBookDto);
+        expect(result.price).toEqual(Money.of(1250, 'USD'));
+        expect(result.status).toBe('draft');
+        expect(result.genres).toEqual(['jedi-lore']);
+    });
+
+    it('should accept the legacy isPublished flag', async () => {
+        const result: CreateBookDto = await pipe.transform({ title: 'Wookie Adventures', price: 5, isPublished: false }, metadata);
+
+        expect(result.isPublished).toBe(false);
+    });
+
+    it('should read the isPublished flag sent as text, as in XML bodies', async () => {
+        const result: CreateBookDto = await pipe.transform({ title: '1984', price: '5', isPublished: 'false' }, metadata);
+
+        expect(result.title).toBe('1984');
+        expect(result.isPublished).toBe(false);
+    });
+
+    it.each([
+        { price: '9.99' },
+        { title: '', price: '9.99' },
+        { title: 'x'.repeat(BOOK_TITLE_MAX_LENGTH + 1), price: '9.99' },
+        { title: 'Wookie Adventures' },
+        { title: 'Wookie Adventures', price: '-1' },
+        { title: 'Wookie Adventures', price: '9.99', status: 'archived' },
+        { title: 'Wookie Adventures', price: '9.99', tags: 'wookiee' },
+        { title: 'Wookie Adventures', price: '9.99', authorId: 2 },
+    ])('should reject %p with a 400', async (body) => {
+        await expect(pipe.transform(body, metadata)).rejects.toThrow(BadRequestException);
+    });
+});
@@ -0,0 +1,82 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+    ArrayMaxSize,
+    IsArray,
+    IsBoolean,
+    IsIn,
+    IsInstance,
+    IsISO4217CurrencyCode,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    MaxLength,
+} from 'class-validator';
+import { Money, toMoney } from '../common/money';
+import { MONEY_INPUT_SCHEMA } from '../common/openapi';
+import { toBoolean } from '../common/validation';
+import { BookStatus } from './book-lifecycle';
+import { MAX_BOOK_GENRES, MAX_BOOK_TAGS } from './book-taxonomy.service';
+
+/**
+ * Longest title a book may have.
+ */
+export const BOOK_TITLE_MAX_LENGTH = 200;
+
+/**
+ * Longest description a book may have.
+ */
+export const BOOK_DESCRIPTION_MAX_LENGTH = 5000;
+
+/**
+ * Body of `POST /books`.
+ */
+export class CreateBookDto {
+    /** Title of the book */
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(BOOK_TITLE_MAX_LENGTH)
+    title: string;
+
+    /** Description of the book */
+    @IsString()
+    @MaxLength(BOOK_DESCRIPTION_MAX_LENGTH)
+    @IsOptional()
+    description?: string;
+
+    /** Price of the book: `"19.99"`, `19.99` or `{ "amount": "19.99", "currency": "EUR" }`; never negative */
+    @ApiProperty(MONEY_INPUT_SCHEMA)
+    @Transform(toMoney())
+    @IsInstance(Money, { message: 'price must be an amount such as "19.99"' })
+    price: Money;
+
+    /** ISO 4217 currency of a bare `price`, EUR by default */
+    @IsISO4217CurrencyCode()
+    @IsOptional()
+    currency?: string;
+
+    /** `published` (default) or `draft` to keep working on the book before publishing it */
+    @IsIn([BookStatus.Draft, BookStatus.Published])
+    @IsOptional()
+    status?: BookStatus.Draft | BookStatus.Published;
+
+    /** Legacy alternative to `status`: `false` creates a draft */
+    @Transform(toBoolean)
+    @IsBoolean()
+    @IsOptional()
+    isPublished?: boolean;
+
+    /** Slugs of the genres the book is filed under, see `GET /genres` */
+    @IsArray()
+    @IsString({ each: true })
+    @ArrayMaxSize(MAX_BOOK_GENRES)
+    @IsOptional()
+    genres?: string[];
+
+    /** Free-form tags, e.g. `["space opera", "wookiee"]` */
+    @IsArray()
+    @IsString({ each: true })
+    @ArrayMaxSize(MAX_BOOK_TAGS)
+    @IsOptional()
+    tags?: string[];
+}
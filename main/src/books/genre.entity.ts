@@ -0,0 +1,18 @@
+import { Entity, Column, PrimaryGeneratedColumn, Index } from 'typeorm';
+
+/**
+ * A curated genre books are filed under, managed by admins.
+ */
+@Entity()
+export class Genre {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    /** URL-friendly identifier used to tag and filter books, e.g. `kashyyyk-adventures` */
+    @Index({ unique: true })
+    @Column()
+    slug: string;
+
+    @Column()
+    name: string;
+}
@@ -0,0 +1,25 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { GenresController } from './genres.controller';
+import { BookTaxonomyService } from './book-taxonomy.service';
+
+describe('GenresController', () => {
+    let genresController: GenresController;
+    let bookTaxonomyService: Partial<BookTaxonomyService>;
+
+    beforeEach(async () => {
+        bookTaxonomyService = { findGenres: jest.fn() };
+
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [GenresController],
+            providers: [{ provide: BookTaxonomyService, useValue: bookTaxonomyService }],
+        }).compile();
+
+        genresController = module.get<GenresController>(GenresController);
+    });
+
+    it('should list the genres', async () => {
+        jest.spyOn(bookTaxonomyService, 'findGenres').mockResolvedValue([{ id: 1, slug: 'jedi-lore', name: 'Jedi Lore' }]);
+
+        await expect(genresController.findAll()).resolves.toEqual([{ id: 1, slug: 'jedi-lore', name: 'Jedi Lore' }]);
+    });
+});
@@ -0,0 +1,27 @@
+import { Controller, Get, HttpStatus } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
+import { instanceToPlain } from 'class-transformer';
+import { Public } from '../auth/public.decorator';
+import { XmlRoot } from '../common/xml';
+import { ApiErrorResponses } from '../common/openapi';
+import { BookTaxonomyService } from './book-taxonomy.service';
+
+@Controller('genres')
+@ApiTags('books')
+@XmlRoot('genres', 'genre')
+export class GenresController {
+    constructor(private readonly bookTaxonomyService: BookTaxonomyService) { }
+
+    /**
+     * Lists the genres books can be filed under and filtered by
+     *
+     * @returns All genres, by name
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Public()
+    @Get()
+    @ApiErrorResponses(HttpStatus.INTERNAL_SERVER_ERROR)
+    async findAll() {
+        return instanceToPlain(await this.bookTaxonomyService.findGenres());
+    }
+}
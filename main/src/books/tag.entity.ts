@@ -0,0 +1,15 @@
+import { Entity, Column, PrimaryGeneratedColumn, Index } from 'typeorm';
+
+/**
+ * A free-form label authors attach to their books; created on first use.
+ */
+@Entity()
+export class Tag {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    /** Normalized with `normalizeTag`, so `Space  Opera` and `space opera` are one tag */
+    @Index({ unique: true })
+    @Column()
+    name: string;
+}
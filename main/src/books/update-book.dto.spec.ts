@@ -0,0 +1,34 @@
+import { ArgumentMetadata, BadRequestException, ValidationPipe } from '@nestjs/common';
+import { Money } from '../common/money';
+import { VALIDATION_PIPE_OPTIONS } from '../common/validation';
+import { UpdateBookDto } from './update-book.dto';
+
+describe('UpdateBookDto', () => {
+    const pipe = new ValidationPipe(VALIDATION_PIPE_OPTIONS);
+    const metadata: ArgumentMetadata = { type: 'body', metatype: UpdateBookDto };
+
+    it('should accept partial updates', async () => {
+        const result: UpdateBookDto = await pipe.transform({ description: 'Now with more Wookiees.' }, metadata);
+
+        expect(result).toEqual(Object.assign(new UpdateBookDto(), { description: 'Now with more Wookiees.' }));
+    });
+
+    it('should leave bare prices for the book currency unless a currency is given', async () => {
+        const bare: UpdateBookDto = await pipe.transform({ price: '19.99' }, metadata);
+        const withCurrency: UpdateBookDto = await pipe.transform({ price: '19.99', currency: 'GBP' }, metadata);
+
+        expect(bare.price).toBe('19.99');
+        expect(withCurrency.price).toEqual(Money.of(1999, 'GBP'));
+    });
+
+    it.each([
+        { title: '' },
+        { price: { amount: '-5', currency: 'EUR' } },
+        { isPublished: 'yes' },
+        { genres: [1] },
+        { status: 'archived' },
+        { coverUrl: 'https://example.com/cover.jpg' },
+    ])('should reject %p with a 400', async (body) => {
+        await expect(pipe.transform(body, metadata)).rejects.toThrow(BadRequestException);
+    });
+});
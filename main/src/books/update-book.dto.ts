@@ -0,0 +1,66 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import {
+    ArrayMaxSize,
+    IsArray,
+    IsBoolean,
+    IsISO4217CurrencyCode,
+    IsNotEmpty,
+    IsOptional,
+    IsString,
+    MaxLength,
+} from 'class-validator';
+import { Money, toMoney } from '../common/money';
+import { MONEY_INPUT_SCHEMA } from '../common/openapi';
+import { toBoolean } from '../common/validation';
+import { MAX_BOOK_GENRES, MAX_BOOK_TAGS } from './book-taxonomy.service';
+import { BOOK_DESCRIPTION_MAX_LENGTH, BOOK_TITLE_MAX_LENGTH } from './create-book.dto';
+
+/**
+ * Body of `PATCH /books/:id`; every field is optional.
+ */
+export class UpdateBookDto {
+    /** Updated title of the book */
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(BOOK_TITLE_MAX_LENGTH)
+    @IsOptional()
+    title?: string;
+
+    /** Updated description of the book */
+    @IsString()
+    @MaxLength(BOOK_DESCRIPTION_MAX_LENGTH)
+    @IsOptional()
+    description?: string;
+
+    /** Updated price of the book; a bare amount keeps the book's currency unless `currency` is given */
+    @ApiPropertyOptional(MONEY_INPUT_SCHEMA)
+    @Transform(toMoney(null))
+    @IsOptional()
+    price?: Money | string | number;
+
+    /** ISO 4217 currency of the price */
+    @IsISO4217CurrencyCode()
+    @IsOptional()
+    currency?: string;
+
+    /** Legacy publication flag: publishes or unpublishes the book, see `POST /books/:id/publish` */
+    @Transform(toBoolean)
+    @IsBoolean()
+    @IsOptional()
+    isPublished?: boolean;
+
+    /** Replaces the genres of the book; `[]` removes them */
+    @IsArray()
+    @IsString({ each: true })
+    @ArrayMaxSize(MAX_BOOK_GENRES)
+    @IsOptional()
+    genres?: string[];
+
+    /** Replaces the tags of the book; `[]` removes them */
+    @IsArray()
+    @IsString({ each: true })
+    @ArrayMaxSize(MAX_BOOK_TAGS)
+    @IsOptional()
+    tags?: string[];
+}
@@ -0,0 +1,31 @@
+import { BadRequestException } from '@nestjs/common';
+import { ValidationFailedException, isCodedException } from './domain-exceptions';
+import { ErrorCode } from './error-code.enum';
+
+describe('ValidationFailedException', () => {
+    it('should flatten nested class-validator errors into dotted fields', () => {
+        const exception = ValidationFailedException.fromValidationErrors([
+            { property: 'title', constraints: { isNotEmpty: 'title should not be empty' } },
+            {
+                property: 'price',
+                children: [{ property: 'amount', constraints: { isString: 'amount must be a string', min: 'amount too low' } }],
+            },
+        ]);
+
+        expect(exception).toBeInstanceOf(BadRequestException);
+        expect(exception.code).toBe(ErrorCode.ValidationFailed);
+        expect(exception.details).toEqual([
+            { field: 'title', message: 'title should not be empty' },
+            { field: 'price.amount', message: 'amount must be a string' },
+            { field: 'price.amount', message: 'amount too low' },
+        ]);
+        expect(exception.getResponse()).toMatchObject({
+            message: ['title should not be empty', 'amount must be a string', 'amount too low'],
+        });
+    });
+
+    it('should be recognized as carrying its own code', () => {
+        expect(isCodedException(new ValidationFailedException([]))).toBe(true);
+        expect(isCodedException(new BadRequestException())).toBe(false);
+    });
+});
@@ -0,0 +1,143 @@
+import {
+    BadRequestException,
+    ConflictException,
+    ForbiddenException,
+    NotFoundException,
+    UnauthorizedException,
+} from '@nestjs/common';
+import { ErrorCode } from './error-code.enum';
+
+/**
+ * A problem with a single input value. `field` is the dotted path of the
+ * offending property and is omitted when the problem is not tied to one.
+ */
+export interface FieldError {
+    field?: string;
+    message: string;
+}
+
+/**
+ * Shape of the class-validator errors accepted by `ValidationFailedException.fromValidationErrors`.
+ */
+interface ConstraintViolation {
+    property: string;
+    constraints?: Record<string, string>;
+    children?: ConstraintViolation[];
+}
+
+/**
+ * Exceptions that carry their own error code. They extend the matching Nest
+ * exception, so the HTTP status and existing `instanceof` checks keep working.
+ */
+export interface CodedException {
+    readonly code: string;
+}
+
+/**
+ * Checks whether an exception declares its own error code.
+ */
+export function isCodedException(exception: unknown): exception is CodedException {
+    return typeof (exception as CodedException)?.code === 'string';
+}
+
+export class ValidationFailedException extends BadRequestException implements CodedException {
+    readonly code = ErrorCode.ValidationFailed;
+
+    constructor(readonly details: FieldError[]) {
+        super(details.map((detail) => detail.message));
+    }
+
+    /**
+     * Flattens class-validator errors into one entry per violated constraint.
+     *
+     * @param errors - The errors returned by `validate()`
+     * @param parent - Path of the object the errors belong to
+     */
+    static fromValidationErrors(errors: ConstraintViolation[], parent?: string): ValidationFailedException {
+        return new ValidationFailedException(flattenViolations(errors, parent));
+    }
+}
+
+function flattenViolations(errors: ConstraintViolation[], parent?: string): FieldError[] {
+    return errors.flatMap((error) => {
+        const field = parent ? `${parent}.${error.property}` : error.property;
+        const own = Object.values(error.constraints ?? {}).map((message) => ({ field, message }));
+        return [...own, ...flattenViolations(error.children ?? [], field)];
+    });
+}
+
+export class InvalidCredentialsException extends UnauthorizedException implements CodedException {
+    readonly code = ErrorCode.InvalidCredentials;
+
+    constructor(message = 'Invalid username or password') {
+        super(message);
+    }
+}
+
+export class AccountLockedException extends UnauthorizedException implements CodedException {
+    readonly code = ErrorCode.AccountLocked;
+
+    constructor(readonly lockedUntil: Date) {
+        super(`Account is locked after too many failed logins; try again after ${lockedUntil.toISOString()}`);
+    }
+}
+
+export class AccountSuspendedException extends UnauthorizedException implements CodedException {
+    readonly code = ErrorCode.AccountSuspended;
+
+    constructor() {
+        super('Account is suspended');
+    }
+}
+
+/**
+ * Thrown when an authenticated user acts on a resource that belongs to someone else.
+ */
+export class NotResourceOwnerException extends ForbiddenException implements CodedException {
+    readonly code = ErrorCode.NotResourceOwner;
+}
+
+export class PublisherBannedException extends ForbiddenException implements CodedException {
+    readonly code = ErrorCode.PublisherBanned;
+
+    /**
+     * @param reason - Why the publisher was banned, shown to the author
+     */
+    constructor(reason: string) {
+        super({
+            statusCode: 403,
+            error: 'Forbidden',
+            code: ErrorCode.PublisherBanned,
+            message: 'You are not allowed to publish books',
+            reason,
+        });
+    }
+}
+
+export class BookNotFoundException extends NotFoundException implements CodedException {
+    readonly code = ErrorCode.BookNotFound;
+
+    constructor() {
+        super('Book not found');
+    }
+}
+
+export class UserNotFoundException extends NotFoundException implements CodedException {
+    readonly code = ErrorCode.UserNotFound;
+
+    constructor() {
+        super('User not found');
+    }
+}
+
+export class UsernameTakenException extends ConflictException implements CodedException {
+    readonly code = ErrorCode.UsernameTaken;
+
+    constructor() {
+        super('Username is already taken');
+    }
+}
+
+export class InvalidBookTransitionException extends ConflictException implements CodedException {
+    readonly code = ErrorCode.InvalidBookTransition;
+}
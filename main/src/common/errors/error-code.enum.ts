@@ -0,0 +1,52 @@
+import { HttpStatus } from '@nestjs/common';
+
+/**
+ * Machine-readable codes carried by every error response. Clients should
+ * branch on the code rather than on the human-readable message.
+ */
+export enum ErrorCode {
+    BadRequest = 'BAD_REQUEST',
+    ValidationFailed = 'VALIDATION_FAILED',
+    Unauthenticated = 'UNAUTHENTICATED',
+    InvalidCredentials = 'INVALID_CREDENTIALS',
+    AccountLocked = 'ACCOUNT_LOCKED',
+    AccountSuspended = 'ACCOUNT_SUSPENDED',
+    Forbidden = 'FORBIDDEN',
+    NotResourceOwner = 'NOT_RESOURCE_OWNER',
+    PublisherBanned = 'PUBLISHER_BANNED',
+    NotFound = 'NOT_FOUND',
+    BookNotFound = 'BOOK_NOT_FOUND',
+    UserNotFound = 'USER_NOT_FOUND',
+    Conflict = 'CONFLICT',
+    UsernameTaken = 'USERNAME_TAKEN',
+    InvalidBookTransition = 'INVALID_BOOK_TRANSITION',
+    Gone = 'GONE',
+    PayloadTooLarge = 'PAYLOAD_TOO_LARGE',
+    UnsupportedMediaType = 'UNSUPPORTED_MEDIA_TYPE',
+    TooManyRequests = 'TOO_MANY_REQUESTS',
+    BadGateway = 'BAD_GATEWAY',
+    InternalError = 'INTERNAL_ERROR',
+}
+
+const CODES_BY_STATUS: Partial<Record<HttpStatus, ErrorCode>> = {
+    [HttpStatus.BAD_REQUEST]: ErrorCode.BadRequest,
+    [HttpStatus.UNAUTHORIZED]: ErrorCode.Unauthenticated,
+    [HttpStatus.FORBIDDEN]: ErrorCode.Forbidden,
+    [HttpStatus.NOT_FOUND]: ErrorCode.NotFound,
+    [HttpStatus.CONFLICT]: ErrorCode.Conflict,
+    [HttpStatus.GONE]: ErrorCode.Gone,
+    [HttpStatus.PAYLOAD_TOO_LARGE]: ErrorCode.PayloadTooLarge,
+    [HttpStatus.UNSUPPORTED_MEDIA_TYPE]: ErrorCode.UnsupportedMediaType,
+    [HttpStatus.TOO_MANY_REQUESTS]: ErrorCode.TooManyRequests,
+    [HttpStatus.BAD_GATEWAY]: ErrorCode.BadGateway,
+};
+
+/**
+ * Code used for exceptions that do not carry one of their own.
+ *
+ * @param status - The HTTP status of the response
+ * @returns The generic code of the status, e.g. `NOT_FOUND` for 404
+ */
+export function defaultErrorCode(status: number): string {
+    return CODES_BY_STATUS[status] ?? (status >= 500 ? ErrorCode.InternalError : `HTTP_${status}`);
+}
@@ -0,0 +1,79 @@
+import { BadRequestException, ForbiddenException, InternalServerErrorException, NotFoundException } from '@nestjs/common';
+import { ErrorCode } from './error-code.enum';
+import { BookNotFoundException, PublisherBannedException, ValidationFailedException } from './domain-exceptions';
+import { toErrorResponse } from './error-response';
+
+describe('toErrorResponse', () => {
+    it('should use the code of domain exceptions', () => {
+        const body = toErrorResponse(new BookNotFoundException(), '/books/9', 'req-1');
+
+        expect(body).toEqual({
+            statusCode: 404,
+            code: ErrorCode.BookNotFound,
+            error: 'Not Found',
+            message: 'Book not found',
+            path: '/books/9',
+            requestId: 'req-1',
+            timestamp: expect.any(String),
+        });
+    });
+
+    it('should derive the code of plain Nest exceptions from the status', () => {
+        expect(toErrorResponse(new NotFoundException('Review not found'), '/reviews/1', 'req-1')).toMatchObject({
+            statusCode: 404,
+            code: ErrorCode.NotFound,
+            message: 'Review not found',
+        });
+        expect(toErrorResponse(new ForbiddenException(), '/admin/users', 'req-1')).toMatchObject({
+            statusCode: 403,
+            code: ErrorCode.Forbidden,
+            error: 'Forbidden',
+        });
+    });
+
+    it('should list field errors of invalid input', () => {
+        const body = toErrorResponse(
+            new ValidationFailedException([{ field: 'password', message: 'Password must be at least 8 characters long' }]),
+            '/auth/register',
+            'req-1',
+        );
+
+        expect(body).toMatchObject({
+            statusCode: 400,
+            code: ErrorCode.ValidationFailed,
+            message: 'Validation failed',
+            details: [{ field: 'password', message: 'Password must be at least 8 characters long' }],
+        });
+    });
+
+    it('should turn message lists into validation details', () => {
+        const body = toErrorResponse(new BadRequestException(['a is required', 'b is required']), '/x', 'req-1');
+
+        expect(body).toMatchObject({
+            code: ErrorCode.ValidationFailed,
+            message: 'Validation failed',
+            details: [{ message: 'a is required' }, { message: 'b is required' }],
+        });
+    });
+
+    it('should keep extra context such as the reason of a publishing ban', () => {
+        expect(toErrorResponse(new PublisherBannedException('Sith'), '/books', 'req-1')).toMatchObject({
+            statusCode: 403,
+            code: ErrorCode.PublisherBanned,
+            message: 'You are not allowed to publish books',
+            reason: 'Sith',
+        });
+    });
+
+    it('should hide the message of unexpected errors', () => {
+        expect(toErrorResponse(new Error('SQLITE_BUSY: database is locked'), '/books', 'req-1')).toMatchObject({
+            statusCode: 500,
+            code: ErrorCode.InternalError,
+            error: 'Internal Server Error',
+            message: 'Internal server error',
+        });
+        expect(
+            toErrorResponse(new InternalServerErrorException('An error occurred while fetching books'), '/books', 'req-1'),
+        ).toMatchObject({ statusCode: 500, code: ErrorCode.InternalError, message: 'An error occurred while fetching books' });
+    });
+});
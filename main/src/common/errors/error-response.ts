@@ -0,0 +1,69 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { STATUS_CODES } from 'http';
+import { ErrorCode, defaultErrorCode } from './error-code.enum';
+import { FieldError, ValidationFailedException, isCodedException } from './domain-exceptions';
+
+/**
+ * Body of every error response, in JSON and, as an `<error>` document, in XML.
+ */
+export interface ErrorResponse {
+    statusCode: number;
+    /** Machine-readable code, e.g. `BOOK_NOT_FOUND` */
+    code: string;
+    /** Reason phrase of the status, e.g. `Not Found` */
+    error: string;
+    message: string;
+    /** Field-level problems of invalid input */
+    details?: FieldError[];
+    path: string;
+    /** Also sent as the `X-Request-Id` header; quote it when reporting a problem */
+    requestId: string;
+    timestamp: string;
+    /** Extra context some errors add, e.g. the `reason` of a publishing ban */
+    [extra: string]: unknown;
+}
+
+const STANDARD_KEYS = new Set(['statusCode', 'error', 'message', 'code', 'details']);
+
+/**
+ * Builds the error body for any thrown value. Errors that are not HTTP
+ * exceptions become a 500 without exposing their message.
+ *
+ * @param exception - The thrown value
+ * @param path - The requested URL
+ * @param requestId - The ID of the request
+ */
+export function toErrorResponse(exception: unknown, path: string, requestId: string): ErrorResponse {
+    const status = exception instanceof HttpException ? exception.getStatus() : HttpStatus.INTERNAL_SERVER_ERROR;
+    const response = exception instanceof HttpException ? exception.getResponse() : 'Internal server error';
+    const body: Record<string, any> =
+        typeof response === 'object' && response !== null ? response : { message: response };
+    const { error, message, code, details } = body;
+    const extra = Object.fromEntries(Object.entries(body).filter(([key]) => !STANDARD_KEYS.has(key)));
+    const messages: string[] | null = Array.isArray(message) ? message.map(String) : null;
+
+    const fieldErrors: FieldError[] | undefined =
+        exception instanceof ValidationFailedException
+            ? exception.details
+            : Array.isArray(details)
+              ? details
+              : messages?.map((entry) => ({ message: entry }));
+
+    return {
+        statusCode: status,
+        code: isCodedException(exception)
+            ? exception.code
+            : typeof code === 'string'
+              ? code
+              : messages
+                ? ErrorCode.ValidationFailed
+                : defaultErrorCode(status),
+        error: typeof error === 'string' ? error : STATUS_CODES[status] ?? 'Error',
+        message: messages ? 'Validation failed' : String(message ?? STATUS_CODES[status] ?? 'Error'),
+        ...(fieldErrors ? { details: fieldErrors } : {}),
+        ...extra,
+        path,
+        requestId,
+        timestamp: new Date().toISOString(),
+    };
+}
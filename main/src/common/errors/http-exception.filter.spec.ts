@@ -0,0 +1,66 @@
+import { ArgumentsHost, Logger } from '@nestjs/common';
+import { BookNotFoundException } from './domain-exceptions';
+import { HttpExceptionFilter } from './http-exception.filter';
+
+describe('HttpExceptionFilter', () => {
+    let filter: HttpExceptionFilter;
+    let response: Record<string, jest.Mock | boolean>;
+
+    const host = (headers: Record<string, string> = {}, requestId: string | undefined = 'req-1'): ArgumentsHost =>
+        ({
+            getType: () => 'http',
+            switchToHttp: () => ({
+                getRequest: () => ({
+                    method: 'GET',
+                    originalUrl: '/books/9',
+                    requestId,
+                    headers,
+                    accepts: (types: string[]) => (headers.accept?.includes('xml') ? types[1] : types[0]),
+                }),
+                getResponse: () => response,
+            }),
+        }) as any;
+
+    beforeEach(() => {
+        filter = new HttpExceptionFilter();
+        response = {
+            headersSent: false,
+            status: jest.fn().mockReturnThis(),
+            type: jest.fn().mockReturnThis(),
+            json: jest.fn().mockReturnThis(),
+            send: jest.fn().mockReturnThis(),
+            setHeader: jest.fn(),
+        };
+    });
+
+    it('should answer with the error body and echo the request ID', () => {
+        filter.catch(new BookNotFoundException(), host());
+
+        expect(response.status).toHaveBeenCalledWith(404);
+        expect(response.setHeader).toHaveBeenCalledWith('X-Request-Id', 'req-1');
+        expect(response.json).toHaveBeenCalledWith(
+            expect.objectContaining({ statusCode: 404, code: 'BOOK_NOT_FOUND', path: '/books/9', requestId: 'req-1' }),
+        );
+    });
+
+    it('should render an <error> document for XML clients', () => {
+        filter.catch(new BookNotFoundException(), host({ accept: 'application/xml' }));
+
+        expect(response.type).toHaveBeenCalledWith('application/xml');
+        const [xml] = (response.send as jest.Mock).mock.calls[0];
+        expect(xml).toContain('<error><statusCode>404</statusCode><code>BOOK_NOT_FOUND</code>');
+        expect(xml).toContain('<requestId>req-1</requestId>');
+    });
+
+    it('should log server errors with their cause', () => {
+        const log = jest.spyOn(Logger.prototype, 'error').mockImplementation();
+        const cause = new Error('SQLITE_BUSY');
+
+        filter.catch(cause, host({}, undefined));
+
+        const [body] = (response.json as jest.Mock).mock.calls[0];
+        expect(body).toMatchObject({ statusCode: 500, message: 'Internal server error', requestId: expect.any(String) });
+        expect(log).toHaveBeenCalledWith(expect.stringContaining(body.requestId), cause.stack);
+        log.mockRestore();
+    });
+});
@@ -0,0 +1,48 @@
+import { ArgumentsHost, Catch, HttpStatus, Logger } from '@nestjs/common';
+import { BaseExceptionFilter } from '@nestjs/core';
+import { randomUUID } from 'crypto';
+import { toXml, wantsXml } from '../xml';
+import { toErrorResponse } from './error-response';
+import { REQUEST_ID_HEADER } from './request-id.middleware';
+
+/**
+ * Answers every failed request with an `ErrorResponse`, as JSON or, for
+ * clients that negotiated it, as an `<error>` XML document. Server errors are
+ * logged with the request ID and the underlying cause.
+ */
+@Catch()
+export class HttpExceptionFilter extends BaseExceptionFilter {
+    private readonly logger = new Logger(HttpExceptionFilter.name);
+
+    catch(exception: unknown, host: ArgumentsHost) {
+        if (host.getType() !== 'http') {
+            return super.catch(exception, host);
+        }
+
+        const http = host.switchToHttp();
+        const request = http.getRequest();
+        const response = http.getResponse();
+        const requestId: string = request.requestId ?? randomUUID();
+        const body = toErrorResponse(exception, request.originalUrl ?? request.url, requestId);
+
+        if (body.statusCode >= HttpStatus.INTERNAL_SERVER_ERROR) {
+            const cause = (exception as { cause?: unknown })?.cause ?? exception;
+            this.logger.error(
+                `${request.method} ${body.path} failed [${requestId}]`,
+                cause instanceof Error ? cause.stack : String(cause),
+            );
+        }
+
+        if (response.headersSent) {
+            return;
+        }
+
+        response.setHeader(REQUEST_ID_HEADER, requestId);
+
+        if (wantsXml(request)) {
+            response.status(body.statusCode).type('application/xml').send(toXml(body, 'error'));
+        } else {
+            response.status(body.statusCode).json(body);
+        }
+    }
+}
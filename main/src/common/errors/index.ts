@@ -0,0 +1,5 @@
+export * from './domain-exceptions';
+export * from './error-code.enum';
+export * from './error-response';
+export * from './http-exception.filter';
+export * from './request-id.middleware';
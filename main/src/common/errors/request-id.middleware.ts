@@ -0,0 +1,24 @@
+import { Injectable, NestMiddleware } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+
+/**
+ * Header carrying the request ID in both directions.
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+const VALID_REQUEST_ID = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Tags every request with an ID, reusing a well-formed `X-Request-Id` sent by
+ * the client or a proxy, and echoes it in the response headers.
+ */
+@Injectable()
+export class RequestIdMiddleware implements NestMiddleware {
+    use(req: any, res: any, next: () => void) {
+        const incoming = req.headers[REQUEST_ID_HEADER.toLowerCase()];
+
+        req.requestId = typeof incoming === 'string' && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+        res.setHeader(REQUEST_ID_HEADER, req.requestId);
+        next();
+    }
+}
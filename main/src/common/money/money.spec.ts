@@ -0,0 +1,97 @@
+import { BadRequestException } from '@nestjs/common';
+import { instanceToPlain, plainToInstance, Transform } from 'class-transformer';
+import { Money, currencyDigits, toMoney } from './money';
+
+describe('Money', () => {
+    describe('parse', () => {
+        it('should read strings and numbers without rounding errors', () => {
+            expect(Money.parse('19.99').minorUnits).toBe(1999);
+            expect(Money.parse(0.1).minorUnits).toBe(10);
+            expect(Money.parse(' 20 ').minorUnits).toBe(2000);
+            expect(Money.parse('1.50').minorUnits).toBe(150);
+        });
+
+        it('should use the number of decimals of the currency', () => {
+            expect(currencyDigits('JPY')).toBe(0);
+            expect(Money.parse('2500', 'JPY')).toMatchObject({ minorUnits: 2500, currency: 'JPY' });
+            expect(Money.parse('1.234', 'KWD').minorUnits).toBe(1234);
+        });
+
+        it('should take the currency of an amount object over the default', () => {
+            expect(Money.parse({ amount: '5', currency: 'USD' })).toMatchObject({ minorUnits: 500, currency: 'USD' });
+        });
+
+        it('should reject malformed, negative, too precise and unknown amounts', () => {
+            expect(() => Money.parse('abc')).toThrow(BadRequestException);
+            expect(() => Money.parse('1e3')).toThrow(BadRequestException);
+            expect(() => Money.parse('-1')).toThrow('amount must not be negative');
+            expect(() => Money.parse('0.001')).toThrow(BadRequestException);
+            expect(() => Money.parse('1.5', 'JPY')).toThrow(BadRequestException);
+            expect(() => Money.parse('1', 'XXY')).toThrow(BadRequestException);
+            expect(() => Money.parse('99999999999999999')).toThrow('amount is too large');
+        });
+
+        it('should accept trailing zeros beyond the currency precision', () => {
+            expect(Money.parse('19.9900').minorUnits).toBe(1999);
+        });
+    });
+
+    describe('amount', () => {
+        it('should format the minor units with the currency decimals', () => {
+            expect(Money.of(5).amount).toBe('0.05');
+            expect(Money.of(1999, 'EUR').amount).toBe('19.99');
+            expect(Money.of(2500, 'JPY').amount).toBe('2500');
+        });
+
+        it('should serialize as an amount string with its currency', () => {
+            const price = Money.of(1999, 'EUR');
+
+            expect(instanceToPlain({ price })).toEqual({ price: { amount: '19.99', currency: 'EUR' } });
+            expect(JSON.stringify(price)).toBe('{"currency":"EUR","amount":"19.99"}');
+        });
+    });
+
+    describe('arithmetic', () => {
+        it('should add amounts of one currency exactly', () => {
+            const total = Money.sum([Money.parse('0.1'), Money.parse('0.2'), Money.parse('19.99').times(3)]);
+
+            expect(total.amount).toBe('60.27');
+        });
+
+        it('should refuse to add different currencies', () => {
+            expect(() => Money.of(1, 'EUR').plus(Money.of(1, 'USD'))).toThrow(RangeError);
+        });
+
+        it('should reject fractional minor units', () => {
+            expect(() => Money.of(1.5)).toThrow(RangeError);
+        });
+    });
+});
+
+describe('toMoney', () => {
+    class PriceDto {
+        @Transform(toMoney())
+        price?: any;
+
+        currency?: string;
+    }
+
+    class PatchDto {
+        @Transform(toMoney(null))
+        price?: any;
+    }
+
+    it('should read bare amounts in the currency field or the default', () => {
+        expect(plainToInstance(PriceDto, { price: '2500', currency: 'JPY' }).price).toEqual(Money.of(2500, 'JPY'));
+        expect(plainToInstance(PriceDto, { price: '4.99' }).price).toEqual(Money.of(499, 'EUR'));
+    });
+
+    it('should leave bare amounts alone without a fallback', () => {
+        expect(plainToInstance(PatchDto, { price: '4.99' }).price).toBe('4.99');
+        expect(plainToInstance(PatchDto, { price: { amount: '4.99', currency: 'USD' } }).price).toEqual(Money.of(499, 'USD'));
+    });
+
+    it('should turn invalid amounts into a BadRequestException naming the field', () => {
+        expect(() => plainToInstance(PriceDto, { price: 'free' })).toThrow('price must be a decimal amount such as "19.99"');
+    });
+});
@@ -0,0 +1,172 @@
+import { BadRequestException } from '@nestjs/common';
+import { Exclude, Expose, TransformFnParams } from 'class-transformer';
+
+/**
+ * Currency of prices given without one.
+ */
+export const DEFAULT_CURRENCY = 'EUR';
+
+const SUPPORTED_CURRENCIES = new Set<string>((Intl as any).supportedValuesOf('currency'));
+
+/**
+ * A money amount as accepted from clients: `"19.99"`, `19.99`, or
+ * `{ "amount": "19.99", "currency": "EUR" }`.
+ */
+export type MoneyInput = Money | string | number | { amount: string | number; currency?: string };
+
+/**
+ * Whether a code is an ISO 4217 currency this runtime knows.
+ */
+export function isCurrencyCode(code: unknown): code is string {
+    return typeof code === 'string' && SUPPORTED_CURRENCIES.has(code);
+}
+
+/**
+ * Number of decimals of a currency's minor unit, e.g. 2 for EUR and 0 for JPY.
+ */
+export function currencyDigits(currency: string): number {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits;
+}
+
+/**
+ * An exact amount of money, held as an integer number of minor units (e.g.
+ * cents) with its ISO 4217 currency. Serializes as
+ * `{ "currency": "EUR", "amount": "19.99" }`.
+ */
+export class Money {
+    /** The amount in minor units of `currency` */
+    @Exclude()
+    readonly minorUnits: number;
+
+    @Expose()
+    readonly currency: string;
+
+    /** Prefer `Money.of` and `Money.parse`, which validate their input */
+    constructor(minorUnits: number, currency: string) {
+        this.minorUnits = minorUnits;
+        this.currency = currency;
+    }
+
+    /**
+     * Creates an amount from minor units.
+     *
+     * @param minorUnits - A safe integer, e.g. `1999` for 19.99 EUR
+     * @param currency - ISO 4217 code
+     * @throws RangeError if the amount is not a safe integer or the currency is unknown
+     */
+    static of(minorUnits: number, currency: string = DEFAULT_CURRENCY): Money {
+        if (!Number.isSafeInteger(minorUnits)) {
+            throw new RangeError(`Money amounts must be whole minor units, got ${minorUnits}`);
+        }
+        if (!isCurrencyCode(currency)) {
+            throw new RangeError(`Unknown currency "${currency}"`);
+        }
+        return new Money(minorUnits, currency);
+    }
+
+    static zero(currency: string = DEFAULT_CURRENCY): Money {
+        return Money.of(0, currency);
+    }
+
+    /**
+     * Parses an amount sent by a client without going through floating point.
+     *
+     * @param value - A `Money`, a decimal string or number, or `{ amount, currency }`
+     * @param currency - Currency of a bare amount
+     * @param field - Name of the field, for error messages
+     * @returns The parsed amount
+     * @throws BadRequestException if the amount is malformed, negative, too precise for the currency, or the currency is unknown
+     */
+    static parse(value: MoneyInput, currency: string = DEFAULT_CURRENCY, field = 'amount'): Money {
+        if (value instanceof Money) {
+            return value;
+        }
+
+        if (value !== null && typeof value === 'object') {
+            return Money.parse(value.amount, value.currency ?? currency, field);
+        }
+
+        if (!isCurrencyCode(currency)) {
+            throw new BadRequestException(`${field} has an unknown currency "${currency}"; use an ISO 4217 code such as ${DEFAULT_CURRENCY}`);
+        }
+
+        const text = typeof value === 'number' && Number.isFinite(value) ? String(value) : typeof value === 'string' ? value.trim() : '';
+        const match = /^(-?)(\d+)(?:\.(\d+))?$/.exec(text);
+
+        if (!match) {
+            throw new BadRequestException(`${field} must be a decimal amount such as "19.99"`);
+        }
+
+        const [, sign, units, fraction = ''] = match;
+        const digits = currencyDigits(currency);
+
+        if (sign) {
+            throw new BadRequestException(`${field} must not be negative`);
+        }
+
+        if (fraction.replace(/0+$/, '').length > digits) {
+            throw new BadRequestException(`${field} has more than ${digits} decimals, which ${currency} does not allow`);
+        }
+
+        const minorUnits = Number(units + fraction.padEnd(digits, '0').slice(0, digits));
+
+        if (!Number.isSafeInteger(minorUnits)) {
+            throw new BadRequestException(`${field} is too large`);
+        }
+
+        return new Money(minorUnits, currency);
+    }
+
+    /**
+     * Adds up amounts of one currency.
+     *
+     * @param amounts - The amounts to add
+     * @param currency - Currency of the result when `amounts` is empty
+     */
+    static sum(amounts: Money[], currency: string = DEFAULT_CURRENCY): Money {
+        return amounts.reduce((total, amount) => total.plus(amount), Money.zero(amounts[0]?.currency ?? currency));
+    }
+
+    /** The amount as a decimal string with the currency's number of decimals, e.g. `"19.99"` */
+    @Expose()
+    get amount(): string {
+        const digits = currencyDigits(this.currency);
+        const sign = this.minorUnits < 0 ? '-' : '';
+        const text = String(Math.abs(this.minorUnits)).padStart(digits + 1, '0');
+
+        return digits === 0 ? `${sign}${text}` : `${sign}${text.slice(0, -digits)}.${text.slice(-digits)}`;
+    }
+
+    plus(other: Money): Money {
+        if (other.currency !== this.currency) {
+            throw new RangeError(`Cannot add ${other.currency} to ${this.currency}`);
+        }
+        return Money.of(this.minorUnits + other.minorUnits, this.currency);
+    }
+
+    times(factor: number): Money {
+        return Money.of(this.minorUnits * factor, this.currency);
+    }
+
+    toJSON() {
+        return { currency: this.currency, amount: this.amount };
+    }
+}
+
+/**
+ * `@Transform` for money fields of DTOs. A bare amount takes its currency from
+ * the DTO's `currency` field, or `fallback`; with no fallback, bare amounts are
+ * left for the service to read in the currency it already knows.
+ *
+ * @param fallback - Currency of bare amounts when the DTO has no `currency`
+ */
+export function toMoney(fallback: string | null = DEFAULT_CURRENCY) {
+    return ({ value, obj, key }: TransformFnParams) => {
+        if (value === undefined || value === null) {
+            return value;
+        }
+
+        const currency = (typeof value === 'object' ? value.currency : undefined) ?? obj.currency ?? fallback;
+        return currency ? Money.parse(value, currency, key) : value;
+    };
+}
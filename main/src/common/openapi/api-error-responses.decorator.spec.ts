@@ -0,0 +1,60 @@
+import { Controller, Get, HttpStatus, INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { DocumentBuilder, OpenAPIObject, SwaggerModule } from '@nestjs/swagger';
+import { Public } from '../../auth/public.decorator';
+import { ApiErrorResponses } from './api-error-responses.decorator';
+import { OPENAPI_BEARER_AUTH } from './api-security';
+
+@Controller('ships')
+class ShipsController {
+    @Get()
+    @Public()
+    @ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.INTERNAL_SERVER_ERROR)
+    findAll() {
+        return [];
+    }
+
+    @Get('mine')
+    @ApiErrorResponses(HttpStatus.UNAUTHORIZED)
+    findMine() {
+        return [];
+    }
+}
+
+describe('ApiErrorResponses', () => {
+    let app: INestApplication;
+    let document: OpenAPIObject;
+
+    beforeAll(async () => {
+        const module = await Test.createTestingModule({ controllers: [ShipsController] }).compile();
+        app = module.createNestApplication();
+
+        const config = new DocumentBuilder()
+            .addBearerAuth({ type: 'http', scheme: 'bearer' }, OPENAPI_BEARER_AUTH)
+            .addSecurityRequirements(OPENAPI_BEARER_AUTH)
+            .build();
+        document = SwaggerModule.createDocument(app, config);
+    });
+
+    afterAll(async () => {
+        await app.close();
+    });
+
+    it('should document each status with the shared error body', () => {
+        const responses = document.paths['/ships'].get.responses;
+
+        expect(Object.keys(responses)).toEqual(expect.arrayContaining(['400', '500']));
+        expect(responses['400']).toEqual({
+            description: 'Bad Request',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponseDto' } } },
+        });
+        expect(document.components.schemas).toHaveProperty('ErrorResponseDto');
+        expect(document.components.schemas).toHaveProperty('FieldErrorDto');
+    });
+
+    it('should lift the bearer requirement from public routes only', () => {
+        expect(document.security).toEqual([{ [OPENAPI_BEARER_AUTH]: [] }]);
+        expect(document.paths['/ships'].get.security).toEqual([{}]);
+        expect(document.paths['/ships/mine'].get.security).toBeUndefined();
+    });
+});
@@ -0,0 +1,14 @@
+import { applyDecorators, HttpStatus } from '@nestjs/common';
+import { ApiResponse } from '@nestjs/swagger';
+import { STATUS_CODES } from 'http';
+import { ErrorResponseDto } from './error-response.dto';
+
+/**
+ * Documents the error statuses a route answers with, all sharing the `ErrorResponse` body.
+ *
+ * @param statuses - The HTTP statuses, e.g. `HttpStatus.NOT_FOUND`
+ */
+export const ApiErrorResponses = (...statuses: HttpStatus[]) =>
+    applyDecorators(
+        ...statuses.map((status) => ApiResponse({ status, description: STATUS_CODES[status], type: ErrorResponseDto })),
+    );
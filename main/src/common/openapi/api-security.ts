@@ -0,0 +1,11 @@
+import { ApiSecurity } from '@nestjs/swagger';
+
+/**
+ * Name of the bearer security scheme documented routes require unless they are public.
+ */
+export const OPENAPI_BEARER_AUTH = 'bearer';
+
+/**
+ * Documents a route or controller as callable without a token, overriding the bearer requirement.
+ */
+export const ApiPublic = () => ApiSecurity({});
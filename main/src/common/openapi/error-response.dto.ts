@@ -0,0 +1,45 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ErrorCode, FieldError } from '../errors';
+
+/**
+ * Schema of a field-level problem in `ErrorResponse.details`.
+ */
+export class FieldErrorDto implements FieldError {
+    @ApiPropertyOptional({ description: 'Dotted path of the offending property', example: 'price' })
+    field?: string;
+
+    @ApiProperty({ example: 'price must not be negative' })
+    message: string;
+}
+
+/**
+ * Schema of `ErrorResponse`, the body every endpoint answers failures with.
+ */
+export class ErrorResponseDto {
+    @ApiProperty({ example: 404 })
+    statusCode: number;
+
+    @ApiProperty({ enum: ErrorCode, enumName: 'ErrorCode', description: 'Stable, machine-readable code to branch on' })
+    code: string;
+
+    @ApiProperty({ description: 'Reason phrase of the status', example: 'Not Found' })
+    error: string;
+
+    @ApiProperty({ description: 'Meant for people; may change', example: 'Book not found' })
+    message: string;
+
+    @ApiPropertyOptional({ type: [FieldErrorDto], description: 'Field-level problems of invalid input' })
+    details?: FieldErrorDto[];
+
+    @ApiProperty({ example: '/books/42' })
+    path: string;
+
+    @ApiProperty({
+        description: 'Also sent as the `X-Request-Id` header',
+        example: '0ff84d03-de00-499d-b3b4-4f450892d864',
+    })
+    requestId: string;
+
+    @ApiProperty({ format: 'date-time' })
+    timestamp: string;
+}
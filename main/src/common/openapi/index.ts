@@ -0,0 +1,4 @@
+export * from './api-error-responses.decorator';
+export * from './api-security';
+export * from './error-response.dto';
+export * from './money-input.schema';
@@ -0,0 +1,19 @@
+import { ApiPropertyOptions } from '@nestjs/swagger';
+
+/**
+ * Schema of a money amount sent by clients, see `MoneyInput`: a decimal string,
+ * a number or an amount with its currency.
+ */
+export const MONEY_INPUT_SCHEMA: ApiPropertyOptions = {
+    // Keeps the compiler plugin from describing the property as `Money`; dropped in favour of `oneOf`
+    type: Object,
+    oneOf: [
+        { type: 'string', example: '19.99' },
+        { type: 'number', example: 19.99 },
+        {
+            type: 'object',
+            properties: { amount: { type: 'string', example: '19.99' }, currency: { type: 'string', example: 'EUR' } },
+            required: ['amount'],
+        },
+    ],
+};
@@ -0,0 +1,25 @@
+import { ArgumentMetadata, BadRequestException, ValidationPipe } from '@nestjs/common';
+import { VALIDATION_PIPE_OPTIONS } from '../validation';
+import { MAX_PAGE_LIMIT } from './pagination';
+import { PaginationQueryDto } from './pagination-query.dto';
+
+describe('PaginationQueryDto', () => {
+    const pipe = new ValidationPipe(VALIDATION_PIPE_OPTIONS);
+    const metadata: ArgumentMetadata = { type: 'query', metatype: PaginationQueryDto };
+
+    it('should coerce page and limit into numbers', async () => {
+        const result: PaginationQueryDto = await pipe.transform({ page: '2', limit: '5', sort: '-id' }, metadata);
+
+        expect(result).toEqual({ page: 2, limit: 5, sort: '-id' });
+    });
+
+    it.each([
+        { page: '0' },
+        { page: 'first' },
+        { limit: String(MAX_PAGE_LIMIT + 1) },
+        { cursor: ['a', 'b'] },
+        { role: 'admin' },
+    ])('should reject %p with a 400', async (query) => {
+        await expect(pipe.transform(query, metadata)).rejects.toThrow(BadRequestException);
+    });
+});
@@ -0,0 +1,33 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { MAX_PAGE_LIMIT } from './pagination';
+
+/**
+ * Query parameters of paginated collections; extend it to add filters
+ */
+export class PaginationQueryDto {
+    /** Sort expression, e.g. `-id`; the fields depend on the collection */
+    @IsString()
+    @IsOptional()
+    sort?: string;
+
+    /** 1-based page number for offset pagination */
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    page?: number;
+
+    /** Page size */
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @Max(MAX_PAGE_LIMIT)
+    @IsOptional()
+    limit?: number;
+
+    /** Opaque cursor from a previous page's metadata */
+    @IsString()
+    @IsOptional()
+    cursor?: string;
+}
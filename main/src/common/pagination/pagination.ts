@@ -0,0 +1,356 @@
+import { BadRequestException } from '@nestjs/common';
+import { Brackets, ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+
+export const DEFAULT_PAGE_LIMIT = 20;
+export const MAX_PAGE_LIMIT = 100;
+
+export type SortDirection = 'ASC' | 'DESC';
+
+export interface SortKey {
+    /** Public name used in the `sort` query parameter */
+    field: string;
+    /** Query builder expression, e.g. `book.price` */
+    column: string;
+    direction: SortDirection;
+    /** Reads the key from a result when it is not a property named `field` */
+    value?: (entity: any) => any;
+}
+
+/**
+ * A sortable column: either a query builder expression or an expression with
+ * an accessor for computed values that are not entity properties.
+ */
+export type SortColumn = string | { column: string; value: (entity: any) => any };
+
+export interface PaginationOptions {
+    limit: number;
+    page: number;
+    cursor?: DecodedCursor;
+}
+
+export interface DecodedCursor {
+    values: any[];
+    direction: 'next' | 'prev';
+}
+
+export interface PaginationMeta {
+    total: number;
+    limit: number;
+    page?: number;
+    totalPages?: number;
+    nextCursor?: string | null;
+    prevCursor?: string | null;
+}
+
+export interface PaginationLinks {
+    self: string;
+    first: string;
+    prev: string | null;
+    next: string | null;
+    last?: string | null;
+}
+
+export interface Paginated<T> {
+    data: T[];
+    meta: PaginationMeta;
+    links?: PaginationLinks;
+}
+
+/**
+ * Reads `page`, `limit` and `cursor` from a query object.
+ *
+ * @param query - The raw query parameters
+ * @param sort - The resolved sort keys, used to validate the cursor
+ * @returns Normalized pagination options
+ * @throws BadRequestException if a value is out of range or the cursor is malformed
+ */
+export function parsePagination(query: any, sort: SortKey[]): PaginationOptions {
+    const limit = parsePositiveInt(query?.limit, 'limit', DEFAULT_PAGE_LIMIT);
+    const page = parsePositiveInt(query?.page, 'page', 1);
+
+    if (limit > MAX_PAGE_LIMIT) {
+        throw new BadRequestException(`limit must not be greater than ${MAX_PAGE_LIMIT}`);
+    }
+
+    if (query?.cursor !== undefined && query?.page !== undefined) {
+        throw new BadRequestException('page and cursor cannot be combined');
+    }
+
+    return {
+        limit,
+        page,
+        cursor: query?.cursor !== undefined ? decodeCursor(String(query.cursor), sort) : undefined,
+    };
+}
+
+/**
+ * Parses a `sort=price,-title` expression against a whitelist of fields.
+ *
+ * A leading `-` sorts descending. The `tieBreaker` key is appended when not
+ * already present so the order is total, which cursor pagination relies on.
+ *
+ * @param sort - The raw `sort` query parameter
+ * @param columns - Map of public field names to sortable columns
+ * @param fallback - Sort keys used when no `sort` is given
+ * @param tieBreaker - Unique key appended to make the ordering deterministic
+ * @returns The resolved sort keys
+ * @throws BadRequestException if a field is not whitelisted or repeated
+ */
+export function parseSort(
+    sort: string | undefined,
+    columns: Record<string, SortColumn>,
+    fallback: SortKey[],
+    tieBreaker: SortKey,
+): SortKey[] {
+    const keys: SortKey[] = [];
+
+    if (sort === undefined || sort === null || String(sort).trim() === '') {
+        keys.push(...fallback);
+    } else {
+        for (const token of String(sort).split(',')) {
+            const trimmed = token.trim();
+            const direction: SortDirection = trimmed.startsWith('-') ? 'DESC' : 'ASC';
+            const field = trimmed.replace(/^[-+]/, '');
+
+            if (!Object.prototype.hasOwnProperty.call(columns, field)) {
+                throw new BadRequestException(
+                    `Cannot sort by "${field}". Allowed fields: ${Object.keys(columns).join(', ')}`,
+                );
+            }
+
+            if (keys.some((key) => key.field === field)) {
+                throw new BadRequestException(`Sort field "${field}" is specified more than once`);
+            }
+
+            const column = columns[field];
+            keys.push(typeof column === 'string' ? { field, column, direction } : { field, direction, ...column });
+        }
+    }
+
+    if (!keys.some((key) => key.field === tieBreaker.field)) {
+        keys.push(tieBreaker);
+    }
+
+    return keys;
+}
+
+/**
+ * Orders, offsets or seeks the query and resolves one page of results.
+ *
+ * Rows are limited with `LIMIT`/`OFFSET`, so joins must not multiply them
+ * (many-to-one relations only).
+ *
+ * @param queryBuilder - A query builder with all filters applied
+ * @param sort - The resolved sort keys
+ * @param options - The pagination options from `parsePagination`
+ * @param decorate - Optional callback receiving each entity with its raw row, for computed selections
+ * @returns The page of entities with its metadata
+ */
+export async function paginate<T extends ObjectLiteral>(
+    queryBuilder: SelectQueryBuilder<T>,
+    sort: SortKey[],
+    options: PaginationOptions,
+    decorate?: (entity: T, raw: any) => void,
+): Promise<Paginated<T>> {
+    const total = await queryBuilder.getCount();
+    const fetch = async () => {
+        if (!decorate) {
+            return queryBuilder.getMany();
+        }
+        const { entities, raw } = await queryBuilder.getRawAndEntities();
+        entities.forEach((entity, index) => decorate(entity, raw[index]));
+        return entities;
+    };
+
+    if (!options.cursor) {
+        applyOrder(queryBuilder, sort, false);
+        queryBuilder.offset((options.page - 1) * options.limit).limit(options.limit);
+
+        const page = await fetch();
+        const totalPages = Math.ceil(total / options.limit);
+
+        return {
+            data: page,
+            meta: {
+                total,
+                limit: options.limit,
+                page: options.page,
+                totalPages,
+                // Cursors let clients switch from offset to keyset paging at any page
+                nextCursor: page.length && options.page < totalPages ? encodeCursor(page[page.length - 1], sort, 'next') : null,
+                prevCursor: page.length && options.page > 1 ? encodeCursor(page[0], sort, 'prev') : null,
+            },
+        };
+    }
+
+    const backwards = options.cursor.direction === 'prev';
+    applyCursor(queryBuilder, sort, options.cursor);
+    applyOrder(queryBuilder, sort, backwards);
+    queryBuilder.limit(options.limit + 1);
+
+    const rows = await fetch();
+    const hasMore = rows.length > options.limit;
+    const data = rows.slice(0, options.limit);
+
+    if (backwards) {
+        data.reverse();
+    }
+
+    const first = data[0];
+    const last = data[data.length - 1];
+
+    return {
+        data,
+        meta: {
+            total,
+            limit: options.limit,
+            nextCursor: last && (backwards || hasMore) ? encodeCursor(last, sort, 'next') : null,
+            prevCursor: first && (!backwards || hasMore) ? encodeCursor(first, sort, 'prev') : null,
+        },
+    };
+}
+
+/**
+ * Builds navigation links for a page, keeping every other query parameter.
+ *
+ * @param req - The express request the page was served for
+ * @param meta - The pagination metadata of the page
+ * @returns Absolute URLs for the current, first, previous, next and last pages
+ */
+export function buildPaginationLinks(req: any, meta: PaginationMeta): PaginationLinks {
+    const base = new URL(req.originalUrl ?? req.url, `${req.protocol}://${req.get?.('host') ?? 'localhost'}`);
+    const link = (params: Record<string, string | number | undefined>) => {
+        const url = new URL(base.toString());
+        for (const [key, value] of Object.entries(params)) {
+            if (value === undefined) {
+                url.searchParams.delete(key);
+            } else {
+                url.searchParams.set(key, String(value));
+            }
+        }
+        return url.toString();
+    };
+
+    if (meta.page !== undefined) {
+        const lastPage = Math.max(meta.totalPages, 1);
+        return {
+            self: base.toString(),
+            first: link({ page: 1, cursor: undefined }),
+            prev: meta.page > 1 ? link({ page: Math.min(meta.page - 1, lastPage) }) : null,
+            next: meta.page < meta.totalPages ? link({ page: meta.page + 1 }) : null,
+            last: link({ page: lastPage }),
+        };
+    }
+
+    return {
+        self: base.toString(),
+        first: link({ page: undefined, cursor: undefined }),
+        prev: meta.prevCursor ? link({ cursor: meta.prevCursor }) : null,
+        next: meta.nextCursor ? link({ cursor: meta.nextCursor }) : null,
+    };
+}
+
+/**
+ * Formats links as an RFC 8288 `Link` header value.
+ *
+ * @param links - The pagination links
+ * @returns The header value, e.g. `<https://...>; rel="next"`
+ */
+export function formatLinkHeader(links: PaginationLinks): string {
+    return (['first', 'prev', 'next', 'last'] as const)
+        .filter((rel) => links[rel])
+        .map((rel) => `<${links[rel]}>; rel="${rel}"`)
+        .join(', ');
+}
+
+function parsePositiveInt(value: any, name: string, fallback: number): number {
+    if (value === undefined || value === null || value === '') {
+        return fallback;
+    }
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+        throw new BadRequestException(`${name} must be a positive integer`);
+    }
+
+    return parsed;
+}
+
+function sortSignature(sort: SortKey[]): string {
+    return sort.map((key) => `${key.direction === 'DESC' ? '-' : ''}${key.field}`).join(',');
+}
+
+function encodeCursor(entity: any, sort: SortKey[], direction: 'next' | 'prev'): string {
+    const payload = {
+        s: sortSignature(sort),
+        d: direction,
+        v: sort.map((key) => {
+            const value = key.value ? key.value(entity) : entity[key.field];
+            return value instanceof Date ? value.toISOString() : value;
+        }),
+    };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+function decodeCursor(cursor: string, sort: SortKey[]): DecodedCursor {
+    let payload: any;
+
+    try {
+        payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        throw new BadRequestException('Invalid cursor');
+    }
+
+    if (
+        !payload ||
+        !Array.isArray(payload.v) ||
+        payload.v.length !== sort.length ||
+        (payload.d !== 'next' && payload.d !== 'prev')
+    ) {
+        throw new BadRequestException('Invalid cursor');
+    }
+
+    if (payload.s !== sortSignature(sort)) {
+        throw new BadRequestException('Cursor does not match the requested sort order');
+    }
+
+    return { values: payload.v, direction: payload.d };
+}
+
+function applyOrder(queryBuilder: SelectQueryBuilder<any>, sort: SortKey[], reverse: boolean) {
+    sort.forEach((key, index) => {
+        const direction = reverse ? (key.direction === 'ASC' ? 'DESC' : 'ASC') : key.direction;
+        if (index === 0) {
+            queryBuilder.orderBy(key.column, direction);
+        } else {
+            queryBuilder.addOrderBy(key.column, direction);
+        }
+    });
+}
+
+/**
+ * Restricts the query to rows strictly after (or before) the cursor position:
+ * `(k1 > v1) OR (k1 = v1 AND k2 > v2) OR ...`, flipping each comparison for
+ * descending keys and for backwards navigation.
+ */
+function applyCursor(queryBuilder: SelectQueryBuilder<any>, sort: SortKey[], cursor: DecodedCursor) {
+    const parameters: Record<string, any> = {};
+    sort.forEach((_, index) => (parameters[`cursor${index}`] = cursor.values[index]));
+
+    queryBuilder.andWhere(
+        new Brackets((outer) => {
+            sort.forEach((key, index) => {
+                outer.orWhere(
+                    new Brackets((inner) => {
+                        for (let i = 0; i < index; i++) {
+                            inner.andWhere(`${sort[i].column} = :cursor${i}`);
+                        }
+                        const ascending = (key.direction === 'ASC') !== (cursor.direction === 'prev');
+                        inner.andWhere(`${key.column} ${ascending ? '>' : '<'} :cursor${index}`);
+                    }),
+                );
+            });
+        }),
+        parameters,
+    );
+}
@@ -0,0 +1,28 @@
+import { TransformFnParams } from 'class-transformer';
+
+/**
+ * Reads `true`/`false` and `1`/`0` sent as text, as in query strings and XML
+ * bodies, as booleans. Other values are left for the validators to reject.
+ */
+export const toBoolean = ({ value }: TransformFnParams) => {
+    if (value === 'true' || value === '1' || value === true) {
+        return true;
+    }
+    if (value === 'false' || value === '0' || value === false) {
+        return false;
+    }
+    return value;
+};
+
+/**
+ * Reads numbers sent as text, as in XML bodies. Blank or non-numeric text is
+ * left for the validators to reject.
+ */
+export const toNumber = ({ value }: TransformFnParams) => {
+    if (typeof value !== 'string' || !value.trim()) {
+        return value;
+    }
+
+    const number = Number(value);
+    return Number.isNaN(number) ? value : number;
+};
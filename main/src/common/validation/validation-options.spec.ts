@@ -0,0 +1,56 @@
+import { ArgumentMetadata, ValidationPipe } from '@nestjs/common';
+import { Type } from 'class-transformer';
+import { IsInt, IsNotEmpty, IsString, ValidateNested } from 'class-validator';
+import { ValidationFailedException } from '../errors';
+import { VALIDATION_PIPE_OPTIONS } from './validation-options';
+
+class ShipDto {
+    @IsString()
+    @IsNotEmpty()
+    name: string;
+}
+
+class CrewDto {
+    @IsInt()
+    size: number;
+
+    @ValidateNested()
+    @Type(() => ShipDto)
+    ship: ShipDto;
+}
+
+describe('VALIDATION_PIPE_OPTIONS', () => {
+    const pipe = new ValidationPipe(VALIDATION_PIPE_OPTIONS);
+    const metadata: ArgumentMetadata = { type: 'body', metatype: CrewDto };
+
+    it('should turn valid bodies into their DTO class', async () => {
+        const result = await pipe.transform({ size: 2, ship: { name: 'Millennium Falcon' } }, metadata);
+
+        expect(result).toBeInstanceOf(CrewDto);
+        expect(result.ship).toBeInstanceOf(ShipDto);
+    });
+
+    it('should report every violation with the dotted path of its field', async () => {
+        const error = await pipe.transform({ size: 'two', ship: { name: '' } }, metadata).catch((e) => e);
+
+        expect(error).toBeInstanceOf(ValidationFailedException);
+        expect(error.details).toEqual([
+            { field: 'size', message: 'size must be an integer number' },
+            { field: 'ship.name', message: 'name should not be empty' },
+        ]);
+    });
+
+    it('should reject properties the DTO does not declare', async () => {
+        const body = { size: 2, ship: { name: 'Falcon', hyperdrive: true }, captain: 'Han' };
+        const error = await pipe.transform(body, metadata).catch((e) => e);
+
+        expect(error.details).toEqual([
+            { field: 'captain', message: 'property captain should not exist' },
+            { field: 'ship.hyperdrive', message: 'property hyperdrive should not exist' },
+        ]);
+    });
+
+    it('should convert primitive route parameters', async () => {
+        await expect(pipe.transform('42', { type: 'param', metatype: Number, data: 'id' })).resolves.toBe(42);
+    });
+});
@@ -0,0 +1,14 @@
+import { ValidationPipeOptions } from '@nestjs/common';
+import { ValidationFailedException } from '../errors';
+
+/**
+ * Options of the global `ValidationPipe`. Bodies and queries are turned into
+ * their DTO classes, properties a DTO does not declare are rejected, and
+ * violations are reported as `VALIDATION_FAILED` with one detail per field.
+ */
+export const VALIDATION_PIPE_OPTIONS: ValidationPipeOptions = {
+    transform: true,
+    whitelist: true,
+    forbidNonWhitelisted: true,
+    exceptionFactory: (errors) => ValidationFailedException.fromValidationErrors(errors),
+};
@@ -0,0 +1,4 @@
+export * from './xml-body.middleware';
+export * from './xml-root.decorator';
+export * from './xml.interceptor';
+export * from './xml.util';
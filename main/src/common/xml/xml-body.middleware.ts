@@ -0,0 +1,32 @@
+import { BadRequestException, Injectable, NestMiddleware } from '@nestjs/common';
+import { text } from 'express';
+import { XML_MEDIA_TYPES, isXmlContentType, parseXml } from './xml.util';
+
+/**
+ * Parses `application/xml` and `text/xml` request bodies into plain objects so
+ * controllers receive the same DTO shape as with JSON payloads.
+ */
+@Injectable()
+export class XmlBodyMiddleware implements NestMiddleware {
+    private readonly readText = text({ type: XML_MEDIA_TYPES, limit: '1mb' });
+
+    use(req: any, res: any, next: (error?: any) => void) {
+        if (!isXmlContentType(req.headers['content-type'])) {
+            return next();
+        }
+
+        this.readText(req, res, (error?: any) => {
+            if (error) {
+                return next(error);
+            }
+
+            try {
+                req.body = parseXml(typeof req.body === 'string' ? req.body : '');
+            } catch (parseError) {
+                return next(new BadRequestException(`Malformed XML request body: ${parseError.message}`));
+            }
+
+            next();
+        });
+    }
+}
@@ -0,0 +1,18 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const XML_ROOT_KEY = 'xmlRoot';
+
+export interface XmlRootOptions {
+    /** Name of the document element */
+    root: string;
+    /** Name of each entry when the handler returns a collection */
+    item?: string;
+}
+
+/**
+ * Declares the element names used when a handler's response is rendered as XML.
+ *
+ * @param root - Name of the document element, e.g. `books`
+ * @param item - Name of each entry for collection responses, e.g. `book`
+ */
+export const XmlRoot = (root: string, item?: string) => SetMetadata(XML_ROOT_KEY, { root, item } as XmlRootOptions);
@@ -0,0 +1,74 @@
+import { CallHandler, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { lastValueFrom, of } from 'rxjs';
+import { XmlInterceptor } from './xml.interceptor';
+
+describe('XmlInterceptor', () => {
+    let interceptor: XmlInterceptor;
+    let reflector: Reflector;
+    let response: { type: jest.Mock; headersSent?: boolean };
+
+    const createContext = (headers: Record<string, string>): ExecutionContext =>
+        ({
+            getType: () => 'http',
+            getHandler: () => undefined,
+            getClass: () => undefined,
+            switchToHttp: () => ({
+                getRequest: () => ({
+                    headers,
+                    accepts: (types: string[]) => (headers.accept?.includes('xml') ? types[1] : types[0]),
+                }),
+                getResponse: () => response,
+            }),
+        }) as any;
+
+    const handler = (data: any): CallHandler => ({ handle: () => of(data) });
+
+    beforeEach(() => {
+        reflector = new Reflector();
+        interceptor = new XmlInterceptor(reflector);
+        response = { type: jest.fn() };
+    });
+
+    it('should pass JSON responses through untouched', async () => {
+        const data = { id: 1 };
+
+        const result = await lastValueFrom(interceptor.intercept(createContext({ accept: 'application/json' }), handler(data)));
+
+        expect(result).toBe(data);
+        expect(response.type).not.toHaveBeenCalled();
+    });
+
+    it('should render XML using the declared root element', async () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue({ root: 'books', item: 'book' });
+
+        const result = await lastValueFrom(
+            interceptor.intercept(createContext({ accept: 'application/xml' }), handler([{ id: 1 }])),
+        );
+
+        expect(response.type).toHaveBeenCalledWith('application/xml');
+        expect(result).toContain('<books><book><id>1</id></book></books>');
+    });
+
+    it('should fall back to a generic root element', async () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(undefined);
+
+        const result = await lastValueFrom(
+            interceptor.intercept(createContext({ 'content-type': 'application/xml' }), handler({ ok: true })),
+        );
+
+        expect(result).toContain('<response><ok>true</ok></response>');
+    });
+
+    it('should leave responses written by the handler alone', async () => {
+        jest.spyOn(reflector, 'getAllAndOverride').mockReturnValue(undefined);
+        response.headersSent = true;
+
+        const result = await lastValueFrom(
+            interceptor.intercept(createContext({ accept: 'application/xml' }), handler(undefined)),
+        );
+
+        expect(result).toBeUndefined();
+        expect(response.type).not.toHaveBeenCalled();
+    });
+});
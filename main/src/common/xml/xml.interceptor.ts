@@ -0,0 +1,46 @@
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { instanceToPlain } from 'class-transformer';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { XML_ROOT_KEY, XmlRootOptions } from './xml-root.decorator';
+import { DEFAULT_XML_ROOT, toXml, wantsXml } from './xml.util';
+
+/**
+ * Renders handler results as XML when the client negotiates it through the
+ * `Accept` or `Content-Type` header. JSON responses pass through untouched.
+ */
+@Injectable()
+export class XmlInterceptor implements NestInterceptor {
+    constructor(private readonly reflector: Reflector) { }
+
+    intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+        if (context.getType() !== 'http') {
+            return next.handle();
+        }
+
+        const http = context.switchToHttp();
+        const request = http.getRequest();
+
+        if (!wantsXml(request)) {
+            return next.handle();
+        }
+
+        const options = this.reflector.getAllAndOverride<XmlRootOptions>(XML_ROOT_KEY, [
+            context.getHandler(),
+            context.getClass(),
+        ]);
+
+        return next.handle().pipe(
+            map((data) => {
+                // Handlers using @Res() have already written their own response
+                if (http.getResponse().headersSent) {
+                    return data;
+                }
+
+                http.getResponse().type('application/xml');
+                return toXml(instanceToPlain(data), options?.root ?? DEFAULT_XML_ROOT, options?.item);
+            }),
+        );
+    }
+}
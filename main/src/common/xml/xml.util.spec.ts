@@ -0,0 +1,95 @@
+import { isXmlContentType, parseXml, toXml, wantsXml } from './xml.util';
+
+describe('xml.util', () => {
+    describe('toXml', () => {
+        it('should wrap collections and name each entry', () => {
+            const result = toXml([{ id: 1, title: 'Wookie Tales' }], 'books', 'book');
+
+            expect(result).toBe(
+                '<?xml version="1.0" encoding="UTF-8"?><books><book><id>1</id><title>Wookie Tales</title></book></books>',
+            );
+        });
+
+        it('should derive item names for nested collections', () => {
+            const result = toXml({ id: 1, books: [{ id: 2 }] }, 'user');
+
+            expect(result).toContain('<user><id>1</id><books><book><id>2</id></book></books></user>');
+        });
+
+        it('should name entries of a paginated envelope', () => {
+            const result = toXml({ data: [{ id: 1 }], meta: { total: 1 } }, 'books', 'book');
+
+            expect(result).toContain('<books><data><book><id>1</id></book></data><meta><total>1</total></meta></books>');
+        });
+
+        it('should escape text content and render nulls as empty elements', () => {
+            const result = toXml({ title: 'Han & <Chewie>', coverImage: null }, 'book');
+
+            expect(result).toContain('<title>Han &amp; &lt;Chewie&gt;</title><coverImage/>');
+        });
+
+        it('should sanitize keys that are not valid element names', () => {
+            const result = toXml({ '1st place': true }, 'book');
+
+            expect(result).toContain('<_1st_place>true</_1st_place>');
+        });
+    });
+
+    describe('parseXml', () => {
+        it('should unwrap the root element', () => {
+            const result = parseXml('<?xml version="1.0"?><book><title>Kashyyyk</title><price>19.99</price></book>');
+
+            expect(result).toEqual({ title: 'Kashyyyk', price: '19.99' });
+        });
+
+        it('should keep values as text', () => {
+            const result = parseXml('<book><title>1984</title><isPublished>true</isPublished></book>');
+
+            expect(result).toEqual({ title: '1984', isPublished: 'true' });
+        });
+
+        it('should parse lists as arrays, also with a single entry', () => {
+            const result = parseXml(
+                '<book><genres><genre>sci-fi</genre></genres><tags><tag>wookiee</tag><tag>space</tag></tags></book>',
+            );
+
+            expect(result).toEqual({ genres: ['sci-fi'], tags: ['wookiee', 'space'] });
+        });
+
+        it('should return an empty object for an empty body', () => {
+            expect(parseXml('')).toEqual({});
+        });
+
+        it('should throw for malformed documents', () => {
+            expect(() => parseXml('<book><title>Broken</book>')).toThrow();
+        });
+    });
+
+    describe('isXmlContentType', () => {
+        it('should recognise xml media types', () => {
+            expect(isXmlContentType('application/xml; charset=utf-8')).toBe(true);
+            expect(isXmlContentType('text/xml')).toBe(true);
+            expect(isXmlContentType('application/atom+xml')).toBe(true);
+            expect(isXmlContentType('application/json')).toBe(false);
+            expect(isXmlContentType(undefined)).toBe(false);
+        });
+    });
+
+    describe('wantsXml', () => {
+        const request = (headers: Record<string, string>, accepted?: string) => ({
+            headers,
+            accepts: jest.fn().mockReturnValue(accepted),
+        });
+
+        it('should honour an explicit Accept header', () => {
+            expect(wantsXml(request({ accept: 'application/xml' }, 'application/xml'))).toBe(true);
+            expect(wantsXml(request({ accept: 'application/json', 'content-type': 'application/xml' }, 'application/json'))).toBe(false);
+        });
+
+        it('should fall back to the Content-Type header', () => {
+            expect(wantsXml(request({ accept: '*/*', 'content-type': 'text/xml' }))).toBe(true);
+            expect(wantsXml(request({ 'content-type': 'application/json' }))).toBe(false);
+            expect(wantsXml(request({}))).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,194 @@
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+
+/**
+ * Media types treated as XML for both request bodies and responses.
+ */
+export const XML_MEDIA_TYPES = ['application/xml', 'text/xml', 'application/*+xml'];
+
+/**
+ * Root element used when a handler does not declare one with `@XmlRoot()`.
+ */
+export const DEFAULT_XML_ROOT = 'response';
+
+/**
+ * Element used for array entries when no item name can be derived.
+ */
+export const DEFAULT_XML_ITEM = 'item';
+
+const parser = new XMLParser({
+    ignoreAttributes: true,
+    ignoreDeclaration: true,
+    // Values stay text, so `<title>1984</title>` is not turned into a number; DTOs convert their typed fields
+    parseTagValue: false,
+    trimValues: true,
+    isArray: (name, jpath) => isListEntry(name, String(jpath)),
+});
+
+/**
+ * Decides whether a request should be answered with XML.
+ *
+ * An explicit `Accept` header wins; otherwise the `Content-Type` of the
+ * request is mirrored, falling back to JSON.
+ *
+ * @param req - The incoming express request
+ * @returns `true` if the response should be rendered as XML
+ */
+export function wantsXml(req: any): boolean {
+    const accept: string | undefined = req.headers?.accept;
+
+    if (accept && !/^\s*\*\/\*\s*$/.test(accept) && typeof req.accepts === 'function') {
+        const preferred = req.accepts(['application/json', 'application/xml', 'text/xml']);
+        if (preferred) {
+            return preferred !== 'application/json';
+        }
+    }
+
+    return isXmlContentType(req.headers?.['content-type']);
+}
+
+/**
+ * Checks whether a `Content-Type` header value denotes an XML payload.
+ *
+ * @param contentType - The raw header value
+ * @returns `true` for `application/xml`, `text/xml` and `+xml` suffixed types
+ */
+export function isXmlContentType(contentType?: string): boolean {
+    if (!contentType) {
+        return false;
+    }
+
+    const mediaType = contentType.split(';')[0].trim().toLowerCase();
+    return mediaType === 'application/xml' || mediaType === 'text/xml' || mediaType.endsWith('+xml');
+}
+
+/**
+ * Parses an XML document into a plain object, unwrapping the root element so
+ * `<book><title>A</title></book>` yields `{ title: 'A' }`. Values are kept as
+ * text and lists rendered like `toXml` does become arrays.
+ *
+ * @param xml - The XML document
+ * @returns The parsed object, or an empty object for an empty document
+ * @throws Error if the document is not well-formed
+ */
+export function parseXml(xml: string): Record<string, any> {
+    if (!xml || !xml.trim()) {
+        return {};
+    }
+
+    const validation = XMLValidator.validate(xml);
+    if (validation !== true) {
+        throw new Error(validation.err.msg);
+    }
+
+    const document = parser.parse(xml);
+    const roots = Object.keys(document);
+
+    if (roots.length !== 1) {
+        throw new Error('XML document must have exactly one root element');
+    }
+
+    const root = unwrapLists(document[roots[0]]);
+    return root && typeof root === 'object' ? root : {};
+}
+
+/**
+ * Mirrors `toXml`: an element named after the singular of its parent, like
+ * `tag` in `<tags><tag>a</tag></tags>`, is an entry of a list, even when the
+ * list has a single entry.
+ */
+function isListEntry(name: string, jpath: string): boolean {
+    const path = jpath.split('.');
+    return path.length > 2 && singularize(path[path.length - 2]) === name;
+}
+
+/**
+ * Replaces list elements by their entries, so `{ tags: { tag: ['a'] } }`
+ * becomes `{ tags: ['a'] }`.
+ */
+function unwrapLists(value: any, name?: string): any {
+    if (!value || typeof value !== 'object') {
+        return value;
+    }
+
+    if (Array.isArray(value)) {
+        return value.map((entry) => unwrapLists(entry));
+    }
+
+    const keys = Object.keys(value);
+    if (name && keys.length === 1 && keys[0] === singularize(name) && Array.isArray(value[keys[0]])) {
+        return unwrapLists(value[keys[0]]);
+    }
+
+    return Object.fromEntries(keys.map((key) => [key, unwrapLists(value[key], key)]));
+}
+
+/**
+ * Serializes a plain value into an XML document.
+ *
+ * Arrays are wrapped in the parent element and each entry gets its own
+ * element, so `toXml([book], 'books', 'book')` renders
+ * `<books><book>...</book></books>`. Nested arrays derive their item name
+ * from the singular form of their key (`books` -> `book`).
+ *
+ * @param value - The value to serialize
+ * @param rootName - Name of the document element
+ * @param itemName - Name of array entries directly under the root, or under
+ * the `data` element of a paginated envelope
+ * @returns A well-formed XML document
+ */
+export function toXml(value: any, rootName: string = DEFAULT_XML_ROOT, itemName?: string): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>${renderElement(rootName, value, itemName)}`;
+}
+
+function renderElement(name: string, value: any, itemName?: string): string {
+    const tag = toElementName(name);
+
+    if (value === null || value === undefined) {
+        return `<${tag}/>`;
+    }
+
+    if (Array.isArray(value)) {
+        const child = toElementName(itemName ?? singularize(tag));
+        return `<${tag}>${value.map((entry) => renderElement(child, entry)).join('')}</${tag}>`;
+    }
+
+    if (value instanceof Date) {
+        return `<${tag}>${escapeXml(value.toISOString())}</${tag}>`;
+    }
+
+    if (typeof value === 'object') {
+        const children = Object.keys(value)
+            .filter((key) => value[key] !== undefined && typeof value[key] !== 'function')
+            .map((key) => renderElement(key, value[key], key === 'data' ? itemName : undefined))
+            .join('');
+        return `<${tag}>${children}</${tag}>`;
+    }
+
+    return `<${tag}>${escapeXml(String(value))}</${tag}>`;
+}
+
+function singularize(name: string): string {
+    if (name.endsWith('ies') && name.length > 3) {
+        return `${name.slice(0, -3)}y`;
+    }
+    if (name.endsWith('s') && !name.endsWith('ss') && name.length > 1) {
+        return name.slice(0, -1);
+    }
+    return DEFAULT_XML_ITEM;
+}
+
+function toElementName(name: string): string {
+    const sanitized = String(name).replace(/[^A-Za-z0-9_.-]/g, '_');
+    return /^[A-Za-z_]/.test(sanitized) ? sanitized : `_${sanitized}`;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+        // eslint-disable-next-line no-control-regex
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
@@ -0,0 +1,16 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { AppConfigService } from './app-config.service';
+import { validateEnvironment } from './environment';
+
+/**
+ * Loads `.env` and the environment, refusing to start when they are invalid,
+ * and provides `AppConfigService` to every module.
+ */
+@Global()
+@Module({
+    imports: [ConfigModule.forRoot({ validate: validateEnvironment, cache: true })],
+    providers: [AppConfigService],
+    exports: [AppConfigService],
+})
+export class AppConfigModule { }
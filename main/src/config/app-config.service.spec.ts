@@ -0,0 +1,28 @@
+import { ConfigService } from '@nestjs/config';
+import { AppConfigService } from './app-config.service';
+import { validateEnvironment } from './environment';
+
+describe('AppConfigService', () => {
+    const configFor = (env: Record<string, string>) =>
+        new AppConfigService(new ConfigService(validateEnvironment(env)));
+
+    it('should group the environment into typed settings', () => {
+        const config = configFor({ DATABASE_PATH: 'books.sqlite', JWT_SECRET: 'jwt-secret', MAIL_TRANSPORT: 'file' });
+
+        expect(config.database).toEqual({ path: 'books.sqlite', migrationsRun: false });
+        expect(config.jwt).toEqual({ secret: 'jwt-secret', expiresIn: '1h' });
+        expect(config.mail).toEqual({ transport: 'file', dir: 'mail', from: 'no-reply@wookie-books.local' });
+    });
+
+    it('should only run migrations at startup in tests', () => {
+        expect(configFor({ NODE_ENV: 'test' }).database.migrationsRun).toBe(true);
+    });
+
+    it('should disable CORS unless origins are configured', () => {
+        expect(configFor({}).cors).toBeNull();
+        expect(configFor({ CORS_ORIGINS: 'https://wookie-books.example' }).cors).toEqual({
+            origins: ['https://wookie-books.example'],
+        });
+        expect(configFor({ CORS_ORIGINS: '*' }).cors).toEqual({ origins: true });
+    });
+});
@@ -0,0 +1,98 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Environment, EnvironmentVariables } from './environment';
+
+export interface DatabaseConfig {
+    /** Path of the SQLite database file */
+    path: string;
+    /** Whether pending migrations are run when the application connects; tests only */
+    migrationsRun: boolean;
+}
+
+export interface JwtConfig {
+    secret: string;
+    expiresIn: string;
+}
+
+export interface CorsConfig {
+    /** Allowed origins, or `true` for any */
+    origins: string[] | true;
+}
+
+export interface MailConfig {
+    transport: 'console' | 'file';
+    /** Directory of the `file` transport */
+    dir: string;
+    from: string;
+}
+
+/**
+ * Typed access to the validated environment. The environment is checked
+ * once at startup by `validateEnvironment`, so every value here is present
+ * and well-formed.
+ */
+@Injectable()
+export class AppConfigService {
+    constructor(private readonly configService: ConfigService<EnvironmentVariables, true>) { }
+
+    get environment(): Environment {
+        return this.configService.get('NODE_ENV', { infer: true });
+    }
+
+    get port(): number {
+        return this.configService.get('PORT', { infer: true });
+    }
+
+    get database(): DatabaseConfig {
+        return {
+            path: this.configService.get('DATABASE_PATH', { infer: true }),
+            migrationsRun: this.environment === Environment.Test,
+        };
+    }
+
+    get jwt(): JwtConfig {
+        return {
+            secret: this.configService.get('JWT_SECRET', { infer: true }),
+            expiresIn: this.configService.get('JWT_EXPIRES_IN', { infer: true }),
+        };
+    }
+
+    /** `null` when CORS is disabled */
+    get cors(): CorsConfig | null {
+        const origins = this.configService.get('CORS_ORIGINS', { infer: true });
+
+        if (!origins?.length) {
+            return null;
+        }
+
+        return { origins: origins.includes('*') ? true : origins };
+    }
+
+    get bcryptCost(): number {
+        return this.configService.get('BCRYPT_COST', { infer: true });
+    }
+
+    get storageDir(): string {
+        return this.configService.get('STORAGE_DIR', { infer: true });
+    }
+
+    get mail(): MailConfig {
+        return {
+            transport: this.configService.get('MAIL_TRANSPORT', { infer: true }),
+            dir: this.configService.get('MAIL_DIR', { infer: true }),
+            from: this.configService.get('MAIL_FROM', { infer: true }),
+        };
+    }
+
+    get paymentWebhookSecret(): string {
+        return this.configService.get('PAYMENT_WEBHOOK_SECRET', { infer: true });
+    }
+
+    get downloadLinkSecret(): string {
+        return this.configService.get('DOWNLOAD_LINK_SECRET', { infer: true });
+    }
+
+    get donationPercent(): number {
+        return this.configService.get('DONATION_PERCENT', { infer: true });
+    }
+}
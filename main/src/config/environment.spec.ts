@@ -0,0 +1,53 @@
+import { DEVELOPMENT_SECRETS, Environment, InvalidEnvironmentError, validateEnvironment } from './environment';
+
+describe('validateEnvironment', () => {
+    const productionSecrets = {
+        JWT_SECRET: 'jwt-secret',
+        PAYMENT_WEBHOOK_SECRET: 'webhook-secret',
+        DOWNLOAD_LINK_SECRET: 'link-secret',
+    };
+
+    it('should apply the defaults and the development secrets to an empty environment', () => {
+        expect(validateEnvironment({})).toMatchObject({
+            NODE_ENV: Environment.Development,
+            PORT: 3000,
+            DATABASE_PATH: 'database.sqlite',
+            JWT_EXPIRES_IN: '1h',
+            BCRYPT_COST: 10,
+            MAIL_TRANSPORT: 'console',
+            DONATION_PERCENT: 50,
+            ...DEVELOPMENT_SECRETS,
+        });
+    });
+
+    it('should convert numbers and lists and treat empty variables as unset', () => {
+        const env = validateEnvironment({
+            PORT: '8080',
+            BCRYPT_COST: '',
+            DONATION_PERCENT: '12.5',
+            CORS_ORIGINS: 'https://wookie-books.example, http://localhost:4200',
+        });
+
+        expect(env.PORT).toBe(8080);
+        expect(env.BCRYPT_COST).toBe(10);
+        expect(env.DONATION_PERCENT).toBe(12.5);
+        expect(env.CORS_ORIGINS).toEqual(['https://wookie-books.example', 'http://localhost:4200']);
+    });
+
+    it('should reject invalid values, naming every offending variable', () => {
+        const validate = () =>
+            validateEnvironment({ PORT: 'abc', BCRYPT_COST: '2', DONATION_PERCENT: '101', CORS_ORIGINS: 'kashyyyk' });
+
+        expect(validate).toThrow(InvalidEnvironmentError);
+        expect(validate).toThrow(/PORT.*BCRYPT_COST.*DONATION_PERCENT/);
+        expect(validate).toThrow(/CORS_ORIGINS/);
+    });
+
+    it('should require the secrets in production', () => {
+        expect(() => validateEnvironment({ NODE_ENV: 'production', JWT_SECRET: 'jwt-secret' })).toThrow(
+            'Invalid environment: PAYMENT_WEBHOOK_SECRET must be set in production; ' +
+            'DOWNLOAD_LINK_SECRET must be set in production',
+        );
+        expect(validateEnvironment({ NODE_ENV: 'production', ...productionSecrets })).toMatchObject(productionSecrets);
+    });
+});
@@ -0,0 +1,151 @@
+import 'reflect-metadata';
+import { Transform, plainToInstance } from 'class-transformer';
+import {
+    IsEnum,
+    IsIn,
+    IsInt,
+    IsNotEmpty,
+    IsNumber,
+    IsOptional,
+    IsString,
+    Matches,
+    Max,
+    Min,
+    ValidateIf,
+    ValidationError,
+    validateSync,
+} from 'class-validator';
+
+export enum Environment {
+    Development = 'development',
+    Production = 'production',
+    Test = 'test',
+}
+
+/**
+ * Stand-ins for the secrets outside production, where they must be set.
+ */
+export const DEVELOPMENT_SECRETS = {
+    JWT_SECRET: 'secret',
+    PAYMENT_WEBHOOK_SECRET: 'fake-webhook-secret',
+    DOWNLOAD_LINK_SECRET: 'download-link-secret',
+} as const;
+
+/** Requires a secret in production; elsewhere `DEVELOPMENT_SECRETS` fills in for it */
+const RequiredInProduction = () => ValidateIf((env: EnvironmentVariables) => env.NODE_ENV === Environment.Production);
+
+/**
+ * The environment variables the application reads, with their defaults.
+ * Read them through `AppConfigService`.
+ */
+export class EnvironmentVariables {
+    @IsEnum(Environment)
+    NODE_ENV: Environment = Environment.Development;
+
+    @IsInt()
+    @Min(0)
+    @Max(65535)
+    PORT: number = 3000;
+
+    /** Path of the SQLite database file */
+    @IsString()
+    @IsNotEmpty()
+    DATABASE_PATH: string = 'database.sqlite';
+
+    @RequiredInProduction()
+    @IsNotEmpty({ message: '$property must be set in production' })
+    JWT_SECRET: string;
+
+    /** Lifetime of access tokens, e.g. `1h` or `15m` */
+    @Matches(/^\d+[smhd]?$/, { message: 'JWT_EXPIRES_IN must be a number of seconds or a duration like 1h' })
+    JWT_EXPIRES_IN: string = '1h';
+
+    /** Comma-separated origins allowed to call the API from a browser, or `*` for any; unset disables CORS */
+    @IsOptional()
+    @Transform(({ value }) => (typeof value === 'string' ? value.split(',').map((origin) => origin.trim()) : value))
+    @Matches(/^(\*|https?:\/\/[^/\s]+)$/, {
+        each: true,
+        message: 'CORS_ORIGINS must list origins like https://example.com, or be *',
+    })
+    CORS_ORIGINS?: string[];
+
+    /** Cost factor of password hashes; every step doubles the hashing time */
+    @IsInt()
+    @Min(4)
+    @Max(31)
+    BCRYPT_COST: number = 10;
+
+    @IsString()
+    @IsNotEmpty()
+    STORAGE_DIR: string = 'uploads';
+
+    @IsIn(['console', 'file'])
+    MAIL_TRANSPORT: 'console' | 'file' = 'console';
+
+    @IsString()
+    @IsNotEmpty()
+    MAIL_DIR: string = 'mail';
+
+    @IsString()
+    @IsNotEmpty()
+    MAIL_FROM: string = 'no-reply@wookie-books.local';
+
+    @RequiredInProduction()
+    @IsNotEmpty({ message: '$property must be set in production' })
+    PAYMENT_WEBHOOK_SECRET: string;
+
+    @RequiredInProduction()
+    @IsNotEmpty({ message: '$property must be set in production' })
+    DOWNLOAD_LINK_SECRET: string;
+
+    /** Share of every sale donated to the Ewok settlement */
+    @IsNumber()
+    @Min(0)
+    @Max(100)
+    DONATION_PERCENT: number = 50;
+}
+
+/**
+ * Raised at startup when environment variables are invalid or required ones are missing.
+ */
+export class InvalidEnvironmentError extends Error {
+    constructor(errors: ValidationError[]) {
+        super(
+            `Invalid environment: ${errors
+                .flatMap((error) => Object.values(error.constraints ?? {}))
+                .join('; ')}`,
+        );
+        this.name = InvalidEnvironmentError.name;
+    }
+}
+
+/**
+ * Converts and validates the environment, filling in defaults and, outside
+ * production, the development secrets. Used as the `validate` function of
+ * `ConfigModule`.
+ *
+ * @param config - The raw environment, e.g. `process.env`
+ * @returns The typed environment
+ * @throws InvalidEnvironmentError if a variable is invalid or a required one is missing
+ */
+export function validateEnvironment(config: Record<string, unknown>): EnvironmentVariables {
+    // Empty variables count as unset, so that `PORT=` falls back to the default
+    const present = Object.fromEntries(Object.entries(config).filter(([, value]) => value !== ''));
+    const env = plainToInstance(EnvironmentVariables, present, {
+        enableImplicitConversion: true,
+        exposeDefaultValues: true,
+    });
+
+    const errors = validateSync(env);
+    if (errors.length > 0) {
+        throw new InvalidEnvironmentError(errors);
+    }
+
+    if (env.NODE_ENV !== Environment.Production) {
+        for (const [key, secret] of Object.entries(DEVELOPMENT_SECRETS)) {
+            env[key] ??= secret;
+        }
+    }
+
+    return env;
+}
@@ -0,0 +1,101 @@
+import { DataSource } from 'typeorm';
+import { createDataSourceOptions } from './data-source-options';
+import { CreateUsersAndBooks1735689600000 } from './migrations/1735689600000-CreateUsersAndBooks';
+
+describe('createDataSourceOptions', () => {
+    let dataSource: DataSource;
+
+    beforeEach(async () => {
+        const options = createDataSourceOptions({ path: ':memory:', migrationsRun: false });
+        dataSource = await new DataSource(options).initialize();
+    });
+
+    afterEach(async () => {
+        await dataSource.destroy();
+    });
+
+    it('should have migrations that create the schema of the entities', async () => {
+        await dataSource.runMigrations();
+
+        const pending = await dataSource.driver.createSchemaBuilder().log();
+
+        expect(pending.upQueries.map((query) => query.query)).toEqual([]);
+    });
+
+    it('should upgrade users and books of databases created before migrations', async () => {
+        const queryRunner = dataSource.createQueryRunner();
+        await new CreateUsersAndBooks1735689600000().up(queryRunner);
+        await queryRunner.release();
+        await dataSource.query(
+            `INSERT INTO "user" ("id", "username", "password", "authorPseudonym") ` +
+            `VALUES (1, 'chewie', 'hash', 'Chewbacca')`,
+        );
+        await dataSource.query(
+            `INSERT INTO "book" ("id", "title", "description", "coverImage", "price", "isPublished", "authorId") ` +
+            `VALUES (1, 'Life Debt', 'A saga', 'cover.png', 19.99, 1, 1), (2, 'Draft', 'Unfinished', '', 5, 0, 1)`,
+        );
+
+        await dataSource.runMigrations();
+
+        expect(await dataSource.query(`SELECT "id", "username", "role" FROM "user"`)).toEqual([
+            { id: 1, username: 'chewie', role: 'author' },
+        ]);
+        const books = await dataSource.query(`SELECT "id", "priceMinor", "currency", "status", "authorId" FROM "book"`);
+        expect(books).toEqual([
+            { id: 1, priceMinor: 1999, currency: 'EUR', status: 'published', authorId: 1 },
+            { id: 2, priceMinor: 500, currency: 'EUR', status: 'unpublished', authorId: 1 },
+        ]);
+    });
+
+    it('should index books for search and only let anonymization change the donation ledger', async () => {
+        await dataSource.runMigrations();
+        await dataSource.query(`INSERT INTO "user" ("id", "username", "password", "authorPseudonym") VALUES (1, 'chewie', 'hash', 'Chewbacca')`);
+        await dataSource.query(`INSERT INTO "book" ("id", "title", "description", "authorId") VALUES (1, 'Life Debt', 'A saga', 1)`);
+        await dataSource.query(`UPDATE "user" SET "authorPseudonym" = 'Chewie' WHERE "id" = 1`);
+
+        expect(await dataSource.query(`SELECT "rowid" FROM "book_fts" WHERE "book_fts" MATCH 'chewie'`)).toEqual([{ rowid: 1 }]);
+
+        await dataSource.query(
+            `INSERT INTO "ledger_entry" ("orderId", "orderItemId", "bookId", "title", "authorId", "authorPseudonym", "quantity", "currency", "grossAmount", "authorShare", "donationShare", "donationPercent") ` +
+            `VALUES (1, 1, 1, 'Life Debt', 1, 'Chewie', 1, 'EUR', 1000, 500, 500, 50)`,
+        );
+
+        await expect(dataSource.query(`UPDATE "ledger_entry" SET "grossAmount" = 0`)).rejects.toThrow('Ledger entries cannot be changed');
+        await expect(dataSource.query(`DELETE FROM "ledger_entry"`)).rejects.toThrow('Ledger entries cannot be changed');
+        await expect(dataSource.query(`UPDATE "ledger_entry" SET "authorPseudonym" = 'Han'`)).rejects.toThrow('Ledger entries cannot be changed');
+        await expect(
+            dataSource.query(`UPDATE "ledger_entry" SET "authorPseudonym" = 'Deleted author', "title" = 'Redacted'`),
+        ).rejects.toThrow('Ledger entries cannot be changed');
+
+        await dataSource.query(`UPDATE "ledger_entry" SET "authorPseudonym" = 'Deleted author'`);
+        expect(await dataSource.query(`SELECT "title", "authorPseudonym" FROM "ledger_entry"`)).toEqual([
+            { title: 'Life Debt', authorPseudonym: 'Deleted author' },
+        ]);
+    });
+
+    it('should run the migrations when connecting, as tests do', async () => {
+        const testDataSource = await new DataSource(createDataSourceOptions({ path: ':memory:', migrationsRun: true })).initialize();
+
+        try {
+            expect(await testDataSource.showMigrations()).toBe(false);
+            const objects = await testDataSource.query(
+                `SELECT "name" FROM "sqlite_master" WHERE "name" IN ('book_fts', 'ledger_entry_no_delete') ORDER BY "name"`,
+            );
+            expect(objects).toEqual([{ name: 'book_fts' }, { name: 'ledger_entry_no_delete' }]);
+        } finally {
+            await testDataSource.destroy();
+        }
+    });
+
+    it('should revert every migration', async () => {
+        await dataSource.runMigrations();
+
+        for (let i = 0; i < dataSource.migrations.length; i++) {
+            await dataSource.undoLastMigration();
+        }
+
+        expect(await dataSource.showMigrations()).toBe(true);
+        const tables = await dataSource.query(`SELECT "name" FROM "sqlite_master" WHERE "name" IN ('user', 'book')`);
+        expect(tables).toEqual([]);
+    });
+});
@@ -0,0 +1,21 @@
+import { extname, join } from 'path';
+import { SqliteConnectionOptions } from 'typeorm/driver/sqlite/SqliteConnectionOptions';
+import { DatabaseConfig } from '../config';
+
+/**
+ * Connection of the application and of the migration CLI (`npm run migration:*`).
+ * The schema is owned by the migrations in `./migrations`; only tests run
+ * them when connecting.
+ *
+ * @param database - The configured database
+ */
+export function createDataSourceOptions(database: DatabaseConfig): SqliteConnectionOptions {
+    return {
+        type: 'sqlite',
+        database: database.path,
+        entities: [join(__dirname, '..', '**', '*.entity{.ts,.js}')],
+        // Only the running variant; the build also emits `.d.ts` files next to the migrations
+        migrations: [join(__dirname, 'migrations', `*${extname(__filename)}`)],
+        migrationsRun: database.migrationsRun,
+    };
+}
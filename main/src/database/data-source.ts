@@ -0,0 +1,12 @@
+import 'dotenv/config';
+import { DataSource } from 'typeorm';
+import { validateEnvironment } from '../config';
+import { createDataSourceOptions } from './data-source-options';
+
+const { DATABASE_PATH } = validateEnvironment(process.env);
+
+/**
+ * Data source of the migration CLI, which reads `.env` and the environment
+ * like the application does. It only runs migrations when asked to.
+ */
+export default new DataSource(createDataSourceOptions({ path: DATABASE_PATH, migrationsRun: false }));
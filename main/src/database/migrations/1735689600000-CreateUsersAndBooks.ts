@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * The original `user` and `book` tables. Databases created before migrations
+ * were introduced already have them and only get this migration recorded.
+ */
+export class CreateUsersAndBooks1735689600000 implements MigrationInterface {
+    name = 'CreateUsersAndBooks1735689600000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `CREATE TABLE IF NOT EXISTS "user" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "username" varchar NOT NULL, "password" varchar NOT NULL, "authorPseudonym" varchar NOT NULL, "booksId" integer, CONSTRAINT "UQ_78a916df40e02a9deb1c4b75edb" UNIQUE ("username"), CONSTRAINT "FK_7e77582d0c41287e3ade6a5ed96" FOREIGN KEY ("booksId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`,
+        );
+        await queryRunner.query(
+            `CREATE TABLE IF NOT EXISTS "book" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "title" varchar NOT NULL, "description" varchar NOT NULL, "coverImage" varchar NOT NULL, "price" decimal NOT NULL, "isPublished" boolean NOT NULL DEFAULT (1), "authorId" integer, CONSTRAINT "FK_66a4f0f47943a0d99c16ecf90b2" FOREIGN KEY ("authorId") REFERENCES "user" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`,
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE "book"`);
+        await queryRunner.query(`DROP TABLE "user"`);
+    }
+}
@@ -0,0 +1,65 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Brings the original `user` and `book` tables to their current shape:
+ * accounts get roles, suspension, lockout and deletion columns, and books
+ * get integer prices with a currency, a lifecycle status and uploaded covers.
+ *
+ * Prices are converted to cents of EUR and `isPublished` becomes the
+ * `published` or `unpublished` status. Cover URLs cannot become uploaded
+ * assets and are dropped, as is the unused `user.booksId` column.
+ */
+export class UpgradeUsersAndBooks1735689700000 implements MigrationInterface {
+    name = 'UpgradeUsersAndBooks1735689700000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `CREATE TABLE "asset" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "storageKey" varchar NOT NULL, "contentType" varchar NOT NULL, "size" integer NOT NULL, "checksum" varchar NOT NULL, "width" integer, "height" integer, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_efc5303ff9a855ac9d0163fcc00" UNIQUE ("storageKey"))`,
+        );
+
+        await queryRunner.query(
+            `CREATE TABLE "temporary_user" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "username" varchar NOT NULL, "password" varchar NOT NULL, "authorPseudonym" varchar NOT NULL, "email" varchar, "role" varchar NOT NULL DEFAULT ('author'), "suspendedAt" datetime, "suspensionReason" varchar, "passwordChangedAt" datetime, "failedLoginAttempts" integer NOT NULL DEFAULT (0), "lockedUntil" datetime, "deletedAt" datetime, "anonymizedAt" datetime, CONSTRAINT "UQ_78a916df40e02a9deb1c4b75edb" UNIQUE ("username"))`,
+        );
+        await queryRunner.query(
+            `INSERT INTO "temporary_user"("id", "username", "password", "authorPseudonym") SELECT "id", "username", "password", "authorPseudonym" FROM "user"`,
+        );
+        await queryRunner.query(`DROP TABLE "user"`);
+        await queryRunner.query(`ALTER TABLE "temporary_user" RENAME TO "user"`);
+
+        await queryRunner.query(
+            `CREATE TABLE "temporary_book" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "title" varchar NOT NULL, "description" varchar NOT NULL, "coverId" integer, "priceMinor" integer NOT NULL DEFAULT (0), "currency" varchar(3) NOT NULL DEFAULT ('EUR'), "status" varchar NOT NULL DEFAULT ('published'), "publishedAt" datetime, "unpublishedAt" datetime, "archivedAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "reviewCount" integer NOT NULL DEFAULT (0), "ratingSum" integer NOT NULL DEFAULT (0), "authorId" integer, CONSTRAINT "FK_ea921939b25c4a315e461fc886e" FOREIGN KEY ("coverId") REFERENCES "asset" ("id") ON DELETE SET NULL ON UPDATE NO ACTION, CONSTRAINT "FK_66a4f0f47943a0d99c16ecf90b2" FOREIGN KEY ("authorId") REFERENCES "user" ("id") ON DELETE RESTRICT ON UPDATE NO ACTION)`,
+        );
+        await queryRunner.query(
+            `INSERT INTO "temporary_book"("id", "title", "description", "priceMinor", "currency", "status", "authorId") SELECT "id", "title", "description", CAST(ROUND("price" * 100) AS integer), 'EUR', CASE WHEN "isPublished" THEN 'published' ELSE 'unpublished' END, "authorId" FROM "book"`,
+        );
+        await queryRunner.query(`DROP TABLE "book"`);
+        await queryRunner.query(`ALTER TABLE "temporary_book" RENAME TO "book"`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `CREATE TABLE "temporary_book" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "title" varchar NOT NULL, "description" varchar NOT NULL, "coverImage" varchar NOT NULL, "price" decimal NOT NULL, "isPublished" boolean NOT NULL DEFAULT (1), "authorId" integer, CONSTRAINT "FK_66a4f0f47943a0d99c16ecf90b2" FOREIGN KEY ("authorId") REFERENCES "user" ("id") ON DELETE NO ACTION ON UPDATE NO ACTION)`,
+        );
+        await queryRunner.query(
+            `INSERT INTO "temporary_book"("id", "title", "description", "coverImage", "price", "isPublished", "authorId") SELECT "id", "title", "description", '', "priceMinor" / 100.0, "status" = 'published', "authorId" FROM "book"`,
+        );
+        await queryRunner.query(`DROP TABLE "book"`);
+        await queryRunner.query(`ALTER TABLE "temporary_book" RENAME TO "book"`);
+
+        // Altered in place: reverts run with foreign keys enforced, and dropping the table would orphan its books
+        await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "email"`);
+        await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "role"`);
+        await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "suspendedAt"`);
+        await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "suspensionReason"`);
+        await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "passwordChangedAt"`);
+        await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "failedLoginAttempts"`);
+        await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "lockedUntil"`);
+        await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "deletedAt"`);
+        await queryRunner.query(`ALTER TABLE "user" DROP COLUMN "anonymizedAt"`);
+        await queryRunner.query(
+            `ALTER TABLE "user" ADD COLUMN "booksId" integer CONSTRAINT "FK_7e77582d0c41287e3ade6a5ed96" REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+        );
+
+        await queryRunner.query(`DROP TABLE "asset"`);
+    }
+}
@@ -0,0 +1,132 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Tables of the features built on top of users and books: genres and tags,
+ * reviews, carts, orders and payments, the donation ledger, publishing bans,
+ * manuscripts and their downloads, and refresh and password reset tokens.
+ */
+export class CreateFeatureTables1735689800000 implements MigrationInterface {
+    name = 'CreateFeatureTables1735689800000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `CREATE TABLE "genre" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "slug" varchar NOT NULL, "name" varchar NOT NULL)`,
+        );
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_8fc42c0cf741b5006b5ffd12f2" ON "genre" ("slug") `);
+        await queryRunner.query(
+            `CREATE TABLE "tag" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar NOT NULL)`,
+        );
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_6a9775008add570dc3e5a0bab7" ON "tag" ("name") `);
+        await queryRunner.query(
+            `CREATE TABLE "ledger_entry" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "orderId" integer NOT NULL, "orderItemId" integer NOT NULL, "bookId" integer, "title" varchar NOT NULL, "authorId" integer, "authorPseudonym" varchar, "quantity" integer NOT NULL, "currency" varchar NOT NULL, "grossAmount" integer NOT NULL, "authorShare" integer NOT NULL, "donationShare" integer NOT NULL, "donationPercent" integer NOT NULL, "recordedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "UQ_4438f8bc30a72cf24c99f9ba581" UNIQUE ("orderItemId"))`,
+        );
+        await queryRunner.query(`CREATE INDEX "IDX_648635a12ec8f4f524c203f0ab" ON "ledger_entry" ("orderId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_88ef04704f19d55b1210176193" ON "ledger_entry" ("authorId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_0af7924f7052c0936be00fe4f4" ON "ledger_entry" ("recordedAt") `);
+        await queryRunner.query(
+            `CREATE TABLE "review" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "bookId" integer NOT NULL, "reviewerId" integer NOT NULL, "rating" integer NOT NULL, "text" text NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_ae1ec2fd91f77b5df325d1c7b4a" FOREIGN KEY ("bookId") REFERENCES "book" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_34413365b39e3bf5bea866569b4" FOREIGN KEY ("reviewerId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`,
+        );
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_c1e577635c49808a34eb2d0bdd" ON "review" ("bookId", "reviewerId") `);
+        await queryRunner.query(
+            `CREATE TABLE "banned_publisher" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "name" varchar NOT NULL, "normalizedName" varchar NOT NULL, "reason" varchar, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "liftedAt" datetime, "bannedById" integer, CONSTRAINT "FK_d71c7e00860a3b2730fba30f306" FOREIGN KEY ("bannedById") REFERENCES "user" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`,
+        );
+        await queryRunner.query(`CREATE INDEX "IDX_7478560a56cb1f8973e0ed2ffb" ON "banned_publisher" ("normalizedName") `);
+        await queryRunner.query(
+            `CREATE TABLE "blocked_publish_attempt" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer, "username" varchar NOT NULL, "authorPseudonym" varchar, "matchedOn" varchar NOT NULL, "action" varchar NOT NULL, "bookId" integer, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "banId" integer, CONSTRAINT "FK_35a7c523a0ed6d055e54b884a82" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE SET NULL ON UPDATE NO ACTION, CONSTRAINT "FK_7aa137529a901082026d6fdbb48" FOREIGN KEY ("banId") REFERENCES "banned_publisher" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`,
+        );
+        await queryRunner.query(
+            `CREATE TABLE "order_item" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "orderId" integer NOT NULL, "bookId" integer, "title" varchar NOT NULL, "unitPriceMinor" integer NOT NULL, "currency" varchar(3) NOT NULL, "quantity" integer NOT NULL, CONSTRAINT "FK_646bf9ece6f45dbe41c203e06e0" FOREIGN KEY ("orderId") REFERENCES "order" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_1d766710d77d866319a1bc2f76b" FOREIGN KEY ("bookId") REFERENCES "book" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`,
+        );
+        await queryRunner.query(
+            `CREATE TABLE "order" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "buyerId" integer, "status" varchar NOT NULL DEFAULT ('pending'), "totalMinor" integer NOT NULL, "currency" varchar(3) NOT NULL, "paidAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_20981b2b68bf03393c44dd1b9d7" FOREIGN KEY ("buyerId") REFERENCES "user" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`,
+        );
+        await queryRunner.query(
+            `CREATE TABLE "payment_intent" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "orderId" integer NOT NULL, "userId" integer, "amountMinor" integer NOT NULL, "currency" varchar(3) NOT NULL, "status" varchar NOT NULL DEFAULT ('processing'), "declineCode" varchar, "provider" varchar NOT NULL, "providerReference" varchar, "cardLast4" varchar(4) NOT NULL, "idempotencyKey" varchar NOT NULL, "requestHash" varchar NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "updatedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_5e39a9c1b5cd9dc5c4e21fcd6cb" FOREIGN KEY ("orderId") REFERENCES "order" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_02ba72ed3501be550ca0f703764" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`,
+        );
+        await queryRunner.query(
+            `CREATE UNIQUE INDEX "IDX_e2e6d1288c8ef7b3df3b90e3de" ON "payment_intent" ("providerReference") `,
+        );
+        await queryRunner.query(
+            `CREATE UNIQUE INDEX "IDX_029f936cfdd776d659ade671d1" ON "payment_intent" ("userId", "idempotencyKey") `,
+        );
+        await queryRunner.query(
+            `CREATE TABLE "cart_item" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "cartId" integer NOT NULL, "bookId" integer NOT NULL, "quantity" integer NOT NULL DEFAULT (1), "addedAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_29e590514f9941296f3a2440d39" FOREIGN KEY ("cartId") REFERENCES "cart" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_228cd21c0af322f67cfc0e8013d" FOREIGN KEY ("bookId") REFERENCES "book" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`,
+        );
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_1a79f97aeb6833eae69adc5815" ON "cart_item" ("cartId", "bookId") `);
+        await queryRunner.query(
+            `CREATE TABLE "cart" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "userId" integer NOT NULL, CONSTRAINT "UQ_756f53ab9466eb52a52619ee019" UNIQUE ("userId"), CONSTRAINT "REL_756f53ab9466eb52a52619ee01" UNIQUE ("userId"), CONSTRAINT "FK_756f53ab9466eb52a52619ee019" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`,
+        );
+        await queryRunner.query(
+            `CREATE TABLE "manuscript" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "bookId" integer NOT NULL, "version" integer NOT NULL, "format" varchar NOT NULL, "assetId" integer NOT NULL, "size" integer NOT NULL, "checksum" varchar NOT NULL, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_57dea766e76a09e5103952f8a6d" FOREIGN KEY ("bookId") REFERENCES "book" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_e96f6b42c81deb452209ac3b1db" FOREIGN KEY ("assetId") REFERENCES "asset" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`,
+        );
+        await queryRunner.query(
+            `CREATE UNIQUE INDEX "IDX_e956929e6b469de65349fb07fe" ON "manuscript" ("bookId", "version") `,
+        );
+        await queryRunner.query(
+            `CREATE TABLE "manuscript_download" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "manuscriptId" integer NOT NULL, "bookId" integer NOT NULL, "version" integer NOT NULL, "userId" integer, "orderId" integer, "ip" varchar, "userAgent" varchar, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), CONSTRAINT "FK_d74ea0b369fb8674d338c38eb5d" FOREIGN KEY ("manuscriptId") REFERENCES "manuscript" ("id") ON DELETE CASCADE ON UPDATE NO ACTION, CONSTRAINT "FK_215ef559d4b5564f55a604139cb" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE SET NULL ON UPDATE NO ACTION)`,
+        );
+        await queryRunner.query(
+            `CREATE INDEX "IDX_128f980979aabee6beee6e6fae" ON "manuscript_download" ("bookId", "createdAt") `,
+        );
+        await queryRunner.query(
+            `CREATE TABLE "refresh_token" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "tokenHash" varchar NOT NULL, "familyId" varchar NOT NULL, "expiresAt" datetime NOT NULL, "usedAt" datetime, "revokedAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "userId" integer, CONSTRAINT "FK_8e913e288156c133999341156ad" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`,
+        );
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_204f27bcee2b705b8230beaf41" ON "refresh_token" ("tokenHash") `);
+        await queryRunner.query(`CREATE INDEX "IDX_b803086815f2d539fe7a0349d1" ON "refresh_token" ("familyId") `);
+        await queryRunner.query(
+            `CREATE TABLE "password_reset_token" ("id" integer PRIMARY KEY AUTOINCREMENT NOT NULL, "tokenHash" varchar NOT NULL, "expiresAt" datetime NOT NULL, "usedAt" datetime, "createdAt" datetime NOT NULL DEFAULT (datetime('now')), "userId" integer, CONSTRAINT "FK_a4e53583f7a8ab7d01cded46a41" FOREIGN KEY ("userId") REFERENCES "user" ("id") ON DELETE CASCADE ON UPDATE NO ACTION)`,
+        );
+        await queryRunner.query(
+            `CREATE UNIQUE INDEX "IDX_324e592c57094c9dcfa00ddf91" ON "password_reset_token" ("tokenHash") `,
+        );
+        await queryRunner.query(
+            `CREATE TABLE "book_genres" ("bookId" integer NOT NULL, "genreId" integer NOT NULL, CONSTRAINT "FK_3d7277e26c03e07fe1ad1dd315f" FOREIGN KEY ("bookId") REFERENCES "book" ("id") ON DELETE CASCADE ON UPDATE CASCADE, CONSTRAINT "FK_346e0792ef07fd64c9faf856a56" FOREIGN KEY ("genreId") REFERENCES "genre" ("id") ON DELETE CASCADE ON UPDATE CASCADE, PRIMARY KEY ("bookId", "genreId"))`,
+        );
+        await queryRunner.query(`CREATE INDEX "IDX_3d7277e26c03e07fe1ad1dd315" ON "book_genres" ("bookId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_346e0792ef07fd64c9faf856a5" ON "book_genres" ("genreId") `);
+        await queryRunner.query(
+            `CREATE TABLE "book_tags" ("bookId" integer NOT NULL, "tagId" integer NOT NULL, CONSTRAINT "FK_fb0dcd0aa910991f5b6e12545b8" FOREIGN KEY ("bookId") REFERENCES "book" ("id") ON DELETE CASCADE ON UPDATE CASCADE, CONSTRAINT "FK_8ac2abe3c4afa41f2968ddd4271" FOREIGN KEY ("tagId") REFERENCES "tag" ("id") ON DELETE CASCADE ON UPDATE CASCADE, PRIMARY KEY ("bookId", "tagId"))`,
+        );
+        await queryRunner.query(`CREATE INDEX "IDX_fb0dcd0aa910991f5b6e12545b" ON "book_tags" ("bookId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_8ac2abe3c4afa41f2968ddd427" ON "book_tags" ("tagId") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_8ac2abe3c4afa41f2968ddd427"`);
+        await queryRunner.query(`DROP INDEX "IDX_fb0dcd0aa910991f5b6e12545b"`);
+        await queryRunner.query(`DROP TABLE "book_tags"`);
+        await queryRunner.query(`DROP INDEX "IDX_346e0792ef07fd64c9faf856a5"`);
+        await queryRunner.query(`DROP INDEX "IDX_3d7277e26c03e07fe1ad1dd315"`);
+        await queryRunner.query(`DROP TABLE "book_genres"`);
+        await queryRunner.query(`DROP INDEX "IDX_324e592c57094c9dcfa00ddf91"`);
+        await queryRunner.query(`DROP TABLE "password_reset_token"`);
+        await queryRunner.query(`DROP INDEX "IDX_b803086815f2d539fe7a0349d1"`);
+        await queryRunner.query(`DROP INDEX "IDX_204f27bcee2b705b8230beaf41"`);
+        await queryRunner.query(`DROP TABLE "refresh_token"`);
+        await queryRunner.query(`DROP INDEX "IDX_128f980979aabee6beee6e6fae"`);
+        await queryRunner.query(`DROP TABLE "manuscript_download"`);
+        await queryRunner.query(`DROP INDEX "IDX_e956929e6b469de65349fb07fe"`);
+        await queryRunner.query(`DROP TABLE "manuscript"`);
+        await queryRunner.query(`DROP TABLE "cart"`);
+        await queryRunner.query(`DROP INDEX "IDX_1a79f97aeb6833eae69adc5815"`);
+        await queryRunner.query(`DROP TABLE "cart_item"`);
+        await queryRunner.query(`DROP INDEX "IDX_029f936cfdd776d659ade671d1"`);
+        await queryRunner.query(`DROP INDEX "IDX_e2e6d1288c8ef7b3df3b90e3de"`);
+        await queryRunner.query(`DROP TABLE "payment_intent"`);
+        await queryRunner.query(`DROP TABLE "order"`);
+        await queryRunner.query(`DROP TABLE "order_item"`);
+        await queryRunner.query(`DROP TABLE "blocked_publish_attempt"`);
+        await queryRunner.query(`DROP INDEX "IDX_7478560a56cb1f8973e0ed2ffb"`);
+        await queryRunner.query(`DROP TABLE "banned_publisher"`);
+        await queryRunner.query(`DROP INDEX "IDX_c1e577635c49808a34eb2d0bdd"`);
+        await queryRunner.query(`DROP TABLE "review"`);
+        await queryRunner.query(`DROP INDEX "IDX_0af7924f7052c0936be00fe4f4"`);
+        await queryRunner.query(`DROP INDEX "IDX_88ef04704f19d55b1210176193"`);
+        await queryRunner.query(`DROP INDEX "IDX_648635a12ec8f4f524c203f0ab"`);
+        await queryRunner.query(`DROP TABLE "ledger_entry"`);
+        await queryRunner.query(`DROP INDEX "IDX_6a9775008add570dc3e5a0bab7"`);
+        await queryRunner.query(`DROP TABLE "tag"`);
+        await queryRunner.query(`DROP INDEX "IDX_8fc42c0cf741b5006b5ffd12f2"`);
+        await queryRunner.query(`DROP TABLE "genre"`);
+    }
+}
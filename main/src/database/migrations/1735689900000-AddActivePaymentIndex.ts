@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+/**
+ * Allows a single processing or succeeded payment per order, so concurrent
+ * payment requests cannot both charge it.
+ */
+export class AddActivePaymentIndex1735689900000 implements MigrationInterface {
+    name = 'AddActivePaymentIndex1735689900000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `CREATE UNIQUE INDEX "IDX_payment_intent_active_order" ON "payment_intent" ("orderId") WHERE "status" IN ('processing', 'succeeded')`,
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "IDX_payment_intent_active_order"`);
+    }
+}
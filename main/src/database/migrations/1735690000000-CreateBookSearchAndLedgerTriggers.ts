@@ -0,0 +1,57 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const BOOK_FTS_INSERT_ROW =
+    `INSERT INTO "book_fts" ("rowid", "title", "description", "authorPseudonym") ` +
+    `VALUES (new."id", new."title", new."description", (SELECT "authorPseudonym" FROM "user" WHERE "id" = new."authorId"));`;
+
+/**
+ * Schema TypeORM does not model: the FTS5 index behind book search, with the
+ * triggers keeping it in sync with `book` and `user`, and the triggers making
+ * recorded donation ledger entries immutable.
+ *
+ * Earlier versions created these on startup, hence `IF NOT EXISTS`. The index
+ * is filled with the existing books.
+ */
+export class CreateBookSearchAndLedgerTriggers1735690000000 implements MigrationInterface {
+    name = 'CreateBookSearchAndLedgerTriggers1735690000000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(
+            `CREATE VIRTUAL TABLE IF NOT EXISTS "book_fts" USING fts5("title", "description", "authorPseudonym", tokenize = 'unicode61 remove_diacritics 2')`,
+        );
+        await queryRunner.query(
+            `CREATE TRIGGER IF NOT EXISTS "book_fts_after_insert" AFTER INSERT ON "book" BEGIN ${BOOK_FTS_INSERT_ROW} END`,
+        );
+        await queryRunner.query(
+            `CREATE TRIGGER IF NOT EXISTS "book_fts_after_update" AFTER UPDATE ON "book" BEGIN DELETE FROM "book_fts" WHERE "rowid" = old."id"; ${BOOK_FTS_INSERT_ROW} END`,
+        );
+        await queryRunner.query(
+            `CREATE TRIGGER IF NOT EXISTS "book_fts_after_delete" AFTER DELETE ON "book" BEGIN DELETE FROM "book_fts" WHERE "rowid" = old."id"; END`,
+        );
+        await queryRunner.query(
+            `CREATE TRIGGER IF NOT EXISTS "book_fts_after_author_update" AFTER UPDATE OF "authorPseudonym" ON "user" BEGIN UPDATE "book_fts" SET "authorPseudonym" = new."authorPseudonym" WHERE "rowid" IN (SELECT "id" FROM "book" WHERE "authorId" = new."id"); END`,
+        );
+        await queryRunner.query(`DELETE FROM "book_fts"`);
+        await queryRunner.query(
+            `INSERT INTO "book_fts" ("rowid", "title", "description", "authorPseudonym") SELECT "book"."id", "book"."title", "book"."description", "author"."authorPseudonym" FROM "book" LEFT JOIN "user" "author" ON "author"."id" = "book"."authorId"`,
+        );
+
+        await queryRunner.query(
+            `CREATE TRIGGER IF NOT EXISTS "ledger_entry_no_update" BEFORE UPDATE ON "ledger_entry" BEGIN SELECT RAISE(ABORT, 'Ledger entries cannot be changed'); END`,
+        );
+        await queryRunner.query(
+            `CREATE TRIGGER IF NOT EXISTS "ledger_entry_no_delete" BEFORE DELETE ON "ledger_entry" BEGIN SELECT RAISE(ABORT, 'Ledger entries cannot be changed'); END`,
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TRIGGER "ledger_entry_no_delete"`);
+        await queryRunner.query(`DROP TRIGGER "ledger_entry_no_update"`);
+
+        await queryRunner.query(`DROP TRIGGER "book_fts_after_author_update"`);
+        await queryRunner.query(`DROP TRIGGER "book_fts_after_delete"`);
+        await queryRunner.query(`DROP TRIGGER "book_fts_after_update"`);
+        await queryRunner.query(`DROP TRIGGER "book_fts_after_insert"`);
+        await queryRunner.query(`DROP TABLE "book_fts"`);
+    }
+}
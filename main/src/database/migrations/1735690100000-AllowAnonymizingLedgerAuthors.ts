@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+const LEDGER_ENTRY_COLUMNS =
+    `"id", "orderId", "orderItemId", "bookId", "title", "authorId", "quantity", "currency", "grossAmount", ` +
+    `"authorShare", "donationShare", "donationPercent", "recordedAt"`;
+
+/**
+ * Lets anonymizing an account replace the author pseudonym copied into its
+ * donation ledger entries. Every other column stays immutable, and the
+ * pseudonym can only become the anonymous one. Entries of authors anonymized
+ * before are scrubbed.
+ */
+export class AllowAnonymizingLedgerAuthors1735690100000 implements MigrationInterface {
+    name = 'AllowAnonymizingLedgerAuthors1735690100000';
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TRIGGER "ledger_entry_no_update"`);
+        await queryRunner.query(
+            `CREATE TRIGGER "ledger_entry_no_update" BEFORE UPDATE OF ${LEDGER_ENTRY_COLUMNS} ON "ledger_entry" BEGIN SELECT RAISE(ABORT, 'Ledger entries cannot be changed'); END`,
+        );
+        await queryRunner.query(
+            `CREATE TRIGGER "ledger_entry_anonymize_author_only" BEFORE UPDATE OF "authorPseudonym" ON "ledger_entry" WHEN new."authorPseudonym" IS NOT 'Deleted author' BEGIN SELECT RAISE(ABORT, 'Ledger entries cannot be changed'); END`,
+        );
+        await queryRunner.query(
+            `UPDATE "ledger_entry" SET "authorPseudonym" = 'Deleted author' WHERE "authorId" IN (SELECT "id" FROM "user" WHERE "anonymizedAt" IS NOT NULL)`,
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TRIGGER "ledger_entry_anonymize_author_only"`);
+        await queryRunner.query(`DROP TRIGGER "ledger_entry_no_update"`);
+        await queryRunner.query(
+            `CREATE TRIGGER "ledger_entry_no_update" BEFORE UPDATE ON "ledger_entry" BEGIN SELECT RAISE(ABORT, 'Ledger entries cannot be changed'); END`,
+        );
+    }
+}
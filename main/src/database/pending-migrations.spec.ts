@@ -0,0 +1,24 @@
+import { DataSource } from 'typeorm';
+import { PendingMigrationsError, assertNoPendingMigrations } from './pending-migrations';
+
+describe('assertNoPendingMigrations', () => {
+    const dataSourceWith = (pending: boolean) =>
+        ({
+            showMigrations: jest.fn().mockResolvedValue(pending),
+            destroy: jest.fn().mockResolvedValue(undefined),
+        }) as unknown as DataSource;
+
+    it('should return a data source whose migrations have all been run', async () => {
+        const dataSource = dataSourceWith(false);
+
+        await expect(assertNoPendingMigrations(dataSource)).resolves.toBe(dataSource);
+        expect(dataSource.destroy).not.toHaveBeenCalled();
+    });
+
+    it('should close the data source and throw when migrations are pending', async () => {
+        const dataSource = dataSourceWith(true);
+
+        await expect(assertNoPendingMigrations(dataSource)).rejects.toThrow(PendingMigrationsError);
+        expect(dataSource.destroy).toHaveBeenCalled();
+    });
+});
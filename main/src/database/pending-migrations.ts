@@ -0,0 +1,27 @@
+import { DataSource } from 'typeorm';
+
+/**
+ * Raised at startup when the database lacks migrations the code depends on.
+ */
+export class PendingMigrationsError extends Error {
+    constructor() {
+        super('The database schema is out of date; apply the pending migrations with `npm run migration:run`');
+        this.name = PendingMigrationsError.name;
+    }
+}
+
+/**
+ * Refuses an initialized data source whose migrations have not all been run.
+ *
+ * @param dataSource - The initialized data source
+ * @returns The same data source, for use in a `dataSourceFactory`
+ * @throws PendingMigrationsError if migrations are pending; the data source is closed
+ */
+export async function assertNoPendingMigrations(dataSource: DataSource): Promise<DataSource> {
+    if (await dataSource.showMigrations()) {
+        await dataSource.destroy();
+        throw new PendingMigrationsError();
+    }
+
+    return dataSource;
+}
@@ -0,0 +1,16 @@
+import { IsISO8601, IsOptional } from 'class-validator';
+
+/**
+ * Query parameters bounding the donation ledger by recording time
+ */
+export class DonationRangeQueryDto {
+    /** Only entries recorded at or after this ISO 8601 date */
+    @IsISO8601()
+    @IsOptional()
+    from?: string;
+
+    /** Only entries recorded at or before this ISO 8601 date */
+    @IsISO8601()
+    @IsOptional()
+    to?: string;
+}
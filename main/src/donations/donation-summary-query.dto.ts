@@ -0,0 +1,13 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { DONATION_PERIODS, DonationPeriod } from './donations.service';
+import { DonationRangeQueryDto } from './donation-range-query.dto';
+
+/**
+ * Query parameters for summarizing the donation ledger
+ */
+export class DonationSummaryQueryDto extends DonationRangeQueryDto {
+    /** Length of the periods to sum over; `month` by default */
+    @IsIn(Object.keys(DONATION_PERIODS))
+    @IsOptional()
+    period?: DonationPeriod;
+}
@@ -0,0 +1,50 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, InternalServerErrorException } from '@nestjs/common';
+import { DonationsController } from './donations.controller';
+import { DonationsService } from './donations.service';
+
+describe('DonationsController', () => {
+    let donationsController: DonationsController;
+    let donationsService: Partial<DonationsService>;
+
+    beforeEach(async () => {
+        donationsService = {
+            summarize: jest.fn(),
+            exportCsv: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [DonationsController],
+            providers: [{ provide: DonationsService, useValue: donationsService }],
+        }).compile();
+
+        donationsController = module.get<DonationsController>(DonationsController);
+    });
+
+    describe('summary', () => {
+        it('should rethrow BadRequestException', async () => {
+            jest.spyOn(donationsService, 'summarize').mockRejectedValue(new BadRequestException());
+
+            await expect(donationsController.summary({ period: 'week' } as any)).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('exportCsv', () => {
+        it('should send the CSV as an attachment', async () => {
+            jest.spyOn(donationsService, 'exportCsv').mockResolvedValue('id\r\n');
+            const res = { set: jest.fn(), type: jest.fn().mockReturnThis(), send: jest.fn() };
+
+            await donationsController.exportCsv({}, res);
+
+            expect(res.set).toHaveBeenCalledWith('Content-Disposition', 'attachment; filename="donation-ledger.csv"');
+            expect(res.type).toHaveBeenCalledWith('text/csv; charset=utf-8');
+            expect(res.send).toHaveBeenCalledWith('id\r\n');
+        });
+
+        it('should wrap unexpected errors', async () => {
+            jest.spyOn(donationsService, 'exportCsv').mockRejectedValue(new Error('boom'));
+
+            await expect(donationsController.exportCsv({}, {})).rejects.toThrow(InternalServerErrorException);
+        });
+    });
+});
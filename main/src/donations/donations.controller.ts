@@ -0,0 +1,57 @@
+import { Controller, Get, Query, Res, InternalServerErrorException, HttpException } from '@nestjs/common';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '../users/role.enum';
+import { XmlRoot } from '../common/xml';
+import { DonationsService } from './donations.service';
+import { DonationRangeQueryDto } from './donation-range-query.dto';
+import { DonationSummaryQueryDto } from './donation-summary-query.dto';
+
+@Controller('donations')
+@Roles(Role.Admin)
+export class DonationsController {
+    constructor(private readonly donationsService: DonationsService) { }
+
+    /**
+     * Summarizes the donation ledger overall, per period and per author
+     *
+     * @param query - Optional `period` (`day`, `month` or `year`) and `from`/`to` ISO 8601 bounds
+     * @returns Gross revenue, author shares and donations per currency
+     * @throws BadRequestException if the period or a bound is invalid
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Get('summary')
+    @XmlRoot('donations')
+    async summary(@Query() query: DonationSummaryQueryDto) {
+        try {
+            return await this.donationsService.summarize(query);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while summarizing donations', { cause: error });
+        }
+    }
+
+    /**
+     * Downloads the ledger entries as a CSV file
+     *
+     * @param query - Optional `from`/`to` ISO 8601 bounds
+     * @param res - The response object the file is written to
+     * @throws BadRequestException if a bound is invalid
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Get('summary.csv')
+    async exportCsv(@Query() query: DonationRangeQueryDto, @Res() res) {
+        try {
+            const csv = await this.donationsService.exportCsv(query);
+
+            res.set('Content-Disposition', 'attachment; filename="donation-ledger.csv"');
+            res.type('text/csv; charset=utf-8').send(csv);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while exporting donations', { cause: error });
+        }
+    }
+}
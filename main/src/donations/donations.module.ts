@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { LedgerEntry } from './ledger-entry.entity';
+import { DonationsService } from './donations.service';
+import { DonationsController } from './donations.controller';
+
+@Module({
+    imports: [TypeOrmModule.forFeature([LedgerEntry])],
+    providers: [DonationsService],
+    controllers: [DonationsController],
+    exports: [DonationsService],
+})
+export class DonationsModule { }
@@ -0,0 +1,131 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException } from '@nestjs/common';
+import { LedgerEntry } from './ledger-entry.entity';
+import { AppConfigService } from '../config';
+import { DonationsService, splitSale } from './donations.service';
+
+describe('splitSale', () => {
+    it('should round the donation and give the author the rest', () => {
+        expect(splitSale(1999, 50)).toEqual({ authorShare: 999, donationShare: 1000 });
+        expect(splitSale(10, 33)).toEqual({ authorShare: 7, donationShare: 3 });
+        expect(splitSale(1999, 100)).toEqual({ authorShare: 0, donationShare: 1999 });
+    });
+});
+
+describe('DonationsService', () => {
+    let service: DonationsService;
+    let ledgerRepository: any;
+    let queryBuilder: any;
+
+    beforeEach(async () => {
+        queryBuilder = {
+            select: jest.fn().mockReturnThis(),
+            addSelect: jest.fn().mockReturnThis(),
+            andWhere: jest.fn().mockReturnThis(),
+            groupBy: jest.fn().mockReturnThis(),
+            addGroupBy: jest.fn().mockReturnThis(),
+            orderBy: jest.fn().mockReturnThis(),
+            addOrderBy: jest.fn().mockReturnThis(),
+            getRawMany: jest.fn().mockResolvedValue([]),
+            getMany: jest.fn().mockResolvedValue([]),
+        };
+        ledgerRepository = { createQueryBuilder: jest.fn(() => queryBuilder) };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                DonationsService,
+                { provide: getRepositoryToken(LedgerEntry), useValue: ledgerRepository },
+                { provide: AppConfigService, useValue: { donationPercent: 50 } },
+            ],
+        }).compile();
+
+        service = module.get<DonationsService>(DonationsService);
+    });
+
+    describe('recordSale', () => {
+        it('should enter every order line with its split', async () => {
+            const manager = {
+                find: jest.fn().mockResolvedValue([
+                    { id: 4, bookId: 3, title: 'Wookie Tales', unitPriceMinor: 1999, currency: 'EUR', quantity: 3, book: { author: { id: 1, authorPseudonym: 'Chewbacca' } } },
+                    { id: 5, bookId: null, title: 'Gone', unitPriceMinor: 10, currency: 'EUR', quantity: 1, book: null },
+                ]),
+                create: jest.fn((_entity, values) => values),
+                insert: jest.fn(),
+            };
+
+            await service.recordSale(manager as any, 9);
+
+            expect(manager.insert).toHaveBeenCalledWith(LedgerEntry, [
+                {
+                    orderId: 9,
+                    orderItemId: 4,
+                    bookId: 3,
+                    title: 'Wookie Tales',
+                    authorId: 1,
+                    authorPseudonym: 'Chewbacca',
+                    quantity: 3,
+                    currency: 'EUR',
+                    grossAmount: 5997,
+                    authorShare: 2998,
+                    donationShare: 2999,
+                    donationPercent: 50,
+                },
+                expect.objectContaining({ orderItemId: 5, authorId: null, grossAmount: 10, authorShare: 5, donationShare: 5 }),
+            ]);
+        });
+    });
+
+    describe('summarize', () => {
+        it('should format the sums as decimal amounts', async () => {
+            queryBuilder.getRawMany
+                .mockResolvedValueOnce([{ currency: 'EUR', sales: 2, copies: '4', gross: 6007, authorShare: 3003, donationShare: 3004 }])
+                .mockResolvedValueOnce([{ period: '2026-10', currency: 'EUR', sales: 2, copies: 4, gross: 6007, authorShare: 3003, donationShare: 3004 }])
+                .mockResolvedValueOnce([{ authorId: 1, authorPseudonym: 'Chewbacca', currency: 'EUR', sales: 1, copies: 3, gross: 5997, authorShare: 2998, donationShare: 2999 }]);
+
+            const summary = await service.summarize({ from: '2026-10-01' });
+
+            expect(summary.totals).toEqual([{ currency: 'EUR', sales: 2, copies: 4, gross: '60.07', authorShare: '30.03', donationShare: '30.04' }]);
+            expect(summary.byPeriod[0]).toMatchObject({ period: '2026-10', gross: '60.07' });
+            expect(summary.byAuthor[0]).toMatchObject({ authorId: 1, authorPseudonym: 'Chewbacca', donationShare: '29.99' });
+            expect(queryBuilder.addSelect).toHaveBeenCalledWith("strftime('%Y-%m', entry.recordedAt)", 'period');
+            expect(queryBuilder.andWhere).toHaveBeenCalledWith('entry.recordedAt >= :from', { from: '2026-10-01 00:00:00.000' });
+        });
+
+        it('should reject unknown periods and invalid bounds', async () => {
+            await expect(service.summarize({ period: 'week' } as any)).rejects.toThrow(BadRequestException);
+            await expect(service.summarize({ to: 'yesterday' })).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('exportCsv', () => {
+        it('should quote fields and defuse formulas', async () => {
+            queryBuilder.getMany.mockResolvedValue([
+                {
+                    id: 1,
+                    recordedAt: new Date('2026-10-19T12:00:00Z'),
+                    orderId: 9,
+                    orderItemId: 4,
+                    bookId: 3,
+                    title: '=HYPERLINK("x")',
+                    authorId: null,
+                    authorPseudonym: 'Chewie, Jr.',
+                    quantity: 1,
+                    currency: 'EUR',
+                    grossAmount: 10,
+                    authorShare: 5,
+                    donationShare: 5,
+                    donationPercent: 50,
+                },
+            ]);
+
+            const csv = await service.exportCsv();
+
+            expect(csv.split('\r\n')).toEqual([
+                'id,recordedAt,orderId,orderItemId,bookId,title,authorId,authorPseudonym,quantity,currency,grossAmount,authorShare,donationShare,donationPercent',
+                '1,2026-10-19T12:00:00.000Z,9,4,3,"\'=HYPERLINK(""x"")",,"Chewie, Jr.",1,EUR,0.10,0.05,0.05,50',
+                '',
+            ]);
+        });
+    });
+});
@@ -0,0 +1,293 @@
+import {
+    Injectable,
+    Logger,
+    OnModuleInit,
+    BadRequestException,
+    InternalServerErrorException,
+    HttpException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository, SelectQueryBuilder } from 'typeorm';
+import { DateUtils } from 'typeorm/util/DateUtils';
+import { OrderItem } from '../orders/order-item.entity';
+import { Money } from '../common/money';
+import { AppConfigService } from '../config';
+import { LedgerEntry } from './ledger-entry.entity';
+import { DonationRangeQueryDto } from './donation-range-query.dto';
+import { DonationSummaryQueryDto } from './donation-summary-query.dto';
+
+/**
+ * `strftime` formats of the periods the summary can be grouped by.
+ */
+export const DONATION_PERIODS = {
+    day: '%Y-%m-%d',
+    month: '%Y-%m',
+    year: '%Y',
+} as const;
+
+export type DonationPeriod = keyof typeof DONATION_PERIODS;
+
+/**
+ * Sums of ledger entries in one currency. Amounts are decimal strings, e.g. `"12.50"`.
+ */
+export interface DonationTotals {
+    currency: string;
+    sales: number;
+    copies: number;
+    gross: string;
+    authorShare: string;
+    donationShare: string;
+}
+
+export interface DonationSummary {
+    period: DonationPeriod;
+    from: string | null;
+    to: string | null;
+    donationPercent: number;
+    totals: DonationTotals[];
+    byPeriod: (DonationTotals & { period: string })[];
+    byAuthor: (DonationTotals & { authorId: number | null; authorPseudonym: string | null })[];
+}
+
+const LEDGER_CSV_COLUMNS: (keyof LedgerEntry)[] = [
+    'id',
+    'recordedAt',
+    'orderId',
+    'orderItemId',
+    'bookId',
+    'title',
+    'authorId',
+    'authorPseudonym',
+    'quantity',
+    'currency',
+    'grossAmount',
+    'authorShare',
+    'donationShare',
+    'donationPercent',
+];
+
+const LEDGER_AMOUNT_COLUMNS = new Set<keyof LedgerEntry>(['grossAmount', 'authorShare', 'donationShare']);
+
+/**
+ * Splits a sale into the donated part and the author's part. The donation is
+ * rounded to the nearest cent and the author receives the rest, so the parts
+ * always add up to the sale.
+ *
+ * @param grossAmount - The sale in cents
+ * @param donationPercent - The donated percentage
+ * @returns Both parts in cents
+ */
+export function splitSale(grossAmount: number, donationPercent: number): { authorShare: number; donationShare: number } {
+    const donationShare = Math.round((grossAmount * donationPercent) / 100);
+    return { authorShare: grossAmount - donationShare, donationShare };
+}
+
+@Injectable()
+export class DonationsService implements OnModuleInit {
+    private readonly logger = new Logger(DonationsService.name);
+
+    private readonly donationPercent: number;
+
+    constructor(
+        @InjectRepository(LedgerEntry)
+        private readonly ledgerRepository: Repository<LedgerEntry>,
+
+        config: AppConfigService,
+    ) {
+        this.donationPercent = config.donationPercent;
+    }
+
+    onModuleInit() {
+        this.logger.log(`Donating ${this.donationPercent}% of every sale`);
+    }
+
+    /**
+     * Records every line of a paid order in the ledger. Call it in the
+     * transaction that marks the order paid.
+     * @param manager - The entity manager of the running transaction.
+     * @param orderId - ID of the paid order.
+     */
+    async recordSale(manager: EntityManager, orderId: number): Promise<void> {
+        const items = await manager.find(OrderItem, {
+            where: { orderId },
+            relations: ['book', 'book.author'],
+            order: { id: 'ASC' },
+        });
+
+        const entries = items.map((item) => {
+            const grossAmount = item.unitPriceMinor * item.quantity;
+
+            return manager.create(LedgerEntry, {
+                orderId,
+                orderItemId: item.id,
+                bookId: item.bookId,
+                title: item.title,
+                authorId: item.book?.author?.id ?? null,
+                authorPseudonym: item.book?.author?.authorPseudonym ?? null,
+                quantity: item.quantity,
+                currency: item.currency,
+                grossAmount,
+                ...splitSale(grossAmount, this.donationPercent),
+                donationPercent: this.donationPercent,
+            });
+        });
+
+        if (entries.length > 0) {
+            await manager.insert(LedgerEntry, entries);
+        }
+    }
+
+    /**
+     * Sums the ledger overall, per period and per author.
+     * @param query - Optional `period` (`day`, `month` (default) or `year`) and `from`/`to` bounds on the recording time.
+     * @returns Totals per currency, per period and per author, largest donations first.
+     * @throws BadRequestException if the period or a bound is invalid.
+     */
+    async summarize(query: DonationSummaryQueryDto = {}): Promise<DonationSummary> {
+        try {
+            const period: DonationPeriod = query.period ?? 'month';
+
+            if (!(period in DONATION_PERIODS)) {
+                throw new BadRequestException(`period must be one of: ${Object.keys(DONATION_PERIODS).join(', ')}`);
+            }
+
+            const range = this.parseRange(query);
+            const totals = await this.sums(range).groupBy('entry.currency').orderBy('entry.currency').getRawMany();
+            const byPeriod = await this.sums(range)
+                .addSelect(`strftime('${DONATION_PERIODS[period]}', entry.recordedAt)`, 'period')
+                .groupBy('period')
+                .addGroupBy('entry.currency')
+                .orderBy('period')
+                .addOrderBy('entry.currency')
+                .getRawMany();
+            const byAuthor = await this.sums(range)
+                .addSelect('entry.authorId', 'authorId')
+                .addSelect('MAX(entry.authorPseudonym)', 'authorPseudonym')
+                .groupBy('entry.authorId')
+                .addGroupBy('entry.currency')
+                .orderBy('donationShare', 'DESC')
+                .addOrderBy('entry.authorId')
+                .getRawMany();
+
+            return {
+                period,
+                from: query.from ?? null,
+                to: query.to ?? null,
+                donationPercent: this.donationPercent,
+                totals: totals.map((row) => this.toTotals(row)),
+                byPeriod: byPeriod.map((row) => ({ period: row.period, ...this.toTotals(row) })),
+                byAuthor: byAuthor.map((row) => ({
+                    authorId: row.authorId ?? null,
+                    authorPseudonym: row.authorPseudonym ?? null,
+                    ...this.toTotals(row),
+                })),
+            };
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while summarizing donations', { cause: error });
+        }
+    }
+
+    /**
+     * Exports ledger entries as CSV, oldest first. Amounts are decimal, e.g. `12.50`.
+     * @param query - Optional `from`/`to` bounds on the recording time.
+     * @returns The CSV document with a header row.
+     * @throws BadRequestException if a bound is invalid.
+     */
+    async exportCsv(query: DonationRangeQueryDto = {}): Promise<string> {
+        try {
+            const queryBuilder = this.ledgerRepository.createQueryBuilder('entry').orderBy('entry.id', 'ASC');
+            this.applyRange(queryBuilder, this.parseRange(query));
+
+            const entries = await queryBuilder.getMany();
+            const rows = entries.map((entry) =>
+                LEDGER_CSV_COLUMNS.map((column) => {
+                    const value = entry[column];
+                    if (value instanceof Date) {
+                        return value.toISOString();
+                    }
+                    return LEDGER_AMOUNT_COLUMNS.has(column)
+                        ? Money.of(Number(value), entry.currency).amount
+                        : toCsvField(value);
+                }).join(','),
+            );
+
+            return [LEDGER_CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while exporting donations', { cause: error });
+        }
+    }
+
+    private sums(range: { from?: string; to?: string }): SelectQueryBuilder<LedgerEntry> {
+        const queryBuilder = this.ledgerRepository
+            .createQueryBuilder('entry')
+            .select('entry.currency', 'currency')
+            .addSelect('COUNT(*)', 'sales')
+            .addSelect('SUM(entry.quantity)', 'copies')
+            .addSelect('SUM(entry.grossAmount)', 'gross')
+            .addSelect('SUM(entry.authorShare)', 'authorShare')
+            .addSelect('SUM(entry.donationShare)', 'donationShare');
+
+        return this.applyRange(queryBuilder, range);
+    }
+
+    private applyRange(queryBuilder: SelectQueryBuilder<LedgerEntry>, range: { from?: string; to?: string }) {
+        if (range.from) {
+            queryBuilder.andWhere('entry.recordedAt >= :from', { from: range.from });
+        }
+        if (range.to) {
+            queryBuilder.andWhere('entry.recordedAt <= :to', { to: range.to });
+        }
+        return queryBuilder;
+    }
+
+    private parseRange(query: DonationRangeQueryDto): { from?: string; to?: string } {
+        const range: { from?: string; to?: string } = {};
+
+        for (const bound of ['from', 'to'] as const) {
+            if (query[bound] === undefined) {
+                continue;
+            }
+
+            const date = new Date(query[bound]);
+            if (typeof query[bound] !== 'string' || isNaN(date.getTime())) {
+                throw new BadRequestException(`${bound} must be an ISO 8601 date`);
+            }
+            range[bound] = DateUtils.mixedDateToUtcDatetimeString(date);
+        }
+
+        return range;
+    }
+
+    private toTotals(row: any): DonationTotals {
+        return {
+            currency: row.currency,
+            sales: Number(row.sales),
+            copies: Number(row.copies),
+            gross: Money.of(Number(row.gross), row.currency).amount,
+            authorShare: Money.of(Number(row.authorShare), row.currency).amount,
+            donationShare: Money.of(Number(row.donationShare), row.currency).amount,
+        };
+    }
+}
+
+/**
+ * Quotes a CSV field when needed and defuses values a spreadsheet would run as a formula.
+ */
+function toCsvField(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+
+    let text = String(value);
+    if (/^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,58 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, Index } from 'typeorm';
+
+/**
+ * One sold order line and how its revenue is split. Entries are written once
+ * when a payment succeeds and never changed; they keep plain IDs and copies of
+ * names instead of relations, so later edits or deletions elsewhere cannot
+ * alter them. Only anonymizing an account replaces its `authorPseudonym`.
+ * Amounts are in minor units of `currency`, e.g. cents.
+ */
+@Entity()
+export class LedgerEntry {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column()
+    @Index()
+    orderId: number;
+
+    @Column({ unique: true })
+    orderItemId: number;
+
+    @Column({ type: 'integer', nullable: true })
+    bookId: number | null;
+
+    @Column()
+    title: string;
+
+    @Column({ type: 'integer', nullable: true })
+    @Index()
+    authorId: number | null;
+
+    @Column({ type: 'varchar', nullable: true })
+    authorPseudonym: string | null;
+
+    @Column()
+    quantity: number;
+
+    @Column()
+    currency: string;
+
+    /** Price paid for the line */
+    @Column()
+    grossAmount: number;
+
+    @Column()
+    authorShare: number;
+
+    @Column()
+    donationShare: number;
+
+    /** Percentage of the gross amount donated when the sale was recorded */
+    @Column()
+    donationPercent: number;
+
+    @CreateDateColumn()
+    @Index()
+    recordedAt: Date;
+}
@@ -0,0 +1,20 @@
+import { writeFile } from 'fs/promises';
+import { resolve } from 'path';
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from './app.module';
+import { buildOpenApiDocument } from './openapi';
+
+/**
+ * Writes the OpenAPI document to the file given as first argument, `openapi.json` by default,
+ * so client SDKs can be generated without a running server. Run through `npm run openapi:export`.
+ */
+async function exportOpenApi() {
+  const target = resolve(process.argv[2] ?? 'openapi.json');
+  // Preview mode registers the routes without instantiating providers, so no database is needed
+  const app = await NestFactory.create(AppModule, { preview: true, logger: ['error'] });
+
+  await writeFile(target, `${JSON.stringify(buildOpenApiDocument(app), null, 2)}\n`);
+  await app.close();
+  console.log(`OpenAPI document written to ${target}`);
+}
+exportOpenApi();
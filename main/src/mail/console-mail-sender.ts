@@ -0,0 +1,13 @@
+import { Logger } from '@nestjs/common';
+import { MailMessage, MailSender } from './mail-sender';
+
+/**
+ * Writes emails to the application log instead of sending them; meant for local development.
+ */
+export class ConsoleMailSender extends MailSender {
+    private readonly logger = new Logger(ConsoleMailSender.name);
+
+    async send(message: MailMessage): Promise<void> {
+        this.logger.log(`To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+    }
+}
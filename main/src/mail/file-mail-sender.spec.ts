@@ -0,0 +1,33 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileMailSender } from './file-mail-sender';
+
+describe('FileMailSender', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await mkdtemp(join(tmpdir(), 'mail-'));
+    });
+
+    afterEach(async () => {
+        await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should write each email as an .eml file', async () => {
+        const sender = new FileMailSender(join(directory, 'outbox'), 'books@example.com');
+
+        await sender.send({ to: 'chewie@example.com', subject: 'Hello', text: 'Line 1\nLine 2' });
+        await sender.send({ to: 'han@example.com', subject: 'Hi', text: 'Hi' });
+
+        const files = await readdir(join(directory, 'outbox'));
+        expect(files).toHaveLength(2);
+        expect(files.every((file) => file.endsWith('.eml'))).toBe(true);
+
+        const contents = await Promise.all(files.map((file) => readFile(join(directory, 'outbox', file), 'utf8')));
+        const email = contents.find((content) => content.includes('To: chewie@example.com'));
+        expect(email).toContain('From: books@example.com\r\n');
+        expect(email).toContain('Subject: Hello\r\n');
+        expect(email).toMatch(/\r\n\r\nLine 1\r\nLine 2\r\n$/);
+    });
+});
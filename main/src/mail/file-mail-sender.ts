@@ -0,0 +1,37 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { randomUUID } from 'crypto';
+import { MailMessage, MailSender } from './mail-sender';
+
+/**
+ * Writes every email as an `.eml` file into a directory, where it can be opened
+ * with a mail client or read by tests; nothing leaves the machine.
+ */
+export class FileMailSender extends MailSender {
+    private readonly directory: string;
+
+    constructor(
+        directory: string,
+        private readonly from: string,
+    ) {
+        super();
+        this.directory = resolve(directory);
+    }
+
+    async send(message: MailMessage): Promise<void> {
+        const date = new Date();
+        const headers = [
+            `From: ${this.from}`,
+            `To: ${message.to}`,
+            `Subject: ${message.subject}`,
+            `Date: ${date.toUTCString()}`,
+            'Content-Type: text/plain; charset=utf-8',
+        ];
+
+        await mkdir(this.directory, { recursive: true });
+        await writeFile(
+            join(this.directory, `${date.getTime()}-${randomUUID()}.eml`),
+            `${headers.join('\r\n')}\r\n\r\n${message.text.replace(/\r?\n/g, '\r\n')}\r\n`,
+        );
+    }
+}
@@ -0,0 +1,4 @@
+export * from './mail-sender';
+export * from './console-mail-sender';
+export * from './file-mail-sender';
+export * from './mail.module';
@@ -0,0 +1,21 @@
+/**
+ * An email to send.
+ */
+export interface MailMessage {
+    to: string;
+    subject: string;
+    /** Plain text body */
+    text: string;
+}
+
+/**
+ * Sends emails. Bind a different implementation to this token in `MailModule`
+ * to deliver through a real mail service (e.g. SMTP or an HTTP API).
+ */
+export abstract class MailSender {
+    /**
+     * Sends an email.
+     * @param message - Recipient, subject and body of the email.
+     */
+    abstract send(message: MailMessage): Promise<void>;
+}
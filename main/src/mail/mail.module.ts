@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { MailSender } from './mail-sender';
+import { ConsoleMailSender } from './console-mail-sender';
+import { FileMailSender } from './file-mail-sender';
+import { AppConfigService } from '../config';
+
+@Module({
+    providers: [
+        {
+            provide: MailSender,
+            inject: [AppConfigService],
+            useFactory: ({ mail }: AppConfigService) =>
+                mail.transport === 'file' ? new FileMailSender(mail.dir, mail.from) : new ConsoleMailSender(),
+        },
+    ],
+    exports: [MailSender],
+})
+export class MailModule { }
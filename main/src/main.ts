@@ -1,8 +1,20 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
+import { AppConfigService } from './config';
+import { REQUEST_ID_HEADER } from './common/errors';
+import { setupOpenApi } from './openapi';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
-  await app.listen(process.env.PORT ?? 3000);
+  // The raw body lets payment webhooks be verified against their signature
+  const app = await NestFactory.create(AppModule, { rawBody: true });
+  const config = app.get(AppConfigService);
+
+  if (config.cors) {
+    // Lets browsers read the request ID and the pagination links
+    app.enableCors({ origin: config.cors.origins, exposedHeaders: [REQUEST_ID_HEADER, 'Link'] });
+  }
+
+  setupOpenApi(app);
+  await app.listen(config.port);
 }
 bootstrap();
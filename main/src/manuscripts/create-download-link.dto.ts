@@ -0,0 +1,18 @@
+import { Transform } from 'class-transformer';
+import { IsInt, IsOptional, Min } from 'class-validator';
+import { toNumber } from '../common/validation';
+
+/**
+ * DTO for requesting a download link
+ */
+export class CreateDownloadLinkDto {
+    /**
+     * The manuscript version; the latest by default
+     * @example 2
+     */
+    @Transform(toNumber)
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    version?: number;
+}
@@ -0,0 +1,32 @@
+import { DOWNLOAD_LINK_TTL, DownloadLinkSigner } from './download-link-signer';
+
+describe('DownloadLinkSigner', () => {
+    const signer = new DownloadLinkSigner('test-secret');
+    const now = Date.UTC(2026, 0, 1);
+    const grant = { manuscriptId: 8, userId: 2, orderId: 12 };
+
+    it('should round-trip a grant until it expires', () => {
+        const { token, expiresAt } = signer.sign(grant, now);
+
+        expect(expiresAt).toEqual(new Date(now + DOWNLOAD_LINK_TTL * 1000));
+        expect(signer.verify(token, now)).toEqual({ ...grant, expiresAt: expiresAt.getTime() / 1000 });
+        expect(signer.verify(token, expiresAt.getTime())).not.toBeNull();
+        expect(signer.verify(token, expiresAt.getTime() + 1000)).toBeNull();
+    });
+
+    it('should refuse tampered tokens', () => {
+        const { token } = signer.sign(grant, now);
+        const [, signature] = token.split('.');
+        const forged = Buffer.from(JSON.stringify([9, 2, 12, now / 1000 + 60])).toString('base64url');
+
+        expect(signer.verify(`${forged}.${signature}`, now)).toBeNull();
+        expect(new DownloadLinkSigner('other-secret').verify(token, now)).toBeNull();
+    });
+
+    it('should refuse malformed tokens', () => {
+        expect(signer.verify('', now)).toBeNull();
+        expect(signer.verify('abc', now)).toBeNull();
+        expect(signer.verify('a.b.c', now)).toBeNull();
+        expect(signer.verify(undefined, now)).toBeNull();
+    });
+});
@@ -0,0 +1,82 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * How long a download link stays valid, in seconds.
+ */
+export const DOWNLOAD_LINK_TTL = 300;
+
+/**
+ * What a signed download link lets its holder fetch.
+ */
+export interface DownloadGrant {
+    manuscriptId: number;
+    userId: number;
+    /** The paid order granting access; `null` for the book's author */
+    orderId: number | null;
+    /** Unix time in seconds after which the link is refused */
+    expiresAt: number;
+}
+
+/**
+ * Issues and checks the tokens of download links. A token is the grant,
+ * base64url encoded, followed by its HMAC-SHA256 signature, so links work
+ * without a bearer token but cannot be altered or used once expired.
+ */
+export class DownloadLinkSigner {
+    constructor(
+        private readonly secret: string,
+        private readonly ttl: number = DOWNLOAD_LINK_TTL,
+    ) { }
+
+    /**
+     * Signs a grant valid for `ttl` seconds.
+     * @param grant - The manuscript, user and order the link is for.
+     * @param now - Signing time in milliseconds.
+     * @returns The token and when it expires.
+     */
+    sign(grant: Omit<DownloadGrant, 'expiresAt'>, now = Date.now()): { token: string; expiresAt: Date } {
+        const expiresAt = Math.floor(now / 1000) + this.ttl;
+        const payload = Buffer.from(
+            JSON.stringify([grant.manuscriptId, grant.userId, grant.orderId, expiresAt]),
+        ).toString('base64url');
+
+        return { token: `${payload}.${this.digest(payload)}`, expiresAt: new Date(expiresAt * 1000) };
+    }
+
+    /**
+     * Checks a token's signature and expiry.
+     * @param token - The token of a download link.
+     * @param now - Current time in milliseconds.
+     * @returns The grant, or `null` if the token is malformed, tampered with or expired.
+     */
+    verify(token: string, now = Date.now()): DownloadGrant | null {
+        const [payload, signature, ...rest] = (token ?? '').split('.');
+
+        if (!payload || !signature || rest.length > 0) {
+            return null;
+        }
+
+        const expected = Buffer.from(this.digest(payload));
+        const actual = Buffer.from(signature);
+
+        if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+            return null;
+        }
+
+        try {
+            const [manuscriptId, userId, orderId, expiresAt] = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+
+            if (!Number.isInteger(expiresAt) || expiresAt < now / 1000) {
+                return null;
+            }
+
+            return { manuscriptId, userId, orderId, expiresAt };
+        } catch {
+            return null;
+        }
+    }
+
+    private digest(payload: string): string {
+        return createHmac('sha256', this.secret).update(payload).digest('base64url');
+    }
+}
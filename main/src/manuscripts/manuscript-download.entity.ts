@@ -0,0 +1,50 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, Index } from 'typeorm';
+import { Exclude } from 'class-transformer';
+import { User } from '../users/user.entity';
+import { Manuscript } from './manuscript.entity';
+
+/**
+ * Audit record of a manuscript served through a signed download link.
+ */
+@Entity()
+@Index(['bookId', 'createdAt'])
+export class ManuscriptDownload {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Manuscript, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'manuscriptId' })
+    @Exclude()
+    manuscript: Manuscript;
+
+    @Column()
+    manuscriptId: number;
+
+    /** Copied from the manuscript so the trail of a book is read without joins */
+    @Column()
+    bookId: number;
+
+    @Column()
+    version: number;
+
+    @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'userId' })
+    @Exclude()
+    user: User | null;
+
+    @Column({ type: 'integer', nullable: true })
+    userId: number | null;
+
+    /** The paid order that granted access; empty when the author downloaded their own book */
+    @Column({ type: 'integer', nullable: true })
+    orderId: number | null;
+
+    @Column({ type: 'varchar', nullable: true })
+    ip: string | null;
+
+    @Column({ type: 'varchar', nullable: true })
+    userAgent: string | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
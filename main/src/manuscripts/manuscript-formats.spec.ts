@@ -0,0 +1,37 @@
+import { detectManuscriptFormat } from './manuscript-formats';
+
+describe('detectManuscriptFormat', () => {
+    const epub = () => {
+        const header = Buffer.alloc(30);
+        header.writeUInt32LE(0x04034b50, 0);
+        return Buffer.concat([header, Buffer.from('mimetypeapplication/epub+zip'), Buffer.from('PK...')]);
+    };
+
+    it('should recognize PDFs by their signature whatever their name', () => {
+        expect(detectManuscriptFormat(Buffer.from('%PDF-1.7\n...'), 'book.bin')).toBe('pdf');
+    });
+
+    it('should recognize EPUBs by their mimetype entry', () => {
+        expect(detectManuscriptFormat(epub(), 'book.epub')).toBe('epub');
+    });
+
+    it('should not take other ZIP archives for EPUBs', () => {
+        const zip = epub();
+        zip.write('application/zip     ', 38, 'latin1');
+
+        expect(detectManuscriptFormat(zip, 'book.epub')).toBeNull();
+        expect(detectManuscriptFormat(Buffer.from([0x50, 0x4b, 0x03, 0x04]), 'book.epub')).toBeNull();
+    });
+
+    it('should accept UTF-8 text named .md or .markdown as Markdown', () => {
+        expect(detectManuscriptFormat(Buffer.from('# Kapitel 1\n\nWookiee-Geschichten für alle'), 'book.md')).toBe('markdown');
+        expect(detectManuscriptFormat(Buffer.from('# Chapter 1'), 'BOOK.Markdown')).toBe('markdown');
+    });
+
+    it('should reject binary or non-Markdown files', () => {
+        expect(detectManuscriptFormat(Buffer.from('# Chapter 1'), 'book.txt')).toBeNull();
+        expect(detectManuscriptFormat(Buffer.from('# Chapter 1'))).toBeNull();
+        expect(detectManuscriptFormat(Buffer.from([0x23, 0x00, 0x41]), 'book.md')).toBeNull();
+        expect(detectManuscriptFormat(Buffer.from([0x23, 0xff, 0xfe]), 'book.md')).toBeNull();
+    });
+});
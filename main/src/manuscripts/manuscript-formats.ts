@@ -0,0 +1,51 @@
+import { extname } from 'path';
+
+export type ManuscriptFormat = 'epub' | 'pdf' | 'markdown';
+
+/**
+ * Content type and file extension of every accepted manuscript format.
+ */
+export const MANUSCRIPT_FORMATS: Record<ManuscriptFormat, { contentType: string; extension: string }> = {
+    epub: { contentType: 'application/epub+zip', extension: 'epub' },
+    pdf: { contentType: 'application/pdf', extension: 'pdf' },
+    markdown: { contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+};
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown'];
+
+/**
+ * An EPUB is a ZIP archive whose first, uncompressed entry is `mimetype`
+ * holding `application/epub+zip`; its name and contents start at byte 30.
+ */
+const EPUB_SIGNATURE = Buffer.from('mimetypeapplication/epub+zip');
+
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Recognizes a manuscript by its contents: EPUB and PDF by their signatures,
+ * Markdown by its `.md`/`.markdown` file name and UTF-8 text.
+ *
+ * @param data - The uploaded file
+ * @param fileName - The name the file was uploaded with
+ * @returns The format, or `null` if the file is none of the accepted formats
+ */
+export function detectManuscriptFormat(data: Buffer, fileName?: string): ManuscriptFormat | null {
+    if (data.subarray(0, 5).toString('latin1') === '%PDF-') {
+        return 'pdf';
+    }
+
+    if (data.length > 30 && data.readUInt32LE(0) === 0x04034b50 && data.subarray(30, 30 + EPUB_SIGNATURE.length).equals(EPUB_SIGNATURE)) {
+        return 'epub';
+    }
+
+    if (MARKDOWN_EXTENSIONS.includes(extname(fileName ?? '').toLowerCase()) && !data.includes(0)) {
+        try {
+            utf8.decode(data);
+            return 'markdown';
+        } catch {
+            return null;
+        }
+    }
+
+    return null;
+}
@@ -0,0 +1,50 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, Index } from 'typeorm';
+import { Exclude } from 'class-transformer';
+import { Book } from '../books/book.entity';
+import { Asset } from '../storage/asset.entity';
+import { ManuscriptFormat } from './manuscript-formats';
+
+/**
+ * One uploaded version of a book's content. Versions are numbered from 1 per book
+ * and never replaced, so buyers can still fetch the edition they bought.
+ */
+@Entity()
+@Index(['bookId', 'version'], { unique: true })
+export class Manuscript {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Book, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'bookId' })
+    @Exclude()
+    book: Book;
+
+    @Column()
+    bookId: number;
+
+    @Column()
+    version: number;
+
+    @Column({ type: 'varchar' })
+    format: ManuscriptFormat;
+
+    @ManyToOne(() => Asset, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'assetId' })
+    @Exclude()
+    asset: Asset;
+
+    @Column()
+    @Exclude()
+    assetId: number;
+
+    /** Size of the file in bytes */
+    @Column()
+    size: number;
+
+    /** SHA-256 of the file, so buyers can verify their download */
+    @Column()
+    checksum: string;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
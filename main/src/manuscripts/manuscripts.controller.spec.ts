@@ -0,0 +1,152 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+    BadRequestException,
+    ForbiddenException,
+    NotFoundException,
+    InternalServerErrorException,
+} from '@nestjs/common';
+import { ManuscriptsController } from './manuscripts.controller';
+import { ManuscriptsService } from './manuscripts.service';
+
+describe('ManuscriptsController', () => {
+    let controller: ManuscriptsController;
+    let manuscriptsService: Partial<ManuscriptsService>;
+
+    const user = { id: 1, username: 'chewie' };
+
+    const mockRequest = (originalUrl: string) => ({
+        user,
+        originalUrl,
+        protocol: 'http',
+        ip: '::1',
+        get: (header: string) => (header === 'host' ? 'localhost:3000' : 'curl/8'),
+    });
+
+    beforeEach(async () => {
+        manuscriptsService = {
+            upload: jest.fn(),
+            findByBook: jest.fn(),
+            createDownloadLink: jest.fn(),
+            download: jest.fn(),
+            findDownloads: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [ManuscriptsController],
+            providers: [{ provide: ManuscriptsService, useValue: manuscriptsService }],
+        }).compile();
+
+        controller = module.get<ManuscriptsController>(ManuscriptsController);
+    });
+
+    describe('upload', () => {
+        it('should store the manuscript', async () => {
+            const file = { buffer: Buffer.from('%PDF-'), size: 5 } as Express.Multer.File;
+            jest.spyOn(manuscriptsService, 'upload').mockResolvedValue({ id: 8, version: 1 } as any);
+
+            await expect(controller.upload({ user }, 3, file)).resolves.toEqual({ id: 8, version: 1 });
+            expect(manuscriptsService.upload).toHaveBeenCalledWith(user, 3, file);
+        });
+
+        it('should throw InternalServerErrorException on unexpected error', async () => {
+            jest.spyOn(manuscriptsService, 'upload').mockRejectedValue(new Error('Unexpected error'));
+
+            await expect(controller.upload({ user }, 3, undefined)).rejects.toThrow(InternalServerErrorException);
+        });
+    });
+
+    describe('findAll', () => {
+        it('should rethrow ForbiddenException for other users\' books', async () => {
+            jest.spyOn(manuscriptsService, 'findByBook').mockRejectedValue(new ForbiddenException());
+
+            await expect(controller.findAll({ user }, 3)).rejects.toThrow(ForbiddenException);
+        });
+    });
+
+    describe('createLink', () => {
+        it('should return an absolute link', async () => {
+            const expiresAt = new Date('2026-01-01T00:05:00Z');
+            jest.spyOn(manuscriptsService, 'createDownloadLink').mockResolvedValue({
+                path: '/downloads/abc.def',
+                expiresAt,
+                version: 2,
+                format: 'pdf',
+                size: 10,
+                checksum: 'abc',
+            });
+
+            const result = await controller.createLink(mockRequest('/books/3/manuscripts/links'), 3, { version: 2 });
+
+            expect(manuscriptsService.createDownloadLink).toHaveBeenCalledWith(user, 3, 2);
+            expect(result).toEqual({
+                url: 'http://localhost:3000/downloads/abc.def',
+                expiresAt,
+                version: 2,
+                format: 'pdf',
+                size: 10,
+                checksum: 'abc',
+            });
+        });
+
+        it('should rethrow ForbiddenException for users who have not bought the book', async () => {
+            jest.spyOn(manuscriptsService, 'createDownloadLink').mockRejectedValue(new ForbiddenException());
+
+            await expect(controller.createLink(mockRequest('/'), 3, {})).rejects.toThrow(ForbiddenException);
+        });
+    });
+
+    describe('download', () => {
+        it('should send the file as an attachment', async () => {
+            const data = Buffer.from('%PDF-');
+            jest.spyOn(manuscriptsService, 'download').mockResolvedValue({
+                data,
+                contentType: 'application/pdf',
+                fileName: 'book-3-v2.pdf',
+            });
+            const res: any = {};
+            res.set = jest.fn().mockReturnValue(res);
+            res.type = jest.fn().mockReturnValue(res);
+            res.send = jest.fn();
+
+            await controller.download('abc.def', mockRequest('/downloads/abc.def'), res);
+
+            expect(manuscriptsService.download).toHaveBeenCalledWith('abc.def', { ip: '::1', userAgent: 'curl/8' });
+            expect(res.set).toHaveBeenCalledWith({
+                'Content-Disposition': 'attachment; filename="book-3-v2.pdf"',
+                'Cache-Control': 'private, no-store',
+            });
+            expect(res.type).toHaveBeenCalledWith('application/pdf');
+            expect(res.send).toHaveBeenCalledWith(data);
+        });
+
+        it('should rethrow ForbiddenException for expired links', async () => {
+            jest.spyOn(manuscriptsService, 'download').mockRejectedValue(new ForbiddenException());
+
+            await expect(controller.download('abc.def', mockRequest('/'), {})).rejects.toThrow(ForbiddenException);
+        });
+    });
+
+    describe('findDownloads', () => {
+        it('should return a page of downloads and set the Link header', async () => {
+            jest.spyOn(manuscriptsService, 'findDownloads').mockResolvedValue({
+                data: [{ id: 1 } as any],
+                meta: { page: 1, limit: 1, total: 2, totalPages: 2 },
+            });
+            const res = { setHeader: jest.fn() };
+
+            const result = await controller.findDownloads(mockRequest('/books/3/manuscripts/downloads?limit=1'), 3, { limit: 1 }, res);
+
+            expect(manuscriptsService.findDownloads).toHaveBeenCalledWith(user, 3, { limit: 1 });
+            expect(res.setHeader).toHaveBeenCalledWith('Link', expect.stringContaining('rel="next"'));
+            expect(result.data).toEqual([{ id: 1 }]);
+        });
+
+        it('should rethrow BadRequestException and NotFoundException', async () => {
+            jest.spyOn(manuscriptsService, 'findDownloads').mockRejectedValueOnce(new BadRequestException());
+            await expect(controller.findDownloads(mockRequest('/'), 3, {}, {})).rejects.toThrow(BadRequestException);
+
+            jest.spyOn(manuscriptsService, 'findDownloads').mockRejectedValueOnce(new NotFoundException());
+            await expect(controller.findDownloads(mockRequest('/'), 3, {}, {})).rejects.toThrow(NotFoundException);
+        });
+    });
+});
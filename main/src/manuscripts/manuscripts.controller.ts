@@ -0,0 +1,194 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Param,
+    Body,
+    Query,
+    Req,
+    Res,
+    ParseIntPipe,
+    UploadedFile,
+    UseInterceptors,
+    HttpException,
+    InternalServerErrorException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { instanceToPlain } from 'class-transformer';
+import { Public } from '../auth/public.decorator';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from '../users/role.enum';
+import { XmlRoot } from '../common/xml';
+import { PaginationQueryDto, buildPaginationLinks, formatLinkHeader } from '../common/pagination';
+import { MANUSCRIPT_MAX_BYTES, ManuscriptsService } from './manuscripts.service';
+import { CreateDownloadLinkDto } from './create-download-link.dto';
+
+@Controller()
+@XmlRoot('manuscript')
+export class ManuscriptsController {
+    constructor(private readonly manuscriptsService: ManuscriptsService) { }
+
+    /**
+     * Uploads a new manuscript version of one of the authenticated author's books.
+     * Send an EPUB, PDF or Markdown file as the `file` field of a multipart form.
+     *
+     * @param req - The request object containing the authenticated user
+     * @param id - The ID of the book
+     * @param file - The uploaded manuscript
+     * @returns The new manuscript version
+     * @throws BadRequestException if the file is missing or not a supported format
+     * @throws PayloadTooLargeException if the file is larger than `MANUSCRIPT_MAX_BYTES`
+     * @throws NotFoundException if the book is not found
+     * @throws ForbiddenException if the user does not own the book
+     * @throws ForbiddenException if the author is banned from publishing
+     * @throws ConflictException if another version was uploaded at the same time
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Post('books/:id/manuscripts')
+    @Roles(Role.Author)
+    @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MANUSCRIPT_MAX_BYTES, files: 1 } }))
+    async upload(@Req() req, @Param('id', ParseIntPipe) id: number, @UploadedFile() file: Express.Multer.File) {
+        try {
+            return instanceToPlain(await this.manuscriptsService.upload(req.user, id, file));
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while uploading the manuscript', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Lists the manuscript versions of one of the authenticated author's books, newest first
+     *
+     * @param req - The request object containing the authenticated user
+     * @param id - The ID of the book
+     * @returns The manuscript versions
+     * @throws NotFoundException if the book is not found
+     * @throws ForbiddenException if the user does not own the book
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Get('books/:id/manuscripts')
+    @Roles(Role.Author)
+    @XmlRoot('manuscripts', 'manuscript')
+    async findAll(@Req() req, @Param('id', ParseIntPipe) id: number) {
+        try {
+            return instanceToPlain(await this.manuscriptsService.findByBook(req.user, id));
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while fetching the manuscripts', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Issues a short-lived link for downloading a book's manuscript.
+     * The book's author may download any version; other users must have paid for the book.
+     *
+     * @param req - The request object containing the authenticated user, also used to build the absolute link
+     * @param id - The ID of the book
+     * @param body - The optional version to download
+     * @returns The link, when it expires and the version it points to
+     * @throws BadRequestException if the version is invalid
+     * @throws NotFoundException if the book, its manuscript or the version is not found
+     * @throws ForbiddenException if the user has not bought the book
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Post('books/:id/manuscripts/links')
+    @XmlRoot('downloadLink')
+    async createLink(@Req() req, @Param('id', ParseIntPipe) id: number, @Body() body: CreateDownloadLinkDto) {
+        try {
+            const { path, ...link } = await this.manuscriptsService.createDownloadLink(req.user, id, body?.version);
+            const url = new URL(path, `${req.protocol}://${req.get?.('host') ?? 'localhost'}`).toString();
+
+            return { url, ...link };
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while creating the download link', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Downloads a manuscript through a signed link; no bearer token is needed.
+     * Every download is recorded in the book's audit trail.
+     *
+     * @param token - The token of the link
+     * @param req - The request object, whose address and user agent are recorded
+     * @param res - The response object the file is written to
+     * @throws ForbiddenException if the link is invalid or has expired
+     * @throws NotFoundException if the manuscript no longer exists
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Public()
+    @Get('downloads/:token')
+    async download(@Param('token') token: string, @Req() req, @Res() res) {
+        try {
+            const file = await this.manuscriptsService.download(token, {
+                ip: req.ip,
+                userAgent: req.get?.('user-agent'),
+            });
+
+            res.set({
+                'Content-Disposition': `attachment; filename="${file.fileName}"`,
+                'Cache-Control': 'private, no-store',
+            });
+            res.type(file.contentType).send(file.data);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while downloading the manuscript', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Lists the downloads of one of the authenticated author's books, newest first
+     *
+     * @param req - The request object containing the authenticated user, also used to build pagination links
+     * @param id - The ID of the book
+     * @param query - Pagination (`page`, `limit`, `cursor`) and sorting (`sort` over `id`)
+     * @param res - The response object, used to set the `Link` header
+     * @returns A page of downloads
+     * @throws BadRequestException if a query parameter is invalid
+     * @throws NotFoundException if the book is not found
+     * @throws ForbiddenException if the user does not own the book
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Get('books/:id/manuscripts/downloads')
+    @Roles(Role.Author)
+    @XmlRoot('downloads', 'download')
+    async findDownloads(
+        @Req() req,
+        @Param('id', ParseIntPipe) id: number,
+        @Query() query: PaginationQueryDto,
+        @Res({ passthrough: true }) res,
+    ) {
+        try {
+            const page = await this.manuscriptsService.findDownloads(req.user, id, query);
+            const links = buildPaginationLinks(req, page.meta);
+            const linkHeader = formatLinkHeader(links);
+
+            if (linkHeader) {
+                res.setHeader('Link', linkHeader);
+            }
+
+            return instanceToPlain({ ...page, links });
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while fetching the downloads', { cause: error });
+        }
+    }
+}
@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Book } from '../books/book.entity';
+import { StorageModule } from '../storage';
+import { OrdersModule } from '../orders/orders.module';
+import { PublishingBansModule } from '../publishing-bans/publishing-bans.module';
+import { Manuscript } from './manuscript.entity';
+import { ManuscriptDownload } from './manuscript-download.entity';
+import { DownloadLinkSigner } from './download-link-signer';
+import { ManuscriptsService } from './manuscripts.service';
+import { ManuscriptsController } from './manuscripts.controller';
+import { AppConfigService } from '../config';
+
+@Module({
+    imports: [
+        TypeOrmModule.forFeature([Manuscript, ManuscriptDownload, Book]),
+        StorageModule,
+        OrdersModule,
+        PublishingBansModule,
+    ],
+    providers: [
+        ManuscriptsService,
+        {
+            provide: DownloadLinkSigner,
+            inject: [AppConfigService],
+            useFactory: (config: AppConfigService) => new DownloadLinkSigner(config.downloadLinkSecret),
+        },
+    ],
+    controllers: [ManuscriptsController],
+})
+export class ManuscriptsModule { }
@@ -0,0 +1,297 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource, QueryFailedError } from 'typeorm';
+import {
+    BadRequestException,
+    ConflictException,
+    ForbiddenException,
+    NotFoundException,
+    PayloadTooLargeException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { Book } from '../books/book.entity';
+import { Asset, FileStorage } from '../storage';
+import { OrdersService } from '../orders/orders.service';
+import { PublishingBansService } from '../publishing-bans/publishing-bans.service';
+import { Manuscript } from './manuscript.entity';
+import { ManuscriptDownload } from './manuscript-download.entity';
+import { DownloadLinkSigner } from './download-link-signer';
+import { MANUSCRIPT_MAX_BYTES, ManuscriptsService } from './manuscripts.service';
+
+describe('ManuscriptsService', () => {
+    let service: ManuscriptsService;
+    let manuscriptsRepository: any;
+    let downloadsRepository: any;
+    let booksRepository: any;
+    let storage: { put: jest.Mock; get: jest.Mock; delete: jest.Mock };
+    let ordersService: { findPaidOrderWithBook: jest.Mock };
+    let publishingBansService: { assertMayPublish: jest.Mock };
+    let manager: any;
+    let latestVersion: { getRawOne: jest.Mock };
+
+    const author = { id: 1, username: 'chewie', authorPseudonym: 'Chewbacca' };
+    const reader = { id: 2, username: 'han' };
+    const signer = new DownloadLinkSigner('test-secret');
+
+    const pdf = Buffer.from('%PDF-1.7\nWookie Tales');
+    const upload = (buffer: Buffer, originalname = 'book.pdf') =>
+        ({ buffer, size: buffer.length, originalname }) as Express.Multer.File;
+
+    beforeEach(async () => {
+        latestVersion = { getRawOne: jest.fn().mockResolvedValue({ latest: null }) };
+        const versionQuery = {
+            select: jest.fn().mockReturnThis(),
+            where: jest.fn().mockReturnThis(),
+            getRawOne: (...args: any[]) => latestVersion.getRawOne(...args),
+        };
+        manager = {
+            create: jest.fn((_entity, values) => values),
+            save: jest.fn(async (entity) => ({ id: 7, ...entity })),
+            createQueryBuilder: jest.fn().mockReturnValue(versionQuery),
+        };
+        manuscriptsRepository = {
+            find: jest.fn(),
+            findOne: jest.fn(),
+        };
+        downloadsRepository = {
+            create: jest.fn((download) => download),
+            save: jest.fn(async (download) => download),
+            createQueryBuilder: jest.fn(),
+        };
+        booksRepository = { findOne: jest.fn() };
+        storage = {
+            put: jest.fn(),
+            get: jest.fn(),
+            delete: jest.fn().mockResolvedValue(undefined),
+        };
+        ordersService = { findPaidOrderWithBook: jest.fn() };
+        publishingBansService = { assertMayPublish: jest.fn() };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                ManuscriptsService,
+                { provide: getRepositoryToken(Manuscript), useValue: manuscriptsRepository },
+                { provide: getRepositoryToken(ManuscriptDownload), useValue: downloadsRepository },
+                { provide: getRepositoryToken(Book), useValue: booksRepository },
+                { provide: FileStorage, useValue: storage },
+                { provide: OrdersService, useValue: ordersService },
+                { provide: PublishingBansService, useValue: publishingBansService },
+                { provide: DownloadLinkSigner, useValue: signer },
+                { provide: DataSource, useValue: { transaction: jest.fn((work) => work(manager)) } },
+            ],
+        }).compile();
+
+        service = module.get<ManuscriptsService>(ManuscriptsService);
+    });
+
+    describe('upload', () => {
+        it('should store the file as the next version of the book', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author });
+            latestVersion.getRawOne.mockResolvedValue({ latest: 2 });
+
+            const manuscript = await service.upload(author, 3, upload(pdf));
+
+            const [key, data, contentType] = storage.put.mock.calls[0];
+            expect(key).toMatch(/^manuscripts\/[0-9a-f-]{36}\/original$/);
+            expect(data).toBe(pdf);
+            expect(contentType).toBe('application/pdf');
+            expect(manager.create).toHaveBeenCalledWith(Asset, expect.objectContaining({ size: pdf.length }));
+            expect(manuscript).toMatchObject({
+                bookId: 3,
+                version: 3,
+                format: 'pdf',
+                assetId: 7,
+                size: pdf.length,
+                checksum: createHash('sha256').update(pdf).digest('hex'),
+            });
+            expect(publishingBansService.assertMayPublish).toHaveBeenCalledWith(author, 'update', 3);
+        });
+
+        it('should start numbering at 1', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author });
+
+            const manuscript = await service.upload(author, 3, upload(Buffer.from('# Chapter 1'), 'book.md'));
+
+            expect(manuscript).toMatchObject({ version: 1, format: 'markdown' });
+        });
+
+        it('should reject missing, oversized and unsupported files', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author });
+
+            await expect(service.upload(author, 3, undefined)).rejects.toThrow(BadRequestException);
+            await expect(
+                service.upload(author, 3, { buffer: pdf, size: MANUSCRIPT_MAX_BYTES + 1 } as any),
+            ).rejects.toThrow(PayloadTooLargeException);
+            await expect(service.upload(author, 3, upload(Buffer.from('plain'), 'book.txt'))).rejects.toThrow(
+                BadRequestException,
+            );
+            expect(storage.put).not.toHaveBeenCalled();
+        });
+
+        it('should only let the author upload manuscripts', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author });
+
+            await expect(service.upload(reader, 3, upload(pdf))).rejects.toThrow(ForbiddenException);
+        });
+
+        it('should refuse banned authors', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author });
+            publishingBansService.assertMayPublish.mockRejectedValue(new ForbiddenException());
+
+            await expect(service.upload(author, 3, upload(pdf))).rejects.toThrow(ForbiddenException);
+        });
+
+        it('should delete the stored file when two uploads race for a version', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author });
+            manager.save
+                .mockImplementationOnce(async (asset) => ({ id: 7, ...asset }))
+                .mockRejectedValueOnce(new QueryFailedError('INSERT', [], new Error('UNIQUE constraint failed')));
+
+            await expect(service.upload(author, 3, upload(pdf))).rejects.toThrow(ConflictException);
+            expect(storage.delete).toHaveBeenCalledWith(storage.put.mock.calls[0][0]);
+        });
+    });
+
+    describe('findByBook', () => {
+        it('should list the versions of the author\'s book', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author });
+            manuscriptsRepository.find.mockResolvedValue([{ version: 2 }, { version: 1 }]);
+
+            await expect(service.findByBook(author, 3)).resolves.toHaveLength(2);
+            expect(manuscriptsRepository.find).toHaveBeenCalledWith({ where: { bookId: 3 }, order: { version: 'DESC' } });
+        });
+
+        it('should hide the versions from other users', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author });
+
+            await expect(service.findByBook(reader, 3)).rejects.toThrow(ForbiddenException);
+        });
+
+        it('should throw NotFoundException for unknown books', async () => {
+            booksRepository.findOne.mockResolvedValue(null);
+
+            await expect(service.findByBook(author, 3)).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('createDownloadLink', () => {
+        const manuscript = { id: 8, bookId: 3, version: 2, format: 'pdf', size: 10, checksum: 'abc' };
+
+        it('should sign a link for buyers of the book', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author });
+            ordersService.findPaidOrderWithBook.mockResolvedValue({ id: 12 });
+            manuscriptsRepository.findOne.mockResolvedValue(manuscript);
+
+            const link = await service.createDownloadLink(reader, 3);
+
+            expect(ordersService.findPaidOrderWithBook).toHaveBeenCalledWith(2, 3);
+            expect(manuscriptsRepository.findOne).toHaveBeenCalledWith({ where: { bookId: 3 }, order: { version: 'DESC' } });
+            expect(link).toMatchObject({ version: 2, format: 'pdf', size: 10, checksum: 'abc' });
+
+            const grant = signer.verify(link.path.replace('/downloads/', ''));
+            expect(grant).toMatchObject({ manuscriptId: 8, userId: 2, orderId: 12 });
+            expect(link.expiresAt.getTime()).toBe(grant.expiresAt * 1000);
+        });
+
+        it('should let the author download any version without an order', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author });
+            manuscriptsRepository.findOne.mockResolvedValue({ ...manuscript, version: 1 });
+
+            const link = await service.createDownloadLink(author, 3, 1);
+
+            expect(ordersService.findPaidOrderWithBook).not.toHaveBeenCalled();
+            expect(manuscriptsRepository.findOne).toHaveBeenCalledWith(
+                expect.objectContaining({ where: { bookId: 3, version: 1 } }),
+            );
+            expect(signer.verify(link.path.replace('/downloads/', ''))).toMatchObject({ orderId: null });
+        });
+
+        it('should refuse users who have not paid for the book', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author });
+            ordersService.findPaidOrderWithBook.mockResolvedValue(null);
+
+            await expect(service.createDownloadLink(reader, 3)).rejects.toThrow(ForbiddenException);
+            expect(manuscriptsRepository.findOne).not.toHaveBeenCalled();
+        });
+
+        it('should throw NotFoundException when the book has no manuscript', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author });
+            manuscriptsRepository.findOne.mockResolvedValue(null);
+
+            await expect(service.createDownloadLink(author, 3)).rejects.toThrow(NotFoundException);
+        });
+
+        it('should reject invalid versions', async () => {
+            await expect(service.createDownloadLink(author, 3, 0)).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('download', () => {
+        const manuscript = { id: 8, bookId: 3, version: 2, format: 'epub', asset: { storageKey: 'manuscripts/abc' } };
+
+        it('should return the file and record the download', async () => {
+            const data = Buffer.from('epub');
+            manuscriptsRepository.findOne.mockResolvedValue(manuscript);
+            storage.get.mockResolvedValue(data);
+            const { token } = signer.sign({ manuscriptId: 8, userId: 2, orderId: 12 });
+
+            const file = await service.download(token, { ip: '::1', userAgent: 'curl/8' });
+
+            expect(storage.get).toHaveBeenCalledWith('manuscripts/abc/original');
+            expect(file).toEqual({ data, contentType: 'application/epub+zip', fileName: 'book-3-v2.epub' });
+            expect(downloadsRepository.save).toHaveBeenCalledWith({
+                manuscriptId: 8,
+                bookId: 3,
+                version: 2,
+                userId: 2,
+                orderId: 12,
+                ip: '::1',
+                userAgent: 'curl/8',
+            });
+        });
+
+        it('should refuse invalid and expired links', async () => {
+            const { token } = signer.sign({ manuscriptId: 8, userId: 2, orderId: 12 }, Date.now() - 3_600_000);
+
+            await expect(service.download(token)).rejects.toThrow(ForbiddenException);
+            await expect(service.download('not-a-token')).rejects.toThrow(ForbiddenException);
+            expect(downloadsRepository.save).not.toHaveBeenCalled();
+        });
+
+        it('should throw NotFoundException when the file is gone', async () => {
+            manuscriptsRepository.findOne.mockResolvedValue(manuscript);
+            storage.get.mockResolvedValue(null);
+            const { token } = signer.sign({ manuscriptId: 8, userId: 2, orderId: 12 });
+
+            await expect(service.download(token)).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('findDownloads', () => {
+        it('should return a page of the book\'s downloads', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author });
+            const queryBuilder = {
+                where: jest.fn().mockReturnThis(),
+                orderBy: jest.fn().mockReturnThis(),
+                addOrderBy: jest.fn().mockReturnThis(),
+                offset: jest.fn().mockReturnThis(),
+                limit: jest.fn().mockReturnThis(),
+                getCount: jest.fn().mockResolvedValue(1),
+                getMany: jest.fn().mockResolvedValue([{ id: 1 }]),
+            };
+            downloadsRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+            const page = await service.findDownloads(author, 3);
+
+            expect(queryBuilder.where).toHaveBeenCalledWith('download.bookId = :bookId', { bookId: 3 });
+            expect(queryBuilder.orderBy).toHaveBeenCalledWith('download.id', 'DESC');
+            expect(page.data).toEqual([{ id: 1 }]);
+        });
+
+        it('should hide the downloads from other users', async () => {
+            booksRepository.findOne.mockResolvedValue({ id: 3, author });
+
+            await expect(service.findDownloads(reader, 3)).rejects.toThrow(ForbiddenException);
+        });
+    });
+});
@@ -0,0 +1,329 @@
+import {
+    Injectable,
+    BadRequestException,
+    ConflictException,
+    ForbiddenException,
+    NotFoundException,
+    PayloadTooLargeException,
+    InternalServerErrorException,
+    HttpException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, QueryFailedError, Repository } from 'typeorm';
+import { createHash, randomUUID } from 'crypto';
+import { User } from '../users/user.entity';
+import { Book } from '../books/book.entity';
+import { Asset, FileStorage } from '../storage';
+import { OrdersService } from '../orders/orders.service';
+import { PublishingBansService } from '../publishing-bans/publishing-bans.service';
+import { Paginated, PaginationQueryDto, SortKey, paginate, parsePagination, parseSort } from '../common/pagination';
+import { Manuscript } from './manuscript.entity';
+import { ManuscriptDownload } from './manuscript-download.entity';
+import { MANUSCRIPT_FORMATS, ManuscriptFormat, detectManuscriptFormat } from './manuscript-formats';
+import { DownloadLinkSigner } from './download-link-signer';
+import { BookNotFoundException, NotResourceOwnerException } from '../common/errors';
+
+/**
+ * Largest accepted manuscript upload in bytes.
+ */
+export const MANUSCRIPT_MAX_BYTES = 20 * 1024 * 1024;
+
+const DOWNLOAD_SORT_TIE_BREAKER: SortKey = { field: 'id', column: 'download.id', direction: 'DESC' };
+
+/**
+ * A short-lived link to a manuscript version.
+ */
+export interface ManuscriptDownloadLink {
+    /** Path of the link, relative to the API root */
+    path: string;
+    expiresAt: Date;
+    version: number;
+    format: ManuscriptFormat;
+    size: number;
+    checksum: string;
+}
+
+/**
+ * A manuscript read from storage, ready to be sent.
+ */
+export interface ManuscriptFile {
+    data: Buffer;
+    contentType: string;
+    fileName: string;
+}
+
+/**
+ * Who followed a download link, for the audit trail.
+ */
+export interface DownloadClient {
+    ip?: string | null;
+    userAgent?: string | null;
+}
+
+@Injectable()
+export class ManuscriptsService {
+    constructor(
+        @InjectRepository(Manuscript)
+        private readonly manuscriptsRepository: Repository<Manuscript>,
+
+        @InjectRepository(ManuscriptDownload)
+        private readonly downloadsRepository: Repository<ManuscriptDownload>,
+
+        @InjectRepository(Book)
+        private readonly booksRepository: Repository<Book>,
+
+        private readonly storage: FileStorage,
+
+        private readonly ordersService: OrdersService,
+
+        private readonly publishingBansService: PublishingBansService,
+
+        private readonly downloadLinkSigner: DownloadLinkSigner,
+
+        private readonly dataSource: DataSource,
+    ) { }
+
+    /**
+     * Stores a new manuscript version of a book; earlier versions are kept.
+     * @param user - The user uploading the manuscript.
+     * @param bookId - ID of the book.
+     * @param file - The uploaded EPUB, PDF or Markdown file.
+     * @returns The new version or throws an exception if the file is invalid, or the user is not authorized or banned.
+     */
+    async upload(user: Pick<User, 'id'>, bookId: number, file: Express.Multer.File | undefined): Promise<Manuscript> {
+        let storageKey: string | undefined;
+
+        try {
+            if (!file?.buffer?.length) {
+                throw new BadRequestException('A manuscript file is required');
+            }
+
+            if (file.size > MANUSCRIPT_MAX_BYTES) {
+                throw new PayloadTooLargeException(`Manuscripts may not be larger than ${MANUSCRIPT_MAX_BYTES} bytes`);
+            }
+
+            const book = await this.findOwnBook(user, bookId, 'update');
+            await this.publishingBansService.assertMayPublish(book.author, 'update', book.id);
+
+            const format = detectManuscriptFormat(file.buffer, file.originalname);
+            if (!format) {
+                throw new BadRequestException('Manuscripts must be EPUB, PDF or Markdown (.md) files');
+            }
+
+            const checksum = createHash('sha256').update(file.buffer).digest('hex');
+            storageKey = `manuscripts/${randomUUID()}`;
+            await this.storage.put(`${storageKey}/original`, file.buffer, MANUSCRIPT_FORMATS[format].contentType);
+
+            return await this.dataSource.transaction(async (manager) => {
+                const asset = await manager.save(
+                    manager.create(Asset, {
+                        storageKey,
+                        contentType: MANUSCRIPT_FORMATS[format].contentType,
+                        size: file.buffer.length,
+                        checksum,
+                    }),
+                );
+                const { latest } = await manager
+                    .createQueryBuilder(Manuscript, 'manuscript')
+                    .select('MAX(manuscript.version)', 'latest')
+                    .where('manuscript.bookId = :bookId', { bookId })
+                    .getRawOne();
+
+                return manager.save(
+                    manager.create(Manuscript, {
+                        bookId,
+                        version: Number(latest ?? 0) + 1,
+                        format,
+                        assetId: asset.id,
+                        size: asset.size,
+                        checksum,
+                    }),
+                );
+            });
+        } catch (error) {
+            if (storageKey) {
+                await this.storage.delete(`${storageKey}/original`).catch(() => undefined);
+            }
+
+            if (error instanceof QueryFailedError && /UNIQUE constraint failed/i.test(error.message)) {
+                throw new ConflictException('Another manuscript was uploaded at the same time; please retry');
+            }
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while uploading the manuscript', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Lists the manuscript versions of one of the user's books, newest first.
+     * @param user - The author.
+     * @param bookId - ID of the book.
+     * @returns The versions or throws an exception if the book is not found or belongs to someone else.
+     */
+    async findByBook(user: Pick<User, 'id'>, bookId: number): Promise<Manuscript[]> {
+        try {
+            await this.findOwnBook(user, bookId, 'view the manuscripts of');
+
+            return await this.manuscriptsRepository.find({ where: { bookId }, order: { version: 'DESC' } });
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while fetching the manuscripts', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Issues a short-lived download link for a manuscript. Authors may fetch every
+     * version of their books; other users need a paid order containing the book.
+     * @param user - The user asking for the link.
+     * @param bookId - ID of the book.
+     * @param version - The version to download; the latest by default.
+     * @returns The link or throws an exception if the book or version is not found or the user does not own the book.
+     */
+    async createDownloadLink(user: Pick<User, 'id'>, bookId: number, version?: number): Promise<ManuscriptDownloadLink> {
+        try {
+            if (version !== undefined && (!Number.isInteger(version) || version < 1)) {
+                throw new BadRequestException('version must be a positive integer');
+            }
+
+            const book = await this.booksRepository.findOne({ where: { id: bookId }, relations: ['author'] });
+
+            if (!book) {
+                throw new BookNotFoundException();
+            }
+
+            let orderId: number | null = null;
+            if (book.author?.id !== user.id) {
+                const order = await this.ordersService.findPaidOrderWithBook(user.id, bookId);
+                if (!order) {
+                    throw new ForbiddenException('Only buyers of this book can download it');
+                }
+                orderId = order.id;
+            }
+
+            const manuscript = await this.manuscriptsRepository.findOne({
+                where: version === undefined ? { bookId } : { bookId, version },
+                order: { version: 'DESC' },
+            });
+
+            if (!manuscript) {
+                throw new NotFoundException(version === undefined ? 'The book has no manuscript yet' : 'Manuscript version not found');
+            }
+
+            const { token, expiresAt } = this.downloadLinkSigner.sign({ manuscriptId: manuscript.id, userId: user.id, orderId });
+
+            return {
+                path: `/downloads/${token}`,
+                expiresAt,
+                version: manuscript.version,
+                format: manuscript.format,
+                size: manuscript.size,
+                checksum: manuscript.checksum,
+            };
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while creating the download link', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Reads the manuscript behind a download link and records the download.
+     * @param token - The token of the link.
+     * @param client - Address and user agent of the downloader, for the audit trail.
+     * @returns The file or throws an exception if the link is invalid or expired, or the file is gone.
+     */
+    async download(token: string, client: DownloadClient = {}): Promise<ManuscriptFile> {
+        try {
+            const grant = this.downloadLinkSigner.verify(token);
+
+            if (!grant) {
+                throw new ForbiddenException('The download link is invalid or has expired');
+            }
+
+            const manuscript = await this.manuscriptsRepository.findOne({
+                where: { id: grant.manuscriptId },
+                relations: ['asset'],
+            });
+            const data = manuscript && (await this.storage.get(`${manuscript.asset.storageKey}/original`));
+
+            if (!data) {
+                throw new NotFoundException('Manuscript not found');
+            }
+
+            await this.downloadsRepository.save(
+                this.downloadsRepository.create({
+                    manuscriptId: manuscript.id,
+                    bookId: manuscript.bookId,
+                    version: manuscript.version,
+                    userId: grant.userId,
+                    orderId: grant.orderId,
+                    ip: client.ip ?? null,
+                    userAgent: client.userAgent?.slice(0, 500) ?? null,
+                }),
+            );
+
+            const { contentType, extension } = MANUSCRIPT_FORMATS[manuscript.format];
+            return { data, contentType, fileName: `book-${manuscript.bookId}-v${manuscript.version}.${extension}` };
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while downloading the manuscript', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Lists the downloads of one of the user's books, newest first.
+     * @param user - The author.
+     * @param bookId - ID of the book.
+     * @param query - Pagination (`page`, `limit`, `cursor`) and `sort` over `id`.
+     * @returns One page of downloads or throws an exception if the book is not found or belongs to someone else.
+     */
+    async findDownloads(user: Pick<User, 'id'>, bookId: number, query: PaginationQueryDto = {}): Promise<Paginated<ManuscriptDownload>> {
+        try {
+            await this.findOwnBook(user, bookId, 'view the downloads of');
+
+            const sort = parseSort(query.sort, { id: 'download.id' }, [DOWNLOAD_SORT_TIE_BREAKER], DOWNLOAD_SORT_TIE_BREAKER);
+            const pagination = parsePagination(query, sort);
+            const queryBuilder = this.downloadsRepository
+                .createQueryBuilder('download')
+                .where('download.bookId = :bookId', { bookId });
+
+            return await paginate(queryBuilder, sort, pagination);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while fetching the downloads', { cause: error });
+        }
+    }
+
+    /**
+     * Loads a book with its author, checking that the user wrote it.
+     */
+    private async findOwnBook(user: Pick<User, 'id'>, bookId: number, action: string): Promise<Book> {
+        const book = await this.booksRepository.findOne({ where: { id: bookId }, relations: ['author'] });
+
+        if (!book) {
+            throw new BookNotFoundException();
+        }
+
+        if (!book.author || book.author.id !== user.id) {
+            throw new NotResourceOwnerException(`You are not authorized to ${action} this book`);
+        }
+
+        return book;
+    }
+}
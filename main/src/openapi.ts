@@ -0,0 +1,43 @@
+import { INestApplication } from '@nestjs/common';
+import { DocumentBuilder, OpenAPIObject, SwaggerModule } from '@nestjs/swagger';
+import { AuthModule } from './auth/auth.module';
+import { BooksModule } from './books/books.module';
+import { UsersModule } from './users/users.module';
+import { OPENAPI_BEARER_AUTH } from './common/openapi';
+
+/**
+ * Path of the interactive API documentation; the document itself is served at `/docs.json`.
+ */
+export const OPENAPI_PATH = 'docs';
+
+const DESCRIPTION =
+  'Books, authors and accounts of the Wookie Books store. Every endpoint also speaks XML: send ' +
+  '`Accept: application/xml` or an XML body. Failures answer with an `ErrorResponseDto` body.';
+
+/**
+ * Builds the OpenAPI 3 document of the auth, users and books endpoints. DTO
+ * schemas, query parameters and route descriptions are added by the
+ * `@nestjs/swagger` compiler plugin, so they are only complete in `nest build` output.
+ *
+ * @param app - The application, created but not necessarily listening
+ */
+export function buildOpenApiDocument(app: INestApplication): OpenAPIObject {
+  const config = new DocumentBuilder()
+    .setTitle('Wookie Books')
+    .setDescription(DESCRIPTION)
+    .setVersion('1.0')
+    .addBearerAuth({ type: 'http', scheme: 'bearer', bearerFormat: 'JWT' }, OPENAPI_BEARER_AUTH)
+    .addSecurityRequirements(OPENAPI_BEARER_AUTH)
+    .build();
+
+  return SwaggerModule.createDocument(app, config, { include: [AuthModule, UsersModule, BooksModule] });
+}
+
+/**
+ * Serves the Swagger UI at `/docs` and the OpenAPI document at `/docs.json`.
+ *
+ * @param app - The application, before it starts listening
+ */
+export function setupOpenApi(app: INestApplication): void {
+  SwaggerModule.setup(OPENAPI_PATH, app, buildOpenApiDocument(app), { jsonDocumentUrl: `${OPENAPI_PATH}.json` });
+}
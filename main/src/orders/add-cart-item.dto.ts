@@ -0,0 +1,28 @@
+import { Transform } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+import { toNumber } from '../common/validation';
+import { CART_MAX_QUANTITY } from './cart.service';
+
+/**
+ * DTO for adding a book to the cart
+ */
+export class AddCartItemDto {
+    /**
+     * The ID of a published book
+     * @example 1
+     */
+    @Transform(toNumber)
+    @IsInt()
+    bookId: number;
+
+    /**
+     * Number of copies to add, 1 by default
+     * @example 1
+     */
+    @Transform(toNumber)
+    @IsInt()
+    @Min(1)
+    @Max(CART_MAX_QUANTITY)
+    @IsOptional()
+    quantity?: number;
+}
@@ -0,0 +1,34 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, Index } from 'typeorm';
+import { Exclude } from 'class-transformer';
+import { Book } from '../books/book.entity';
+import { Cart } from './cart.entity';
+
+@Entity()
+@Index(['cartId', 'bookId'], { unique: true })
+export class CartItem {
+    @PrimaryGeneratedColumn()
+    @Exclude()
+    id: number;
+
+    @ManyToOne(() => Cart, (cart) => cart.items, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'cartId' })
+    @Exclude()
+    cart: Cart;
+
+    @Column()
+    @Exclude()
+    cartId: number;
+
+    @ManyToOne(() => Book, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'bookId' })
+    book: Book;
+
+    @Column()
+    bookId: number;
+
+    @Column({ default: 1 })
+    quantity: number;
+
+    @CreateDateColumn()
+    addedAt: Date;
+}
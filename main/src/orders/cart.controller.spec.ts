@@ -0,0 +1,82 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, InternalServerErrorException } from '@nestjs/common';
+import { CartController } from './cart.controller';
+import { CartService } from './cart.service';
+import { OrdersService } from './orders.service';
+
+describe('CartController', () => {
+    let cartController: CartController;
+    let cartService: Partial<CartService>;
+    let ordersService: Partial<OrdersService>;
+
+    const req = { user: { id: 5 } };
+
+    beforeEach(async () => {
+        cartService = {
+            getCart: jest.fn(),
+            addItem: jest.fn(),
+            setQuantity: jest.fn(),
+            removeItem: jest.fn(),
+        };
+        ordersService = {
+            checkout: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [CartController],
+            providers: [
+                { provide: CartService, useValue: cartService },
+                { provide: OrdersService, useValue: ordersService },
+            ],
+        }).compile();
+
+        cartController = module.get<CartController>(CartController);
+    });
+
+    describe('addItem', () => {
+        it('should add one copy by default', async () => {
+            jest.spyOn(cartService, 'addItem').mockResolvedValue({ items: [] } as any);
+
+            await cartController.addItem(req, { bookId: 3 });
+
+            expect(cartService.addItem).toHaveBeenCalledWith(5, 3, 1);
+        });
+
+        it('should reject a missing book ID', async () => {
+            await expect(cartController.addItem(req, {} as any)).rejects.toThrow(BadRequestException);
+            expect(cartService.addItem).not.toHaveBeenCalled();
+        });
+
+        it('should rethrow ConflictException for unpublished books', async () => {
+            jest.spyOn(cartService, 'addItem').mockRejectedValue(new ConflictException());
+
+            await expect(cartController.addItem(req, { bookId: 3 })).rejects.toThrow(ConflictException);
+        });
+    });
+
+    describe('updateItem', () => {
+        it('should pass the new quantity on', async () => {
+            jest.spyOn(cartService, 'setQuantity').mockResolvedValue({ items: [] } as any);
+
+            await cartController.updateItem(req, 3, { quantity: 2 });
+
+            expect(cartService.setQuantity).toHaveBeenCalledWith(5, 3, 2);
+        });
+    });
+
+    describe('checkout', () => {
+        it('should return the created order', async () => {
+            const order = { id: 9, status: 'pending', total: 19.99, items: [] };
+            jest.spyOn(ordersService, 'checkout').mockResolvedValue(order as any);
+
+            expect(await cartController.checkout(req)).toEqual(order);
+            expect(ordersService.checkout).toHaveBeenCalledWith(5);
+        });
+
+        it('should wrap unexpected errors', async () => {
+            jest.spyOn(ordersService, 'checkout').mockRejectedValue(new Error('boom'));
+
+            await expect(cartController.checkout(req)).rejects.toThrow(InternalServerErrorException);
+        });
+    });
+});
@@ -0,0 +1,136 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Patch,
+    Delete,
+    Param,
+    Body,
+    Req,
+    ParseIntPipe,
+    BadRequestException,
+    InternalServerErrorException,
+    HttpException,
+} from '@nestjs/common';
+import { instanceToPlain } from 'class-transformer';
+import { XmlRoot } from '../common/xml';
+import { CartService } from './cart.service';
+import { OrdersService } from './orders.service';
+import { AddCartItemDto } from './add-cart-item.dto';
+import { UpdateCartItemDto } from './update-cart-item.dto';
+
+@Controller('cart')
+@XmlRoot('cart')
+export class CartController {
+    constructor(
+        private readonly cartService: CartService,
+        private readonly ordersService: OrdersService,
+    ) { }
+
+    /**
+     * Retrieves the authenticated user's cart
+     *
+     * @param req - The request object containing the authenticated user
+     * @returns The cart items with their books and the current total
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Get()
+    async getCart(@Req() req) {
+        return instanceToPlain(await this.cartService.getCart(req.user.id));
+    }
+
+    /**
+     * Adds a book to the authenticated user's cart
+     *
+     * @param req - The request object containing the authenticated user
+     * @param body - The book and the number of copies
+     * @returns The updated cart
+     * @throws BadRequestException if the book ID or quantity is invalid
+     * @throws NotFoundException if the book does not exist
+     * @throws ConflictException if the book is not published
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Post('items')
+    async addItem(@Req() req, @Body() body: AddCartItemDto) {
+        try {
+            if (!Number.isInteger(body?.bookId)) {
+                throw new BadRequestException('bookId must be an integer');
+            }
+
+            return instanceToPlain(await this.cartService.addItem(req.user.id, body.bookId, body.quantity ?? 1));
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while adding the book to the cart', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Changes the number of copies of a book in the authenticated user's cart
+     *
+     * @param req - The request object containing the authenticated user
+     * @param bookId - The ID of the book
+     * @param body - The new number of copies
+     * @returns The updated cart
+     * @throws BadRequestException if the quantity is invalid
+     * @throws NotFoundException if the book is not in the cart
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Patch('items/:bookId')
+    async updateItem(@Req() req, @Param('bookId', ParseIntPipe) bookId: number, @Body() body: UpdateCartItemDto) {
+        try {
+            return instanceToPlain(await this.cartService.setQuantity(req.user.id, bookId, body?.quantity));
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while updating the cart', { cause: error });
+        }
+    }
+
+    /**
+     * Removes a book from the authenticated user's cart
+     *
+     * @param req - The request object containing the authenticated user
+     * @param bookId - The ID of the book
+     * @returns The updated cart
+     * @throws NotFoundException if the book is not in the cart
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Delete('items/:bookId')
+    async removeItem(@Req() req, @Param('bookId', ParseIntPipe) bookId: number) {
+        try {
+            return instanceToPlain(await this.cartService.removeItem(req.user.id, bookId));
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while updating the cart', { cause: error });
+        }
+    }
+
+    /**
+     * Places an order for everything in the authenticated user's cart and empties the cart
+     *
+     * @param req - The request object containing the authenticated user
+     * @returns The created order, with the titles and prices at checkout
+     * @throws BadRequestException if the cart is empty
+     * @throws ConflictException if a book in the cart is no longer published
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Post('checkout')
+    @XmlRoot('order')
+    async checkout(@Req() req) {
+        try {
+            return instanceToPlain(await this.ordersService.checkout(req.user.id));
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while checking out', { cause: error });
+        }
+    }
+}
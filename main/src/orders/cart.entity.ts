@@ -0,0 +1,37 @@
+import { Entity, PrimaryGeneratedColumn, Column, OneToOne, OneToMany, JoinColumn } from 'typeorm';
+import { Exclude, Expose } from 'class-transformer';
+import { User } from '../users/user.entity';
+import { CartItem } from './cart-item.entity';
+import { Money } from '../common/money';
+import { totalOf } from './order-total';
+
+@Entity()
+export class Cart {
+    @PrimaryGeneratedColumn()
+    @Exclude()
+    id: number;
+
+    @OneToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    @Exclude()
+    user: User;
+
+    @Column({ unique: true })
+    @Exclude()
+    userId: number;
+
+    @OneToMany(() => CartItem, (item) => item.cart)
+    items: CartItem[];
+
+    /** Current price of the books in the cart; `null` while it mixes currencies, which checkout rejects */
+    @Expose()
+    get total(): Money | null {
+        const lines = (this.items ?? []).map((item) => ({ unitPrice: item.book.price, quantity: item.quantity }));
+
+        if (new Set(lines.map((line) => line.unitPrice.currency)).size > 1) {
+            return null;
+        }
+
+        return totalOf(lines);
+    }
+}
@@ -0,0 +1,170 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { instanceToPlain } from 'class-transformer';
+import { Book } from '../books/book.entity';
+import { BookStatus } from '../books/book-lifecycle';
+import { Money } from '../common/money';
+import { Cart } from './cart.entity';
+import { CartItem } from './cart-item.entity';
+import { CART_MAX_QUANTITY, CartService } from './cart.service';
+
+describe('CartService', () => {
+    let service: CartService;
+    let cartsRepository: any;
+    let cartItemsRepository: any;
+    let booksRepository: any;
+
+    const publishedBook = { id: 3, title: 'Wookie Tales', priceMinor: 1999, currency: 'EUR', status: BookStatus.Published };
+
+    beforeEach(async () => {
+        cartsRepository = {
+            findOne: jest.fn().mockResolvedValue({ id: 1, userId: 5 }),
+            create: jest.fn((cart) => Object.assign(new Cart(), cart)),
+            save: jest.fn(async (cart) => ({ id: 1, ...cart })),
+        };
+        cartItemsRepository = {
+            findOne: jest.fn().mockResolvedValue(null),
+            exists: jest.fn().mockResolvedValue(false),
+            save: jest.fn(async (item) => item),
+            delete: jest.fn(),
+        };
+        booksRepository = {
+            findOne: jest.fn().mockResolvedValue(publishedBook),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                CartService,
+                { provide: getRepositoryToken(Cart), useValue: cartsRepository },
+                { provide: getRepositoryToken(CartItem), useValue: cartItemsRepository },
+                { provide: getRepositoryToken(Book), useValue: booksRepository },
+            ],
+        }).compile();
+
+        service = module.get<CartService>(CartService);
+    });
+
+    describe('getCart', () => {
+        it('should return an empty cart for users without one', async () => {
+            cartsRepository.findOne.mockResolvedValue(null);
+
+            const cart = await service.getCart(5);
+
+            expect(instanceToPlain(cart)).toEqual({ items: [], total: { amount: '0.00', currency: 'EUR' } });
+        });
+
+        it('should total the current book prices exactly', async () => {
+            cartsRepository.findOne.mockResolvedValue(
+                Object.assign(new Cart(), {
+                    id: 1,
+                    userId: 5,
+                    items: [
+                        { bookId: 3, quantity: 3, book: { price: Money.of(1999, 'EUR') } },
+                        { bookId: 4, quantity: 1, book: { price: Money.of(10, 'EUR') } },
+                    ],
+                }),
+            );
+
+            const cart = await service.getCart(5);
+
+            expect(cart.total).toEqual(Money.of(6007, 'EUR'));
+        });
+
+        it('should have no total while the books are priced in different currencies', async () => {
+            cartsRepository.findOne.mockResolvedValue(
+                Object.assign(new Cart(), {
+                    items: [
+                        { bookId: 3, quantity: 1, book: { price: Money.of(1999, 'EUR') } },
+                        { bookId: 4, quantity: 1, book: { price: Money.of(2500, 'JPY') } },
+                    ],
+                }),
+            );
+
+            const cart = await service.getCart(5);
+
+            expect(cart.total).toBeNull();
+        });
+    });
+
+    describe('addItem', () => {
+        it('should add a published book to the cart', async () => {
+            await service.addItem(5, 3, 2);
+
+            expect(cartItemsRepository.save).toHaveBeenCalledWith({ cartId: 1, bookId: 3, quantity: 2 });
+        });
+
+        it('should create the cart on first use', async () => {
+            cartsRepository.findOne.mockResolvedValueOnce(null);
+
+            await service.addItem(5, 3);
+
+            expect(cartsRepository.save).toHaveBeenCalledWith(expect.objectContaining({ userId: 5 }));
+            expect(cartItemsRepository.save).toHaveBeenCalledWith({ cartId: 1, bookId: 3, quantity: 1 });
+        });
+
+        it('should add to the copies already in the cart', async () => {
+            cartItemsRepository.findOne.mockResolvedValue({ id: 7, cartId: 1, bookId: 3, quantity: 2 });
+
+            await service.addItem(5, 3, 1);
+
+            expect(cartItemsRepository.save).toHaveBeenCalledWith({ id: 7, cartId: 1, bookId: 3, quantity: 3 });
+        });
+
+        it('should refuse books that are not published', async () => {
+            booksRepository.findOne.mockResolvedValue({ ...publishedBook, status: BookStatus.Draft });
+
+            await expect(service.addItem(5, 3)).rejects.toThrow(ConflictException);
+            expect(cartItemsRepository.save).not.toHaveBeenCalled();
+        });
+
+        it('should refuse books priced in another currency than the cart', async () => {
+            cartItemsRepository.exists.mockResolvedValue(true);
+
+            await expect(service.addItem(5, 3)).rejects.toThrow(ConflictException);
+            expect(cartItemsRepository.exists).toHaveBeenCalledWith({
+                where: { cartId: 1, book: { currency: expect.objectContaining({ _type: 'not', _value: 'EUR' }) } },
+            });
+            expect(cartItemsRepository.save).not.toHaveBeenCalled();
+        });
+
+        it('should throw NotFoundException for unknown books', async () => {
+            booksRepository.findOne.mockResolvedValue(null);
+
+            await expect(service.addItem(5, 3)).rejects.toThrow(NotFoundException);
+        });
+
+        it('should reject invalid quantities, including totals above the limit', async () => {
+            await expect(service.addItem(5, 3, 0)).rejects.toThrow(BadRequestException);
+            await expect(service.addItem(5, 3, 1.5)).rejects.toThrow(BadRequestException);
+
+            cartItemsRepository.findOne.mockResolvedValue({ id: 7, quantity: CART_MAX_QUANTITY });
+            await expect(service.addItem(5, 3, 1)).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('setQuantity', () => {
+        it('should change the number of copies', async () => {
+            cartItemsRepository.findOne.mockResolvedValue({ id: 7, bookId: 3, quantity: 2 });
+
+            await service.setQuantity(5, 3, 4);
+
+            expect(cartItemsRepository.findOne).toHaveBeenCalledWith({ where: { bookId: 3, cart: { userId: 5 } } });
+            expect(cartItemsRepository.save).toHaveBeenCalledWith({ id: 7, bookId: 3, quantity: 4 });
+        });
+
+        it('should throw NotFoundException if the book is not in the cart', async () => {
+            await expect(service.setQuantity(5, 3, 1)).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('removeItem', () => {
+        it('should delete the item', async () => {
+            cartItemsRepository.findOne.mockResolvedValue({ id: 7, bookId: 3, quantity: 2 });
+
+            await service.removeItem(5, 3);
+
+            expect(cartItemsRepository.delete).toHaveBeenCalledWith(7);
+        });
+    });
+});
@@ -0,0 +1,166 @@
+import {
+    Injectable,
+    BadRequestException,
+    ConflictException,
+    NotFoundException,
+    InternalServerErrorException,
+    HttpException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Not, Repository } from 'typeorm';
+import { Book } from '../books/book.entity';
+import { BookStatus } from '../books/book-lifecycle';
+import { Cart } from './cart.entity';
+import { CartItem } from './cart-item.entity';
+import { BookNotFoundException } from '../common/errors';
+
+/**
+ * Most copies of one book a cart may hold.
+ */
+export const CART_MAX_QUANTITY = 10;
+
+@Injectable()
+export class CartService {
+    constructor(
+        @InjectRepository(Cart)
+        private readonly cartsRepository: Repository<Cart>,
+
+        @InjectRepository(CartItem)
+        private readonly cartItemsRepository: Repository<CartItem>,
+
+        @InjectRepository(Book)
+        private readonly booksRepository: Repository<Book>,
+    ) { }
+
+    /**
+     * Finds the cart of a user with its books.
+     * @param userId - ID of the user.
+     * @returns The cart, empty and unsaved if the user has none yet.
+     */
+    async getCart(userId: number): Promise<Cart> {
+        try {
+            const cart = await this.cartsRepository.findOne({
+                where: { userId },
+                relations: ['items', 'items.book'],
+                order: { items: { id: 'ASC' } },
+            });
+
+            return cart ?? this.cartsRepository.create({ userId, items: [] });
+        } catch (error) {
+            throw new InternalServerErrorException('An error occurred while fetching the cart', { cause: error });
+        }
+    }
+
+    /**
+     * Adds copies of a published book to a user's cart.
+     * @param userId - ID of the user.
+     * @param bookId - ID of the book.
+     * @param quantity - Number of copies to add, 1 by default.
+     * @returns The updated cart or throws an exception if the book cannot be bought, is priced in another currency than the cart or the quantity is invalid.
+     */
+    async addItem(userId: number, bookId: number, quantity: number = 1): Promise<Cart> {
+        try {
+            this.assertQuantity(quantity);
+
+            const book = await this.booksRepository.findOne({ where: { id: bookId } });
+
+            if (!book) {
+                throw new BookNotFoundException();
+            }
+
+            if (book.status !== BookStatus.Published) {
+                throw new ConflictException('Only published books can be bought');
+            }
+
+            const cart = await this.findOrCreateCart(userId);
+            const otherCurrency = await this.cartItemsRepository.exists({
+                where: { cartId: cart.id, book: { currency: Not(book.currency) } },
+            });
+
+            if (otherCurrency) {
+                throw new ConflictException(
+                    `Your cart holds books priced in another currency than ${book.currency}; check out before adding this book`,
+                );
+            }
+
+            const item = await this.cartItemsRepository.findOne({ where: { cartId: cart.id, bookId } });
+            const total = (item?.quantity ?? 0) + quantity;
+
+            this.assertQuantity(total);
+            await this.cartItemsRepository.save(item ? { ...item, quantity: total } : { cartId: cart.id, bookId, quantity });
+
+            return this.getCart(userId);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while adding the book to the cart', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Changes the number of copies of a book in a user's cart.
+     * @param userId - ID of the user.
+     * @param bookId - ID of the book.
+     * @param quantity - The new number of copies.
+     * @returns The updated cart or throws an exception if the book is not in the cart or the quantity is invalid.
+     */
+    async setQuantity(userId: number, bookId: number, quantity: number): Promise<Cart> {
+        try {
+            this.assertQuantity(quantity);
+
+            const item = await this.findItem(userId, bookId);
+            await this.cartItemsRepository.save({ ...item, quantity });
+
+            return this.getCart(userId);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while updating the cart', { cause: error });
+        }
+    }
+
+    /**
+     * Removes a book from a user's cart.
+     * @param userId - ID of the user.
+     * @param bookId - ID of the book.
+     * @returns The updated cart or throws an exception if the book is not in the cart.
+     */
+    async removeItem(userId: number, bookId: number): Promise<Cart> {
+        try {
+            const item = await this.findItem(userId, bookId);
+            await this.cartItemsRepository.delete(item.id);
+
+            return this.getCart(userId);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while updating the cart', { cause: error });
+        }
+    }
+
+    private async findOrCreateCart(userId: number): Promise<Cart> {
+        const cart = await this.cartsRepository.findOne({ where: { userId } });
+        return cart ?? this.cartsRepository.save(this.cartsRepository.create({ userId }));
+    }
+
+    private async findItem(userId: number, bookId: number): Promise<CartItem> {
+        const item = await this.cartItemsRepository.findOne({ where: { bookId, cart: { userId } } });
+
+        if (!item) {
+            throw new NotFoundException('Book is not in your cart');
+        }
+
+        return item;
+    }
+
+    private assertQuantity(quantity: number): void {
+        if (!Number.isInteger(quantity) || quantity < 1 || quantity > CART_MAX_QUANTITY) {
+            throw new BadRequestException(`quantity must be an integer between 1 and ${CART_MAX_QUANTITY}`);
+        }
+    }
+}
@@ -0,0 +1,54 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn } from 'typeorm';
+import { Exclude, Expose } from 'class-transformer';
+import { Money } from '../common/money';
+import { Book } from '../books/book.entity';
+import { Order } from './order.entity';
+
+@Entity()
+export class OrderItem {
+    @PrimaryGeneratedColumn()
+    @Exclude()
+    id: number;
+
+    @ManyToOne(() => Order, (order) => order.items, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'orderId' })
+    @Exclude()
+    order: Order;
+
+    @Column()
+    @Exclude()
+    orderId: number;
+
+    @ManyToOne(() => Book, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'bookId' })
+    @Exclude()
+    book: Book | null;
+
+    @Column({ type: 'integer', nullable: true })
+    bookId: number | null;
+
+    /** Title and price at checkout; later edits to the book do not change past orders */
+    @Column()
+    title: string;
+
+    @Column('integer')
+    @Exclude()
+    unitPriceMinor: number;
+
+    @Column({ length: 3 })
+    @Exclude()
+    currency: string;
+
+    @Column()
+    quantity: number;
+
+    @Expose()
+    get unitPrice(): Money {
+        return Money.of(this.unitPriceMinor, this.currency);
+    }
+
+    set unitPrice(unitPrice: Money) {
+        this.unitPriceMinor = unitPrice.minorUnits;
+        this.currency = unitPrice.currency;
+    }
+}
@@ -0,0 +1,8 @@
+/**
+ * States of an order. Checkout creates orders awaiting payment; a successful
+ * payment marks them paid.
+ */
+export enum OrderStatus {
+    Pending = 'pending',
+    Paid = 'paid',
+}
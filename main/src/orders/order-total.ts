@@ -0,0 +1,21 @@
+import { Money } from '../common/money';
+
+/**
+ * A priced line of a cart or order.
+ */
+export interface PricedLine {
+    unitPrice: Money;
+    quantity: number;
+}
+
+/**
+ * Sums the lines of a cart or order.
+ *
+ * @param lines - The lines to sum, all in one currency
+ * @param currency - Currency of the total when there are no lines
+ * @returns The exact total
+ * @throws RangeError if the lines mix currencies
+ */
+export function totalOf(lines: PricedLine[], currency?: string): Money {
+    return Money.sum(lines.map((line) => line.unitPrice.times(line.quantity)), currency);
+}
@@ -0,0 +1,53 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, OneToMany, JoinColumn, CreateDateColumn } from 'typeorm';
+import { Exclude, Expose } from 'class-transformer';
+import { Money } from '../common/money';
+import { User } from '../users/user.entity';
+import { OrderItem } from './order-item.entity';
+import { OrderStatus } from './order-status.enum';
+
+@Entity()
+export class Order {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'buyerId' })
+    @Exclude()
+    buyer: User | null;
+
+    @Column({ type: 'integer', nullable: true })
+    buyerId: number | null;
+
+    @Column({ type: 'varchar', default: OrderStatus.Pending })
+    status: OrderStatus;
+
+    /** Sum of the item prices at checkout, in minor units of `currency` */
+    @Column('integer')
+    @Exclude()
+    totalMinor: number;
+
+    /** ISO 4217 code shared by the total and every item */
+    @Column({ length: 3 })
+    @Exclude()
+    currency: string;
+
+    /** When the payment for the order succeeded */
+    @Column({ type: 'datetime', nullable: true })
+    paidAt: Date | null;
+
+    @OneToMany(() => OrderItem, (item) => item.order, { cascade: ['insert'] })
+    items: OrderItem[];
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @Expose()
+    get total(): Money {
+        return Money.of(this.totalMinor, this.currency);
+    }
+
+    set total(total: Money) {
+        this.totalMinor = total.minorUnits;
+        this.currency = total.currency;
+    }
+}
@@ -0,0 +1,54 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { OrdersController } from './orders.controller';
+import { OrdersService } from './orders.service';
+
+describe('OrdersController', () => {
+    let ordersController: OrdersController;
+    let ordersService: Partial<OrdersService>;
+
+    const mockRequest = () => ({
+        user: { id: 5 },
+        originalUrl: '/users/me/orders',
+        protocol: 'http',
+        get: () => 'localhost:3000',
+    });
+
+    beforeEach(async () => {
+        ordersService = {
+            findByBuyer: jest.fn(),
+            findOne: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [OrdersController],
+            providers: [{ provide: OrdersService, useValue: ordersService }],
+        }).compile();
+
+        ordersController = module.get<OrdersController>(OrdersController);
+    });
+
+    describe('findMine', () => {
+        it('should return a page of the user\'s orders with links', async () => {
+            jest.spyOn(ordersService, 'findByBuyer').mockResolvedValue({
+                data: [{ id: 9, total: 19.99, items: [] } as any],
+                meta: { total: 1, limit: 20, page: 1, totalPages: 1 },
+            });
+            const res = { setHeader: jest.fn() };
+
+            const result = await ordersController.findMine({}, mockRequest(), res);
+
+            expect(ordersService.findByBuyer).toHaveBeenCalledWith(5, {});
+            expect(result.data).toEqual([{ id: 9, total: 19.99, items: [] }]);
+            expect(result.links.self).toBe('http://localhost:3000/users/me/orders');
+        });
+    });
+
+    describe('findOne', () => {
+        it('should rethrow NotFoundException for orders of other users', async () => {
+            jest.spyOn(ordersService, 'findOne').mockRejectedValue(new NotFoundException());
+
+            await expect(ordersController.findOne(mockRequest(), 9)).rejects.toThrow(NotFoundException);
+        });
+    });
+});
@@ -0,0 +1,73 @@
+import {
+    Controller,
+    Get,
+    Param,
+    Query,
+    Req,
+    Res,
+    ParseIntPipe,
+    InternalServerErrorException,
+    HttpException,
+} from '@nestjs/common';
+import { instanceToPlain } from 'class-transformer';
+import { XmlRoot } from '../common/xml';
+import { PaginationQueryDto, buildPaginationLinks, formatLinkHeader } from '../common/pagination';
+import { OrdersService } from './orders.service';
+
+@Controller('users/me/orders')
+@XmlRoot('order')
+export class OrdersController {
+    constructor(private readonly ordersService: OrdersService) { }
+
+    /**
+     * Lists the authenticated user's orders, newest first
+     *
+     * @param query - Pagination (`page`, `limit`, `cursor`) and sorting (`sort` over `id`, `total`)
+     * @param req - The request object containing the authenticated user, also used to build pagination links
+     * @param res - The response object, used to set the `Link` header
+     * @returns A page of orders with their items
+     * @throws BadRequestException if a query parameter is invalid
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Get()
+    @XmlRoot('orders', 'order')
+    async findMine(@Query() query: PaginationQueryDto, @Req() req, @Res({ passthrough: true }) res) {
+        try {
+            const page = await this.ordersService.findByBuyer(req.user.id, query);
+            const links = buildPaginationLinks(req, page.meta);
+            const linkHeader = formatLinkHeader(links);
+
+            if (linkHeader) {
+                res.setHeader('Link', linkHeader);
+            }
+
+            return instanceToPlain({ ...page, links });
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while fetching your orders', { cause: error });
+        }
+    }
+
+    /**
+     * Retrieves one of the authenticated user's orders
+     *
+     * @param req - The request object containing the authenticated user
+     * @param id - The ID of the order
+     * @returns The order with its items
+     * @throws NotFoundException if the user has no such order
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Get(':id')
+    async findOne(@Req() req, @Param('id', ParseIntPipe) id: number) {
+        try {
+            return instanceToPlain(await this.ordersService.findOne(req.user.id, id));
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while fetching the order', { cause: error });
+        }
+    }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Book } from '../books/book.entity';
+import { Cart } from './cart.entity';
+import { CartItem } from './cart-item.entity';
+import { Order } from './order.entity';
+import { OrderItem } from './order-item.entity';
+import { CartService } from './cart.service';
+import { OrdersService } from './orders.service';
+import { CartController } from './cart.controller';
+import { OrdersController } from './orders.controller';
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Cart, CartItem, Order, OrderItem, Book])],
+    providers: [CartService, OrdersService],
+    controllers: [CartController, OrdersController],
+    exports: [OrdersService],
+})
+export class OrdersModule { }
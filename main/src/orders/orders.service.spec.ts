@@ -0,0 +1,168 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Book } from '../books/book.entity';
+import { BookStatus } from '../books/book-lifecycle';
+import { Cart } from './cart.entity';
+import { CartItem } from './cart-item.entity';
+import { Order } from './order.entity';
+import { OrderItem } from './order-item.entity';
+import { OrderStatus } from './order-status.enum';
+import { OrdersService } from './orders.service';
+
+describe('OrdersService', () => {
+    let service: OrdersService;
+    let ordersRepository: any;
+    let orderItemsRepository: any;
+    let manager: any;
+
+    const cart = (...books: Partial<Book>[]) =>
+        Object.assign(new Cart(), {
+            id: 1,
+            userId: 5,
+            items: books.map((book, index) => ({ bookId: book.id, quantity: index + 1, book: Object.assign(new Book(), book) })),
+        });
+
+    beforeEach(async () => {
+        manager = {
+            findOne: jest.fn(),
+            create: jest.fn((_entity, values) => values),
+            save: jest.fn(async (order) => ({ id: 9, ...order })),
+            delete: jest.fn(),
+        };
+        ordersRepository = {
+            findOne: jest.fn(),
+            createQueryBuilder: jest.fn(),
+        };
+        orderItemsRepository = {
+            find: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                OrdersService,
+                { provide: getRepositoryToken(Order), useValue: ordersRepository },
+                { provide: getRepositoryToken(OrderItem), useValue: orderItemsRepository },
+                { provide: DataSource, useValue: { transaction: jest.fn((work) => work(manager)) } },
+            ],
+        }).compile();
+
+        service = module.get<OrdersService>(OrdersService);
+    });
+
+    describe('checkout', () => {
+        it('should snapshot titles and prices into an order and empty the cart', async () => {
+            manager.findOne.mockResolvedValue(
+                cart(
+                    { id: 3, title: 'Wookie Tales', priceMinor: 1999, currency: 'EUR', status: BookStatus.Published },
+                    { id: 4, title: 'Kashyyyk', priceMinor: 10, currency: 'EUR', status: BookStatus.Published },
+                ),
+            );
+
+            const order = await service.checkout(5);
+
+            expect(order).toEqual({
+                id: 9,
+                buyerId: 5,
+                status: OrderStatus.Pending,
+                totalMinor: 2019,
+                currency: 'EUR',
+                items: [
+                    { bookId: 3, title: 'Wookie Tales', unitPriceMinor: 1999, currency: 'EUR', quantity: 1 },
+                    { bookId: 4, title: 'Kashyyyk', unitPriceMinor: 10, currency: 'EUR', quantity: 2 },
+                ],
+            });
+            expect(manager.delete).toHaveBeenCalledWith(CartItem, { cartId: 1 });
+        });
+
+        it('should refuse carts that mix currencies', async () => {
+            manager.findOne.mockResolvedValue(
+                cart(
+                    { id: 3, title: 'Wookie Tales', priceMinor: 1999, currency: 'EUR', status: BookStatus.Published },
+                    { id: 5, title: 'Endor', priceMinor: 2500, currency: 'JPY', status: BookStatus.Published },
+                ),
+            );
+
+            await expect(service.checkout(5)).rejects.toThrow(ConflictException);
+            expect(manager.save).not.toHaveBeenCalled();
+        });
+
+        it('should refuse an empty cart', async () => {
+            manager.findOne.mockResolvedValue(null);
+
+            await expect(service.checkout(5)).rejects.toThrow(BadRequestException);
+        });
+
+        it('should refuse books that were unpublished since they were added', async () => {
+            manager.findOne.mockResolvedValue(
+                cart(
+                    { id: 3, title: 'Wookie Tales', priceMinor: 1999, currency: 'EUR', status: BookStatus.Published },
+                    { id: 4, title: 'Kashyyyk', priceMinor: 10, currency: 'EUR', status: BookStatus.Unpublished },
+                ),
+            );
+
+            await expect(service.checkout(5)).rejects.toThrow('These books can no longer be bought: "Kashyyyk"');
+            await expect(service.checkout(5)).rejects.toThrow(ConflictException);
+            expect(manager.save).not.toHaveBeenCalled();
+            expect(manager.delete).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('findByBuyer', () => {
+        it('should return a page of the buyer\'s orders with their items', async () => {
+            const queryBuilder = {
+                where: jest.fn().mockReturnThis(),
+                orderBy: jest.fn().mockReturnThis(),
+                addOrderBy: jest.fn().mockReturnThis(),
+                offset: jest.fn().mockReturnThis(),
+                limit: jest.fn().mockReturnThis(),
+                getCount: jest.fn().mockResolvedValue(2),
+                getMany: jest.fn().mockResolvedValue([{ id: 2 }, { id: 1 }]),
+            };
+            ordersRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+            orderItemsRepository.find.mockResolvedValue([
+                { orderId: 1, title: 'A' },
+                { orderId: 2, title: 'B' },
+                { orderId: 2, title: 'C' },
+            ]);
+
+            const page = await service.findByBuyer(5);
+
+            expect(queryBuilder.where).toHaveBeenCalledWith('purchase.buyerId = :buyerId', { buyerId: 5 });
+            expect(queryBuilder.orderBy).toHaveBeenCalledWith('purchase.id', 'DESC');
+            expect(page.data.map((order) => order.items.map((item) => item.title))).toEqual([['B', 'C'], ['A']]);
+        });
+
+        it('should reject unknown sort fields', async () => {
+            await expect(service.findByBuyer(5, { sort: 'buyerId' })).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('findOne', () => {
+        it('should only find orders of the buyer', async () => {
+            ordersRepository.findOne.mockResolvedValue(null);
+
+            await expect(service.findOne(5, 9)).rejects.toThrow(NotFoundException);
+            expect(ordersRepository.findOne).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 9, buyerId: 5 } }));
+        });
+    });
+
+    describe('findPaidOrderWithBook', () => {
+        it('should look for the buyer\'s first paid order containing the book', async () => {
+            const queryBuilder = {
+                innerJoin: jest.fn().mockReturnThis(),
+                where: jest.fn().mockReturnThis(),
+                andWhere: jest.fn().mockReturnThis(),
+                orderBy: jest.fn().mockReturnThis(),
+                getOne: jest.fn().mockResolvedValue({ id: 4 }),
+            };
+            ordersRepository.createQueryBuilder.mockReturnValue(queryBuilder);
+
+            await expect(service.findPaidOrderWithBook(5, 3)).resolves.toEqual({ id: 4 });
+            expect(queryBuilder.innerJoin).toHaveBeenCalledWith('purchase.items', 'item', 'item.bookId = :bookId', { bookId: 3 });
+            expect(queryBuilder.where).toHaveBeenCalledWith('purchase.buyerId = :buyerId', { buyerId: 5 });
+            expect(queryBuilder.andWhere).toHaveBeenCalledWith('purchase.status = :paid', { paid: OrderStatus.Paid });
+        });
+    });
+});
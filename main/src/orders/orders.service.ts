@@ -0,0 +1,184 @@
+import {
+    Injectable,
+    BadRequestException,
+    ConflictException,
+    NotFoundException,
+    InternalServerErrorException,
+    HttpException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, Repository } from 'typeorm';
+import { BookStatus } from '../books/book-lifecycle';
+import { Paginated, PaginationQueryDto, SortColumn, SortKey, paginate, parsePagination, parseSort } from '../common/pagination';
+import { Cart } from './cart.entity';
+import { CartItem } from './cart-item.entity';
+import { Order } from './order.entity';
+import { OrderItem } from './order-item.entity';
+import { OrderStatus } from './order-status.enum';
+
+const ORDER_SORT_COLUMNS: Record<string, SortColumn> = {
+    id: 'purchase.id',
+    total: { column: 'purchase.totalMinor', value: (order: Order) => order.totalMinor },
+};
+
+const ORDER_SORT_TIE_BREAKER: SortKey = { field: 'id', column: 'purchase.id', direction: 'DESC' };
+
+@Injectable()
+export class OrdersService {
+    constructor(
+        @InjectRepository(Order)
+        private readonly ordersRepository: Repository<Order>,
+
+        @InjectRepository(OrderItem)
+        private readonly orderItemsRepository: Repository<OrderItem>,
+
+        private readonly dataSource: DataSource,
+    ) { }
+
+    /**
+     * Turns a user's cart into an order and empties the cart. Titles and prices
+     * are copied into the order, so later changes to the books do not alter it.
+     * @param userId - ID of the buyer.
+     * @returns The created order or throws an exception if the cart is empty, mixes currencies or holds books that are no longer published.
+     */
+    async checkout(userId: number): Promise<Order> {
+        try {
+            return await this.dataSource.transaction(async (manager) => {
+                const cart = await manager.findOne(Cart, {
+                    where: { userId },
+                    relations: ['items', 'items.book'],
+                    order: { items: { id: 'ASC' } },
+                });
+
+                if (!cart?.items?.length) {
+                    throw new BadRequestException('Your cart is empty');
+                }
+
+                const unavailable = cart.items.filter((item) => item.book.status !== BookStatus.Published);
+                if (unavailable.length > 0) {
+                    const titles = unavailable.map((item) => `"${item.book.title}"`).join(', ');
+                    throw new ConflictException(`These books can no longer be bought: ${titles}`);
+                }
+
+                if (cart.total === null) {
+                    throw new ConflictException('All books in an order must be priced in the same currency');
+                }
+
+                const items = cart.items.map((item) =>
+                    manager.create(OrderItem, {
+                        bookId: item.bookId,
+                        title: item.book.title,
+                        unitPriceMinor: item.book.priceMinor,
+                        currency: item.book.currency,
+                        quantity: item.quantity,
+                    }),
+                );
+
+                const order = await manager.save(
+                    manager.create(Order, {
+                        buyerId: userId,
+                        status: OrderStatus.Pending,
+                        totalMinor: cart.total.minorUnits,
+                        currency: cart.total.currency,
+                        items,
+                    }),
+                );
+                await manager.delete(CartItem, { cartId: cart.id });
+
+                return order;
+            });
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while checking out', { cause: error });
+        }
+    }
+
+    /**
+     * Lists the orders of a buyer, newest first.
+     * @param buyerId - ID of the buyer.
+     * @param query - Pagination (`page`, `limit`, `cursor`) and `sort` over `id`/`total`.
+     * @returns One page of orders with their items.
+     */
+    async findByBuyer(buyerId: number, query: PaginationQueryDto = {}): Promise<Paginated<Order>> {
+        try {
+            const sort = parseSort(query.sort, ORDER_SORT_COLUMNS, [ORDER_SORT_TIE_BREAKER], ORDER_SORT_TIE_BREAKER);
+            const pagination = parsePagination(query, sort);
+            const queryBuilder = this.ordersRepository
+                .createQueryBuilder('purchase')
+                .where('purchase.buyerId = :buyerId', { buyerId });
+
+            const page = await paginate(queryBuilder, sort, pagination);
+            await this.attachItems(page.data);
+
+            return page;
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while fetching your orders', { cause: error });
+        }
+    }
+
+    /**
+     * Finds one order of a buyer.
+     * @param buyerId - ID of the buyer.
+     * @param id - ID of the order.
+     * @returns The order with its items or throws an exception if the buyer has no such order.
+     */
+    async findOne(buyerId: number, id: number): Promise<Order> {
+        try {
+            const order = await this.ordersRepository.findOne({
+                where: { id, buyerId },
+                relations: ['items'],
+                order: { items: { id: 'ASC' } },
+            });
+
+            if (!order) {
+                throw new NotFoundException('Order not found');
+            }
+
+            return order;
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while fetching the order', { cause: error });
+        }
+    }
+
+    /**
+     * Finds the first paid order of a buyer that contains a book, i.e. proof the buyer owns it.
+     * @param buyerId - ID of the buyer.
+     * @param bookId - ID of the book.
+     * @returns The order, or `null` if the buyer never paid for the book.
+     */
+    async findPaidOrderWithBook(buyerId: number, bookId: number): Promise<Order | null> {
+        return this.ordersRepository
+            .createQueryBuilder('purchase')
+            .innerJoin('purchase.items', 'item', 'item.bookId = :bookId', { bookId })
+            .where('purchase.buyerId = :buyerId', { buyerId })
+            .andWhere('purchase.status = :paid', { paid: OrderStatus.Paid })
+            .orderBy('purchase.paidAt', 'ASC')
+            .getOne();
+    }
+
+    /**
+     * Loads the items of a page of orders in one query; joining them would break offset pagination.
+     */
+    private async attachItems(orders: Order[]): Promise<void> {
+        if (orders.length === 0) {
+            return;
+        }
+
+        const items = await this.orderItemsRepository.find({
+            where: { orderId: In(orders.map((order) => order.id)) },
+            order: { id: 'ASC' },
+        });
+
+        for (const order of orders) {
+            order.items = items.filter((item) => item.orderId === order.id);
+        }
+    }
+}
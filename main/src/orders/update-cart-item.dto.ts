@@ -0,0 +1,19 @@
+import { Transform } from 'class-transformer';
+import { IsInt, Max, Min } from 'class-validator';
+import { toNumber } from '../common/validation';
+import { CART_MAX_QUANTITY } from './cart.service';
+
+/**
+ * DTO for changing the number of copies in the cart
+ */
+export class UpdateCartItemDto {
+    /**
+     * The new number of copies
+     * @example 2
+     */
+    @Transform(toNumber)
+    @IsInt()
+    @Min(1)
+    @Max(CART_MAX_QUANTITY)
+    quantity: number;
+}
@@ -0,0 +1,72 @@
+import { FakePaymentProvider, passesLuhnCheck } from './fake-payment-provider';
+
+describe('FakePaymentProvider', () => {
+    let provider: FakePaymentProvider;
+
+    const charge = (number: string, idempotencyKey = number) =>
+        provider.charge({ amount: 1999, currency: 'EUR', description: 'Order 1', idempotencyKey, card: { number } });
+
+    beforeEach(() => {
+        provider = new FakePaymentProvider('secret');
+    });
+
+    describe('charge', () => {
+        it('should decide the outcome by card number', async () => {
+            expect(await charge('4242424242424242')).toMatchObject({ status: 'succeeded' });
+            expect(await charge('4000 0000 0000 9995')).toMatchObject({ status: 'declined', declineCode: 'insufficient_funds' });
+            expect(await charge('4000000000000077')).toMatchObject({ status: 'processing' });
+            expect(await charge('4012888888881881')).toMatchObject({ status: 'succeeded' });
+            expect(await charge('4012888888881882')).toMatchObject({ status: 'declined', declineCode: 'incorrect_number' });
+        });
+
+        it('should return the first result for a repeated idempotency key', async () => {
+            const first = await charge('4242424242424242', 'intent-1');
+
+            expect(await charge('4000000000000002', 'intent-1')).toBe(first);
+            expect((await charge('4242424242424242', 'intent-2')).reference).not.toBe(first.reference);
+        });
+    });
+
+    describe('parseWebhook', () => {
+        const now = Date.UTC(2026, 0, 1);
+        const body = JSON.stringify({ type: 'payment.succeeded', reference: 'fake_1' });
+
+        it('should accept events it signed', () => {
+            const signature = provider.sign(body, now);
+
+            expect(provider.parseWebhook(Buffer.from(body), signature, now)).toEqual({
+                type: 'payment.succeeded',
+                reference: 'fake_1',
+                declineCode: undefined,
+            });
+        });
+
+        it('should reject tampered bodies, foreign secrets and missing signatures', () => {
+            const signature = provider.sign(body, now);
+
+            expect(provider.parseWebhook(Buffer.from(body.replace('fake_1', 'fake_2')), signature, now)).toBeNull();
+            expect(provider.parseWebhook(Buffer.from(body), new FakePaymentProvider('other').sign(body, now), now)).toBeNull();
+            expect(provider.parseWebhook(Buffer.from(body), undefined, now)).toBeNull();
+        });
+
+        it('should reject expired signatures', () => {
+            const signature = provider.sign(body, now);
+
+            expect(provider.parseWebhook(Buffer.from(body), signature, now + 301_000)).toBeNull();
+        });
+
+        it('should reject unknown event types', () => {
+            const unknown = JSON.stringify({ type: 'payment.refunded', reference: 'fake_1' });
+
+            expect(provider.parseWebhook(Buffer.from(unknown), provider.sign(unknown, now), now)).toBeNull();
+        });
+    });
+});
+
+describe('passesLuhnCheck', () => {
+    it('should validate the check digit', () => {
+        expect(passesLuhnCheck('4242424242424242')).toBe(true);
+        expect(passesLuhnCheck('4242424242424241')).toBe(false);
+        expect(passesLuhnCheck('4242')).toBe(false);
+    });
+});
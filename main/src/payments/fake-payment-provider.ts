@@ -0,0 +1,115 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { ChargeRequest, ChargeResult, PaymentEvent, PaymentProvider } from './payment-provider';
+
+/**
+ * Test cards with a fixed outcome. Other numbers succeed if they pass the Luhn
+ * check and are declined with `incorrect_number` otherwise.
+ */
+export const FAKE_TEST_CARDS: Record<string, Omit<ChargeResult, 'reference'>> = {
+    '4242424242424242': { status: 'succeeded' },
+    '4000000000000002': { status: 'declined', declineCode: 'card_declined' },
+    '4000000000009995': { status: 'declined', declineCode: 'insufficient_funds' },
+    '4000000000000069': { status: 'declined', declineCode: 'expired_card' },
+    '4000000000000077': { status: 'processing' },
+};
+
+/**
+ * How old a webhook signature may be, in seconds.
+ */
+export const FAKE_WEBHOOK_TOLERANCE = 300;
+
+/**
+ * Offline payment gateway for development and tests. Outcomes depend on the
+ * card number only, and webhook events are signed like a real gateway's:
+ * `X-Payment-Signature: t=<unix time>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ */
+export class FakePaymentProvider extends PaymentProvider {
+    readonly name = 'fake';
+
+    private readonly charges = new Map<string, ChargeResult>();
+
+    constructor(private readonly webhookSecret: string) {
+        super();
+    }
+
+    async charge(request: ChargeRequest): Promise<ChargeResult> {
+        const previous = this.charges.get(request.idempotencyKey);
+        if (previous) {
+            return previous;
+        }
+
+        const number = request.card.number.replace(/\D/g, '');
+        const outcome = FAKE_TEST_CARDS[number]
+            ?? (passesLuhnCheck(number) ? { status: 'succeeded' } : { status: 'declined', declineCode: 'incorrect_number' });
+        const result: ChargeResult = { reference: `fake_${randomUUID()}`, ...outcome } as ChargeResult;
+
+        this.charges.set(request.idempotencyKey, result);
+        return result;
+    }
+
+    parseWebhook(payload: Buffer, signature: string | undefined, now = Date.now()): PaymentEvent | null {
+        const parts = Object.fromEntries(
+            (signature ?? '').split(',').map((part) => part.trim().split('=', 2) as [string, string]),
+        );
+        const timestamp = Number(parts.t);
+
+        if (!parts.v1 || !Number.isInteger(timestamp) || Math.abs(now / 1000 - timestamp) > FAKE_WEBHOOK_TOLERANCE) {
+            return null;
+        }
+
+        const expected = Buffer.from(this.digest(timestamp, payload), 'hex');
+        const actual = Buffer.from(parts.v1, 'hex');
+
+        if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+            return null;
+        }
+
+        try {
+            const event = JSON.parse(payload.toString('utf8'));
+            if ((event?.type !== 'payment.succeeded' && event?.type !== 'payment.declined') || typeof event.reference !== 'string') {
+                return null;
+            }
+            return { type: event.type, reference: event.reference, declineCode: event.declineCode };
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Signs a webhook body the way the gateway does, for local testing.
+     * @param payload - The exact body that will be sent.
+     * @param now - Signing time in milliseconds.
+     * @returns The `X-Payment-Signature` header value.
+     */
+    sign(payload: string | Buffer, now = Date.now()): string {
+        const timestamp = Math.floor(now / 1000);
+        return `t=${timestamp},v1=${this.digest(timestamp, Buffer.from(payload))}`;
+    }
+
+    private digest(timestamp: number, payload: Buffer): string {
+        return createHmac('sha256', this.webhookSecret).update(`${timestamp}.`).update(payload).digest('hex');
+    }
+}
+
+/**
+ * Whether a card number has a valid Luhn check digit.
+ */
+export function passesLuhnCheck(number: string): boolean {
+    if (!/^\d{12,19}$/.test(number)) {
+        return false;
+    }
+
+    let sum = 0;
+    for (let i = 0; i < number.length; i++) {
+        let digit = Number(number[number.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) {
+                digit -= 9;
+            }
+        }
+        sum += digit;
+    }
+
+    return sum % 10 === 0;
+}
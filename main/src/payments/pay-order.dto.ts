@@ -0,0 +1,24 @@
+import { Type } from 'class-transformer';
+import { IsNotEmpty, IsString, ValidateNested } from 'class-validator';
+
+/**
+ * Card to charge
+ */
+export class CardDto {
+    /**
+     * The card number; spaces and dashes are ignored
+     * @example "4242 4242 4242 4242"
+     */
+    @IsString()
+    @IsNotEmpty()
+    number: string;
+}
+
+/**
+ * DTO for paying an order
+ */
+export class PayOrderDto {
+    @ValidateNested()
+    @Type(() => CardDto)
+    card: CardDto;
+}
@@ -0,0 +1,79 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { Exclude, Expose } from 'class-transformer';
+import { Money } from '../common/money';
+import { User } from '../users/user.entity';
+import { Order } from '../orders/order.entity';
+import { PaymentStatus } from './payment-status.enum';
+
+@Entity()
+@Index(['userId', 'idempotencyKey'], { unique: true })
+// An order has at most one payment that is processing or succeeded, however many requests race to pay it
+@Index('IDX_payment_intent_active_order', ['orderId'], { unique: true, where: `"status" IN ('processing', 'succeeded')` })
+export class PaymentIntent {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Order, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'orderId' })
+    @Exclude()
+    order: Order;
+
+    @Column()
+    orderId: number;
+
+    @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'userId' })
+    @Exclude()
+    user: User | null;
+
+    @Column({ type: 'integer', nullable: true })
+    @Exclude()
+    userId: number | null;
+
+    /** Order total at the time of payment, in minor units of `currency` */
+    @Column('integer')
+    @Exclude()
+    amountMinor: number;
+
+    @Column({ length: 3 })
+    @Exclude()
+    currency: string;
+
+    @Column({ type: 'varchar', default: PaymentStatus.Processing })
+    status: PaymentStatus;
+
+    /** Why the provider declined the card, e.g. `insufficient_funds` */
+    @Column({ type: 'varchar', nullable: true })
+    declineCode: string | null;
+
+    /** Name of the `PaymentProvider` that handled the payment */
+    @Column()
+    provider: string;
+
+    /** The provider's ID of the charge, matched against webhook events */
+    @Column({ type: 'varchar', nullable: true })
+    @Index({ unique: true })
+    providerReference: string | null;
+
+    @Column({ length: 4 })
+    cardLast4: string;
+
+    @Column()
+    idempotencyKey: string;
+
+    /** Fingerprint of the request, to reject reuse of a key for a different payment */
+    @Column()
+    @Exclude()
+    requestHash: string;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+
+    @Expose()
+    get amount(): Money {
+        return Money.of(this.amountMinor, this.currency);
+    }
+}
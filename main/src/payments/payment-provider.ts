@@ -0,0 +1,62 @@
+/**
+ * Card details sent to the provider; never stored.
+ */
+export interface PaymentCard {
+    number: string;
+}
+
+export interface ChargeRequest {
+    /** Amount to charge, in minor units of `currency` (e.g. cents) */
+    amount: number;
+    currency: string;
+    /** Shown on the buyer's statement and the provider dashboard */
+    description: string;
+    /** Repeating a charge with the same key returns the first result instead of charging twice */
+    idempotencyKey: string;
+    card: PaymentCard;
+}
+
+/**
+ * `processing` charges are settled later through a webhook event.
+ */
+export type ChargeStatus = 'succeeded' | 'declined' | 'processing';
+
+export interface ChargeResult {
+    /** The provider's ID of the charge, referenced by webhook events */
+    reference: string;
+    status: ChargeStatus;
+    declineCode?: string;
+}
+
+/**
+ * A verified webhook event settling a charge.
+ */
+export interface PaymentEvent {
+    type: 'payment.succeeded' | 'payment.declined';
+    reference: string;
+    declineCode?: string;
+}
+
+/**
+ * Gateway charging cards for orders. Bind a different implementation to this
+ * token in `PaymentsModule` to move to a real payment gateway.
+ */
+export abstract class PaymentProvider {
+    /** Stored on every payment intent, to tell providers apart after a switch */
+    abstract readonly name: string;
+
+    /**
+     * Charges a card.
+     * @param request - What to charge and the card to charge it to.
+     * @returns The outcome, which may still be `processing`.
+     */
+    abstract charge(request: ChargeRequest): Promise<ChargeResult>;
+
+    /**
+     * Verifies and parses a webhook callback.
+     * @param payload - The raw request body, exactly as received.
+     * @param signature - The `X-Payment-Signature` header.
+     * @returns The event, or `null` if the signature is missing, invalid or expired.
+     */
+    abstract parseWebhook(payload: Buffer, signature: string | undefined): PaymentEvent | null;
+}
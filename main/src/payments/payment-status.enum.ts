@@ -0,0 +1,10 @@
+/**
+ * States of a payment intent. `processing` intents wait for a webhook event;
+ * `failed` means the provider could not be reached.
+ */
+export enum PaymentStatus {
+    Processing = 'processing',
+    Succeeded = 'succeeded',
+    Declined = 'declined',
+    Failed = 'failed',
+}
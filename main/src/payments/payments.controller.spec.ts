@@ -0,0 +1,60 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, InternalServerErrorException } from '@nestjs/common';
+import { PaymentsController } from './payments.controller';
+import { PaymentsService } from './payments.service';
+import { PaymentStatus } from './payment-status.enum';
+
+describe('PaymentsController', () => {
+    let paymentsController: PaymentsController;
+    let paymentsService: Partial<PaymentsService>;
+
+    beforeEach(async () => {
+        paymentsService = {
+            pay: jest.fn(),
+            handleWebhook: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [PaymentsController],
+            providers: [{ provide: PaymentsService, useValue: paymentsService }],
+        }).compile();
+
+        paymentsController = module.get<PaymentsController>(PaymentsController);
+    });
+
+    describe('pay', () => {
+        it('should pass the idempotency key and card to the service', async () => {
+            jest.spyOn(paymentsService, 'pay').mockResolvedValue({ id: 1, status: PaymentStatus.Succeeded } as any);
+
+            const result = await paymentsController.pay({ user: { id: 5 } }, 3, 'key-1', { card: { number: '4242424242424242' } });
+
+            expect(paymentsService.pay).toHaveBeenCalledWith(5, 3, 'key-1', { number: '4242424242424242' });
+            expect(result).toEqual({ id: 1, status: PaymentStatus.Succeeded });
+        });
+
+        it('should wrap unexpected errors', async () => {
+            jest.spyOn(paymentsService, 'pay').mockRejectedValue(new Error('boom'));
+
+            await expect(paymentsController.pay({ user: { id: 5 } }, 3, 'key-1', undefined)).rejects.toThrow(
+                InternalServerErrorException,
+            );
+        });
+    });
+
+    describe('webhook', () => {
+        it('should verify the raw body', async () => {
+            const rawBody = Buffer.from('{}');
+
+            expect(await paymentsController.webhook({ rawBody }, 't=1,v1=ab')).toEqual({ received: true });
+            expect(paymentsService.handleWebhook).toHaveBeenCalledWith(rawBody, 't=1,v1=ab');
+        });
+
+        it('should rethrow BadRequestException for invalid signatures', async () => {
+            jest.spyOn(paymentsService, 'handleWebhook').mockRejectedValue(new BadRequestException());
+
+            await expect(paymentsController.webhook({ rawBody: Buffer.from('{}') }, 'forged')).rejects.toThrow(
+                BadRequestException,
+            );
+        });
+    });
+});
@@ -0,0 +1,82 @@
+import {
+    Controller,
+    Post,
+    Param,
+    Body,
+    Req,
+    Headers,
+    ParseIntPipe,
+    HttpCode,
+    HttpStatus,
+    InternalServerErrorException,
+    HttpException,
+} from '@nestjs/common';
+import { instanceToPlain } from 'class-transformer';
+import { Public } from '../auth/public.decorator';
+import { XmlRoot } from '../common/xml';
+import { PaymentsService } from './payments.service';
+import { PayOrderDto } from './pay-order.dto';
+
+@Controller()
+export class PaymentsController {
+    constructor(private readonly paymentsService: PaymentsService) { }
+
+    /**
+     * Pays one of the authenticated user's orders by card
+     *
+     * @param req - The request object containing the authenticated user
+     * @param id - The ID of the order
+     * @param idempotencyKey - The `Idempotency-Key` header; retries with the same key return the first payment
+     * @param body - The card to charge
+     * @returns The payment intent: `succeeded`, `declined` with a `declineCode`, or `processing` until a webhook settles it
+     * @throws BadRequestException if the idempotency key or card number is missing or malformed
+     * @throws NotFoundException if the user has no such order
+     * @throws ConflictException if the key was used for another payment, or the order is paid or has a payment processing
+     * @throws BadGatewayException if the payment provider could not be reached
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Post('users/me/orders/:id/pay')
+    @XmlRoot('payment')
+    async pay(
+        @Req() req,
+        @Param('id', ParseIntPipe) id: number,
+        @Headers('idempotency-key') idempotencyKey: string,
+        @Body() body: PayOrderDto,
+    ) {
+        try {
+            return instanceToPlain(await this.paymentsService.pay(req.user.id, id, idempotencyKey, body?.card));
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while paying the order', { cause: error });
+        }
+    }
+
+    /**
+     * Receives payment events from the payment provider, authenticated by their signature
+     *
+     * @param req - The request object, carrying the raw body the signature covers
+     * @param signature - The `X-Payment-Signature` header
+     * @returns An acknowledgement
+     * @throws BadRequestException if the signature is invalid or expired
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Public()
+    @Post('payments/webhook')
+    @HttpCode(HttpStatus.OK)
+    @XmlRoot('webhook')
+    async webhook(@Req() req, @Headers('x-payment-signature') signature: string) {
+        try {
+            await this.paymentsService.handleWebhook(req.rawBody, signature);
+            return { received: true };
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while handling the payment event', {
+                cause: error,
+            });
+        }
+    }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Order } from '../orders/order.entity';
+import { DonationsModule } from '../donations/donations.module';
+import { PaymentIntent } from './payment-intent.entity';
+import { PaymentProvider } from './payment-provider';
+import { FakePaymentProvider } from './fake-payment-provider';
+import { PaymentsService } from './payments.service';
+import { PaymentsController } from './payments.controller';
+import { AppConfigService } from '../config';
+
+@Module({
+    imports: [TypeOrmModule.forFeature([PaymentIntent, Order]), DonationsModule],
+    providers: [
+        PaymentsService,
+        {
+            provide: PaymentProvider,
+            inject: [AppConfigService],
+            useFactory: (config: AppConfigService) => new FakePaymentProvider(config.paymentWebhookSecret),
+        },
+    ],
+    controllers: [PaymentsController],
+    exports: [PaymentsService],
+})
+export class PaymentsModule { }
@@ -0,0 +1,176 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource, QueryFailedError } from 'typeorm';
+import { BadGatewayException, BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { Order } from '../orders/order.entity';
+import { OrderStatus } from '../orders/order-status.enum';
+import { PaymentIntent } from './payment-intent.entity';
+import { PaymentStatus } from './payment-status.enum';
+import { PaymentProvider } from './payment-provider';
+import { PaymentsService } from './payments.service';
+import { DonationsService } from '../donations/donations.service';
+
+describe('PaymentsService', () => {
+    let service: PaymentsService;
+    let intentsRepository: any;
+    let paymentProvider: { name: string; charge: jest.Mock; parseWebhook: jest.Mock };
+    let manager: { findOne: jest.Mock; exists: jest.Mock; create: jest.Mock; save: jest.Mock; update: jest.Mock };
+    let donationsService: { recordSale: jest.Mock };
+
+    const card = { number: '4242 4242 4242 4242' };
+    const order = { id: 3, buyerId: 5, totalMinor: 1999, currency: 'EUR', status: OrderStatus.Pending };
+
+    beforeEach(async () => {
+        intentsRepository = {
+            findOne: jest.fn().mockResolvedValue(null),
+            save: jest.fn(async (intent) => intent),
+        };
+        paymentProvider = {
+            name: 'fake',
+            charge: jest.fn().mockResolvedValue({ reference: 'fake_1', status: 'succeeded' }),
+            parseWebhook: jest.fn(),
+        };
+        manager = {
+            findOne: jest.fn().mockResolvedValue(order),
+            exists: jest.fn().mockResolvedValue(false),
+            create: jest.fn((_entity, intent) => intent),
+            save: jest.fn(async (intent) => ({ id: 1, ...intent })),
+            update: jest.fn().mockResolvedValue({ affected: 1 }),
+        };
+        donationsService = { recordSale: jest.fn() };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                PaymentsService,
+                { provide: getRepositoryToken(PaymentIntent), useValue: intentsRepository },
+                { provide: PaymentProvider, useValue: paymentProvider },
+                { provide: DonationsService, useValue: donationsService },
+                { provide: DataSource, useValue: { transaction: jest.fn((work) => work(manager)) } },
+            ],
+        }).compile();
+
+        service = module.get<PaymentsService>(PaymentsService);
+    });
+
+    describe('pay', () => {
+        it('should charge the order total and mark the order paid', async () => {
+            await service.pay(5, 3, 'key-1', card);
+
+            expect(manager.create).toHaveBeenCalledWith(
+                PaymentIntent,
+                expect.objectContaining({ orderId: 3, userId: 5, amountMinor: 1999, currency: 'EUR', cardLast4: '4242', idempotencyKey: 'key-1' }),
+            );
+            expect(paymentProvider.charge).toHaveBeenCalledWith(
+                expect.objectContaining({ amount: 1999, currency: 'EUR', idempotencyKey: 'payment-intent-1', card: { number: '4242424242424242' } }),
+            );
+            expect(manager.save).toHaveBeenCalledWith(
+                expect.objectContaining({ status: PaymentStatus.Succeeded, providerReference: 'fake_1', declineCode: null }),
+            );
+            expect(manager.update).toHaveBeenCalledWith(
+                Order,
+                { id: 3, status: OrderStatus.Pending },
+                { status: OrderStatus.Paid, paidAt: expect.any(Date) },
+            );
+            expect(donationsService.recordSale).toHaveBeenCalledWith(manager, 3);
+        });
+
+        it('should not book the sale again when the order was paid in the meantime', async () => {
+            manager.update.mockResolvedValue({ affected: 0 });
+
+            await expect(service.pay(5, 3, 'key-1', card)).rejects.toThrow(ConflictException);
+            expect(donationsService.recordSale).not.toHaveBeenCalled();
+        });
+
+        it('should record declines without paying the order', async () => {
+            paymentProvider.charge.mockResolvedValue({ reference: 'fake_1', status: 'declined', declineCode: 'expired_card' });
+
+            await service.pay(5, 3, 'key-1', card);
+
+            expect(manager.save).toHaveBeenCalledWith(
+                expect.objectContaining({ status: PaymentStatus.Declined, declineCode: 'expired_card' }),
+            );
+            expect(manager.update).not.toHaveBeenCalled();
+            expect(donationsService.recordSale).not.toHaveBeenCalled();
+        });
+
+        it('should replay the first payment for a repeated idempotency key', async () => {
+            await service.pay(5, 3, 'key-1', card);
+            const requestHash = manager.create.mock.calls[0][1].requestHash;
+            const previous = { id: 1, status: PaymentStatus.Declined, requestHash };
+            intentsRepository.findOne.mockResolvedValue(previous);
+            paymentProvider.charge.mockClear();
+
+            expect(await service.pay(5, 3, 'key-1', card)).toBe(previous);
+            expect(paymentProvider.charge).not.toHaveBeenCalled();
+        });
+
+        it('should reject a reused idempotency key with a different request', async () => {
+            intentsRepository.findOne.mockResolvedValue({ id: 1, requestHash: 'other' });
+
+            await expect(service.pay(5, 3, 'key-1', card)).rejects.toThrow(ConflictException);
+        });
+
+        it('should require an idempotency key and a card number', async () => {
+            await expect(service.pay(5, 3, undefined, card)).rejects.toThrow(BadRequestException);
+            await expect(service.pay(5, 3, 'key-1', { number: '42' })).rejects.toThrow(BadRequestException);
+            await expect(service.pay(5, 3, 'key-1', undefined)).rejects.toThrow(BadRequestException);
+        });
+
+        it('should refuse paid orders, orders with a payment processing and orders of other users', async () => {
+            manager.findOne.mockResolvedValueOnce({ ...order, status: OrderStatus.Paid });
+            await expect(service.pay(5, 3, 'key-1', card)).rejects.toThrow('Order is already paid');
+
+            manager.exists.mockResolvedValueOnce(true);
+            await expect(service.pay(5, 3, 'key-2', card)).rejects.toThrow('A payment for this order is still processing');
+
+            manager.findOne.mockResolvedValueOnce(null);
+            await expect(service.pay(5, 3, 'key-3', card)).rejects.toThrow(NotFoundException);
+        });
+
+        it('should refuse a payment that loses the race for the order to a concurrent one', async () => {
+            manager.save.mockRejectedValueOnce(
+                new QueryFailedError('INSERT', [], new Error('SQLITE_CONSTRAINT: UNIQUE constraint failed: payment_intent.orderId')),
+            );
+
+            await expect(service.pay(5, 3, 'key-1', card)).rejects.toThrow('Order is already paid or has a payment processing');
+            expect(paymentProvider.charge).not.toHaveBeenCalled();
+        });
+
+        it('should mark the payment failed when the provider is unreachable', async () => {
+            paymentProvider.charge.mockRejectedValue(new Error('ECONNRESET'));
+
+            await expect(service.pay(5, 3, 'key-1', card)).rejects.toThrow(BadGatewayException);
+            expect(intentsRepository.save).toHaveBeenLastCalledWith(expect.objectContaining({ status: PaymentStatus.Failed }));
+        });
+    });
+
+    describe('handleWebhook', () => {
+        const payload = Buffer.from('{}');
+
+        it('should settle processing payments', async () => {
+            paymentProvider.parseWebhook.mockReturnValue({ type: 'payment.succeeded', reference: 'fake_1' });
+            intentsRepository.findOne.mockResolvedValue({ id: 1, orderId: 3, status: PaymentStatus.Processing });
+
+            await service.handleWebhook(payload, 't=1,v1=ab');
+
+            expect(paymentProvider.parseWebhook).toHaveBeenCalledWith(payload, 't=1,v1=ab');
+            expect(manager.update).toHaveBeenCalledWith(Order, { id: 3, status: OrderStatus.Pending }, expect.objectContaining({ status: OrderStatus.Paid }));
+        });
+
+        it('should ignore events for settled payments', async () => {
+            paymentProvider.parseWebhook.mockReturnValue({ type: 'payment.declined', reference: 'fake_1' });
+            intentsRepository.findOne.mockResolvedValue({ id: 1, orderId: 3, status: PaymentStatus.Succeeded });
+
+            await service.handleWebhook(payload, 't=1,v1=ab');
+
+            expect(manager.save).not.toHaveBeenCalled();
+        });
+
+        it('should reject invalid signatures', async () => {
+            paymentProvider.parseWebhook.mockReturnValue(null);
+
+            await expect(service.handleWebhook(payload, 'forged')).rejects.toThrow(BadRequestException);
+            await expect(service.handleWebhook(undefined, 'forged')).rejects.toThrow(BadRequestException);
+        });
+    });
+});
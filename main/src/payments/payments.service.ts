@@ -0,0 +1,213 @@
+import {
+    Injectable,
+    Logger,
+    BadRequestException,
+    ConflictException,
+    NotFoundException,
+    BadGatewayException,
+    InternalServerErrorException,
+    HttpException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, QueryFailedError, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { Order } from '../orders/order.entity';
+import { OrderStatus } from '../orders/order-status.enum';
+import { DonationsService } from '../donations/donations.service';
+import { PaymentIntent } from './payment-intent.entity';
+import { PaymentStatus } from './payment-status.enum';
+import { ChargeResult, PaymentCard, PaymentProvider } from './payment-provider';
+
+const CHARGE_STATUSES: Record<ChargeResult['status'], PaymentStatus> = {
+    succeeded: PaymentStatus.Succeeded,
+    declined: PaymentStatus.Declined,
+    processing: PaymentStatus.Processing,
+};
+
+@Injectable()
+export class PaymentsService {
+    private readonly logger = new Logger(PaymentsService.name);
+
+    constructor(
+        @InjectRepository(PaymentIntent)
+        private readonly intentsRepository: Repository<PaymentIntent>,
+
+        private readonly paymentProvider: PaymentProvider,
+
+        private readonly donationsService: DonationsService,
+
+        private readonly dataSource: DataSource,
+    ) { }
+
+    /**
+     * Pays an order by card. Retrying with the same idempotency key returns the
+     * first payment instead of charging again.
+     * @param userId - ID of the buyer.
+     * @param orderId - ID of the order.
+     * @param idempotencyKey - Client-chosen key identifying this payment attempt.
+     * @param card - The card to charge.
+     * @returns The payment intent, which may be declined or still processing.
+     * @throws BadRequestException if the key or card number is missing or malformed.
+     * @throws NotFoundException if the buyer has no such order.
+     * @throws ConflictException if the key was used for another payment, or the order is paid or has a payment processing.
+     * @throws BadGatewayException if the payment provider could not be reached.
+     */
+    async pay(userId: number, orderId: number, idempotencyKey: string | undefined, card: PaymentCard | undefined): Promise<PaymentIntent> {
+        try {
+            if (typeof idempotencyKey !== 'string' || !idempotencyKey.trim() || idempotencyKey.length > 255) {
+                throw new BadRequestException('An Idempotency-Key header of at most 255 characters is required');
+            }
+
+            const number = typeof card?.number === 'string' ? card.number.replace(/[\s-]/g, '') : '';
+            if (!/^\d{12,19}$/.test(number)) {
+                throw new BadRequestException('card.number must be a card number of 12 to 19 digits');
+            }
+
+            const requestHash = createHash('sha256').update(`${orderId}:${number}`).digest('hex');
+            const previous = await this.intentsRepository.findOne({ where: { userId, idempotencyKey } });
+
+            if (previous) {
+                if (previous.requestHash !== requestHash) {
+                    throw new ConflictException('This Idempotency-Key was already used for a different payment');
+                }
+                return previous;
+            }
+
+            // The unique index on the active payment of an order turns a concurrent payment that passed the same checks into a conflict
+            const { order, intent } = await this.dataSource.transaction(async (manager) => {
+                const order = await manager.findOne(Order, { where: { id: orderId, buyerId: userId } });
+
+                if (!order) {
+                    throw new NotFoundException('Order not found');
+                }
+
+                if (order.status === OrderStatus.Paid) {
+                    throw new ConflictException('Order is already paid');
+                }
+
+                if (await manager.exists(PaymentIntent, { where: { orderId, status: PaymentStatus.Processing } })) {
+                    throw new ConflictException('A payment for this order is still processing');
+                }
+
+                const intent = await manager.save(
+                    manager.create(PaymentIntent, {
+                        orderId,
+                        userId,
+                        amountMinor: order.totalMinor,
+                        currency: order.currency,
+                        status: PaymentStatus.Processing,
+                        provider: this.paymentProvider.name,
+                        cardLast4: number.slice(-4),
+                        idempotencyKey,
+                        requestHash,
+                    }),
+                );
+
+                return { order, intent };
+            });
+
+            let result: ChargeResult;
+            try {
+                result = await this.paymentProvider.charge({
+                    amount: order.totalMinor,
+                    currency: order.currency,
+                    description: `Wookie Books order ${order.id}`,
+                    idempotencyKey: `payment-intent-${intent.id}`,
+                    card: { number },
+                });
+            } catch (error) {
+                this.logger.error(`Payment provider ${this.paymentProvider.name} failed: ${error?.message}`);
+                intent.status = PaymentStatus.Failed;
+                await this.intentsRepository.save(intent);
+                throw new BadGatewayException('The payment provider could not be reached');
+            }
+
+            intent.providerReference = result.reference;
+            await this.settle(intent, CHARGE_STATUSES[result.status], result.declineCode);
+
+            // Reloaded so the first response matches the replays
+            return await this.intentsRepository.findOne({ where: { id: intent.id } });
+        } catch (error) {
+            if (error instanceof QueryFailedError && /UNIQUE constraint failed: payment_intent\.orderId/i.test(error.message)) {
+                throw new ConflictException('Order is already paid or has a payment processing');
+            }
+            if (error instanceof QueryFailedError && /UNIQUE constraint failed/i.test(error.message)) {
+                throw new ConflictException('A payment with this Idempotency-Key is already in progress');
+            }
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while paying the order', { cause: error });
+        }
+    }
+
+    /**
+     * Applies a webhook callback from the payment provider. Events for payments
+     * that are already settled are acknowledged and ignored, so redeliveries are harmless.
+     * @param payload - The raw request body.
+     * @param signature - The `X-Payment-Signature` header.
+     * @throws BadRequestException if the signature is invalid or expired.
+     */
+    async handleWebhook(payload: Buffer | undefined, signature: string | undefined): Promise<void> {
+        try {
+            const event = payload ? this.paymentProvider.parseWebhook(payload, signature) : null;
+
+            if (!event) {
+                throw new BadRequestException('Invalid webhook signature');
+            }
+
+            const intent = await this.intentsRepository.findOne({ where: { providerReference: event.reference } });
+
+            if (!intent) {
+                this.logger.warn(`Ignoring ${event.type} for unknown payment ${event.reference}`);
+                return;
+            }
+
+            if (intent.status !== PaymentStatus.Processing) {
+                return;
+            }
+
+            await this.settle(
+                intent,
+                event.type === 'payment.succeeded' ? PaymentStatus.Succeeded : PaymentStatus.Declined,
+                event.declineCode,
+            );
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while handling the payment event', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Records the outcome of a payment. Successful payments mark the order paid
+     * and enter the sale in the donation ledger, in the same transaction.
+     * @throws ConflictException if the order is no longer pending; nothing is recorded then.
+     */
+    private async settle(intent: PaymentIntent, status: PaymentStatus, declineCode?: string): Promise<void> {
+        intent.status = status;
+        intent.declineCode = status === PaymentStatus.Declined ? declineCode ?? 'declined' : null;
+
+        await this.dataSource.transaction(async (manager) => {
+            await manager.save(intent);
+
+            if (status === PaymentStatus.Succeeded) {
+                const { affected } = await manager.update(
+                    Order,
+                    { id: intent.orderId, status: OrderStatus.Pending },
+                    { status: OrderStatus.Paid, paidAt: new Date() },
+                );
+
+                // Never book a sale twice, should the order have been paid in the meantime
+                if (!affected) {
+                    throw new ConflictException('Order is already paid');
+                }
+
+                await this.donationsService.recordSale(manager, intent.orderId);
+            }
+        });
+    }
+}
@@ -0,0 +1,30 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, CreateDateColumn, Index } from 'typeorm';
+import { User } from '../users/user.entity';
+
+@Entity()
+export class BannedPublisher {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    /** The name as entered by the admin */
+    @Column()
+    name: string;
+
+    /** Lowercased name without accents, spaces or punctuation; compared against usernames and pseudonyms */
+    @Index()
+    @Column()
+    normalizedName: string;
+
+    @Column({ type: 'varchar', nullable: true })
+    reason: string | null;
+
+    @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+    bannedBy: User | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    /** Set when an admin lifts the ban; lifted bans are kept for the attempt history */
+    @Column({ type: 'datetime', nullable: true })
+    liftedAt: Date | null;
+}
@@ -0,0 +1,15 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Min } from 'class-validator';
+import { PaginationQueryDto } from '../common/pagination';
+
+/**
+ * Query parameters for listing publishing attempts blocked by a ban
+ */
+export class BlockedAttemptsQueryDto extends PaginationQueryDto {
+    /** Only attempts of this user */
+    @Type(() => Number)
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    userId?: number;
+}
@@ -0,0 +1,42 @@
+import { Entity, Column, PrimaryGeneratedColumn, ManyToOne, CreateDateColumn, JoinColumn } from 'typeorm';
+import { User } from '../users/user.entity';
+import { BannedPublisher } from './banned-publisher.entity';
+
+export type PublishAction = 'create' | 'update' | 'publish' | 'republish';
+
+@Entity()
+export class BlockedPublishAttempt {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'userId' })
+    user: User | null;
+
+    @Column({ type: 'integer', nullable: true })
+    userId: number | null;
+
+    /** Username and pseudonym at the time of the attempt */
+    @Column()
+    username: string;
+
+    @Column({ type: 'varchar', nullable: true })
+    authorPseudonym: string | null;
+
+    @ManyToOne(() => BannedPublisher, { onDelete: 'CASCADE' })
+    ban: BannedPublisher;
+
+    /** Which of the user's names matched the ban */
+    @Column()
+    matchedOn: 'username' | 'authorPseudonym';
+
+    @Column()
+    action: PublishAction;
+
+    /** The book being updated or republished; empty for new books */
+    @Column({ type: 'integer', nullable: true })
+    bookId: number | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { BannedPublisher } from './banned-publisher.entity';
+import { BlockedPublishAttempt } from './blocked-publish-attempt.entity';
+import { PublishingBansService } from './publishing-bans.service';
+
+@Module({
+    imports: [TypeOrmModule.forFeature([BannedPublisher, BlockedPublishAttempt])],
+    providers: [PublishingBansService],
+    exports: [PublishingBansService],
+})
+export class PublishingBansModule { }
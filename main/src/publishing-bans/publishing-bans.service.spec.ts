@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { BadRequestException, ConflictException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { BannedPublisher } from './banned-publisher.entity';
+import { BlockedPublishAttempt } from './blocked-publish-attempt.entity';
+import { PublishingBansService, normalizePublisherName } from './publishing-bans.service';
+import { ErrorCode } from '../common/errors';
+
+describe('normalizePublisherName', () => {
+    it('should ignore case, accents, whitespace and punctuation', () => {
+        expect(normalizePublisherName('Darth Vader')).toBe('darthvader');
+        expect(normalizePublisherName('  darth_VADER ')).toBe('darthvader');
+        expect(normalizePublisherName('Därth-Vadér')).toBe('darthvader');
+    });
+
+    it('should return an empty string for empty names', () => {
+        expect(normalizePublisherName(null)).toBe('');
+        expect(normalizePublisherName(' - ')).toBe('');
+    });
+});
+
+describe('PublishingBansService', () => {
+    let service: PublishingBansService;
+    let bansRepository: any;
+    let attemptsRepository: any;
+    let banQuery: any;
+
+    const darthVader = {
+        id: 1,
+        name: 'Darth Vader',
+        normalizedName: 'darthvader',
+        reason: 'Darth Vader is not allowed to publish Wookie books.',
+        liftedAt: null,
+    } as BannedPublisher;
+
+    beforeEach(async () => {
+        banQuery = {
+            where: jest.fn().mockReturnThis(),
+            andWhere: jest.fn().mockReturnThis(),
+            orderBy: jest.fn().mockReturnThis(),
+            getOne: jest.fn().mockResolvedValue(null),
+        };
+        bansRepository = {
+            count: jest.fn(),
+            find: jest.fn(),
+            findOne: jest.fn(),
+            create: jest.fn((ban) => ban),
+            save: jest.fn(async (ban) => ban),
+            createQueryBuilder: jest.fn(() => banQuery),
+        };
+        attemptsRepository = {
+            create: jest.fn((attempt) => attempt),
+            save: jest.fn(async (attempt) => attempt),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                PublishingBansService,
+                { provide: getRepositoryToken(BannedPublisher), useValue: bansRepository },
+                { provide: getRepositoryToken(BlockedPublishAttempt), useValue: attemptsRepository },
+            ],
+        }).compile();
+
+        service = module.get<PublishingBansService>(PublishingBansService);
+    });
+
+    describe('onModuleInit', () => {
+        it('should seed the default bans on an empty database', async () => {
+            bansRepository.count.mockResolvedValue(0);
+
+            await service.onModuleInit();
+
+            expect(bansRepository.save).toHaveBeenCalledWith([
+                expect.objectContaining({ name: 'Darth Vader', normalizedName: 'darthvader' }),
+            ]);
+        });
+
+        it('should not seed when bans exist, even if all are lifted', async () => {
+            bansRepository.count.mockResolvedValue(1);
+
+            await service.onModuleInit();
+
+            expect(bansRepository.save).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('ban', () => {
+        it('should store the normalized name and the admin', async () => {
+            bansRepository.findOne.mockResolvedValue(null);
+
+            const result = await service.ban(' Boba Fett ', 'Bounty hunter', { id: 3 });
+
+            expect(result).toEqual({
+                name: 'Boba Fett',
+                normalizedName: 'bobafett',
+                reason: 'Bounty hunter',
+                bannedBy: { id: 3 },
+            });
+        });
+
+        it('should reject names an active ban already covers', async () => {
+            bansRepository.findOne.mockResolvedValue(darthVader);
+
+            await expect(service.ban('DARTH VADER')).rejects.toThrow(ConflictException);
+        });
+
+        it('should reject names without letters or digits', async () => {
+            await expect(service.ban('--')).rejects.toThrow(BadRequestException);
+            await expect(service.ban(undefined)).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('lift', () => {
+        it('should mark the ban as lifted', async () => {
+            bansRepository.findOne.mockResolvedValue({ ...darthVader });
+
+            const result = await service.lift(1);
+
+            expect(result.liftedAt).toBeInstanceOf(Date);
+        });
+
+        it('should throw NotFoundException for unknown or lifted bans', async () => {
+            bansRepository.findOne.mockResolvedValue(null);
+
+            await expect(service.lift(1)).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('assertMayPublish', () => {
+        const author = { id: 5, username: 'anakin', authorPseudonym: 'Darth  vader!' };
+
+        it('should allow authors without a matching ban', async () => {
+            await expect(service.assertMayPublish(author, 'create')).resolves.toBeUndefined();
+
+            expect(banQuery.andWhere).toHaveBeenCalledWith('ban.normalizedName IN (:...candidates)', {
+                candidates: ['anakin', 'darthvader'],
+            });
+            expect(attemptsRepository.save).not.toHaveBeenCalled();
+        });
+
+        it('should record the attempt and throw a structured ForbiddenException', async () => {
+            banQuery.getOne.mockResolvedValue(darthVader);
+
+            const error = await service.assertMayPublish(author, 'republish', 12).catch((e) => e);
+
+            expect(error).toBeInstanceOf(ForbiddenException);
+            expect(error.getResponse()).toEqual({
+                statusCode: 403,
+                error: 'Forbidden',
+                code: ErrorCode.PublisherBanned,
+                message: 'You are not allowed to publish books',
+                reason: darthVader.reason,
+            });
+            expect(attemptsRepository.save).toHaveBeenCalledWith({
+                userId: 5,
+                username: 'anakin',
+                authorPseudonym: 'Darth  vader!',
+                ban: darthVader,
+                matchedOn: 'authorPseudonym',
+                action: 'republish',
+                bookId: 12,
+            });
+        });
+    });
+});
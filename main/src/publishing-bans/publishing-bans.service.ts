@@ -0,0 +1,239 @@
+import {
+    Injectable,
+    Logger,
+    OnModuleInit,
+    BadRequestException,
+    ConflictException,
+    NotFoundException,
+    InternalServerErrorException,
+    HttpException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { User } from '../users/user.entity';
+import { Paginated, SortKey, paginate, parsePagination, parseSort } from '../common/pagination';
+import { BannedPublisher } from './banned-publisher.entity';
+import { BlockedPublishAttempt, PublishAction } from './blocked-publish-attempt.entity';
+import { BlockedAttemptsQueryDto } from './blocked-attempts-query.dto';
+import { PublisherBannedException } from '../common/errors';
+
+/**
+ * Bans created on an empty database, replacing the former hard-coded check.
+ */
+export const DEFAULT_BANNED_PUBLISHERS = [
+    { name: 'Darth Vader', reason: 'Darth Vader is not allowed to publish Wookie books.' },
+];
+
+const ATTEMPT_SORT_TIE_BREAKER: SortKey = { field: 'id', column: 'attempt.id', direction: 'DESC' };
+
+/**
+ * Normalizes a username or pseudonym for ban matching: accents, case, whitespace
+ * and punctuation are ignored, so `Darth Vader`, `darth_vader` and `DÄRTH-VADER` are equal.
+ *
+ * @param name - The name to normalize
+ * @returns The normalized name, empty if it has no letters or digits
+ */
+export function normalizePublisherName(name: string | null | undefined): string {
+    return (name ?? '')
+        .normalize('NFKD')
+        .replace(/\p{M}/gu, '')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]/gu, '');
+}
+
+@Injectable()
+export class PublishingBansService implements OnModuleInit {
+    private readonly logger = new Logger(PublishingBansService.name);
+
+    constructor(
+        @InjectRepository(BannedPublisher)
+        private readonly bansRepository: Repository<BannedPublisher>,
+
+        @InjectRepository(BlockedPublishAttempt)
+        private readonly attemptsRepository: Repository<BlockedPublishAttempt>,
+    ) { }
+
+    /**
+     * Seeds the default bans on a fresh database. Lifted bans are kept, so an
+     * admin lifting every ban does not bring the defaults back.
+     */
+    async onModuleInit(): Promise<void> {
+        if (await this.bansRepository.count() > 0) {
+            return;
+        }
+
+        await this.bansRepository.save(
+            DEFAULT_BANNED_PUBLISHERS.map(({ name, reason }) =>
+                this.bansRepository.create({ name, normalizedName: normalizePublisherName(name), reason }),
+            ),
+        );
+        this.logger.log(`Seeded ${DEFAULT_BANNED_PUBLISHERS.length} default publishing ban(s)`);
+    }
+
+    /**
+     * Lists the bans currently in force.
+     *
+     * @returns Active bans, oldest first
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    async findActive(): Promise<BannedPublisher[]> {
+        try {
+            return await this.bansRepository.find({ where: { liftedAt: IsNull() }, order: { id: 'ASC' } });
+        } catch (error) {
+            throw new InternalServerErrorException('An error occurred while fetching banned publishers', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Bans a username or pseudonym from publishing.
+     *
+     * @param name - The username or pseudonym to ban
+     * @param reason - Optional reason shown to the blocked user
+     * @param bannedBy - The admin creating the ban
+     * @returns The created ban
+     * @throws BadRequestException if the name has no letters or digits
+     * @throws ConflictException if an active ban already matches the name
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    async ban(name: string, reason?: string, bannedBy?: Pick<User, 'id'>): Promise<BannedPublisher> {
+        try {
+            const normalizedName = typeof name === 'string' ? normalizePublisherName(name) : '';
+
+            if (!normalizedName) {
+                throw new BadRequestException('name must contain letters or digits');
+            }
+
+            const existing = await this.bansRepository.findOne({ where: { normalizedName, liftedAt: IsNull() } });
+            if (existing) {
+                throw new ConflictException(`"${name}" is already banned`);
+            }
+
+            return await this.bansRepository.save(
+                this.bansRepository.create({
+                    name: name.trim(),
+                    normalizedName,
+                    reason: reason ?? null,
+                    bannedBy: bannedBy ? ({ id: bannedBy.id } as User) : null,
+                }),
+            );
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while banning the publisher', { cause: error });
+        }
+    }
+
+    /**
+     * Lifts an active ban.
+     *
+     * @param id - The ID of the ban
+     * @returns The lifted ban
+     * @throws NotFoundException if no active ban has this ID
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    async lift(id: number): Promise<BannedPublisher> {
+        try {
+            const ban = await this.bansRepository.findOne({ where: { id, liftedAt: IsNull() } });
+
+            if (!ban) {
+                throw new NotFoundException('Ban not found');
+            }
+
+            ban.liftedAt = new Date();
+            return await this.bansRepository.save(ban);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while lifting the ban', { cause: error });
+        }
+    }
+
+    /**
+     * Lists blocked publishing attempts, newest first.
+     *
+     * @param query - Pagination (`page`, `limit`, `cursor`), `sort` over `id`, and optional `userId` filter
+     * @returns One page of attempts with the matching ban
+     * @throws BadRequestException if a query parameter is invalid
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    async findAttempts(query: BlockedAttemptsQueryDto = {}): Promise<Paginated<BlockedPublishAttempt>> {
+        try {
+            const sort = parseSort(query.sort, { id: 'attempt.id' }, [ATTEMPT_SORT_TIE_BREAKER], ATTEMPT_SORT_TIE_BREAKER);
+            const pagination = parsePagination(query, sort);
+            const queryBuilder = this.attemptsRepository
+                .createQueryBuilder('attempt')
+                .leftJoinAndSelect('attempt.ban', 'ban');
+
+            if (query.userId !== undefined) {
+                const userId = Number(query.userId);
+                if (!Number.isInteger(userId)) {
+                    throw new BadRequestException('userId must be an integer');
+                }
+                queryBuilder.andWhere('attempt.userId = :userId', { userId });
+            }
+
+            return await paginate(queryBuilder, sort, pagination);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while fetching blocked attempts', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Rejects banned publishers. The username and pseudonym are matched after
+     * normalization, and every blocked attempt is recorded.
+     *
+     * @param user - The author, with `username` and `authorPseudonym` loaded
+     * @param action - What the author tried to do
+     * @param bookId - The book being updated or republished
+     * @throws PublisherBannedException with the ban reason if the author is banned
+     */
+    async assertMayPublish(
+        user: Pick<User, 'id' | 'username' | 'authorPseudonym'>,
+        action: PublishAction,
+        bookId?: number,
+    ): Promise<void> {
+        const names = {
+            username: normalizePublisherName(user.username),
+            authorPseudonym: normalizePublisherName(user.authorPseudonym),
+        };
+        const candidates = Object.values(names).filter(Boolean);
+
+        if (candidates.length === 0) {
+            return;
+        }
+
+        const ban = await this.bansRepository
+            .createQueryBuilder('ban')
+            .where('ban.liftedAt IS NULL')
+            .andWhere('ban.normalizedName IN (:...candidates)', { candidates })
+            .orderBy('ban.id', 'ASC')
+            .getOne();
+
+        if (!ban) {
+            return;
+        }
+
+        await this.attemptsRepository.save(
+            this.attemptsRepository.create({
+                userId: user.id,
+                username: user.username,
+                authorPseudonym: user.authorPseudonym ?? null,
+                ban,
+                matchedOn: ban.normalizedName === names.username ? 'username' : 'authorPseudonym',
+                action,
+                bookId: bookId ?? null,
+            }),
+        );
+
+        throw new PublisherBannedException(ban.reason);
+    }
+}
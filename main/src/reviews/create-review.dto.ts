@@ -0,0 +1,28 @@
+import { Transform } from 'class-transformer';
+import { IsInt, IsNotEmpty, IsString, Max, MaxLength, Min } from 'class-validator';
+import { toNumber } from '../common/validation';
+import { REVIEW_TEXT_MAX_LENGTH } from './reviews.service';
+
+/**
+ * DTO for reviewing a book
+ */
+export class CreateReviewDto {
+    /**
+     * Stars from 1 to 5
+     * @example 5
+     */
+    @Transform(toNumber)
+    @IsInt()
+    @Min(1)
+    @Max(5)
+    rating: number;
+
+    /**
+     * The review
+     * @example "Kept me up all night on Kashyyyk."
+     */
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(REVIEW_TEXT_MAX_LENGTH)
+    text: string;
+}
@@ -0,0 +1,43 @@
+import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, JoinColumn, CreateDateColumn, UpdateDateColumn, Index } from 'typeorm';
+import { Exclude } from 'class-transformer';
+import { User } from '../users/user.entity';
+import { Book } from '../books/book.entity';
+
+/**
+ * A reader's rating and review of a book; each reader reviews a book at most once.
+ */
+@Entity()
+@Index(['bookId', 'reviewerId'], { unique: true })
+export class Review {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Book, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'bookId' })
+    @Exclude()
+    book: Book;
+
+    @Column()
+    bookId: number;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'reviewerId' })
+    reviewer: User;
+
+    @Column()
+    @Exclude()
+    reviewerId: number;
+
+    /** Stars from 1 to 5 */
+    @Column()
+    rating: number;
+
+    @Column('text')
+    text: string;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
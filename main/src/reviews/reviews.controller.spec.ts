@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, ForbiddenException, InternalServerErrorException } from '@nestjs/common';
+import { ReviewsController } from './reviews.controller';
+import { ReviewsService } from './reviews.service';
+
+describe('ReviewsController', () => {
+    let reviewsController: ReviewsController;
+    let reviewsService: Partial<ReviewsService>;
+
+    const mockRequest = (user: any = { id: 5 }) => ({
+        user,
+        originalUrl: '/books/3/reviews',
+        protocol: 'http',
+        get: () => 'localhost:3000',
+    });
+
+    beforeEach(async () => {
+        reviewsService = {
+            findByBook: jest.fn(),
+            create: jest.fn(),
+            update: jest.fn(),
+            remove: jest.fn(),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            controllers: [ReviewsController],
+            providers: [{ provide: ReviewsService, useValue: reviewsService }],
+        }).compile();
+
+        reviewsController = module.get<ReviewsController>(ReviewsController);
+    });
+
+    describe('findAll', () => {
+        it('should return a page of reviews with links for anonymous callers', async () => {
+            jest.spyOn(reviewsService, 'findByBook').mockResolvedValue({
+                data: [{ id: 8, rating: 5, text: 'Great' } as any],
+                meta: { total: 1, limit: 20, page: 1, totalPages: 1 },
+            });
+            const res = { setHeader: jest.fn() };
+
+            const result = await reviewsController.findAll(3, {}, mockRequest(null), res);
+
+            expect(reviewsService.findByBook).toHaveBeenCalledWith(3, {}, null);
+            expect(result.data).toEqual([{ id: 8, rating: 5, text: 'Great' }]);
+            expect(result.links.self).toBe('http://localhost:3000/books/3/reviews');
+        });
+    });
+
+    describe('create', () => {
+        it('should review the book as the authenticated user', async () => {
+            jest.spyOn(reviewsService, 'create').mockResolvedValue({ id: 8, rating: 5, text: 'Great' } as any);
+
+            const result = await reviewsController.create(mockRequest(), 3, { rating: 5, text: 'Great' });
+
+            expect(reviewsService.create).toHaveBeenCalledWith({ id: 5 }, 3, { rating: 5, text: 'Great' });
+            expect(result).toEqual({ id: 8, rating: 5, text: 'Great' });
+        });
+
+        it('should rethrow ForbiddenException and ConflictException', async () => {
+            jest.spyOn(reviewsService, 'create').mockRejectedValueOnce(new ForbiddenException());
+            await expect(reviewsController.create(mockRequest(), 3, { rating: 5, text: 'Mine' })).rejects.toThrow(
+                ForbiddenException,
+            );
+
+            jest.spyOn(reviewsService, 'create').mockRejectedValueOnce(new ConflictException());
+            await expect(reviewsController.create(mockRequest(), 3, { rating: 5, text: 'Again' })).rejects.toThrow(
+                ConflictException,
+            );
+        });
+    });
+
+    describe('remove', () => {
+        it('should hide unexpected errors behind InternalServerErrorException', async () => {
+            jest.spyOn(reviewsService, 'remove').mockRejectedValue(new Error('disk full'));
+
+            await expect(reviewsController.remove(mockRequest(), 8)).rejects.toThrow(InternalServerErrorException);
+        });
+    });
+});
@@ -0,0 +1,140 @@
+import {
+    Controller,
+    Get,
+    Post,
+    Patch,
+    Delete,
+    Param,
+    Body,
+    Query,
+    Req,
+    Res,
+    ParseIntPipe,
+    HttpCode,
+    HttpStatus,
+    InternalServerErrorException,
+    HttpException,
+} from '@nestjs/common';
+import { instanceToPlain } from 'class-transformer';
+import { Public } from '../auth/public.decorator';
+import { XmlRoot } from '../common/xml';
+import { PaginationQueryDto, buildPaginationLinks, formatLinkHeader } from '../common/pagination';
+import { ReviewsService } from './reviews.service';
+import { CreateReviewDto } from './create-review.dto';
+import { UpdateReviewDto } from './update-review.dto';
+
+@Controller()
+@XmlRoot('review')
+export class ReviewsController {
+    constructor(private readonly reviewsService: ReviewsService) { }
+
+    /**
+     * Lists the reviews of a book, newest first
+     *
+     * @param id - The ID of the book
+     * @param query - Pagination (`page`, `limit`, `cursor`) and sorting (`sort` over `id`, `rating`)
+     * @param req - The request object, carrying the optional authenticated user and used to build pagination links
+     * @param res - The response object, used to set the `Link` header
+     * @returns A page of reviews with their reviewers
+     * @throws BadRequestException if a query parameter is invalid
+     * @throws NotFoundException if the book is not found
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Public()
+    @Get('books/:id/reviews')
+    @XmlRoot('reviews', 'review')
+    async findAll(
+        @Param('id', ParseIntPipe) id: number,
+        @Query() query: PaginationQueryDto,
+        @Req() req,
+        @Res({ passthrough: true }) res,
+    ) {
+        try {
+            const page = await this.reviewsService.findByBook(id, query, req.user);
+            const links = buildPaginationLinks(req, page.meta);
+            const linkHeader = formatLinkHeader(links);
+
+            if (linkHeader) {
+                res.setHeader('Link', linkHeader);
+            }
+
+            return instanceToPlain({ ...page, links });
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while fetching the reviews', { cause: error });
+        }
+    }
+
+    /**
+     * Reviews a book as the authenticated user
+     *
+     * @param req - The request object containing the authenticated user
+     * @param id - The ID of the book
+     * @param body - The rating and text
+     * @returns The created review
+     * @throws BadRequestException if the rating or text is invalid
+     * @throws NotFoundException if the book is not found
+     * @throws ForbiddenException if the user is the book's author
+     * @throws ConflictException if the book is not published or the user already reviewed it
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Post('books/:id/reviews')
+    async create(@Req() req, @Param('id', ParseIntPipe) id: number, @Body() body: CreateReviewDto) {
+        try {
+            return instanceToPlain(await this.reviewsService.create(req.user, id, body));
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while creating the review', { cause: error });
+        }
+    }
+
+    /**
+     * Edits one of the authenticated user's reviews
+     *
+     * @param req - The request object containing the authenticated user
+     * @param id - The ID of the review
+     * @param body - The new rating and/or text
+     * @returns The updated review
+     * @throws BadRequestException if the rating or text is invalid
+     * @throws NotFoundException if the review is not found
+     * @throws UnauthorizedException if the review belongs to someone else
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Patch('reviews/:id')
+    async update(@Req() req, @Param('id', ParseIntPipe) id: number, @Body() body: UpdateReviewDto) {
+        try {
+            return instanceToPlain(await this.reviewsService.update(req.user, id, body));
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while updating the review', { cause: error });
+        }
+    }
+
+    /**
+     * Deletes a review; moderators and admins may delete any review
+     *
+     * @param req - The request object containing the authenticated user
+     * @param id - The ID of the review
+     * @throws NotFoundException if the review is not found
+     * @throws UnauthorizedException if the review belongs to someone else
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Delete('reviews/:id')
+    @HttpCode(HttpStatus.NO_CONTENT)
+    async remove(@Req() req, @Param('id', ParseIntPipe) id: number) {
+        try {
+            await this.reviewsService.remove(req.user, id);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while deleting the review', { cause: error });
+        }
+    }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { BooksModule } from '../books/books.module';
+import { Review } from './review.entity';
+import { ReviewsService } from './reviews.service';
+import { ReviewsController } from './reviews.controller';
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Review]), BooksModule],
+    providers: [ReviewsService],
+    controllers: [ReviewsController],
+})
+export class ReviewsModule { }
@@ -0,0 +1,169 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource, QueryFailedError } from 'typeorm';
+import {
+    BadRequestException,
+    ConflictException,
+    ForbiddenException,
+    NotFoundException,
+} from '@nestjs/common';
+import { Book } from '../books/book.entity';
+import { BookStatus } from '../books/book-lifecycle';
+import { BooksService } from '../books/books.service';
+import { Role } from '../users/role.enum';
+import { Review } from './review.entity';
+import { ReviewsService } from './reviews.service';
+
+describe('ReviewsService', () => {
+    let service: ReviewsService;
+    let reviewsRepository: any;
+    let booksService: { findOne: jest.Mock };
+    let manager: any;
+    let ratingQuery: any;
+
+    const reader = { id: 5, role: Role.Reader };
+    const book = { id: 3, status: BookStatus.Published, author: { id: 1 } };
+
+    beforeEach(async () => {
+        const reviewQuery = {
+            leftJoin: jest.fn().mockReturnThis(),
+            addSelect: jest.fn().mockReturnThis(),
+            where: jest.fn().mockReturnThis(),
+            getOne: jest.fn(async () => ({ id: 8, rating: 4 })),
+        };
+        reviewsRepository = {
+            exists: jest.fn().mockResolvedValue(false),
+            findOne: jest.fn(),
+            createQueryBuilder: jest.fn(() => reviewQuery),
+        };
+        ratingQuery = {
+            select: jest.fn().mockReturnThis(),
+            addSelect: jest.fn().mockReturnThis(),
+            where: jest.fn().mockReturnThis(),
+            getRawOne: jest.fn().mockResolvedValue({ count: 2, sum: '9' }),
+        };
+        manager = {
+            create: jest.fn((_entity, values) => values),
+            save: jest.fn(async (review) => ({ id: 8, ...review })),
+            delete: jest.fn(),
+            update: jest.fn(),
+            createQueryBuilder: jest.fn(() => ratingQuery),
+        };
+        booksService = { findOne: jest.fn().mockResolvedValue(book) };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                ReviewsService,
+                { provide: getRepositoryToken(Review), useValue: reviewsRepository },
+                { provide: BooksService, useValue: booksService },
+                { provide: DataSource, useValue: { transaction: jest.fn((work) => work(manager)) } },
+            ],
+        }).compile();
+
+        service = module.get<ReviewsService>(ReviewsService);
+    });
+
+    describe('create', () => {
+        it('should save the review and refresh the book rating', async () => {
+            await service.create(reader, 3, { rating: 4, text: '  Wonderful  ' });
+
+            expect(booksService.findOne).toHaveBeenCalledWith(3, reader);
+            expect(manager.create).toHaveBeenCalledWith(Review, { bookId: 3, reviewerId: 5, rating: 4, text: 'Wonderful' });
+            expect(ratingQuery.where).toHaveBeenCalledWith('review.bookId = :bookId', { bookId: 3 });
+            expect(manager.update).toHaveBeenCalledWith(Book, 3, { reviewCount: 2, ratingSum: 9 });
+        });
+
+        it('should bar authors from reviewing their own books', async () => {
+            await expect(service.create({ id: 1, role: Role.Author }, 3, { rating: 5, text: 'Mine' })).rejects.toThrow(
+                ForbiddenException,
+            );
+            expect(manager.save).not.toHaveBeenCalled();
+        });
+
+        it('should refuse a second review of the same book', async () => {
+            reviewsRepository.exists.mockResolvedValue(true);
+
+            await expect(service.create(reader, 3, { rating: 5, text: 'Again' })).rejects.toThrow(ConflictException);
+        });
+
+        it('should turn a concurrent duplicate into a ConflictException', async () => {
+            manager.save.mockRejectedValue(new QueryFailedError('INSERT', [], new Error('UNIQUE constraint failed: review.bookId')));
+
+            await expect(service.create(reader, 3, { rating: 5, text: 'Twice' })).rejects.toThrow(ConflictException);
+        });
+
+        it('should only accept reviews of published books', async () => {
+            booksService.findOne.mockResolvedValue({ ...book, status: BookStatus.Unpublished });
+
+            await expect(service.create(reader, 3, { rating: 5, text: 'Early' })).rejects.toThrow(ConflictException);
+        });
+
+        it('should pass on NotFoundException for books the reader cannot see', async () => {
+            booksService.findOne.mockRejectedValue(new NotFoundException('Book not found'));
+
+            await expect(service.create(reader, 3, { rating: 5, text: 'Hidden' })).rejects.toThrow(NotFoundException);
+        });
+
+        it.each([
+            { text: 'No rating' },
+            { rating: 0, text: 'Too low' },
+            { rating: 4.5, text: 'Half' },
+            { rating: 6, text: 'Too high' },
+            { rating: 3 },
+            { rating: 3, text: '   ' },
+            { rating: 3, text: 'x'.repeat(5001) },
+        ])('should reject %p with a 400', async (data) => {
+            await expect(service.create(reader, 3, data as any)).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('update', () => {
+        it('should change the rating of the reviewer\'s own review', async () => {
+            reviewsRepository.findOne.mockResolvedValue({ id: 8, bookId: 3, reviewerId: 5, rating: 2, text: 'Meh' });
+
+            await service.update(reader, 8, { rating: 4 });
+
+            expect(manager.save).toHaveBeenCalledWith({ id: 8, bookId: 3, reviewerId: 5, rating: 4, text: 'Meh' });
+            expect(manager.update).toHaveBeenCalledWith(Book, 3, { reviewCount: 2, ratingSum: 9 });
+        });
+
+        it('should not let users edit reviews of others', async () => {
+            reviewsRepository.findOne.mockResolvedValue({ id: 8, bookId: 3, reviewerId: 6 });
+
+            await expect(service.update(reader, 8, { rating: 1 })).rejects.toThrow(ForbiddenException);
+        });
+
+        it('should throw NotFoundException for unknown reviews', async () => {
+            reviewsRepository.findOne.mockResolvedValue(null);
+
+            await expect(service.update(reader, 8, { text: 'Better' })).rejects.toThrow(NotFoundException);
+        });
+    });
+
+    describe('remove', () => {
+        it('should delete the review and refresh the book rating', async () => {
+            reviewsRepository.findOne.mockResolvedValue({ id: 8, bookId: 3, reviewerId: 5 });
+
+            await service.remove(reader, 8);
+
+            expect(manager.delete).toHaveBeenCalledWith(Review, 8);
+            expect(manager.update).toHaveBeenCalledWith(Book, 3, { reviewCount: 2, ratingSum: 9 });
+        });
+
+        it('should let moderators delete any review', async () => {
+            reviewsRepository.findOne.mockResolvedValue({ id: 8, bookId: 3, reviewerId: 6 });
+
+            await expect(service.remove(reader, 8)).rejects.toThrow(ForbiddenException);
+            await expect(service.remove({ id: 2, role: Role.Moderator }, 8)).resolves.toBeUndefined();
+        });
+    });
+
+    describe('findByBook', () => {
+        it('should check that the viewer may see the book', async () => {
+            booksService.findOne.mockRejectedValue(new NotFoundException());
+
+            await expect(service.findByBook(3, {}, null)).rejects.toThrow(NotFoundException);
+            expect(reviewsRepository.createQueryBuilder).not.toHaveBeenCalled();
+        });
+    });
+});
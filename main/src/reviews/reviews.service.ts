@@ -0,0 +1,237 @@
+import {
+    Injectable,
+    BadRequestException,
+    ConflictException,
+    ForbiddenException,
+    NotFoundException,
+    InternalServerErrorException,
+    HttpException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, QueryFailedError, Repository } from 'typeorm';
+import { User } from '../users/user.entity';
+import { Role } from '../users/role.enum';
+import { Book } from '../books/book.entity';
+import { BookStatus } from '../books/book-lifecycle';
+import { BooksService } from '../books/books.service';
+import { Paginated, PaginationQueryDto, SortKey, paginate, parsePagination, parseSort } from '../common/pagination';
+import { Review } from './review.entity';
+import { NotResourceOwnerException } from '../common/errors';
+
+/**
+ * Longest accepted review text.
+ */
+export const REVIEW_TEXT_MAX_LENGTH = 5000;
+
+const REVIEW_SORT_COLUMNS = { id: 'review.id', rating: 'review.rating' };
+
+const REVIEW_SORT_TIE_BREAKER: SortKey = { field: 'id', column: 'review.id', direction: 'DESC' };
+
+/**
+ * Roles that may delete any review, not only their own.
+ */
+const REVIEW_MODERATOR_ROLES = [Role.Moderator, Role.Admin];
+
+/**
+ * Rating and text sent by a reviewer.
+ */
+export interface ReviewInput {
+    rating?: number;
+    text?: string;
+}
+
+@Injectable()
+export class ReviewsService {
+    constructor(
+        @InjectRepository(Review)
+        private readonly reviewsRepository: Repository<Review>,
+
+        private readonly booksService: BooksService,
+
+        private readonly dataSource: DataSource,
+    ) { }
+
+    /**
+     * Lists the reviews of a book, newest first.
+     * @param bookId - ID of the book.
+     * @param query - Pagination (`page`, `limit`, `cursor`) and `sort` over `id`/`rating`.
+     * @param viewer - The authenticated user, if any; reviews of unpublished books are only shown to those who may see the book.
+     * @returns One page of reviews with their reviewers.
+     * @throws NotFoundException if the book does not exist or is not visible to the viewer.
+     */
+    async findByBook(bookId: number, query: PaginationQueryDto = {}, viewer?: Pick<User, 'id' | 'role'> | null): Promise<Paginated<Review>> {
+        try {
+            await this.booksService.findOne(bookId, viewer);
+
+            const sort = parseSort(query.sort, REVIEW_SORT_COLUMNS, [REVIEW_SORT_TIE_BREAKER], REVIEW_SORT_TIE_BREAKER);
+            const pagination = parsePagination(query, sort);
+            const queryBuilder = this.reviewsRepository
+                .createQueryBuilder('review')
+                .leftJoin('review.reviewer', 'reviewer')
+                .addSelect(['reviewer.id', 'reviewer.username', 'reviewer.authorPseudonym'])
+                .where('review.bookId = :bookId', { bookId });
+
+            return await paginate(queryBuilder, sort, pagination);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while fetching the reviews', { cause: error });
+        }
+    }
+
+    /**
+     * Reviews a published book. Authors cannot review their own books, and each
+     * reader reviews a book once.
+     * @param user - The reviewer.
+     * @param bookId - ID of the book.
+     * @param data - A `rating` from 1 to 5 and the review `text`.
+     * @returns The created review or throws an exception if the input is invalid, the book cannot be reviewed or was already reviewed by the user.
+     */
+    async create(user: Pick<User, 'id' | 'role'>, bookId: number, data: ReviewInput): Promise<Review> {
+        try {
+            const { rating, text } = this.parseInput(data, true);
+            const book = await this.booksService.findOne(bookId, user);
+
+            if (book.author?.id === user.id) {
+                throw new ForbiddenException('Authors cannot review their own books');
+            }
+
+            if (book.status !== BookStatus.Published) {
+                throw new ConflictException('Only published books can be reviewed');
+            }
+
+            if (await this.reviewsRepository.exists({ where: { bookId, reviewerId: user.id } })) {
+                throw new ConflictException('You have already reviewed this book');
+            }
+
+            const review = await this.dataSource.transaction(async (manager) => {
+                const saved = await manager.save(manager.create(Review, { bookId, reviewerId: user.id, rating, text }));
+                await this.refreshRating(manager, bookId);
+                return saved;
+            });
+
+            return this.findById(review.id);
+        } catch (error) {
+            if (error instanceof QueryFailedError && /UNIQUE constraint failed/i.test(error.message)) {
+                throw new ConflictException('You have already reviewed this book');
+            }
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while creating the review', { cause: error });
+        }
+    }
+
+    /**
+     * Changes the rating or text of the user's own review.
+     * @param user - The reviewer.
+     * @param id - ID of the review.
+     * @param data - The new `rating` and/or `text`.
+     * @returns The updated review or throws an exception if the input is invalid, the review is not found or belongs to someone else.
+     */
+    async update(user: Pick<User, 'id'>, id: number, data: ReviewInput): Promise<Review> {
+        try {
+            const changes = this.parseInput(data, false);
+            const review = await this.reviewsRepository.findOne({ where: { id } });
+
+            if (!review) {
+                throw new NotFoundException('Review not found');
+            }
+
+            if (review.reviewerId !== user.id) {
+                throw new NotResourceOwnerException('You are not authorized to update this review');
+            }
+
+            await this.dataSource.transaction(async (manager) => {
+                await manager.save(Object.assign(review, changes));
+                await this.refreshRating(manager, review.bookId);
+            });
+
+            return this.findById(id);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while updating the review', { cause: error });
+        }
+    }
+
+    /**
+     * Deletes a review. Reviewers delete their own reviews; moderators and admins may delete any.
+     * @param user - The user deleting the review.
+     * @param id - ID of the review.
+     * @throws NotFoundException if the review is not found.
+     * @throws UnauthorizedException if the review belongs to someone else and the user is not a moderator.
+     */
+    async remove(user: Pick<User, 'id' | 'role'>, id: number): Promise<void> {
+        try {
+            const review = await this.reviewsRepository.findOne({ where: { id } });
+
+            if (!review) {
+                throw new NotFoundException('Review not found');
+            }
+
+            if (review.reviewerId !== user.id && !REVIEW_MODERATOR_ROLES.includes(user.role)) {
+                throw new NotResourceOwnerException('You are not authorized to delete this review');
+            }
+
+            await this.dataSource.transaction(async (manager) => {
+                await manager.delete(Review, review.id);
+                await this.refreshRating(manager, review.bookId);
+            });
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while deleting the review', { cause: error });
+        }
+    }
+
+    private async findById(id: number): Promise<Review> {
+        return this.reviewsRepository
+            .createQueryBuilder('review')
+            .leftJoin('review.reviewer', 'reviewer')
+            .addSelect(['reviewer.id', 'reviewer.username', 'reviewer.authorPseudonym'])
+            .where('review.id = :id', { id })
+            .getOne();
+    }
+
+    /**
+     * Recomputes the review count and rating sum of a book from its reviews.
+     */
+    private async refreshRating(manager: EntityManager, bookId: number): Promise<void> {
+        const { count, sum } = await manager
+            .createQueryBuilder(Review, 'review')
+            .select('COUNT(*)', 'count')
+            .addSelect('COALESCE(SUM(review.rating), 0)', 'sum')
+            .where('review.bookId = :bookId', { bookId })
+            .getRawOne();
+
+        await manager.update(Book, bookId, { reviewCount: Number(count), ratingSum: Number(sum) });
+    }
+
+    /**
+     * Checks the rating and text; both are required for new reviews.
+     */
+    private parseInput(data: ReviewInput, required: boolean): ReviewInput {
+        const changes: ReviewInput = {};
+
+        if (data?.rating !== undefined || required) {
+            if (!Number.isInteger(data?.rating) || data.rating < 1 || data.rating > 5) {
+                throw new BadRequestException('rating must be an integer from 1 to 5');
+            }
+            changes.rating = data.rating;
+        }
+
+        if (data?.text !== undefined || required) {
+            const text = typeof data?.text === 'string' ? data.text.trim() : '';
+            if (!text || text.length > REVIEW_TEXT_MAX_LENGTH) {
+                throw new BadRequestException(`text must be between 1 and ${REVIEW_TEXT_MAX_LENGTH} characters`);
+            }
+            changes.text = text;
+        }
+
+        return changes;
+    }
+}
@@ -0,0 +1,24 @@
+import { Transform } from 'class-transformer';
+import { IsInt, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+import { toNumber } from '../common/validation';
+import { REVIEW_TEXT_MAX_LENGTH } from './reviews.service';
+
+/**
+ * DTO for editing a review
+ */
+export class UpdateReviewDto {
+    /** New stars from 1 to 5 */
+    @Transform(toNumber)
+    @IsInt()
+    @Min(1)
+    @Max(5)
+    @IsOptional()
+    rating?: number;
+
+    /** New review text */
+    @IsString()
+    @IsNotEmpty()
+    @MaxLength(REVIEW_TEXT_MAX_LENGTH)
+    @IsOptional()
+    text?: string;
+}
@@ -0,0 +1,34 @@
+import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn } from 'typeorm';
+
+/**
+ * An uploaded file kept in `FileStorage`, referenced by the records that use it.
+ */
+@Entity()
+export class Asset {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    /** Storage key prefix; the file and any derived variants are stored below it */
+    @Column({ unique: true })
+    storageKey: string;
+
+    @Column()
+    contentType: string;
+
+    /** Size of the original file in bytes */
+    @Column()
+    size: number;
+
+    /** SHA-256 of the original file, used as its ETag */
+    @Column()
+    checksum: string;
+
+    @Column({ type: 'integer', nullable: true })
+    width: number | null;
+
+    @Column({ type: 'integer', nullable: true })
+    height: number | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
@@ -0,0 +1,26 @@
+/**
+ * Where uploaded files live. Bind a different implementation to this token in
+ * `StorageModule` to move files to another backend (e.g. an object store).
+ */
+export abstract class FileStorage {
+    /**
+     * Stores a file, replacing any file with the same key.
+     * @param key - Slash separated path of the file, relative to the storage root.
+     * @param data - The file contents.
+     * @param contentType - MIME type of the file.
+     */
+    abstract put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+    /**
+     * Reads a file.
+     * @param key - Key the file was stored under.
+     * @returns The file contents, or `null` if there is no such file.
+     */
+    abstract get(key: string): Promise<Buffer | null>;
+
+    /**
+     * Deletes a file; deleting a missing file is not an error.
+     * @param key - Key the file was stored under.
+     */
+    abstract delete(key: string): Promise<void>;
+}
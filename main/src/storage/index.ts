@@ -0,0 +1,4 @@
+export * from './asset.entity';
+export * from './file-storage';
+export * from './local-file-storage';
+export * from './storage.module';
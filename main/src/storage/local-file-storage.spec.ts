@@ -0,0 +1,43 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileStorage } from './file-storage';
+import { LocalFileStorage } from './local-file-storage';
+
+describe('LocalFileStorage', () => {
+    let root: string;
+    let storage: FileStorage;
+
+    beforeEach(async () => {
+        root = await mkdtemp(join(tmpdir(), 'storage-'));
+        storage = new LocalFileStorage(root);
+    });
+
+    afterEach(async () => {
+        await rm(root, { recursive: true, force: true });
+    });
+
+    it('should store and read files in nested directories', async () => {
+        await storage.put('covers/abc/original', Buffer.from('image'), 'image/png');
+
+        expect((await storage.get('covers/abc/original')).toString()).toBe('image');
+    });
+
+    it('should return null for missing files', async () => {
+        expect(await storage.get('covers/missing')).toBeNull();
+    });
+
+    it('should delete files and ignore missing ones', async () => {
+        await storage.put('covers/abc/original', Buffer.from('image'), 'image/png');
+
+        await storage.delete('covers/abc/original');
+        await storage.delete('covers/abc/original');
+
+        expect(await storage.get('covers/abc/original')).toBeNull();
+    });
+
+    it('should refuse keys outside the root directory', async () => {
+        await expect(storage.get('../secret')).rejects.toThrow('Invalid storage key');
+        await expect(storage.put('/etc/passwd', Buffer.from(''), 'text/plain')).rejects.toThrow('Invalid storage key');
+    });
+});
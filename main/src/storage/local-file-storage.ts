@@ -0,0 +1,50 @@
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { FileStorage } from './file-storage';
+
+/**
+ * Stores files on the local filesystem below a root directory.
+ */
+export class LocalFileStorage extends FileStorage {
+    private readonly root: string;
+
+    constructor(root: string) {
+        super();
+        this.root = resolve(root);
+    }
+
+    /** The content type is not kept; readers know what they stored */
+    async put(key: string, data: Buffer): Promise<void> {
+        const path = this.resolveKey(key);
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, data);
+    }
+
+    async get(key: string): Promise<Buffer | null> {
+        try {
+            return await readFile(this.resolveKey(key));
+        } catch (error) {
+            if (error?.code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        await rm(this.resolveKey(key), { force: true });
+    }
+
+    /**
+     * Maps a key to a path, refusing keys that would escape the root directory.
+     */
+    private resolveKey(key: string): string {
+        const path = resolve(this.root, key);
+
+        if (!path.startsWith(this.root + sep)) {
+            throw new Error(`Invalid storage key: ${key}`);
+        }
+
+        return path;
+    }
+}
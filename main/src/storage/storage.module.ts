@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Asset } from './asset.entity';
+import { FileStorage } from './file-storage';
+import { LocalFileStorage } from './local-file-storage';
+import { AppConfigService } from '../config';
+
+@Module({
+    imports: [TypeOrmModule.forFeature([Asset])],
+    providers: [
+        {
+            provide: FileStorage,
+            inject: [AppConfigService],
+            useFactory: (config: AppConfigService) => new LocalFileStorage(config.storageDir),
+        },
+    ],
+    exports: [FileStorage, TypeOrmModule],
+})
+export class StorageModule { }
@@ -0,0 +1,150 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource } from 'typeorm';
+import { ConflictException, GoneException, NotFoundException } from '@nestjs/common';
+import { User } from './user.entity';
+import { Book } from '../books/book.entity';
+import { BookStatus } from '../books/book-lifecycle';
+import { Cart } from '../orders/cart.entity';
+import { ManuscriptDownload } from '../manuscripts/manuscript-download.entity';
+import { LedgerEntry } from '../donations/ledger-entry.entity';
+import { AppConfigService } from '../config';
+import { ACCOUNT_DELETION_GRACE_MS, ANONYMIZED_PSEUDONYM, AccountDeletionService } from './account-deletion.service';
+
+describe('AccountDeletionService', () => {
+    let service: AccountDeletionService;
+    let usersRepository: any;
+    let manager: any;
+    let query: Record<string, jest.Mock>;
+
+    const user = (values: Partial<User> = {}) =>
+        Object.assign(new User(), { id: 1, username: 'chewie', authorPseudonym: 'Chewbacca', deletedAt: null, anonymizedAt: null, ...values });
+
+    beforeEach(async () => {
+        query = {
+            update: jest.fn().mockReturnThis(),
+            delete: jest.fn().mockReturnThis(),
+            from: jest.fn().mockReturnThis(),
+            set: jest.fn().mockReturnThis(),
+            where: jest.fn().mockReturnThis(),
+            execute: jest.fn(),
+        };
+        manager = {
+            findOne: jest.fn(),
+            find: jest.fn().mockResolvedValue([]),
+            save: jest.fn(async (entity) => entity),
+            delete: jest.fn(),
+            update: jest.fn(),
+            createQueryBuilder: jest.fn(() => query),
+        };
+        usersRepository = {
+            findOne: jest.fn(),
+            find: jest.fn(),
+            save: jest.fn(async (entity) => entity),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                AccountDeletionService,
+                { provide: getRepositoryToken(User), useValue: usersRepository },
+                { provide: DataSource, useValue: { transaction: jest.fn((work) => work(manager)) } },
+                { provide: AppConfigService, useValue: { bcryptCost: 4 } },
+            ],
+        }).compile();
+
+        service = module.get<AccountDeletionService>(AccountDeletionService);
+    });
+
+    describe('delete', () => {
+        it('should mark the account deleted, unpublish its books and end its sessions', async () => {
+            manager.findOne.mockResolvedValue(user());
+            manager.find.mockResolvedValue([
+                Object.assign(new Book(), { id: 3, status: BookStatus.Published }),
+                Object.assign(new Book(), { id: 4, status: BookStatus.Published }),
+            ]);
+
+            const result = await service.delete(1);
+
+            expect(manager.find).toHaveBeenCalledWith(Book, { where: { author: { id: 1 }, status: BookStatus.Published } });
+            expect(manager.save).toHaveBeenCalledWith([
+                expect.objectContaining({ id: 3, status: BookStatus.Unpublished }),
+                expect.objectContaining({ id: 4, status: BookStatus.Unpublished }),
+            ]);
+            expect(query.set).toHaveBeenCalledWith({ revokedAt: result.deletedAt });
+            expect(query.set).toHaveBeenCalledWith({ usedAt: result.deletedAt });
+            expect(result).toEqual({
+                message: 'Account deleted',
+                deletedAt: expect.any(Date),
+                restorableUntil: new Date(result.deletedAt.getTime() + ACCOUNT_DELETION_GRACE_MS),
+                unpublishedBooks: 2,
+            });
+        });
+
+        it('should throw NotFoundException for unknown users', async () => {
+            manager.findOne.mockResolvedValue(null);
+
+            await expect(service.delete(1)).rejects.toThrow(NotFoundException);
+        });
+
+        it('should throw ConflictException for accounts already deleted', async () => {
+            manager.findOne.mockResolvedValue(user({ deletedAt: new Date() }));
+
+            await expect(service.delete(1)).rejects.toThrow(ConflictException);
+            expect(manager.save).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('restore', () => {
+        it('should clear the deletion within the grace period', async () => {
+            usersRepository.findOne.mockResolvedValue(user({ deletedAt: new Date(Date.now() - 1000) }));
+
+            const result = await service.restore(1);
+
+            expect(result.deletedAt).toBeNull();
+            expect(usersRepository.save).toHaveBeenCalled();
+        });
+
+        it('should throw ConflictException for accounts that are not deleted', async () => {
+            usersRepository.findOne.mockResolvedValue(user());
+
+            await expect(service.restore(1)).rejects.toThrow(ConflictException);
+        });
+
+        it('should throw GoneException once the grace period has ended', async () => {
+            usersRepository.findOne.mockResolvedValue(user({ deletedAt: new Date(Date.now() - ACCOUNT_DELETION_GRACE_MS) }));
+
+            await expect(service.restore(1)).rejects.toThrow(GoneException);
+            expect(usersRepository.save).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('anonymizeExpired', () => {
+        it('should erase the personal data of accounts past the grace period', async () => {
+            const now = new Date('2026-06-01T00:00:00Z');
+            const expired = user({ email: 'chewie@kashyyyk.example', password: 'hash', deletedAt: new Date('2026-04-01T00:00:00Z') });
+            usersRepository.find.mockResolvedValue([expired]);
+
+            const count = await service.anonymizeExpired(now);
+
+            expect(count).toBe(1);
+            expect(expired).toMatchObject({
+                username: 'deleted-user-1',
+                authorPseudonym: ANONYMIZED_PSEUDONYM,
+                email: null,
+                anonymizedAt: now,
+            });
+            expect(expired.password).not.toBe('hash');
+            expect(query.delete).toHaveBeenCalledTimes(2);
+            expect(manager.delete).toHaveBeenCalledWith(Cart, { userId: 1 });
+            expect(manager.update).toHaveBeenCalledWith(ManuscriptDownload, { userId: 1 }, { ip: null, userAgent: null });
+            expect(manager.update).toHaveBeenCalledWith(LedgerEntry, { authorId: 1 }, { authorPseudonym: ANONYMIZED_PSEUDONYM });
+        });
+
+        it('should do nothing when no account has expired', async () => {
+            usersRepository.find.mockResolvedValue([]);
+
+            await expect(service.anonymizeExpired()).resolves.toBe(0);
+            expect(manager.save).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,228 @@
+import {
+    Injectable,
+    Logger,
+    ConflictException,
+    GoneException,
+    InternalServerErrorException,
+    OnApplicationBootstrap,
+    OnApplicationShutdown,
+    HttpException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import * as bcrypt from 'bcrypt';
+import { randomBytes } from 'crypto';
+import { User } from './user.entity';
+import { Book } from '../books/book.entity';
+import { BookStatus, applyBookTransition } from '../books/book-lifecycle';
+import { Cart } from '../orders/cart.entity';
+import { RefreshToken } from '../auth/refresh-token.entity';
+import { PasswordResetToken } from '../auth/password-reset-token.entity';
+import { ManuscriptDownload } from '../manuscripts/manuscript-download.entity';
+import { LedgerEntry } from '../donations/ledger-entry.entity';
+import { UserNotFoundException } from '../common/errors';
+import { AppConfigService } from '../config';
+
+/**
+ * How long a deleted account can be restored before its personal data is erased.
+ */
+export const ACCOUNT_DELETION_GRACE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * How often accounts past their grace period are looked for.
+ */
+const ANONYMIZATION_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Pseudonym shown on the books of anonymized authors.
+ */
+export const ANONYMIZED_PSEUDONYM = 'Deleted author';
+
+/**
+ * Outcome of deleting an account.
+ */
+export interface AccountDeletion {
+    message: string;
+    deletedAt: Date;
+    /** The account can be restored through `POST /auth/restore` until then */
+    restorableUntil: Date;
+    /** Books that were taken off sale */
+    unpublishedBooks: number;
+}
+
+/**
+ * Deletes accounts in two steps. Deleting an account blocks it and takes its
+ * books off sale; books are kept so buyers can still download them. Once the
+ * grace period ends, the personal data of the account is erased while its
+ * orders, reviews and books stay in place under an anonymous name.
+ */
+@Injectable()
+export class AccountDeletionService implements OnApplicationBootstrap, OnApplicationShutdown {
+    private readonly logger = new Logger(AccountDeletionService.name);
+    private timer?: NodeJS.Timeout;
+
+    constructor(
+        @InjectRepository(User)
+        private readonly usersRepository: Repository<User>,
+
+        private readonly dataSource: DataSource,
+
+        private readonly config: AppConfigService,
+    ) { }
+
+    onApplicationBootstrap() {
+        const run = () =>
+            this.anonymizeExpired().catch((error) => this.logger.error(`Anonymizing deleted accounts failed: ${error?.message}`));
+
+        run();
+        this.timer = setInterval(run, ANONYMIZATION_INTERVAL_MS);
+        this.timer.unref();
+    }
+
+    onApplicationShutdown() {
+        clearInterval(this.timer);
+    }
+
+    /**
+     * Deletes an account: it can no longer sign in, its sessions end and its
+     * published books are unpublished.
+     * @param userId - ID of the account.
+     * @returns When the account was deleted and until when it can be restored.
+     * @throws NotFoundException if the user does not exist
+     * @throws ConflictException if the account is already deleted
+     */
+    async delete(userId: number): Promise<AccountDeletion> {
+        try {
+            return await this.dataSource.transaction(async (manager) => {
+                const user = await manager.findOne(User, { where: { id: userId } });
+
+                if (!user) {
+                    throw new UserNotFoundException();
+                }
+
+                if (user.deletedAt) {
+                    throw new ConflictException('Account is already deleted');
+                }
+
+                const now = new Date();
+                user.deletedAt = now;
+                await manager.save(user);
+
+                const books = await manager.find(Book, {
+                    where: { author: { id: userId }, status: BookStatus.Published },
+                });
+                for (const book of books) {
+                    applyBookTransition(book, 'unpublish', now);
+                }
+                await manager.save(books);
+
+                await manager
+                    .createQueryBuilder()
+                    .update(RefreshToken)
+                    .set({ revokedAt: now })
+                    .where('userId = :userId AND revokedAt IS NULL', { userId })
+                    .execute();
+                await manager
+                    .createQueryBuilder()
+                    .update(PasswordResetToken)
+                    .set({ usedAt: now })
+                    .where('userId = :userId AND usedAt IS NULL', { userId })
+                    .execute();
+
+                return {
+                    message: 'Account deleted',
+                    deletedAt: now,
+                    restorableUntil: new Date(now.getTime() + ACCOUNT_DELETION_GRACE_MS),
+                    unpublishedBooks: books.length,
+                };
+            });
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while deleting the account', { cause: error });
+        }
+    }
+
+    /**
+     * Restores a deleted account within the grace period. Its books stay
+     * unpublished until the author publishes them again.
+     * @param userId - ID of the account.
+     * @returns The restored user.
+     * @throws NotFoundException if the user does not exist
+     * @throws ConflictException if the account is not deleted
+     * @throws GoneException if the grace period has ended
+     */
+    async restore(userId: number): Promise<User> {
+        try {
+            const user = await this.usersRepository.findOne({ where: { id: userId } });
+
+            if (!user) {
+                throw new UserNotFoundException();
+            }
+
+            if (!user.deletedAt) {
+                throw new ConflictException('Account is not deleted');
+            }
+
+            if (user.anonymizedAt || user.deletedAt.getTime() + ACCOUNT_DELETION_GRACE_MS <= Date.now()) {
+                throw new GoneException('The account can no longer be restored');
+            }
+
+            user.deletedAt = null;
+            return await this.usersRepository.save(user);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while restoring the account', { cause: error });
+        }
+    }
+
+    /**
+     * Erases the personal data of every account deleted longer than the grace period ago.
+     * @param now - Current time.
+     * @returns The number of anonymized accounts.
+     */
+    async anonymizeExpired(now = new Date()): Promise<number> {
+        const users = await this.usersRepository.find({
+            where: {
+                deletedAt: LessThanOrEqual(new Date(now.getTime() - ACCOUNT_DELETION_GRACE_MS)),
+                anonymizedAt: IsNull(),
+            },
+        });
+
+        for (const user of users) {
+            await this.dataSource.transaction((manager) => this.anonymize(manager, user, now));
+        }
+
+        if (users.length > 0) {
+            this.logger.log(`Anonymized ${users.length} deleted account(s)`);
+        }
+
+        return users.length;
+    }
+
+    /**
+     * Replaces the account's names and credentials and drops data only useful to a live account.
+     */
+    private async anonymize(manager: EntityManager, user: User, now: Date): Promise<void> {
+        user.username = `deleted-user-${user.id}`;
+        user.authorPseudonym = ANONYMIZED_PSEUDONYM;
+        user.email = null;
+        user.password = await bcrypt.hash(randomBytes(32).toString('hex'), this.config.bcryptCost);
+        user.suspensionReason = null;
+        user.failedLoginAttempts = 0;
+        user.lockedUntil = null;
+        user.anonymizedAt = now;
+        await manager.save(user);
+
+        for (const tokens of [RefreshToken, PasswordResetToken]) {
+            await manager.createQueryBuilder().delete().from(tokens).where('userId = :userId', { userId: user.id }).execute();
+        }
+        await manager.delete(Cart, { userId: user.id });
+        await manager.update(ManuscriptDownload, { userId: user.id }, { ip: null, userAgent: null });
+        // The only change the ledger's triggers allow
+        await manager.update(LedgerEntry, { authorId: user.id }, { authorPseudonym: ANONYMIZED_PSEUDONYM });
+    }
+}
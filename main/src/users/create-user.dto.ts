@@ -0,0 +1,22 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * DTO for user creation
+ */
+export class CreateUserDto {
+    /**
+     * The username of the user
+     * @example "testuser"
+     */
+    @IsString()
+    @IsNotEmpty()
+    username: string;
+
+    /**
+     * The password of the user
+     * @example "password123"
+     */
+    @IsString()
+    @IsNotEmpty()
+    password: string;
+}
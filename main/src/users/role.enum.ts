@@ -0,0 +1,9 @@
+/**
+ * Roles a user can hold. Admins implicitly satisfy every role requirement.
+ */
+export enum Role {
+    Reader = 'reader',
+    Author = 'author',
+    Moderator = 'moderator',
+    Admin = 'admin',
+}
@@ -0,0 +1,29 @@
+import { ArgumentMetadata, ValidationPipe } from '@nestjs/common';
+import { ValidationFailedException } from '../common/errors';
+import { VALIDATION_PIPE_OPTIONS } from '../common/validation';
+import { UpdateUserDto } from './update-user.dto';
+
+describe('UpdateUserDto', () => {
+    const pipe = new ValidationPipe(VALIDATION_PIPE_OPTIONS);
+    const metadata: ArgumentMetadata = { type: 'body', metatype: UpdateUserDto };
+
+    it('should let users remove their email address', async () => {
+        const result: UpdateUserDto = await pipe.transform({ email: null }, metadata);
+
+        expect(result.email).toBeNull();
+    });
+
+    it('should refuse password changes, which need the current password', async () => {
+        const error = await pipe.transform({ password: 'newpassword123' }, metadata).catch((e) => e);
+
+        expect(error).toBeInstanceOf(ValidationFailedException);
+        expect(error.details).toEqual([{ field: 'password', message: 'Change your password through POST /users/me/password' }]);
+    });
+
+    it('should refuse fields users may not change themselves', async () => {
+        const error = await pipe.transform({ authorPseudonym: 'Chewie', role: 'admin' }, metadata).catch((e) => e);
+
+        expect(error).toBeInstanceOf(ValidationFailedException);
+        expect(error.details).toEqual([{ field: 'role', message: 'property role should not exist' }]);
+    });
+});
@@ -0,0 +1,38 @@
+import { ApiHideProperty } from '@nestjs/swagger';
+import { IsEmpty, IsOptional, IsString } from 'class-validator';
+
+/**
+ * DTO for updating user profile
+ */
+export class UpdateUserDto {
+    /**
+     * The updated username of the user
+     * @example "updateduser"
+     */
+    @IsString()
+    @IsOptional()
+    username?: string;
+
+    /**
+     * The updated pseudonym of the author
+     * @example "authorPseudonym123"
+     */
+    @IsString()
+    @IsOptional()
+    authorPseudonym?: string;
+
+    /**
+     * The email address password reset tokens are sent to; `null` removes it
+     * @example "chewie@kashyyyk.example"
+     */
+    @IsString()
+    @IsOptional()
+    email?: string | null;
+
+    /**
+     * Refused: changing the password needs the current one, see `POST /users/me/password`
+     */
+    @ApiHideProperty()
+    @IsEmpty({ message: 'Change your password through POST /users/me/password' })
+    password?: never;
+}
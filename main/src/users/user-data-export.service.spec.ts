@@ -0,0 +1,62 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { NotFoundException } from '@nestjs/common';
+import { User } from './user.entity';
+import { Book } from '../books/book.entity';
+import { Review } from '../reviews/review.entity';
+import { Order } from '../orders/order.entity';
+import { ManuscriptDownload } from '../manuscripts/manuscript-download.entity';
+import { UserDataExportService } from './user-data-export.service';
+
+describe('UserDataExportService', () => {
+    let service: UserDataExportService;
+    let repositories: Record<string, { findOne?: jest.Mock; find: jest.Mock }>;
+
+    beforeEach(async () => {
+        repositories = {
+            users: { findOne: jest.fn(), find: jest.fn() },
+            books: { find: jest.fn().mockResolvedValue([{ id: 3 }]) },
+            reviews: { find: jest.fn().mockResolvedValue([{ id: 4 }]) },
+            orders: { find: jest.fn().mockResolvedValue([{ id: 5, items: [] }]) },
+            downloads: { find: jest.fn().mockResolvedValue([{ id: 6 }]) },
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                UserDataExportService,
+                { provide: getRepositoryToken(User), useValue: repositories.users },
+                { provide: getRepositoryToken(Book), useValue: repositories.books },
+                { provide: getRepositoryToken(Review), useValue: repositories.reviews },
+                { provide: getRepositoryToken(Order), useValue: repositories.orders },
+                { provide: getRepositoryToken(ManuscriptDownload), useValue: repositories.downloads },
+            ],
+        }).compile();
+
+        service = module.get<UserDataExportService>(UserDataExportService);
+    });
+
+    it('should collect everything stored about the user', async () => {
+        repositories.users.findOne.mockResolvedValue({ id: 1, username: 'chewie' });
+
+        const result = await service.export(1);
+
+        expect(repositories.books.find).toHaveBeenCalledWith(expect.objectContaining({ where: { author: { id: 1 } } }));
+        expect(repositories.reviews.find).toHaveBeenCalledWith(expect.objectContaining({ where: { reviewerId: 1 } }));
+        expect(repositories.orders.find).toHaveBeenCalledWith(expect.objectContaining({ where: { buyerId: 1 } }));
+        expect(repositories.downloads.find).toHaveBeenCalledWith(expect.objectContaining({ where: { userId: 1 } }));
+        expect(result).toEqual({
+            exportedAt: expect.any(Date),
+            profile: { id: 1, username: 'chewie' },
+            books: [{ id: 3 }],
+            reviews: [{ id: 4 }],
+            orders: [{ id: 5, items: [] }],
+            manuscriptDownloads: [{ id: 6 }],
+        });
+    });
+
+    it('should throw NotFoundException for unknown users', async () => {
+        repositories.users.findOne.mockResolvedValue(null);
+
+        await expect(service.export(1)).rejects.toThrow(NotFoundException);
+    });
+});
@@ -0,0 +1,80 @@
+import { Injectable, InternalServerErrorException, HttpException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User } from './user.entity';
+import { Book } from '../books/book.entity';
+import { Review } from '../reviews/review.entity';
+import { Order } from '../orders/order.entity';
+import { ManuscriptDownload } from '../manuscripts/manuscript-download.entity';
+import { UserNotFoundException } from '../common/errors';
+
+/**
+ * Everything the service keeps about a user.
+ */
+export interface UserDataExport {
+    exportedAt: Date;
+    profile: User;
+    /** Books written by the user, in every state */
+    books: Book[];
+    reviews: Review[];
+    orders: Order[];
+    manuscriptDownloads: ManuscriptDownload[];
+}
+
+@Injectable()
+export class UserDataExportService {
+    constructor(
+        @InjectRepository(User)
+        private readonly usersRepository: Repository<User>,
+
+        @InjectRepository(Book)
+        private readonly booksRepository: Repository<Book>,
+
+        @InjectRepository(Review)
+        private readonly reviewsRepository: Repository<Review>,
+
+        @InjectRepository(Order)
+        private readonly ordersRepository: Repository<Order>,
+
+        @InjectRepository(ManuscriptDownload)
+        private readonly downloadsRepository: Repository<ManuscriptDownload>,
+    ) { }
+
+    /**
+     * Collects the data of a user, e.g. to keep a copy before deleting the account.
+     * @param userId - ID of the user.
+     * @returns The profile, books, reviews, orders and downloads of the user.
+     * @throws NotFoundException if the user does not exist
+     */
+    async export(userId: number): Promise<UserDataExport> {
+        try {
+            const profile = await this.usersRepository.findOne({ where: { id: userId } });
+
+            if (!profile) {
+                throw new UserNotFoundException();
+            }
+
+            const [books, reviews, orders, manuscriptDownloads] = await Promise.all([
+                this.booksRepository.find({
+                    where: { author: { id: userId } },
+                    relations: ['genres', 'tags'],
+                    order: { id: 'ASC' },
+                }),
+                this.reviewsRepository.find({ where: { reviewerId: userId }, order: { id: 'ASC' } }),
+                this.ordersRepository.find({
+                    where: { buyerId: userId },
+                    relations: ['items'],
+                    order: { id: 'ASC', items: { id: 'ASC' } },
+                }),
+                this.downloadsRepository.find({ where: { userId }, order: { id: 'ASC' } }),
+            ]);
+
+            return { exportedAt: new Date(), profile, books, reviews, orders, manuscriptDownloads };
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while exporting the user data', { cause: error });
+        }
+    }
+}
@@ -0,0 +1,13 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from '../common/pagination';
+import { Role } from './role.enum';
+
+/**
+ * Query parameters for listing user accounts
+ */
+export class UserListQueryDto extends PaginationQueryDto {
+    /** Only users with this role */
+    @IsEnum(Role)
+    @IsOptional()
+    role?: Role;
+}
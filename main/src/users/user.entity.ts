@@ -1,8 +1,30 @@
 
-import { Entity, Column, PrimaryGeneratedColumn, ManyToOne } from 'typeorm';
+import { Entity, Column, PrimaryGeneratedColumn, OneToMany } from 'typeorm';
 import { Book } from '../books/book.entity';
-import { Exclude } from 'class-transformer';
+import { Exclude, Expose } from 'class-transformer';
+import { Role } from './role.enum';
 
+/**
+ * Serialization group exposing the email address, for responses about the
+ * authenticated user's own account and for admins.
+ */
+export const USER_CONTACT_GROUP = 'user:contact';
+
+/**
+ * Serialization group exposing the role, suspension and deletion of an account.
+ */
+export const USER_MODERATION_GROUP = 'user:moderation';
+
+/**
+ * Groups of the admin user responses.
+ */
+export const USER_ADMIN_GROUPS = [USER_CONTACT_GROUP, USER_MODERATION_GROUP];
+
+/**
+ * An account. Without a serialization group only its public profile is
+ * exposed, as for the author of a book: `id`, `username` and `authorPseudonym`.
+ * Moderation fields are only exposed to admins, with `USER_MODERATION_GROUP`.
+ */
 @Entity()
 export class User {
     @PrimaryGeneratedColumn()
@@ -18,6 +40,49 @@ export class User {
     @Column()
     authorPseudonym: string;
 
-    @ManyToOne(() => User, (user) => user.books, { onDelete: 'CASCADE' })
+    /** Where password reset links are sent; optional */
+    @Column({ type: 'varchar', nullable: true })
+    @Expose({ groups: [USER_CONTACT_GROUP] })
+    email: string | null;
+
+    @Column({ type: 'varchar', default: Role.Author })
+    @Expose({ groups: [USER_MODERATION_GROUP] })
+    role: Role;
+
+    /** Set while an admin has suspended the account */
+    @Column({ type: 'datetime', nullable: true })
+    @Expose({ groups: [USER_MODERATION_GROUP] })
+    suspendedAt: Date | null;
+
+    @Column({ type: 'varchar', nullable: true })
+    @Expose({ groups: [USER_MODERATION_GROUP] })
+    suspensionReason: string | null;
+
+    /** Access tokens issued before this moment are rejected */
+    @Column({ type: 'datetime', nullable: true })
+    @Exclude()
+    passwordChangedAt: Date | null;
+
+    /** Wrong passwords entered since the last successful login or lockout */
+    @Column({ default: 0 })
+    @Exclude()
+    failedLoginAttempts: number;
+
+    /** Logins are refused until this moment after too many wrong passwords */
+    @Column({ type: 'datetime', nullable: true })
+    @Exclude()
+    lockedUntil: Date | null;
+
+    /** Set while the account is deleted; it can be restored until the grace period ends */
+    @Column({ type: 'datetime', nullable: true })
+    @Expose({ groups: [USER_MODERATION_GROUP] })
+    deletedAt: Date | null;
+
+    /** Set once the personal data of a deleted account has been erased */
+    @Column({ type: 'datetime', nullable: true })
+    @Expose({ groups: [USER_MODERATION_GROUP] })
+    anonymizedAt: Date | null;
+
+    @OneToMany(() => Book, (book) => book.author)
     books: Book[];
 }
@@ -1,19 +1,30 @@
-import { InternalServerErrorException, UnauthorizedException } from '@nestjs/common';
+import {
+    ConflictException,
+    InternalServerErrorException,
+    NotFoundException,
+    UnauthorizedException,
+} from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
+import { AccountDeletionService } from './account-deletion.service';
+import { UserDataExportService } from './user-data-export.service';
+import { Role } from './role.enum';
 
 describe('UsersController', () => {
     let usersController: UsersController;
     let usersService: Partial<UsersService>;
+    let accountDeletionService: Partial<AccountDeletionService>;
+    let userDataExportService: Partial<UserDataExportService>;
 
     beforeEach(async () => {
         usersService = {
             create: jest.fn(),
             findById: jest.fn(),
             update: jest.fn(),
-            delete: jest.fn(),
         };
+        accountDeletionService = { delete: jest.fn() };
+        userDataExportService = { export: jest.fn() };
 
         const module: TestingModule = await Test.createTestingModule({
             controllers: [UsersController],
@@ -22,6 +33,14 @@ describe('UsersController', () => {
                     provide: UsersService,
                     useValue: usersService,
                 },
+                {
+                    provide: AccountDeletionService,
+                    useValue: accountDeletionService,
+                },
+                {
+                    provide: UserDataExportService,
+                    useValue: userDataExportService,
+                },
             ],
         }).compile();
 
@@ -36,6 +55,15 @@ describe('UsersController', () => {
                 password: 'hashedPassword',
                 authorPseudonym: 'testuser',
                 books: [],
+                role: Role.Author,
+                suspendedAt: null,
+                suspensionReason: null,
+                email: null,
+                passwordChangedAt: null,
+                failedLoginAttempts: 0,
+                lockedUntil: null,
+                deletedAt: null,
+                anonymizedAt: null,
             };
 
             jest.spyOn(usersService, 'create').mockResolvedValue(mockUser);
@@ -73,6 +101,15 @@ describe('UsersController', () => {
                 authorPseudonym: 'Test Pseudonym',
                 password: '',
                 books: [],
+                role: Role.Author,
+                suspendedAt: null,
+                suspensionReason: null,
+                email: null,
+                passwordChangedAt: null,
+                failedLoginAttempts: 0,
+                lockedUntil: null,
+                deletedAt: null,
+                anonymizedAt: null,
             };
 
             jest.spyOn(usersService, 'findById').mockResolvedValue(mockUser);
@@ -105,6 +142,15 @@ describe('UsersController', () => {
                 authorPseudonym: 'Updated Pseudonym',
                 password: '',
                 books: [],
+                role: Role.Author,
+                suspendedAt: null,
+                suspensionReason: null,
+                email: null,
+                passwordChangedAt: null,
+                failedLoginAttempts: 0,
+                lockedUntil: null,
+                deletedAt: null,
+                anonymizedAt: null,
             };
             jest.spyOn(usersService, 'update').mockResolvedValue(mockUser);
 
@@ -117,6 +163,28 @@ describe('UsersController', () => {
             expect(result).toEqual(mockUser);
         });
 
+        it('should ignore fields users may not change themselves', async () => {
+            jest.spyOn(usersService, 'update').mockResolvedValue({} as any);
+
+            await usersController.updateProfile({ user: { id: 1 } } as any, {
+                authorPseudonym: 'Updated Pseudonym',
+                role: 'admin',
+                suspendedAt: null,
+            } as any);
+
+            expect(usersService.update).toHaveBeenCalledWith(1, { authorPseudonym: 'Updated Pseudonym' });
+        });
+
+        it('should let users set and remove their email address', async () => {
+            jest.spyOn(usersService, 'update').mockResolvedValue({} as any);
+
+            await usersController.updateProfile({ user: { id: 1 } } as any, { email: 'chewie@kashyyyk.example' });
+            await usersController.updateProfile({ user: { id: 1 } } as any, { email: null });
+
+            expect(usersService.update).toHaveBeenNthCalledWith(1, 1, { email: 'chewie@kashyyyk.example' });
+            expect(usersService.update).toHaveBeenNthCalledWith(2, 1, { email: null });
+        });
+
         it('should throw InternalServerErrorException on unexpected error', async () => {
             jest.spyOn(usersService, 'update').mockRejectedValue(new Error('Unexpected error'));
 
@@ -125,30 +193,51 @@ describe('UsersController', () => {
             ).rejects.toThrow(InternalServerErrorException);
         });
     });
-    describe('deleteProfile', () => {
-        it('should delete the user profile successfully', async () => {
-            const mockDeleteResult = { message: 'User profile deleted successfully' };
 
-            jest.spyOn(usersService, 'delete').mockResolvedValue(mockDeleteResult);
+    describe('exportData', () => {
+        it('should return the data of the user', async () => {
+            const data = { exportedAt: new Date(), profile: { id: 1 }, books: [], reviews: [], orders: [], manuscriptDownloads: [] };
+            jest.spyOn(userDataExportService, 'export').mockResolvedValue(data as any);
+
+            const result = await usersController.exportData({ user: { id: 1 } });
+
+            expect(userDataExportService.export).toHaveBeenCalledWith(1);
+            expect(result).toEqual(data);
+        });
+
+        it('should throw UnauthorizedException if the user no longer exists', async () => {
+            jest.spyOn(userDataExportService, 'export').mockRejectedValue(new NotFoundException());
+
+            await expect(usersController.exportData({ user: { id: 1 } })).rejects.toThrow(UnauthorizedException);
+        });
+    });
+
+    describe('deleteProfile', () => {
+        it('should delete the account', async () => {
+            const deletion = {
+                message: 'Account deleted',
+                deletedAt: new Date(),
+                restorableUntil: new Date(),
+                unpublishedBooks: 2,
+            };
+            jest.spyOn(accountDeletionService, 'delete').mockResolvedValue(deletion);
 
             const result = await usersController.deleteProfile({ user: { id: 1 } } as any);
 
-            expect(usersService.delete).toHaveBeenCalledWith(1);
-            expect(result).toEqual({ message: 'User profile deleted successfully' });
+            expect(accountDeletionService.delete).toHaveBeenCalledWith(1);
+            expect(result).toEqual(deletion);
         });
 
-        it('should throw NotFoundException if user is not found', async () => {
-            jest.spyOn(usersService, 'delete').mockRejectedValue(new InternalServerErrorException('User not found'));
+        it('should rethrow ConflictException for accounts already deleted', async () => {
+            jest.spyOn(accountDeletionService, 'delete').mockRejectedValue(new ConflictException());
 
-            await expect(usersController.deleteProfile({ user: { id: 99 } } as any)).rejects.toThrow(InternalServerErrorException);
-            expect(usersService.delete).toHaveBeenCalledWith(99);
+            await expect(usersController.deleteProfile({ user: { id: 1 } } as any)).rejects.toThrow(ConflictException);
         });
 
         it('should throw InternalServerErrorException on unexpected error', async () => {
-            jest.spyOn(usersService, 'delete').mockRejectedValue(new Error('Unexpected error'));
+            jest.spyOn(accountDeletionService, 'delete').mockRejectedValue(new Error('Unexpected error'));
 
             await expect(usersController.deleteProfile({ user: { id: 1 } } as any)).rejects.toThrow(InternalServerErrorException);
-            expect(usersService.delete).toHaveBeenCalledWith(1);
         });
     });
 });
@@ -5,89 +5,69 @@ import {
     Patch,
     Delete,
     Body,
-    UseGuards,
     Req,
     UnauthorizedException,
     InternalServerErrorException,
-    BadRequestException,
+    NotFoundException,
+    HttpException,
+    HttpStatus,
 } from '@nestjs/common';
+import { ApiTags } from '@nestjs/swagger';
 import { UsersService } from './users.service';
-import { JwtStrategy } from '../auth/jwt.strategy';
-import { IsString, IsNotEmpty, IsOptional } from 'class-validator';
-
-/**
- * DTO for user creation
- */
-class CreateUserDto {
-    /**
-     * The username of the user
-     * @example "testuser"
-     */
-    @IsString()
-    @IsNotEmpty()
-    username: string;
-
-    /**
-     * The password of the user
-     * @example "password123"
-     */
-    @IsString()
-    @IsNotEmpty()
-    password: string;
-}
-
-/**
- * DTO for updating user profile
- */
-class UpdateUserDto {
-    /**
-     * The updated username of the user
-     * @example "updateduser"
-     */
-    @IsString()
-    @IsOptional()
-    username?: string;
-
-    /**
-     * The updated password of the user
-     * @example "newpassword123"
-     */
-    @IsString()
-    @IsOptional()
-    password?: string;
-
-
-    /**
-     * The updated pseudonym of the author
-     * @example "authorPseudonym123"
-     */
-    @IsString()
-    @IsOptional()
-    authorPseudonym?: string;
-}
+import { USER_ADMIN_GROUPS, USER_CONTACT_GROUP } from './user.entity';
+import { AccountDeletionService } from './account-deletion.service';
+import { UserDataExportService } from './user-data-export.service';
+import { CreateUserDto } from './create-user.dto';
+import { UpdateUserDto } from './update-user.dto';
+import { instanceToPlain } from 'class-transformer';
+import { XmlRoot } from '../common/xml';
+import { ApiErrorResponses } from '../common/openapi';
+import { Roles } from '../auth/roles.decorator';
+import { Role } from './role.enum';
 
 @Controller('users')
-@UseGuards(JwtStrategy)
+@ApiTags('users')
+@XmlRoot('user')
 export class UsersController {
-    constructor(private readonly usersService: UsersService) { }
+    constructor(
+        private readonly usersService: UsersService,
+        private readonly accountDeletionService: AccountDeletionService,
+        private readonly userDataExportService: UserDataExportService,
+    ) { }
 
     /**
-     * Creates a new user
+     * Creates a new user on behalf of an admin; authors sign up through `POST /auth/register`
      * 
      * @param createUserDto - The data required to create a user
      * @returns The created user
+     * @throws BadRequestException if required fields are missing
+     * @throws ConflictException if the username is already taken
      * @throws InternalServerErrorException if an unexpected error occurs
      */
     @Post()
+    @ApiErrorResponses(
+        HttpStatus.BAD_REQUEST,
+        HttpStatus.UNAUTHORIZED,
+        HttpStatus.FORBIDDEN,
+        HttpStatus.CONFLICT,
+        HttpStatus.INTERNAL_SERVER_ERROR,
+    )
+    @Roles(Role.Admin)
     async createUser(@Body() createUserDto: CreateUserDto) {
         try {
-            return await this.usersService.create({
-                username: createUserDto.username,
-                password: createUserDto.password,
-                authorPseudonym: createUserDto.username,
-            });
+            return instanceToPlain(
+                await this.usersService.create({
+                    username: createUserDto.username,
+                    password: createUserDto.password,
+                    authorPseudonym: createUserDto.username,
+                }),
+                { groups: USER_ADMIN_GROUPS },
+            );
         } catch (error) {
-            throw new InternalServerErrorException('An error occurred while creating the user');
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while creating the user', { cause: error });
         }
     }
 
@@ -100,6 +80,7 @@ export class UsersController {
      * @throws InternalServerErrorException if an unexpected error occurs
      */
     @Get('me')
+    @ApiErrorResponses(HttpStatus.UNAUTHORIZED, HttpStatus.INTERNAL_SERVER_ERROR)
     async getProfile(@Req() req) {
         try {
             const user = await this.usersService.findById(req.user.id);
@@ -108,12 +89,14 @@ export class UsersController {
                 throw new UnauthorizedException('User not found');
             }
 
-            return user;
+            return instanceToPlain(user, { groups: [USER_CONTACT_GROUP] });
         } catch (error) {
-            if (error instanceof UnauthorizedException) {
+            if (error instanceof HttpException) {
                 throw error;
             }
-            throw new InternalServerErrorException('An error occurred while fetching the user profile');
+            throw new InternalServerErrorException('An error occurred while fetching the user profile', {
+                cause: error,
+            });
         }
     }
 
@@ -121,37 +104,83 @@ export class UsersController {
      * Updates the authenticated user's profile
      * 
      * @param req - The request object containing the authenticated user
-     * @param updateData - The data to update the user's profile
+     * @param updateData - The data to update the user's profile; only username, pseudonym and email are applied
      * @returns The updated user profile
-     * @throws BadRequestException if the update data is invalid
+     * @throws BadRequestException if the update data is invalid or contains a password, which is changed through `POST /users/me/password`
      * @throws InternalServerErrorException if an unexpected error occurs
      */
     @Patch('me')
+    @ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.UNAUTHORIZED, HttpStatus.INTERNAL_SERVER_ERROR)
     async updateProfile(@Req() req, @Body() updateData: UpdateUserDto) {
         try {
-            return await this.usersService.update(req.user.id, updateData);
+            const { username, authorPseudonym, email } = updateData ?? {};
+            const changes = Object.fromEntries(
+                Object.entries({ username, authorPseudonym, email }).filter(([, value]) => value !== undefined),
+            );
+
+            return instanceToPlain(await this.usersService.update(req.user.id, changes), { groups: [USER_CONTACT_GROUP] });
         } catch (error) {
-            if (error instanceof BadRequestException) {
+            if (error instanceof HttpException) {
                 throw error;
             }
-            throw new InternalServerErrorException('An error occurred while updating the user profile');
+            throw new InternalServerErrorException('An error occurred while updating the user profile', {
+                cause: error,
+            });
+        }
+    }
+
+    /**
+     * Exports everything stored about the authenticated user: profile, books, reviews, orders and downloads
+     * 
+     * @param req - The request object containing the authenticated user
+     * @returns The user's data
+     * @throws UnauthorizedException if the user is not found
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    @Get('me/export')
+    @ApiErrorResponses(HttpStatus.UNAUTHORIZED, HttpStatus.INTERNAL_SERVER_ERROR)
+    @XmlRoot('export')
+    async exportData(@Req() req) {
+        try {
+            return instanceToPlain(await this.userDataExportService.export(req.user.id), { groups: [USER_CONTACT_GROUP] });
+        } catch (error) {
+            if (error instanceof NotFoundException) {
+                throw new UnauthorizedException('User not found');
+            }
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while exporting the user data', { cause: error });
         }
     }
 
     /**
-     * Deletes the authenticated user's profile
+     * Deletes the authenticated user's account. The account can be restored through `POST /auth/restore`
+     * during a grace period, after which its personal data is erased. Published books are unpublished
+     * but kept for their buyers.
      * 
      * @param req - The request object containing the authenticated user
-     * @returns A success message
+     * @returns When the account was deleted and until when it can be restored
+     * @throws UnauthorizedException if the user is not found
+     * @throws ConflictException if the account is already deleted
      * @throws InternalServerErrorException if an unexpected error occurs
      */
     @Delete('me')
+    @ApiErrorResponses(HttpStatus.UNAUTHORIZED, HttpStatus.CONFLICT, HttpStatus.INTERNAL_SERVER_ERROR)
+    @XmlRoot('response')
     async deleteProfile(@Req() req) {
         try {
-            await this.usersService.delete(req.user.id);
-            return { message: 'User profile deleted successfully' };
+            return await this.accountDeletionService.delete(req.user.id);
         } catch (error) {
-            throw new InternalServerErrorException('An error occurred while deleting the user profile');
+            if (error instanceof NotFoundException) {
+                throw new UnauthorizedException('User not found');
+            }
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while deleting the user profile', {
+                cause: error,
+            });
         }
     }
 }
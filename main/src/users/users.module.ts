@@ -2,12 +2,18 @@ import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
+import { AccountDeletionService } from './account-deletion.service';
+import { UserDataExportService } from './user-data-export.service';
 import { User } from './user.entity';
+import { Book } from '../books/book.entity';
+import { Review } from '../reviews/review.entity';
+import { Order } from '../orders/order.entity';
+import { ManuscriptDownload } from '../manuscripts/manuscript-download.entity';
 
 @Module({
-    imports: [TypeOrmModule.forFeature([User])],
-    providers: [UsersService],
+    imports: [TypeOrmModule.forFeature([User, Book, Review, Order, ManuscriptDownload])],
+    providers: [UsersService, AccountDeletionService, UserDataExportService],
     controllers: [UsersController],
-    exports: [UsersService, TypeOrmModule],
+    exports: [UsersService, AccountDeletionService, TypeOrmModule],
 })
 export class UsersModule { }
@@ -1,10 +1,12 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { UsersService } from './users.service';
 import { User } from './user.entity';
-import { Repository } from 'typeorm';
+import { Role } from './role.enum';
+import { QueryFailedError, Repository } from 'typeorm';
 import { getRepositoryToken } from '@nestjs/typeorm';
 import * as bcrypt from 'bcrypt';
-import { NotFoundException, BadRequestException, InternalServerErrorException } from '@nestjs/common';
+import { AppConfigService } from '../config';
+import { NotFoundException, BadRequestException, InternalServerErrorException, ConflictException } from '@nestjs/common';
 
 describe('UsersService', () => {
     let usersService: UsersService;
@@ -18,6 +20,7 @@ describe('UsersService', () => {
                     provide: getRepositoryToken(User),
                     useClass: Repository,
                 },
+                { provide: AppConfigService, useValue: { bcryptCost: 10 } },
             ],
         }).compile();
 
@@ -53,6 +56,14 @@ describe('UsersService', () => {
             await expect(usersService.create({ username: 'testuser' } as Partial<User>)).rejects.toThrow(BadRequestException);
         });
 
+        it('should throw ConflictException if the username is already taken', async () => {
+            jest.spyOn(usersRepository, 'save').mockRejectedValueOnce(
+                new QueryFailedError('INSERT', [], new Error('SQLITE_CONSTRAINT: UNIQUE constraint failed: user.username')),
+            );
+
+            await expect(usersService.create({ username: 'testuser', password: 'password123' })).rejects.toThrow(ConflictException);
+        });
+
         it('should throw InternalServerErrorException on unexpected error', async () => {
             jest.spyOn(usersRepository, 'save').mockRejectedValueOnce(new Error('Unexpected error'));
 
@@ -62,6 +73,83 @@ describe('UsersService', () => {
         });
     });
 
+    describe('findAll', () => {
+        it('should return a page of users filtered by role', async () => {
+            const mockUsers = [{ id: 1, username: 'admin', role: Role.Admin }];
+            const queryBuilderMock = {
+                andWhere: jest.fn().mockReturnThis(),
+                orderBy: jest.fn().mockReturnThis(),
+                addOrderBy: jest.fn().mockReturnThis(),
+                offset: jest.fn().mockReturnThis(),
+                limit: jest.fn().mockReturnThis(),
+                getCount: jest.fn().mockResolvedValue(1),
+                getMany: jest.fn().mockResolvedValue(mockUsers),
+            };
+            jest.spyOn(usersRepository, 'createQueryBuilder').mockReturnValue(queryBuilderMock as any);
+
+            const result = await usersService.findAll({ role: Role.Admin, sort: 'username' });
+
+            expect(queryBuilderMock.andWhere).toHaveBeenCalledWith('user.role = :role', { role: 'admin' });
+            expect(queryBuilderMock.orderBy).toHaveBeenCalledWith('user.username', 'ASC');
+            expect(result.data).toEqual(mockUsers);
+            expect(result.meta.total).toBe(1);
+        });
+
+        it('should throw BadRequestException for unknown roles', async () => {
+            jest.spyOn(usersRepository, 'createQueryBuilder').mockReturnValue({} as any);
+
+            await expect(usersService.findAll({ role: 'sith' } as any)).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('setRole', () => {
+        it('should change the role of the user', async () => {
+            jest.spyOn(usersService, 'findById').mockResolvedValue({ id: 2, role: Role.Author } as User);
+            jest.spyOn(usersRepository, 'save').mockImplementation(async (user) => user as User);
+
+            const result = await usersService.setRole(2, Role.Moderator);
+
+            expect(usersRepository.save).toHaveBeenCalledWith({ id: 2, role: Role.Moderator });
+            expect(result.role).toBe(Role.Moderator);
+        });
+
+        it('should throw BadRequestException for unknown roles', async () => {
+            await expect(usersService.setRole(2, 'sith' as Role)).rejects.toThrow(BadRequestException);
+        });
+    });
+
+    describe('setSuspended', () => {
+        it('should record the suspension with its reason', async () => {
+            jest.spyOn(usersService, 'findById').mockResolvedValue({ id: 2, suspendedAt: null } as User);
+            jest.spyOn(usersRepository, 'save').mockImplementation(async (user) => user as User);
+
+            const result = await usersService.setSuspended(2, true, 'Sith propaganda');
+
+            expect(result.suspendedAt).toBeInstanceOf(Date);
+            expect(result.suspensionReason).toBe('Sith propaganda');
+        });
+
+        it('should clear the suspension when reinstating', async () => {
+            jest.spyOn(usersService, 'findById').mockResolvedValue({
+                id: 2,
+                suspendedAt: new Date(),
+                suspensionReason: 'Sith propaganda',
+            } as User);
+            jest.spyOn(usersRepository, 'save').mockImplementation(async (user) => user as User);
+
+            const result = await usersService.setSuspended(2, false);
+
+            expect(result.suspendedAt).toBeNull();
+            expect(result.suspensionReason).toBeNull();
+        });
+
+        it('should throw NotFoundException if the user does not exist', async () => {
+            jest.spyOn(usersService, 'findById').mockRejectedValue(new NotFoundException());
+
+            await expect(usersService.setSuspended(99, true)).rejects.toThrow(NotFoundException);
+        });
+    });
+
     describe('findByUsername', () => {
         it('should return a user by username', async () => {
             const mockUser: User = { id: 1, username: 'testuser', password: 'hashedPassword' } as User;
@@ -121,35 +209,56 @@ describe('UsersService', () => {
             });
         });
 
-        it('should throw NotFoundException if user is not found', async () => {
-            jest.spyOn(usersService, 'findById').mockRejectedValue(new NotFoundException());
+        it('should hash a new password and record when it changed', async () => {
+            jest.spyOn(usersRepository, 'update').mockResolvedValue({ affected: 1, raw: [] } as any);
+            jest.spyOn(usersService, 'findById').mockResolvedValue({ id: 1 } as User);
 
-            const updatedData: Partial<User> = { username: 'updateduser' };
+            await usersService.update(1, { password: 'newpassword123' });
 
-            await expect(usersService.update(99, updatedData)).rejects.toThrow(NotFoundException);
+            const [, changes] = (usersRepository.update as jest.Mock).mock.calls[0];
+            expect(await bcrypt.compare('newpassword123', changes.password)).toBe(true);
+            expect(changes.passwordChangedAt).toBeInstanceOf(Date);
         });
-    });
 
-    describe('delete', () => {
-        it('should delete a user by ID', async () => {
-            jest.spyOn(usersRepository, 'delete').mockResolvedValue({ affected: 1, raw: [] } as any);
+        it('should throw BadRequestException for invalid email addresses', async () => {
+            jest.spyOn(usersService, 'findById').mockResolvedValue({ id: 1 } as User);
+            jest.spyOn(usersRepository, 'update');
+
+            await expect(usersService.update(1, { email: 'not-an-email' })).rejects.toThrow(BadRequestException);
+            expect(usersRepository.update).not.toHaveBeenCalled();
+        });
 
-            const result = await usersService.delete(1);
+        it('should throw ConflictException if the new username is already taken', async () => {
+            jest.spyOn(usersService, 'findById').mockResolvedValue({ id: 1 } as User);
+            jest.spyOn(usersRepository, 'update').mockRejectedValueOnce(
+                new QueryFailedError('UPDATE', [], new Error('SQLITE_CONSTRAINT: UNIQUE constraint failed: user.username')),
+            );
 
-            expect(usersRepository.delete).toHaveBeenCalledWith(1);
-            expect(result).toEqual({ message: 'User successfully deleted' });
+            await expect(usersService.update(1, { username: 'chewie' })).rejects.toThrow(ConflictException);
         });
 
         it('should throw NotFoundException if user is not found', async () => {
-            jest.spyOn(usersRepository, 'delete').mockResolvedValue({ affected: 0, raw: [] } as any);
+            jest.spyOn(usersService, 'findById').mockRejectedValue(new NotFoundException());
+
+            const updatedData: Partial<User> = { username: 'updateduser' };
 
-            await expect(usersService.delete(99)).rejects.toThrow(NotFoundException);
+            await expect(usersService.update(99, updatedData)).rejects.toThrow(NotFoundException);
         });
+    });
 
-        it('should throw InternalServerErrorException on unexpected error', async () => {
-            jest.spyOn(usersRepository, 'delete').mockRejectedValue(new Error('Unexpected error'));
+    describe('setPassword', () => {
+        it('should hash the password and lift the lockout', async () => {
+            jest.spyOn(usersService, 'findById').mockResolvedValue({
+                id: 1,
+                failedLoginAttempts: 3,
+                lockedUntil: new Date(),
+            } as User);
+            jest.spyOn(usersRepository, 'save').mockImplementation(async (user) => user as User);
+
+            const user = await usersService.setPassword(1, 'newpassword123');
 
-            await expect(usersService.delete(1)).rejects.toThrow(InternalServerErrorException);
+            expect(await bcrypt.compare('newpassword123', user.password)).toBe(true);
+            expect(user).toMatchObject({ failedLoginAttempts: 0, lockedUntil: null, passwordChangedAt: expect.any(Date) });
         });
     });
 });
@@ -1,27 +1,38 @@
 import {
     Injectable,
-    NotFoundException,
     BadRequestException,
     InternalServerErrorException,
+    HttpException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { QueryFailedError, Repository } from 'typeorm';
 import { User } from './user.entity';
+import { Role } from './role.enum';
+import { UserListQueryDto } from './user-list-query.dto';
+import { Paginated, SortKey, paginate, parsePagination, parseSort } from '../common/pagination';
 import * as bcrypt from 'bcrypt';
+import { isEmail } from 'class-validator';
+import { UserNotFoundException, UsernameTakenException, ValidationFailedException } from '../common/errors';
+import { AppConfigService } from '../config';
+
+const USER_SORT_TIE_BREAKER: SortKey = { field: 'id', column: 'user.id', direction: 'ASC' };
 
 @Injectable()
 export class UsersService {
     constructor(
         @InjectRepository(User)
         private readonly usersRepository: Repository<User>,
+
+        private readonly config: AppConfigService,
     ) { }
 
     /**
      * Creates a new user with encrypted password.
      *
-     * @param user - Partial user data containing `username` and `password`
+     * @param user - Partial user data containing `username` and `password`, and optionally `email`
      * @returns The created user
-     * @throws BadRequestException if required fields are missing
+     * @throws BadRequestException if required fields are missing or the email address is invalid
+     * @throws ConflictException if the username is already taken
      * @throws InternalServerErrorException if an unexpected error occurs
      */
     async create(user: Partial<User>): Promise<User> {
@@ -30,13 +41,52 @@ export class UsersService {
                 throw new BadRequestException('Username and password are required');
             }
 
-            user.password = await bcrypt.hash(user.password, 10);
+            this.assertValidEmail(user.email);
+            user.password = await bcrypt.hash(user.password, this.config.bcryptCost);
             return await this.usersRepository.save(user);
         } catch (error) {
-            if (error instanceof BadRequestException) {
+            if (error instanceof QueryFailedError && /UNIQUE constraint failed/i.test(error.message)) {
+                throw new UsernameTakenException();
+            }
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while creating the user', { cause: error });
+        }
+    }
+
+    /**
+     * Lists all users, one page at a time.
+     *
+     * @param query - Pagination (`page`, `limit`, `cursor`), `sort` over `id`/`username`/`role`, and optional `role` filter
+     * @returns One page of users with pagination metadata
+     * @throws BadRequestException if the sort or pagination parameters are invalid
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    async findAll(query: UserListQueryDto = {}): Promise<Paginated<User>> {
+        try {
+            const sort = parseSort(
+                query.sort,
+                { id: 'user.id', username: 'user.username', role: 'user.role' },
+                [USER_SORT_TIE_BREAKER],
+                USER_SORT_TIE_BREAKER,
+            );
+            const pagination = parsePagination(query, sort);
+            const queryBuilder = this.usersRepository.createQueryBuilder('user');
+
+            if (query.role !== undefined) {
+                if (!Object.values(Role).includes(query.role)) {
+                    throw new BadRequestException(`role must be one of: ${Object.values(Role).join(', ')}`);
+                }
+                queryBuilder.andWhere('user.role = :role', { role: query.role });
+            }
+
+            return await paginate(queryBuilder, sort, pagination);
+        } catch (error) {
+            if (error instanceof HttpException) {
                 throw error;
             }
-            throw new InternalServerErrorException('An error occurred while creating the user');
+            throw new InternalServerErrorException('An error occurred while fetching users', { cause: error });
         }
     }
 
@@ -51,7 +101,9 @@ export class UsersService {
         try {
             return await this.usersRepository.findOne({ where: { username } });
         } catch (error) {
-            throw new InternalServerErrorException('An error occurred while fetching the user by username');
+            throw new InternalServerErrorException('An error occurred while fetching the user by username', {
+                cause: error,
+            });
         }
     }
 
@@ -68,25 +120,27 @@ export class UsersService {
             const user = await this.usersRepository.findOne({ where: { id } });
 
             if (!user) {
-                throw new NotFoundException('User not found');
+                throw new UserNotFoundException();
             }
 
             return user;
         } catch (error) {
-            if (error instanceof NotFoundException) {
+            if (error instanceof HttpException) {
                 throw error;
             }
-            throw new InternalServerErrorException('An error occurred while fetching the user by ID');
+            throw new InternalServerErrorException('An error occurred while fetching the user by ID', { cause: error });
         }
     }
 
     /**
-     * Updates a user's details.
+     * Updates a user's details. A new password is hashed and invalidates the user's access tokens.
      *
      * @param id - The ID of the user to update
      * @param updateData - Partial data to update the user
      * @returns The updated user
+     * @throws BadRequestException if the email address is invalid
      * @throws NotFoundException if the user does not exist
+     * @throws ConflictException if the new username is already taken
      * @throws InternalServerErrorException if an unexpected error occurs
      */
     async update(id: number, updateData: Partial<User>): Promise<User> {
@@ -94,41 +148,114 @@ export class UsersService {
             const existingUser = await this.findById(id);
 
             if (!existingUser) {
-                throw new NotFoundException('User not found');
+                throw new UserNotFoundException();
+            }
+
+            this.assertValidEmail(updateData.email);
+
+            if (updateData.password !== undefined) {
+                updateData = {
+                    ...updateData,
+                    password: await bcrypt.hash(updateData.password, this.config.bcryptCost),
+                    passwordChangedAt: new Date(),
+                };
             }
 
             await this.usersRepository.update(id, updateData);
             return await this.findById(id);
         } catch (error) {
-            if (error instanceof NotFoundException) {
+            if (error instanceof QueryFailedError && /UNIQUE constraint failed/i.test(error.message)) {
+                throw new UsernameTakenException();
+            }
+            if (error instanceof HttpException) {
+                throw error;
+            }
+            throw new InternalServerErrorException('An error occurred while updating the user', { cause: error });
+        }
+    }
+
+    /**
+     * Replaces a user's password and lifts any login lockout. Access tokens
+     * issued before the change are rejected from then on.
+     *
+     * @param id - The ID of the user
+     * @param password - The new plain-text password, already checked against the policy
+     * @returns The updated user
+     * @throws NotFoundException if the user does not exist
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    async setPassword(id: number, password: string): Promise<User> {
+        try {
+            const user = await this.findById(id);
+            user.password = await bcrypt.hash(password, this.config.bcryptCost);
+            user.passwordChangedAt = new Date();
+            user.failedLoginAttempts = 0;
+            user.lockedUntil = null;
+            return await this.usersRepository.save(user);
+        } catch (error) {
+            if (error instanceof HttpException) {
                 throw error;
             }
-            throw new InternalServerErrorException('An error occurred while updating the user');
+            throw new InternalServerErrorException('An error occurred while changing the password', { cause: error });
         }
     }
 
     /**
-     * Deletes a user by ID.
+     * Changes the role of a user.
      *
-     * @param id - The ID of the user to delete
-     * @returns A success message if the user was deleted
+     * @param id - The ID of the user
+     * @param role - The new role
+     * @returns The updated user
+     * @throws BadRequestException if the role is unknown
      * @throws NotFoundException if the user does not exist
      * @throws InternalServerErrorException if an unexpected error occurs
      */
-    async delete(id: number): Promise<{ message: string }> {
+    async setRole(id: number, role: Role): Promise<User> {
         try {
-            const result = await this.usersRepository.delete(id);
+            if (!Object.values(Role).includes(role)) {
+                throw new BadRequestException(`role must be one of: ${Object.values(Role).join(', ')}`);
+            }
 
-            if (result.affected === 0) {
-                throw new NotFoundException('User not found');
+            const user = await this.findById(id);
+            user.role = role;
+            return await this.usersRepository.save(user);
+        } catch (error) {
+            if (error instanceof HttpException) {
+                throw error;
             }
+            throw new InternalServerErrorException('An error occurred while changing the user role', { cause: error });
+        }
+    }
 
-            return { message: 'User successfully deleted' };
+    /**
+     * Suspends or reinstates a user. Suspended users can neither log in nor use existing tokens.
+     *
+     * @param id - The ID of the user
+     * @param suspended - `true` to suspend, `false` to reinstate
+     * @param reason - Optional reason recorded with the suspension
+     * @returns The updated user
+     * @throws NotFoundException if the user does not exist
+     * @throws InternalServerErrorException if an unexpected error occurs
+     */
+    async setSuspended(id: number, suspended: boolean, reason?: string): Promise<User> {
+        try {
+            const user = await this.findById(id);
+            user.suspendedAt = suspended ? user.suspendedAt ?? new Date() : null;
+            user.suspensionReason = suspended ? reason ?? null : null;
+            return await this.usersRepository.save(user);
         } catch (error) {
-            if (error instanceof NotFoundException) {
+            if (error instanceof HttpException) {
                 throw error;
             }
-            throw new InternalServerErrorException('An error occurred while deleting the user');
+            throw new InternalServerErrorException('An error occurred while updating the user suspension', {
+                cause: error,
+            });
+        }
+    }
+
+    private assertValidEmail(email: string | null | undefined) {
+        if (email !== undefined && email !== null && !isEmail(email)) {
+            throw new ValidationFailedException([{ field: 'email', message: 'email must be a valid email address' }]);
         }
     }
 }